@@ -0,0 +1,279 @@
+/**
+ * CLI de Escáner IG: el mismo análisis que la web, desde la terminal, para procesar varios exports con scripts.
+ *
+ * Relación con otros archivos:
+ * - Usa el pipeline de la web tal cual: `importRelationshipFiles` / `summarizeImportedFiles`
+ *   (`src/lib/relationshipImport.ts`), `computeRelationshipBreakdown` y, con `--compare`, `compareExports`.
+ * - Las rutas del disco se convierten en entradas del pipeline en `cli/nodeInputs.ts`; la salida, en `cli/output.ts`.
+ * - Los mensajes salen de `src/locales/*.ts` (claves `cli.*`), en el idioma de `--lang` o del sistema.
+ * - Se compila con `npm run build:cli` (`vite.cli.config.ts`) a `dist-cli/escaner-ig.js`.
+ *
+ * Códigos de salida (para scripts):
+ * - 0: listo.
+ * - 1: error inesperado.
+ * - 2: argumentos inválidos o rutas que no existen.
+ * - 3: no hay seguidores y seguidos, o faltan archivos del checklist (sin `--allow-incomplete`).
+ *
+ * Nota:
+ * - No usa la red: solo lee las rutas indicadas y escribe en stdout/stderr o en `--out`.
+ * - El resultado va a stdout; avisos, checklist y errores, a stderr (así `> salida.csv` queda limpio).
+ */
+
+import { writeFile } from 'node:fs/promises'
+import process from 'node:process'
+import { parseArgs } from 'node:util'
+import { createI18n, type I18n } from '../src/components/i18nContext'
+import { compareExports } from '../src/lib/exportComparison'
+import { DEFAULT_LOCALE, detectLocale, isLocale, LOCALES, type Locale } from '../src/lib/i18n'
+import type { Notice } from '../src/lib/notices'
+import { computeRelationshipBreakdown } from '../src/lib/relationshipBreakdown'
+import type { RelationshipDiff } from '../src/lib/relationshipDiff'
+import {
+  importRelationshipFiles,
+  summarizeImportedFiles,
+  type ImportedRelationshipFile,
+  type RelationshipImportSummary,
+} from '../src/lib/relationshipImport'
+import { collectImportInputs, InputPathError } from './nodeInputs'
+import { formatOutput, OUTPUT_FORMATS, type CliList, type OutputFormat } from './output'
+
+const EXIT_OK = 0
+const EXIT_ERROR = 1
+const EXIT_USAGE = 2
+const EXIT_INCOMPLETE = 3
+
+const BREAKDOWN_LISTS = ['notFollowingBack', 'fans', 'mutuals'] as const
+const DIFF_LISTS = ['newFollowers', 'lostFollowers', 'newFollowing', 'stoppedFollowingBack'] as const
+
+type LoadedExport = {
+  files: ImportedRelationshipFile[]
+  summary: RelationshipImportSummary
+}
+
+/** Error ya explicado al usuario: se muestra el mensaje y se sale con `exitCode`. */
+class CliError extends Error {
+  readonly exitCode: number
+
+  constructor(message: string, exitCode: number) {
+    super(message)
+    this.name = 'CliError'
+    this.exitCode = exitCode
+  }
+}
+
+/** `LANG=pt_BR.UTF-8` => "pt"; `C` / `POSIX` caen en el idioma por defecto. */
+function systemLocale(): Locale {
+  const { LC_ALL, LC_MESSAGES, LANG } = process.env
+  const languages = [LC_ALL, LC_MESSAGES, LANG].flatMap((value) => (value ? [value.split(/[_.@]/)[0] ?? ''] : []))
+  return languages.length > 0 ? detectLocale(languages) : DEFAULT_LOCALE
+}
+
+function parseCliArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    strict: true,
+    options: {
+      format: { type: 'string', short: 'f', default: 'table' },
+      list: { type: 'string', short: 'l', multiple: true },
+      compare: { type: 'string', short: 'c', multiple: true },
+      out: { type: 'string', short: 'o' },
+      lang: { type: 'string' },
+      'allow-incomplete': { type: 'boolean', default: false },
+      quiet: { type: 'boolean', short: 'q', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  })
+}
+
+type CliArgs = ReturnType<typeof parseCliArgs>
+
+function printError(message: string): void {
+  process.stderr.write(`${message}\n`)
+}
+
+/**
+ * Lee un export (una o varias rutas) con el pipeline de la web. Avisos y archivos saltados van a stderr.
+ */
+async function loadExport(paths: string[], i18n: I18n, quiet: boolean): Promise<LoadedExport> {
+  let inputs
+  try {
+    inputs = await collectImportInputs(paths)
+  } catch (e) {
+    if (e instanceof InputPathError) throw new CliError(i18n.t('cli.pathNotFound', { path: e.path }), EXIT_USAGE)
+    throw e
+  }
+
+  const batch = await importRelationshipFiles(inputs)
+  const summary = summarizeImportedFiles(batch.files)
+  if (!quiet) {
+    for (const s of batch.skipped) printError(i18n.t('cli.skipped', { path: s.path, reason: i18n.notice(s.reason) }))
+    for (const f of batch.files) {
+      for (const w of f.warnings) printError(i18n.t('app.warningInFile', { file: f.path, message: i18n.notice(w) }))
+    }
+    for (const item of summary.checklist) printError(`${item.done ? '✓' : '•'} ${i18n.notice(item.label)}`)
+  }
+  return { files: batch.files, summary }
+}
+
+/** Exige seguidores y seguidos, y el checklist completo salvo `--allow-incomplete`. */
+function requireComplete(loaded: LoadedExport, paths: string[], allowIncomplete: boolean, i18n: I18n) {
+  const { followers, following } = loaded.summary.lists
+  if (!followers || !following) {
+    throw new CliError(i18n.t('cli.missingLists', { paths: paths.join(', ') }), EXIT_INCOMPLETE)
+  }
+  if (!loaded.summary.complete && !allowIncomplete) throw new CliError(i18n.t('cli.incomplete'), EXIT_INCOMPLETE)
+  return { followers, following }
+}
+
+function diffLists(diff: RelationshipDiff, i18n: I18n): CliList[] {
+  const { t } = i18n
+  return [
+    {
+      id: 'newFollowers',
+      label: t('diff.newFollowers'),
+      entries: diff.newFollowers,
+      emptyMessage: t('diff.newFollowersEmpty'),
+      dateLabel: t('date.followsYouSince'),
+    },
+    {
+      id: 'lostFollowers',
+      label: t('diff.lostFollowers'),
+      entries: diff.lostFollowers,
+      emptyMessage: t('diff.lostFollowersEmpty'),
+      dateLabel: t('date.followedYouSince'),
+    },
+    {
+      id: 'newFollowing',
+      label: t('diff.newFollowing'),
+      entries: diff.newFollowing,
+      emptyMessage: t('diff.newFollowingEmpty'),
+      dateLabel: t('date.followedOn'),
+    },
+    {
+      id: 'stoppedFollowingBack',
+      label: t('diff.stoppedFollowingBack'),
+      entries: diff.stoppedFollowingBack,
+      emptyMessage: t('diff.stoppedFollowingBackEmpty'),
+      dateLabel: t('date.followedOn'),
+    },
+  ]
+}
+
+async function run({ values, positionals }: CliArgs, i18n: I18n): Promise<number> {
+  const { t } = i18n
+  if (values.help) {
+    process.stdout.write(`${t('cli.usage')}\n`)
+    return EXIT_OK
+  }
+  if (positionals.length === 0) throw new CliError(t('cli.noInputs'), EXIT_USAGE)
+  if (values.lang !== undefined && !isLocale(values.lang)) {
+    const allowed = LOCALES.map((l) => l.id).join(', ')
+    throw new CliError(t('cli.invalidValue', { option: '--lang', value: values.lang, allowed }), EXIT_USAGE)
+  }
+
+  const format = values.format as OutputFormat
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new CliError(
+      t('cli.invalidValue', { option: '--format', value: values.format, allowed: OUTPUT_FORMATS.join(', ') }),
+      EXIT_USAGE,
+    )
+  }
+  const compare = values.compare ?? []
+  const available: string[] = [...BREAKDOWN_LISTS, ...(compare.length > 0 ? DIFF_LISTS : [])]
+  for (const id of values.list ?? []) {
+    if (!available.includes(id)) {
+      throw new CliError(t('cli.invalidValue', { option: '--list', value: id, allowed: available.join(', ') }), EXIT_USAGE)
+    }
+  }
+
+  const allowIncomplete = values['allow-incomplete']
+  const current = await loadExport(positionals, i18n, values.quiet)
+  const { followers, following } = requireComplete(current, positionals, allowIncomplete, i18n)
+
+  const breakdown = computeRelationshipBreakdown(followers, following)
+  const lists: CliList[] = [
+    {
+      id: 'notFollowingBack',
+      label: t('tab.notFollowingBack'),
+      entries: breakdown.notFollowingBack,
+      emptyMessage: t('tab.notFollowingBackEmpty'),
+      dateLabel: t('date.followedOn'),
+    },
+    {
+      id: 'fans',
+      label: t('tab.fans'),
+      entries: breakdown.fans,
+      emptyMessage: t('tab.fansEmpty'),
+      dateLabel: t('date.followsYouSince'),
+    },
+    {
+      id: 'mutuals',
+      label: t('tab.mutuals'),
+      entries: breakdown.mutuals,
+      emptyMessage: t('tab.mutualsEmpty'),
+      dateLabel: t('date.followedOn'),
+    },
+  ]
+
+  const warnings: Notice[] = current.files.flatMap((f) => f.warnings)
+  let sourceFiles = current.files.map((f) => f.path)
+  if (compare.length > 0) {
+    const previous = await loadExport(compare, i18n, values.quiet)
+    const previousLists = requireComplete(previous, compare, allowIncomplete, i18n)
+    const comparison = compareExports(
+      { files: previous.files, lists: previousLists },
+      { files: current.files, lists: { followers, following } },
+    )
+    if (!values.quiet) for (const w of comparison.warnings) printError(i18n.notice(w))
+    warnings.push(...comparison.warnings)
+    sourceFiles = [...previous.files.map((f) => f.path), ...sourceFiles]
+    lists.push(...diffLists(comparison.diff, i18n))
+  }
+
+  const selected = values.list && values.list.length > 0 ? lists.filter((l) => values.list?.includes(l.id)) : lists
+  const output = formatOutput(
+    format,
+    selected,
+    { sourceFiles: [...new Set(sourceFiles)], warnings: warnings.map(i18n.notice) },
+    { usernameHeader: t('cli.usernameHeader'), formatDate: i18n.formatDate },
+  )
+
+  if (values.out) {
+    await writeFile(values.out, output, 'utf8')
+    if (!values.quiet) printError(t('cli.written', { path: values.out }))
+  } else {
+    process.stdout.write(output)
+  }
+  return EXIT_OK
+}
+
+/**
+ * Punto de entrada: devuelve el código de salida en vez de llamar a `process.exit`, para no cortar stdout a medias.
+ */
+async function main(argv: string[]): Promise<number> {
+  let args: CliArgs | null = null
+  let argsError = ''
+  try {
+    args = parseCliArgs(argv)
+  } catch (e) {
+    argsError = e instanceof Error ? e.message : String(e)
+  }
+  // El idioma se resuelve antes que nada, para que hasta los errores de argumentos salgan traducidos.
+  const lang = args?.values.lang
+  const i18n = createI18n(lang && isLocale(lang) ? lang : systemLocale(), () => {})
+
+  try {
+    if (!args) throw new CliError(i18n.t('cli.badArguments', { message: argsError }), EXIT_USAGE)
+    return await run(args, i18n)
+  } catch (e) {
+    if (e instanceof CliError) {
+      printError(e.message)
+      return e.exitCode
+    }
+    printError(i18n.t('cli.unexpectedError', { message: e instanceof Error ? e.message : String(e) }))
+    return EXIT_ERROR
+  }
+}
+
+process.exitCode = await main(process.argv.slice(2))
@@ -0,0 +1,72 @@
+/**
+ * Convierte rutas del disco (ZIP del export, carpeta descomprimida o archivos sueltos) en entradas del mismo
+ * pipeline de importación que usa la web.
+ *
+ * Relación con otros archivos:
+ * - Lo usa `cli/escaner-ig.ts`; las entradas van a `importRelationshipFiles` (`src/lib/relationshipImport.ts`).
+ *
+ * Nota:
+ * - Los archivos no se leen aquí: `openAsBlob` da un `Blob` respaldado por el archivo y el pipeline lo lee como
+ *   stream, igual que un `File` del navegador (los ZIP de varios GB no se cargan enteros en memoria).
+ * - Las rutas se pasan con `/` y relativas a la carpeta elegida, como `webkitRelativePath` en el navegador.
+ */
+
+import { openAsBlob } from 'node:fs'
+import { readdir, stat } from 'node:fs/promises'
+import path from 'node:path'
+import type { ImportInput } from '../src/lib/relationshipImport'
+
+/** La ruta pedida no existe o no se puede leer. */
+export class InputPathError extends Error {
+  readonly path: string
+
+  constructor(inputPath: string) {
+    super(inputPath)
+    this.name = 'InputPathError'
+    this.path = inputPath
+  }
+}
+
+async function toFile(filePath: string): Promise<File> {
+  const blob = await openAsBlob(filePath)
+  return new File([blob], path.basename(filePath))
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  const files: string[] = []
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const full = path.join(dir, entry.name)
+    if (entry.isDirectory()) files.push(...(await listFiles(full)))
+    else if (entry.isFile()) files.push(full)
+  }
+  return files.sort()
+}
+
+/**
+ * Una carpeta se recorre entera (sus archivos entran como `origin: 'folder'`); un archivo suelto, incluido
+ * un ZIP, entra como `origin: 'direct'`.
+ */
+export async function collectImportInputs(paths: string[]): Promise<ImportInput[]> {
+  const inputs: ImportInput[] = []
+  for (const inputPath of paths) {
+    let isDirectory: boolean
+    try {
+      isDirectory = (await stat(inputPath)).isDirectory()
+    } catch {
+      throw new InputPathError(inputPath)
+    }
+
+    if (!isDirectory) {
+      inputs.push({ file: await toFile(inputPath), path: path.basename(inputPath), origin: 'direct' })
+      continue
+    }
+
+    const root = path.resolve(inputPath)
+    const base = path.basename(root)
+    for (const filePath of await listFiles(root)) {
+      const relative = path.relative(root, filePath).split(path.sep).join('/')
+      inputs.push({ file: await toFile(filePath), path: `${base}/${relative}`, origin: 'folder' })
+    }
+  }
+  return inputs
+}
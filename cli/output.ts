@@ -0,0 +1,59 @@
+/**
+ * Salida del CLI: tabla para leer en la terminal, o CSV / JSON para scripts.
+ *
+ * Relación con otros archivos:
+ * - Lo usa `cli/escaner-ig.ts`.
+ * - El CSV y el JSON son los mismos que descarga la web (`src/lib/resultExport.ts`), así un script puede
+ *   procesar indistintamente un archivo bajado desde la página o generado por el CLI.
+ */
+
+import { buildCsv, buildJsonReport, buildListsCsv, type ExportableList, type ResultExportContext } from '../src/lib/resultExport'
+
+export type OutputFormat = 'table' | 'csv' | 'json'
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['table', 'csv', 'json']
+
+/** Una lista del resultado, con los textos que necesita la tabla. */
+export type CliList = ExportableList & {
+  emptyMessage: string
+  dateLabel: string
+}
+
+export type TableTexts = {
+  usernameHeader: string
+  /** `ms` en milisegundos desde epoch, en el idioma elegido. */
+  formatDate: (ms: number) => string
+}
+
+function buildTable(lists: CliList[], texts: TableTexts): string {
+  const blocks = lists.map((l) => {
+    const lines = [`${l.label} (${l.entries.length})`]
+    if (l.entries.length === 0) return [...lines, `  ${l.emptyMessage}`].join('\n')
+
+    const width = Math.max(texts.usernameHeader.length, ...l.entries.map((e) => e.username.length))
+    lines.push(`  ${texts.usernameHeader.padEnd(width)}  ${l.dateLabel}`)
+    for (const e of l.entries) {
+      const date = e.timestamp === null ? '-' : texts.formatDate(e.timestamp * 1000)
+      lines.push(`  ${e.username.padEnd(width)}  ${date}`)
+    }
+    return lines.join('\n')
+  })
+  return `${blocks.join('\n\n')}\n`
+}
+
+/**
+ * Arma el texto final. Con CSV, una sola lista sale con las columnas de siempre; varias, con la columna `list`.
+ */
+export function formatOutput(
+  format: OutputFormat,
+  lists: CliList[],
+  context: ResultExportContext,
+  texts: TableTexts,
+): string {
+  if (format === 'json') return `${buildJsonReport(lists, context)}\n`
+  if (format === 'csv') {
+    const [only] = lists
+    return lists.length === 1 && only ? buildCsv(only.entries) : buildListsCsv(lists)
+  }
+  return buildTable(lists, texts)
+}
@@ -1,149 +1,299 @@
-import { useEffect, useMemo, useState } from 'react'
+import { lazy, Suspense, useEffect, useMemo, useRef, useState } from 'react'
 import './App.css'
-import { parseInstagramRelationshipJson } from './lib/instagramExport'
-import { parseInstagramRelationshipHtml } from './lib/instagramExportHtml'
-import { LegalPage, type LegalRoute } from './pages/LegalPage'
+import { AudienceOverlap, type OverlapAccount } from './components/AudienceOverlap'
+import { BackupPanel } from './components/BackupPanel'
+import { ExportComparison } from './components/ExportComparison'
+import { FileDropZone } from './components/FileDropZone'
+import { useI18n } from './components/i18nContext'
+import { ImportChecklist } from './components/ImportChecklist'
+import { ImportDiagnostics } from './components/ImportDiagnostics'
+import { ImportProgressList } from './components/ImportProgressList'
+import { KeepListPanel } from './components/KeepListPanel'
+import { LanguageSwitcher } from './components/LanguageSwitcher'
+import { PastedListPanel } from './components/PastedListPanel'
+import { RelationshipResults, type ResultTab } from './components/RelationshipResults'
+import { ReviewQueue } from './components/ReviewQueue'
+import { RichText } from './components/RichText'
+import { SnapshotHistory } from './components/SnapshotHistory'
+import { StatsDashboard } from './components/StatsDashboard'
+import { useBackgroundImport } from './components/useBackgroundImport'
+import { useHashRoute } from './components/useHashRoute'
+import { useKeepList } from './components/useKeepList'
+import { useLaunchFiles } from './components/useLaunchFiles'
+import { useWorkspaces } from './components/useWorkspaces'
+import { WorkspaceBar } from './components/WorkspaceBar'
+import {
+  mergeImportedFiles,
+  summarizeImportedFiles,
+  type ImportedRelationshipFile,
+  type ImportInput,
+  type RelationshipFileKind,
+} from './lib/relationshipImport'
+import type { InstagramRelationshipListKind } from './lib/instagramExport'
+import { computeRelationshipBreakdown } from './lib/relationshipBreakdown'
+import { DEFAULT_RESULTS_VIEW, HOME_ROUTE, navigate, type AppRoute, type ResultsRoute } from './lib/routes'
+import type { MessageKey } from './locales'
+import { NotFoundPage } from './pages/NotFoundPage'
+
+// Las páginas legales se cargan recién cuando se abren: no suman peso a la carga inicial del escáner.
+const LegalPage = lazy(() => import('./pages/LegalPage').then((m) => ({ default: m.LegalPage })))
+
+type OtherListKind = Exclude<InstagramRelationshipListKind, 'followers' | 'following'>
+
+// Orden de las pestañas extra: primero lo más accionable (solicitudes que nunca aceptaron).
+const OTHER_LIST_ORDER: OtherListKind[] = [
+  'follow_requests_sent',
+  'recent_follow_requests',
+  'follow_requests_received',
+  'recently_unfollowed',
+  'close_friends',
+  'hide_story_from',
+  'restricted',
+  'blocked',
+  'removed_suggestions',
+  'followed_hashtags',
+]
+
+const OTHER_LIST_DATE_LABELS: Record<OtherListKind, MessageKey> = {
+  follow_requests_sent: 'date.requestSentOn',
+  recent_follow_requests: 'date.requestSentOn',
+  follow_requests_received: 'date.requestReceivedOn',
+  recently_unfollowed: 'date.unfollowedOn',
+  close_friends: 'date.addedOn',
+  hide_story_from: 'date.hiddenSince',
+  restricted: 'date.restrictedOn',
+  blocked: 'date.blockedOn',
+  removed_suggestions: 'date.suggestionRemovedOn',
+  followed_hashtags: 'date.followedOn',
+}
 
-function App() {
-  function getLegalRouteFromHash(hash: string): LegalRoute | null {
-    if (hash.startsWith('#/privacy')) return 'privacy'
-    if (hash.startsWith('#/terms')) return 'terms'
-    return null
-  }
+const HELP_STEPS: MessageKey[] = ['help.step1', 'help.step2', 'help.step3', 'help.step4', 'help.step5']
+
+// Ruta => id de la tarjeta a la que se desplaza la página (`#/history` baja al historial).
+const SECTION_IDS: Partial<Record<AppRoute['name'], string>> = {
+  results: 'results',
+  review: 'results',
+  stats: 'stats',
+  keep: 'keep',
+  history: 'history',
+  compare: 'compare',
+  overlap: 'overlap',
+  data: 'data',
+}
 
-  // Navegación mínima por hash para páginas legales.
-  // - #/privacy => política de privacidad
-  // - #/terms   => términos y condiciones
-  // Esto evita instalar un router y mantiene la app simple.
-  const [legalRoute, setLegalRoute] = useState<LegalRoute | null>(() => getLegalRouteFromHash(window.location.hash || ''))
+const RESULTS_HOME: ResultsRoute = { name: 'results', tab: 'notFollowingBack', view: DEFAULT_RESULTS_VIEW }
 
-  // Guardamos SOLO usernames (no guardamos el JSON completo) por privacidad.
-  const [followers, setFollowers] = useState<string[] | null>(null)
-  const [following, setFollowing] = useState<string[] | null>(null)
-  const [warnings, setWarnings] = useState<string[]>([])
-  const [error, setError] = useState<string | null>(null)
+function App() {
+  const { t, notice, kindLabel, errorMessage } = useI18n()
+
+  // Navegación por hash (tabla de rutas en `src/lib/routes.ts`). Todo el estado vive aquí, así que cambiar de
+  // ruta (páginas legales, 404, Atrás / Adelante) no pierde los archivos ya cargados.
+  const route = useHashRoute()
+  const reviewing = route.name === 'review'
+
+  // Un espacio de trabajo por cuenta; todo lo de abajo (carga, checklist, resultados) es del espacio activo.
+  // Guardamos SOLO usernames por archivo (no guardamos el JSON completo) por privacidad.
+  const workspaces = useWorkspaces()
+  const { active } = workspaces
+  const importedFiles = active.files
+  // Reporte de la última tanda (qué archivos se revisaron y saltaron).
+  const skippedFiles = active.skipped
+  const ignoredCount = active.ignoredCount
+  // Si falta algo del checklist (ej: followers_2), el usuario puede decidir calcular igual.
+  const confirmIncomplete = active.confirmIncomplete
+  // El parseo corre en un Web Worker: la página sigue respondiendo y se ve el progreso por archivo.
+  const backgroundImport = useBackgroundImport()
+  const keepList = useKeepList()
+  // Error de la última carga: o un mensaje técnico, o una clave de texto (así se traduce si cambia el idioma).
+  const [error, setError] = useState<{ message: string } | { key: MessageKey } | null>(null)
+  // Cuántas cuentas traía la última carga, si eran varias (se repartieron en espacios distintos).
+  const [splitAccounts, setSplitAccounts] = useState(0)
+  // Sube al restaurar una copia: el historial y la revisión se vuelven a montar y leen lo guardado.
+  const [dataRevision, setDataRevision] = useState(0)
+
+  const summary = useMemo(() => summarizeImportedFiles(importedFiles), [importedFiles])
+  const followers = summary.lists.followers ?? null
+  const following = summary.lists.following ?? null
+  const warnings = useMemo(
+    () =>
+      importedFiles.flatMap((f) => f.warnings.map((w) => t('app.warningInFile', { file: f.name, message: notice(w) }))),
+    [importedFiles, t, notice],
+  )
+  const canShowResults = Boolean(followers && following) && (summary.complete || confirmIncomplete)
 
   // IMPORTANTE (React hooks):
   // Este useMemo debe ejecutarse SIEMPRE, incluso cuando estemos en `#/privacy` o `#/terms`.
   // Si hacemos `return` antes de llegar a este hook, React lanza:
   // "Rendered fewer hooks than expected..."
-  const notFollowingBack = useMemo(() => {
-    if (!followers || !following) return null
-    const followersSet = new Set(followers)
-    return following.filter((u) => !followersSet.has(u))
-  }, [followers, following])
+  const breakdownTabs = useMemo<ResultTab[] | null>(() => {
+    if (!followers || !following || !canShowResults) return null
+    const breakdown = computeRelationshipBreakdown(followers, following)
+    return [
+      {
+        id: 'notFollowingBack',
+        label: t('tab.notFollowingBack'),
+        entries: breakdown.notFollowingBack,
+        emptyMessage: t('tab.notFollowingBackEmpty'),
+        dateLabel: t('date.followedOn'),
+        hideKept: true,
+      },
+      {
+        id: 'fans',
+        label: t('tab.fans'),
+        entries: breakdown.fans,
+        emptyMessage: t('tab.fansEmpty'),
+        dateLabel: t('date.followsYouSince'),
+      },
+      {
+        id: 'mutuals',
+        label: t('tab.mutuals'),
+        entries: breakdown.mutuals,
+        emptyMessage: t('tab.mutualsEmpty'),
+        dateLabel: t('date.followedOn'),
+      },
+    ]
+  }, [followers, following, canShowResults, t])
+
+  // El resto de listas del export (mejores amigos, bloqueados, solicitudes pendientes, ...) se muestran
+  // tal cual, cada una en su pestaña. No dependen del checklist de seguidores/seguidos.
+  const listTabs = useMemo<ResultTab[]>(() => {
+    const tabs: ResultTab[] = []
+    for (const kind of OTHER_LIST_ORDER) {
+      const entries = summary.lists[kind]
+      if (!entries) continue
+      tabs.push({
+        id: kind,
+        label: kindLabel(kind),
+        entries,
+        emptyMessage: t('tab.listEmpty'),
+        dateLabel: t(OTHER_LIST_DATE_LABELS[kind]),
+      })
+    }
+    for (const other of summary.other) {
+      tabs.push({
+        id: `other:${other.label}`,
+        label: other.label,
+        entries: other.entries,
+        emptyMessage: t('tab.listEmpty'),
+        dateLabel: t('date.generic'),
+      })
+    }
+    return tabs
+  }, [summary, t, kindLabel])
+
+  const resultTabs = useMemo(() => [...(breakdownTabs ?? []), ...listTabs], [breakdownTabs, listTabs])
+  const exportContext = useMemo(
+    () => ({ sourceFiles: [...new Set(importedFiles.map((f) => f.path))], warnings }),
+    [importedFiles, warnings],
+  )
+  const snapshotLists = breakdownTabs ? summary.lists : null
+
+  // Espacios con seguidores o seguidos cargados, para cruzar audiencias entre cuentas.
+  const { labels } = workspaces
+  const overlapAccounts = useMemo<OverlapAccount[]>(
+    () =>
+      workspaces.workspaces.flatMap((w) => {
+        const { lists } = summarizeImportedFiles(w.files)
+        return lists.followers || lists.following ? [{ id: w.id, label: labels.get(w.id) ?? '', lists }] : []
+      }),
+    [workspaces.workspaces, labels],
+  )
 
+  // Las rutas de sección bajan hasta su tarjeta. `#/results` solo al abrir un enlace: al cambiar de pestaña o
+  // escribir en la búsqueda la página no tiene que saltar.
+  const firstRoute = useRef(true)
   useEffect(() => {
-    const apply = () => setLegalRoute(getLegalRouteFromHash(window.location.hash || ''))
+    const initial = firstRoute.current
+    firstRoute.current = false
+    if (route.name === 'results' && !initial) return
+    const id = SECTION_IDS[route.name]
+    if (id) document.getElementById(id)?.scrollIntoView({ block: 'start' })
+  }, [route.name])
+
+  /**
+   * Procesa lo que el usuario soltó en la zona de carga (archivos, carpeta o ZIP) y lo suma a lo ya cargado.
+   * La clasificación (seguidores / seguidos / otra lista) la decide `importRelationshipFiles`.
+   */
+  async function handleImport(inputs: ImportInput[]) {
+    // La tanda va al espacio activo al soltar los archivos, aunque el usuario cambie de espacio mientras carga.
+    const targetId = active.id
+    setError(null)
+    setSplitAccounts(0)
+    let batch
+    try {
+      batch = await backgroundImport.run(inputs)
+    } catch (e) {
+      setError({ message: errorMessage(e, t('app.importFailed')) })
+      return
+    }
+    // null = el usuario canceló; dejamos lo ya cargado como estaba.
+    if (!batch) return
 
-    window.addEventListener('hashchange', apply)
-    return () => window.removeEventListener('hashchange', apply)
-  }, [])
+    const accounts = workspaces.importBatch(targetId, batch)
+    if (accounts > 1) setSplitAccounts(accounts)
 
-  if (legalRoute) {
-    return (
-      <LegalPage
-        route={legalRoute}
-        onBack={() => {
-          window.location.hash = '#/'
-        }}
-      />
-    )
+    if (batch.files.length === 0) {
+      setError({ key: 'app.nothingFound' })
+    }
   }
 
-  async function handleFiles(
-    files: FileList | null,
-    setList: (value: string[] | null) => void,
-    expected: 'followers' | 'following',
-  ) {
-    setError(null)
-    setWarnings([])
+  // Archivos abiertos con la app instalada o compartidos desde el celular: entran como si se soltaran en la zona de carga.
+  useLaunchFiles(
+    (inputs) => {
+      if (route.name === 'privacy' || route.name === 'terms' || route.name === 'notFound') navigate(HOME_ROUTE)
+      void handleImport(inputs)
+    },
+    (e) => setError({ message: errorMessage(e, t('app.importFailed')) }),
+  )
 
-    if (!files || files.length === 0) {
-      setList(null)
-      return
-    }
+  if (route.name === 'privacy' || route.name === 'terms') {
+    return (
+      <Suspense fallback={<p className="hint routeLoading">{t('route.loading')}</p>}>
+        <LegalPage route={route.name} onBack={() => navigate(HOME_ROUTE)} />
+      </Suspense>
+    )
+  }
 
-    // Importante: Instagram a veces parte los datos en varios archivos (followers_1, followers_2, ...).
-    // Por eso soportamos múltiples archivos y combinamos usernames.
-    const combined = new Set<string>()
-    const combinedWarnings: string[] = []
-
-    for (const file of Array.from(files)) {
-      try {
-        const text = await file.text()
-
-        // Instagram puede entregar el export en JSON o HTML (según lo que el usuario eligió al pedir la descarga).
-        // Soportamos ambos.
-        const looksLikeHtml = /^\s*</.test(text)
-        const isHtmlByName = file.name.toLowerCase().endsWith('.html') || file.name.toLowerCase().endsWith('.htm')
-        if (looksLikeHtml || isHtmlByName) {
-          const result = parseInstagramRelationshipHtml(text)
-          if (result.usernames.length === 0) {
-            combinedWarnings.push(...result.warnings.map((w: string) => `"${file.name}": ${w}`))
-            continue
-          }
-
-          // Heurística: si el nombre del archivo sugiere otra cosa, avisamos (sin bloquear).
-          const lower = file.name.toLowerCase()
-          if (expected === 'followers' && lower.includes('following')) {
-            combinedWarnings.push(`"${file.name}": el nombre sugiere "following" pero lo cargaste como seguidores.`)
-          } else if (expected === 'following' && lower.includes('followers')) {
-            combinedWarnings.push(`"${file.name}": el nombre sugiere "followers" pero lo cargaste como seguidos.`)
-          }
-
-          for (const u of result.usernames) combined.add(u)
-          combinedWarnings.push(...result.warnings.map((w: string) => `"${file.name}": ${w}`))
-          continue
-        }
-
-        const json = JSON.parse(text) as unknown
-        const result = parseInstagramRelationshipJson(json)
-
-        if (result.usernames.length === 0) {
-          combinedWarnings.push(`En "${file.name}" no pude extraer usernames.`)
-          continue
-        }
-
-        // Si el parser detecta un "kind" distinto al esperado, avisamos pero igual usamos lo extraído.
-        if (result.kind !== 'unknown' && result.kind !== expected) {
-          combinedWarnings.push(
-            `El archivo "${file.name}" parece ser "${result.kind}" pero lo cargaste como "${expected}". Aun así, pude extraer usernames.`,
-          )
-        }
-
-        for (const u of result.usernames) combined.add(u)
-        combinedWarnings.push(...result.warnings.map((w) => `"${file.name}": ${w}`))
-      } catch {
-        combinedWarnings.push(`"${file.name}": no pude parsearlo como JSON. Asegúrate de subir el *.json original del ZIP.`)
-      }
-    }
+  if (route.name === 'notFound') {
+    return <NotFoundPage path={route.path} onBack={() => navigate(HOME_ROUTE)} />
+  }
 
-    const usernames = Array.from(combined).sort((a, b) => a.localeCompare(b))
-    if (usernames.length === 0) {
-      setWarnings(combinedWarnings)
-      setError(
-        'No pude obtener usernames. Sube los archivos de la descarga de Instagram (JSON o HTML): followers_* y following.',
-      )
-      setList(null)
-      return
-    }
+  function assignKind(id: string, kind: RelationshipFileKind) {
+    workspaces.update(active.id, (w) => ({
+      ...w,
+      files: w.files.map((f) => (f.id === id ? { ...f, kind, detectedBy: 'manual' } : f)),
+    }))
+  }
 
-    if (combinedWarnings.length > 0) setWarnings(combinedWarnings)
-    setList(usernames)
+  // Una lista pegada o importada de otra herramienta entra al espacio activo como un archivo cargado más.
+  function addPastedList(file: ImportedRelationshipFile) {
+    workspaces.update(active.id, (w) => ({ ...w, files: mergeImportedFiles(w.files, [file]) }))
+    setError(null)
   }
 
-  async function copyList() {
-    if (!notFollowingBack || notFollowingBack.length === 0) return
-    const text = notFollowingBack.map((u) => `@${u}`).join('\n')
-    await navigator.clipboard.writeText(text)
+  function removeFile(id: string) {
+    workspaces.update(active.id, (w) => ({ ...w, files: w.files.filter((f) => f.id !== id) }))
   }
 
+  // Limpia solo el espacio activo (conserva su nombre); los demás espacios no se tocan.
   function resetAll() {
-    setFollowers(null)
-    setFollowing(null)
-    setWarnings([])
+    workspaces.update(active.id, (w) => ({ ...w, files: [], skipped: [], ignoredCount: 0, confirmIncomplete: false }))
+    if (reviewing) navigate(RESULTS_HOME, { replace: true })
+    setError(null)
+    setSplitAccounts(0)
+  }
+
+  // Al cambiar de cuenta, la revisión guiada y los avisos de la carga anterior ya no aplican.
+  function switchWorkspace() {
+    if (reviewing) navigate(RESULTS_HOME, { replace: true })
     setError(null)
+    setSplitAccounts(0)
+  }
+
+  // Pestaña y vista de resultados a la URL. Desde otra ruta, el primer cambio agrega entrada al historial
+  // (aunque sea escribir): así "Atrás" vuelve a donde se estaba.
+  function changeResultsRoute(next: ResultsRoute, options: { replace: boolean }) {
+    navigate(next, { replace: options.replace && route.name === 'results' })
   }
 
   return (
@@ -152,24 +302,24 @@ function App() {
       <div>
           <div className="brandRow">
             <span className="brandDot" aria-hidden="true" />
-            <h1>Escáner IG</h1>
+            <h1>{t('app.title')}</h1>
           </div>
           <p className="subtitle">
-            Compara <strong>seguidos</strong> vs <strong>seguidores</strong> usando la <strong>exportación oficial</strong> de Instagram.
+            <RichText text={t('app.subtitle')} />
           </p>
-          <div className="badges" aria-label="Características del producto">
-            <span className="badge">Sin login</span>
-            <span className="badge">Sin scraping</span>
-            <span className="badge">JSON / HTML</span>
-            <span className="badge">Privacidad: se procesa local</span>
+          <div className="badges" aria-label={t('app.badgesLabel')}>
+            <span className="badge">{t('app.badgeNoLogin')}</span>
+            <span className="badge">{t('app.badgeNoScraping')}</span>
+            <span className="badge">{t('app.badgeFormats')}</span>
+            <span className="badge">{t('app.badgePrivacy')}</span>
           </div>
-          <div className="ctaRow" aria-label="Acciones principales">
+          <div className="ctaRow" aria-label={t('app.ctaLabel')}>
             <a
               className="ctaBtn"
               href="https://youtu.be/IgLNxC98k90"
               target="_blank"
               rel="noreferrer"
-              title="Ver tutorial en YouTube"
+              title={t('app.tutorialTitle')}
             >
               <svg width="16" height="16" viewBox="0 0 24 24" aria-hidden="true" focusable="false">
                 <path
@@ -177,145 +327,189 @@ function App() {
                   d="M21.6 7.2a3 3 0 0 0-2.1-2.1C17.7 4.5 12 4.5 12 4.5s-5.7 0-7.5.6A3 3 0 0 0 2.4 7.2A31.3 31.3 0 0 0 2 12a31.3 31.3 0 0 0 .4 4.8a3 3 0 0 0 2.1 2.1c1.8.6 7.5.6 7.5.6s5.7 0 7.5-.6a3 3 0 0 0 2.1-2.1A31.3 31.3 0 0 0 22 12a31.3 31.3 0 0 0-.4-4.8ZM10 15.5v-7l6 3.5Z"
                 />
               </svg>
-              Ver tutorial (YouTube)
+              {t('app.tutorial')}
             </a>
           </div>
       </div>
-        <button className="secondary" onClick={resetAll} type="button">
-          Limpiar
-        </button>
+        <div className="headerActions">
+          <LanguageSwitcher />
+          <button className="secondary" onClick={resetAll} type="button">
+            {t('app.reset')}
+          </button>
+        </div>
       </header>
 
       <main className="content">
         <section className="card">
-          <h2>1) Cargar archivos</h2>
-
-          <div className="grid2">
-            <label className="field">
-              <span className="label">Seguidores (ej: followers_1.json o followers_1.html)</span>
-              <input
-                type="file"
-                accept="application/json,.json,text/plain,text/html,.html,.htm"
-                multiple
-                onChange={(e) => void handleFiles(e.target.files, setFollowers, 'followers')}
-              />
-              <span className="hint">{followers ? `Cargados: ${followers.length}` : 'Aún no cargado'}</span>
-            </label>
-
-            <label className="field">
-              <span className="label">Seguidos (ej: following.json o following.html)</span>
-              <input
-                type="file"
-                accept="application/json,.json,text/plain,text/html,.html,.htm"
-                multiple
-                onChange={(e) => void handleFiles(e.target.files, setFollowing, 'following')}
-              />
-              <span className="hint">{following ? `Cargados: ${following.length}` : 'Aún no cargado'}</span>
-            </label>
-          </div>
+          <h2>{t('app.loadTitle')}</h2>
+
+          <WorkspaceBar workspaces={workspaces} onSwitch={switchWorkspace} />
+          {splitAccounts > 1 ? <p className="hint">{t('workspace.splitNotice', { count: splitAccounts })}</p> : null}
+
+          <FileDropZone onFiles={(inputs) => void handleImport(inputs)} busy={backgroundImport.importing} />
+          {backgroundImport.importing ? (
+            <ImportProgressList progress={backgroundImport.progress} onCancel={backgroundImport.cancel} />
+          ) : null}
+
+          <ImportChecklist
+            files={importedFiles}
+            skipped={skippedFiles}
+            ignoredCount={ignoredCount}
+            summary={summary}
+            onAssignKind={assignKind}
+            onRemove={removeFile}
+          />
+          <ImportDiagnostics files={importedFiles} skipped={skippedFiles} ignoredCount={ignoredCount} />
 
           <details className="help">
-            <summary>¿Dónde consigo estos archivos en Instagram?</summary>
+            <summary>{t('paste.summary')}</summary>
+            <PastedListPanel files={importedFiles} onAdd={addPastedList} />
+          </details>
+
+          <details className="help">
+            <summary>{t('help.summary')}</summary>
             <div className="helpBody">
               <p className="hint">
-                Importante: Instagram cambia los menús según versión/idioma. Si no ves “Centro de cuentas”, usa el <strong>buscador</strong> en
-                Configuración o entra desde el navegador al Centro de cuentas.
+                <RichText text={t('help.menusVary')} />
               </p>
               <p className="hint">
-                Nota (Windows): aunque el explorador muestre “Tipo: Chrome HTML Document”, puedes subirlo: esta app soporta export en{' '}
-                <code>.html</code> y <code>.json</code>.
+                <RichText text={t('help.windowsNote')} />
               </p>
 
               <ol>
-                <li>
-                  Instagram → tu perfil → menú ☰ → <strong>Configuración y actividad</strong> (o “Configuración y privacidad”).
-                </li>
-                <li>
-                  En el buscador de Configuración escribe: <code>descargar</code> / <code>información</code> / <code>datos</code>.
-                </li>
-                <li>
-                  Entra a <strong>Descargar tu información</strong> y selecciona <strong>Seguidores y seguidos</strong>.
-                </li>
-                <li>
-                  Si no lo encuentras en la app, prueba desde el navegador: <code>accountscenter.meta.com</code> → “Tu información y permisos” →
-                  “Descargar tu información”.
-                </li>
-                <li>Descarga el <strong>.zip</strong>, descomprímelo y busca archivos como:</li>
+                {HELP_STEPS.map((step) => (
+                  <li key={step}>
+                    <RichText text={t(step)} />
+                  </li>
+                ))}
               </ol>
               <ul>
                 <li>
-                  <code>followers_1.json</code> o <code>followers_1.html</code> (a veces también <code>followers_2.*</code>, etc.)
+                  <RichText text={t('help.fileFollowers')} />
                 </li>
                 <li>
-                  <code>following.json</code> o <code>following.html</code>
+                  <RichText text={t('help.fileFollowing')} />
                 </li>
               </ul>
               <p className="hint">
-                Tip: la ruta típica dentro del zip suele ser <code>connections/followers_and_following/</code>.
-        </p>
-      </div>
+                <RichText text={t('help.zipPath')} />
+              </p>
+            </div>
           </details>
 
-          {error ? <p className="error">{error}</p> : null}
-          {warnings.length > 0 ? (
-            <div className="warnings">
-              <p className="warningsTitle">Avisos:</p>
-              <ul>
-                {warnings.map((w, i) => (
-                  <li key={`${w}-${i}`}>{w}</li>
-                ))}
-              </ul>
+          {error ? <p className="error">{'key' in error ? t(error.key) : error.message}</p> : null}
+        </section>
+
+        <section className="card" id="results">
+          <h2>{t('app.resultTitle')}</h2>
+
+          {!followers || !following ? (
+            <p className="hint">{t('app.needBothLists')}</p>
+          ) : !breakdownTabs ? (
+            <div className="incompleteNotice">
+              <p className="hint">{t('app.incomplete')}</p>
+              <button
+                type="button"
+                className="secondary"
+                onClick={() => workspaces.update(active.id, (w) => ({ ...w, confirmIncomplete: true }))}
+              >
+                {t('app.computeAnyway')}
+              </button>
             </div>
           ) : null}
-        </section>
+          {breakdownTabs?.[0] ? (
+            reviewing ? (
+              <ReviewQueue
+                key={dataRevision}
+                entries={breakdownTabs[0].entries}
+                keepList={keepList}
+                onClose={() => navigate(RESULTS_HOME, { replace: true })}
+              />
+            ) : (
+              <div className="listToolbar">
+                <button
+                  type="button"
+                  onClick={() => navigate({ name: 'review' })}
+                  disabled={breakdownTabs[0].entries.length === 0}
+                >
+                  {t('app.startReview')}
+                </button>
+                <span className="hint">{t('app.startReviewHint')}</span>
+              </div>
+            )
+          ) : null}
+          {resultTabs.length > 0 ? (
+            <RelationshipResults
+              key={active.id}
+              tabs={resultTabs}
+              exportContext={exportContext}
+              route={route.name === 'results' ? route : undefined}
+              onRouteChange={changeResultsRoute}
+              keep={{
+                usernames: keepList.usernames,
+                onChange: (usernames, keep) => void (keep ? keepList.add(usernames) : keepList.remove(usernames)),
+              }}
+            />
+          ) : null}
 
-        <section className="card">
-          <div className="cardHeaderRow">
-            <h2>2) Resultado: personas que sigues y NO te siguen</h2>
-            <button
-              onClick={() => void copyList()}
-              type="button"
-              disabled={!notFollowingBack || notFollowingBack.length === 0}
-              title="Copia @usernames al portapapeles"
-            >
-              Copiar lista
-            </button>
-          </div>
+          <p className="footnote">{t('app.footnote')}</p>
+        </section>
 
-          {!notFollowingBack ? (
-            <p className="hint">Carga ambos archivos para ver el resultado.</p>
-          ) : notFollowingBack.length === 0 ? (
-            <p className="ok">No hay nadie en “seguidos” que no te siga (según los archivos cargados).</p>
+        <section className="card" id="stats">
+          <h2>{t('app.statsTitle')}</h2>
+          <p className="hint">{t('app.statsIntro')}</p>
+          {followers && following && breakdownTabs ? (
+            <StatsDashboard
+              followers={followers}
+              following={following}
+              keptUsernames={keepList.usernames}
+              sourceFiles={exportContext.sourceFiles}
+            />
           ) : (
-            <>
-              <p className="hint">
-                Total: <strong>{notFollowingBack.length}</strong>
-              </p>
-              <div className="list">
-                {notFollowingBack.map((u) => (
-                  <div key={u} className="listRow">
-                    <div className="username">@{u}</div>
-                    <div className="actions">
-                      <a className="linkBtn" href={`https://www.instagram.com/${u}/`} target="_blank" rel="noreferrer">
-                        Abrir perfil
-                      </a>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </>
+            <p className="hint">{t('stats.needResults')}</p>
           )}
+        </section>
 
-          <p className="footnote">
-            Nota: esta app no hace “dejar de seguir” automático; solo te ayuda a identificar y abrir perfiles para que lo hagas manualmente.
-          </p>
+        <section className="card" id="keep">
+          <h2>{t('app.keepTitle')}</h2>
+          <p className="hint">{t('app.keepIntro')}</p>
+          <KeepListPanel keepList={keepList} />
+        </section>
+
+        <section className="card" id="history">
+          <h2>{t('app.historyTitle')}</h2>
+          <p className="hint">{t('app.historyIntro')}</p>
+          <SnapshotHistory key={dataRevision} currentLists={snapshotLists} />
+        </section>
+
+        <section className="card" id="compare">
+          <h2>{t('app.compareTitle')}</h2>
+          <p className="hint">{t('app.compareIntro')}</p>
+          <ExportComparison />
+        </section>
+
+        <section className="card" id="overlap">
+          <h2>{t('app.overlapTitle')}</h2>
+          <p className="hint">{t('app.overlapIntro')}</p>
+          <AudienceOverlap accounts={overlapAccounts} />
+        </section>
+
+        <section className="card" id="data">
+          <h2>{t('app.dataTitle')}</h2>
+          <p className="hint">{t('app.dataIntro')}</p>
+          <BackupPanel
+            onRestored={() => {
+              void keepList.reload()
+              setDataRevision((n) => n + 1)
+            }}
+          />
         </section>
       </main>
 
-      <footer className="footer" aria-label="Créditos y redes">
+      <footer className="footer" aria-label={t('app.footerLabel')}>
         <div className="footerTop">
-          <div className="footerTitle">Creado por Cristian Cano</div>
-          <nav className="footerLinks" aria-label="Redes sociales">
+          <div className="footerTitle">{t('app.footerCreatedBy')}</div>
+          <nav className="footerLinks" aria-label={t('app.footerSocialLabel')}>
             <a className="footerLink" href="https://ciscodedev.netlify.app/" target="_blank" rel="noreferrer">
               <svg width="16" height="16" viewBox="0 0 24 24" aria-hidden="true" focusable="false">
                 <path
@@ -323,7 +517,7 @@ function App() {
                   d="M12 2a10 10 0 1 0 10 10A10.01 10.01 0 0 0 12 2Zm7.93 9h-3.17a14.9 14.9 0 0 0-1.24-5.02A8.02 8.02 0 0 1 19.93 11ZM12 4.07c.92 1.25 1.66 3.4 2.03 5.93H9.97C10.34 7.47 11.08 5.32 12 4.07ZM4.07 13h3.17a14.9 14.9 0 0 0 1.24 5.02A8.02 8.02 0 0 1 4.07 13Zm3.17-2H4.07a8.02 8.02 0 0 1 4.41-5.02A14.9 14.9 0 0 0 7.24 11ZM12 19.93c-.92-1.25-1.66-3.4-2.03-5.93h4.06c-.37 2.53-1.11 4.68-2.03 5.93ZM14.24 13H9.76a18.2 18.2 0 0 1 0-2h4.48a18.2 18.2 0 0 1 0 2Zm1.28 5.02A14.9 14.9 0 0 0 16.76 13h3.17a8.02 8.02 0 0 1-4.41 5.02ZM16.76 11a14.9 14.9 0 0 0-1.24-5.02A8.02 8.02 0 0 1 19.93 11Z"
                 />
               </svg>
-              Web / Portafolio
+              {t('app.footerPortfolio')}
             </a>
             <a className="footerLink" href="https://github.com/Cristiancano1236" target="_blank" rel="noreferrer">
               <svg width="16" height="16" viewBox="0 0 24 24" aria-hidden="true" focusable="false">
@@ -364,20 +558,20 @@ function App() {
                   d="M7.2 20.5H4.6a.8.8 0 0 1-.79-.93l2.1-13A.8.8 0 0 1 6.7 6h6.76c3.7 0 6.16 2.02 5.55 5.65c-.57 3.4-3.23 5.35-6.86 5.35H9.6l-.78 4.81a.8.8 0 0 1-.79.69H7.2Zm3.02-5.5h1.5c2.18 0 3.72-1.02 4.08-3.13c.33-1.92-.9-2.87-2.93-2.87H9.4l-.72 6Z"
                 />
               </svg>
-              Donaciones (PayPal)
+              {t('app.footerDonate')}
             </a>
           </nav>
         </div>
-        <p className="footerNote">Si esta herramienta te ahorra tiempo, considera apoyar su desarrollo con una donación.</p>
-        <div className="footerLegalLinks" aria-label="Enlaces legales">
+        <p className="footerNote">{t('app.footerNote')}</p>
+        <div className="footerLegalLinks" aria-label={t('app.footerLegalLabel')}>
           <a className="footerLegalLink" href="#/privacy">
-            Política de Privacidad
+            {t('app.privacy')}
           </a>
           <span className="footerLegalSep" aria-hidden="true">
             ·
           </span>
           <a className="footerLegalLink" href="#/terms">
-            Términos y Condiciones
+            {t('app.terms')}
           </a>
         </div>
       </footer>
@@ -0,0 +1,215 @@
+/**
+ * Audiencia entre cuentas: elige dos espacios de trabajo y una lista (seguidores o seguidos) y muestra un
+ * diagrama de Venn con las tres zonas; cada zona se abre como pestaña con las acciones de siempre.
+ *
+ * Relación con otros archivos:
+ * - Se usa desde `src/App.tsx`, que le pasa las listas de cada espacio (`src/components/useWorkspaces.ts`).
+ * - El cálculo está en `src/lib/audienceOverlap.ts`; las listas se muestran con `RelationshipResults`.
+ *
+ * Nota:
+ * - El diagrama es SVG propio (sin librerías): el tamaño de cada círculo sigue al tamaño de la lista y la distancia
+ *   entre ellos, a cuánto se solapan. Es orientativo; los números exactos están en las pestañas.
+ */
+
+import { useMemo, useState } from 'react'
+import { computeAudienceOverlap, type AudienceOverlap as Overlap, type AudienceRegion } from '../lib/audienceOverlap'
+import type { RelationshipLists } from '../lib/snapshotStore'
+import type { MessageKey } from '../locales'
+import { useI18n } from './i18nContext'
+import { RelationshipResults, type ResultTab } from './RelationshipResults'
+
+export type OverlapAccount = {
+  id: string
+  label: string
+  lists: RelationshipLists
+}
+
+type OverlapList = 'followers' | 'following'
+
+type Props = {
+  accounts: OverlapAccount[]
+}
+
+const REGIONS: AudienceRegion[] = ['onlyA', 'both', 'onlyB']
+
+const REGION_TEXTS: Record<OverlapList, Record<AudienceRegion, MessageKey>> = {
+  followers: { onlyA: 'overlap.followersOnly', both: 'overlap.followersBoth', onlyB: 'overlap.followersOnly' },
+  following: { onlyA: 'overlap.followingOnly', both: 'overlap.followingBoth', onlyB: 'overlap.followingOnly' },
+}
+
+const DATE_TEXTS: Record<OverlapList, MessageKey> = {
+  followers: 'overlap.followersDate',
+  following: 'overlap.followingDate',
+}
+
+// Medidas del diagrama (unidades del viewBox).
+const VENN_WIDTH = 400
+const VENN_HEIGHT = 200
+const MIN_RADIUS = 28
+const MAX_RADIUS = 90
+
+type VennProps = {
+  overlap: Overlap
+  names: { a: string; b: string }
+  active: AudienceRegion
+  onSelect: (region: AudienceRegion) => void
+}
+
+function VennDiagram({ overlap, names, active, onSelect }: VennProps) {
+  const { t } = useI18n()
+  const sizeA = overlap.onlyA.length + overlap.both.length
+  const sizeB = overlap.onlyB.length + overlap.both.length
+  const largest = Math.max(sizeA, sizeB, 1)
+  const radius = (size: number) => MIN_RADIUS + (MAX_RADIUS - MIN_RADIUS) * Math.sqrt(size / largest)
+  const rA = radius(sizeA)
+  const rB = radius(sizeB)
+
+  // Sin cuentas en común los círculos apenas se tocan; si la lista chica está entera en la grande, queda adentro.
+  const shared = Math.min(sizeA, sizeB) === 0 ? 0 : overlap.both.length / Math.min(sizeA, sizeB)
+  const minDistance = Math.abs(rA - rB)
+  const distance = minDistance + (rA + rB - minDistance) * (1 - shared) + (shared === 0 ? 8 : 0)
+  const cxA = VENN_WIDTH / 2 - distance / 2
+  const cxB = VENN_WIDTH / 2 + distance / 2
+  const cy = VENN_HEIGHT / 2
+
+  const legend: Record<AudienceRegion, string> = { onlyA: names.a, both: t('overlap.bothShort'), onlyB: names.b }
+  const positions: Record<AudienceRegion, number> = {
+    onlyA: cxA - rA * 0.45,
+    both: (cxB - rB + cxA + rA) / 2,
+    onlyB: cxB + rB * 0.45,
+  }
+
+  return (
+    <div className="venn">
+      <svg
+        viewBox={`0 0 ${VENN_WIDTH} ${VENN_HEIGHT}`}
+        role="img"
+        aria-label={t('overlap.diagramLabel', {
+          a: names.a,
+          b: names.b,
+          onlyA: overlap.onlyA.length,
+          both: overlap.both.length,
+          onlyB: overlap.onlyB.length,
+        })}
+      >
+        <circle className="vennCircle vennA" cx={cxA} cy={cy} r={rA} />
+        <circle className="vennCircle vennB" cx={cxB} cy={cy} r={rB} />
+        {REGIONS.map((region) => (
+          <text
+            key={region}
+            className={region === active ? 'vennCount vennCountActive' : 'vennCount'}
+            x={positions[region]}
+            y={cy}
+            textAnchor="middle"
+            dominantBaseline="middle"
+          >
+            {overlap[region].length}
+          </text>
+        ))}
+      </svg>
+      <div className="vennLegend">
+        {REGIONS.map((region) => (
+          <button
+            key={region}
+            type="button"
+            className={region === active ? 'secondary vennRegion vennRegionActive' : 'secondary vennRegion'}
+            aria-pressed={region === active}
+            onClick={() => onSelect(region)}
+          >
+            <span className={`vennSwatch ${region}`} aria-hidden="true" />
+            {legend[region]} <span className="tabCount">{overlap[region].length}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export function AudienceOverlap({ accounts }: Props) {
+  const { t } = useI18n()
+  const [aId, setAId] = useState('')
+  const [bId, setBId] = useState('')
+  const [list, setList] = useState<OverlapList>('followers')
+  const [region, setRegion] = useState<AudienceRegion>('both')
+
+  // Si el espacio elegido se borró (o todavía no se eligió), usamos los dos primeros con listas.
+  const a = accounts.find((x) => x.id === aId) ?? accounts[0]
+  const b = accounts.find((x) => x.id === bId && x.id !== a?.id) ?? accounts.find((x) => x.id !== a?.id)
+
+  const overlap = useMemo(
+    () => (a && b ? computeAudienceOverlap(a.lists[list] ?? [], b.lists[list] ?? []) : null),
+    [a, b, list],
+  )
+
+  const tabs = useMemo<ResultTab[] | null>(() => {
+    if (!a || !b || !overlap) return null
+    const names = { onlyA: [a.label, b.label], both: [a.label, b.label], onlyB: [b.label, a.label] }
+    return REGIONS.map((r) => {
+      const [account, other] = names[r]
+      return {
+        id: r,
+        label: t(REGION_TEXTS[list][r], { account, other }),
+        entries: overlap[r],
+        emptyMessage: t('overlap.empty'),
+        dateLabel: t(DATE_TEXTS[list], { account: r === 'onlyB' ? b.label : a.label }),
+      }
+    })
+  }, [a, b, overlap, list, t])
+
+  const exportContext = useMemo(() => ({ sourceFiles: a && b ? [a.label, b.label] : [], warnings: [] }), [a, b])
+
+  if (accounts.length < 2 || !a || !b || !overlap || !tabs) {
+    return <p className="hint">{t('overlap.needTwo')}</p>
+  }
+
+  return (
+    <div className="overlap">
+      <div className="listToolbar">
+        <label className="toolbarField">
+          <span className="hint">{t('overlap.accountA')}</span>
+          <select value={a.id} onChange={(e) => setAId(e.target.value)}>
+            {accounts.map((x) => (
+              <option key={x.id} value={x.id}>
+                {x.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="toolbarField">
+          <span className="hint">{t('overlap.accountB')}</span>
+          <select value={b.id} onChange={(e) => setBId(e.target.value)}>
+            {accounts
+              .filter((x) => x.id !== a.id)
+              .map((x) => (
+                <option key={x.id} value={x.id}>
+                  {x.label}
+                </option>
+              ))}
+          </select>
+        </label>
+        <label className="toolbarField">
+          <span className="hint">{t('overlap.list')}</span>
+          <select value={list} onChange={(e) => setList(e.target.value as OverlapList)}>
+            <option value="followers">{t('overlap.listFollowers')}</option>
+            <option value="following">{t('overlap.listFollowing')}</option>
+          </select>
+        </label>
+      </div>
+
+      {!a.lists[list] || !b.lists[list] ? (
+        <p className="hint">{t('overlap.missingList', { account: a.lists[list] ? b.label : a.label })}</p>
+      ) : null}
+
+      <VennDiagram overlap={overlap} names={{ a: a.label, b: b.label }} active={region} onSelect={setRegion} />
+      <p className="hint">{t('overlap.similarity', { percent: Math.round(overlap.similarity * 100) })}</p>
+
+      <RelationshipResults
+        key={`${a.id}:${b.id}:${list}`}
+        tabs={tabs}
+        exportContext={exportContext}
+        activeTab={region}
+        onActiveTabChange={(id) => setRegion(id as AudienceRegion)}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,216 @@
+/**
+ * Copia de seguridad cifrada de los datos locales (descargar / restaurar) y "borrar todo de este dispositivo".
+ *
+ * Relación con otros archivos:
+ * - Se usa desde `src/App.tsx` (sección `#/data`); la política de privacidad (`src/pages/LegalPage.tsx`) enlaza aquí.
+ * - El formato, el cifrado y la combinación de datos están en `src/lib/localBackup.ts`.
+ *
+ * Nota:
+ * - Después de restaurar, `onRestored` avisa a App para que vuelva a leer lo guardado (lista "mantener",
+ *   historial, revisión). Borrar todo recarga la página: así también se sueltan los archivos cargados.
+ */
+
+import { useState } from 'react'
+import {
+  decryptBackup,
+  encryptBackup,
+  MIN_PASSPHRASE_LENGTH,
+  readLocalData,
+  restoreLocalData,
+  wipeLocalData,
+  type RestoreStrategy,
+} from '../lib/localBackup'
+import { downloadFile, exportFileName } from '../lib/resultExport'
+import { useI18n } from './i18nContext'
+import { RichText } from './RichText'
+
+type Props = {
+  onRestored: () => void
+}
+
+const STRATEGIES: RestoreStrategy[] = ['merge', 'replace']
+
+export function BackupPanel({ onRestored }: Props) {
+  const { t, locale, setLocale, errorMessage } = useI18n()
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [file, setFile] = useState<File | null>(null)
+  const [importPassphrase, setImportPassphrase] = useState('')
+  const [strategy, setStrategy] = useState<RestoreStrategy>('merge')
+  const [busy, setBusy] = useState<'encrypting' | 'decrypting' | 'wiping' | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const passphraseError =
+    passphrase.length > 0 && passphrase.length < MIN_PASSPHRASE_LENGTH
+      ? t('backup.passphraseShort', { min: MIN_PASSPHRASE_LENGTH })
+      : confirmation.length > 0 && confirmation !== passphrase
+        ? t('backup.passphraseMismatch')
+        : null
+  const canExport = passphrase.length >= MIN_PASSPHRASE_LENGTH && confirmation === passphrase
+
+  async function handleExport() {
+    setBusy('encrypting')
+    setMessage(null)
+    setError(null)
+    try {
+      const content = await encryptBackup(await readLocalData(), passphrase)
+      downloadFile(content, exportFileName(t('backup.fileName'), 'json'), 'application/json')
+      setPassphrase('')
+      setConfirmation('')
+      setMessage(t('backup.exported'))
+    } catch (e) {
+      setError(errorMessage(e, t('backup.exportFailed')))
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  async function handleRestore() {
+    if (!file) return
+    if (strategy === 'replace' && !window.confirm(t('backup.confirmReplace'))) return
+    setBusy('decrypting')
+    setMessage(null)
+    setError(null)
+    try {
+      const data = await decryptBackup(await file.text(), importPassphrase)
+      const stats = await restoreLocalData(data, strategy)
+      if (stats.locale && stats.locale !== locale) setLocale(stats.locale)
+      onRestored()
+      setFile(null)
+      setImportPassphrase('')
+      setMessage(
+        t(strategy === 'merge' ? 'backup.merged' : 'backup.restored', {
+          snapshots: stats.snapshots,
+          keep: stats.keepList,
+          review: stats.reviewDecisions,
+        }),
+      )
+    } catch (e) {
+      setError(errorMessage(e, t('backup.importFailed')))
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  async function handleWipe() {
+    if (!window.confirm(t('backup.confirmWipe'))) return
+    setBusy('wiping')
+    setError(null)
+    try {
+      await wipeLocalData()
+      // Volvemos al inicio sin nada en memoria (archivos cargados, espacios, idioma de esta visita).
+      window.location.replace(`${window.location.pathname}${window.location.search}`)
+    } catch (e) {
+      setError(errorMessage(e, t('backup.wipeFailed')))
+      setBusy(null)
+    }
+  }
+
+  return (
+    <div className="backup">
+      <div className="backupBlock">
+        <h3>{t('backup.exportTitle')}</h3>
+        <p className="hint">{t('backup.exportHint')}</p>
+        <div className="listToolbar">
+          <label className="toolbarField">
+            <span className="hint">{t('backup.passphrase')}</span>
+            <input
+              type="password"
+              autoComplete="new-password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+            />
+          </label>
+          <label className="toolbarField">
+            <span className="hint">{t('backup.passphraseConfirm')}</span>
+            <input
+              type="password"
+              autoComplete="new-password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+            />
+          </label>
+          <button type="button" onClick={() => void handleExport()} disabled={!canExport || busy !== null}>
+            {busy === 'encrypting' ? t('backup.encrypting') : t('backup.download')}
+          </button>
+        </div>
+        <p className="hint">{t('backup.passphraseHint', { min: MIN_PASSPHRASE_LENGTH })}</p>
+        {passphraseError ? <p className="error">{passphraseError}</p> : null}
+      </div>
+
+      <div className="backupBlock">
+        <h3>{t('backup.importTitle')}</h3>
+        <div className="listToolbar">
+          <label className="linkBtn">
+            {t('backup.chooseFile')}
+            <input
+              className="visuallyHidden"
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] ?? null)
+                setMessage(null)
+                setError(null)
+                e.target.value = ''
+              }}
+            />
+          </label>
+          {file ? (
+            <span className="hint">
+              <RichText text={t('backup.fileChosen', { name: file.name })} />
+            </span>
+          ) : null}
+        </div>
+        <fieldset className="backupStrategy">
+          <legend className="hint">{t('backup.strategy')}</legend>
+          {STRATEGIES.map((s) => (
+            <label key={s} className="toggleField">
+              <input
+                type="radio"
+                name="backupStrategy"
+                value={s}
+                checked={strategy === s}
+                onChange={() => setStrategy(s)}
+              />
+              {t(`backup.strategy.${s}`)}
+            </label>
+          ))}
+        </fieldset>
+        <div className="listToolbar">
+          <label className="toolbarField">
+            <span className="hint">{t('backup.passphraseImport')}</span>
+            <input
+              type="password"
+              autoComplete="current-password"
+              value={importPassphrase}
+              onChange={(e) => setImportPassphrase(e.target.value)}
+            />
+          </label>
+          <button
+            type="button"
+            onClick={() => void handleRestore()}
+            disabled={!file || !importPassphrase || busy !== null}
+          >
+            {busy === 'decrypting' ? t('backup.decrypting') : t('backup.restore')}
+          </button>
+        </div>
+      </div>
+
+      {message ? (
+        <p className="ok">
+          <RichText text={message} />
+        </p>
+      ) : null}
+      {error ? <p className="error">{error}</p> : null}
+
+      <div className="backupBlock backupDanger">
+        <h3>{t('backup.wipeTitle')}</h3>
+        <p className="hint">{t('backup.wipeHint')}</p>
+        <button type="button" className="danger" onClick={() => void handleWipe()} disabled={busy !== null}>
+          {t('backup.wipe')}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -2,7 +2,7 @@
  * Error boundary simple para evitar "pantalla en blanco" ante errores runtime.
  *
  * Relación con otros archivos:
- * - Se usa desde `src/main.tsx` envolviendo `<App />`.
+ * - Se usa desde `src/main.tsx` envolviendo `<App />` (dentro de `I18nProvider`, para mostrar el mensaje en el idioma elegido).
  *
  * Nota:
  * - En producción conviene mostrar un mensaje amable y una acción para volver al inicio.
@@ -10,6 +10,7 @@
 
 import type { ReactNode } from 'react'
 import { Component } from 'react'
+import { I18nContext, type I18n } from './i18nContext'
 
 type Props = {
   children: ReactNode
@@ -21,10 +22,14 @@ type State = {
 }
 
 export class ErrorBoundary extends Component<Props, State> {
+  static contextType = I18nContext
+  declare context: I18n
+
   state: State = { hasError: false, message: '' }
 
+  // Sin acceso al idioma aquí (método estático): un mensaje vacío se muestra como "Error desconocido" al renderizar.
   static getDerivedStateFromError(error: unknown): State {
-    const msg = error instanceof Error ? error.message : 'Error desconocido'
+    const msg = error instanceof Error ? error.message : ''
     return { hasError: true, message: msg }
   }
 
@@ -36,12 +41,11 @@ export class ErrorBoundary extends Component<Props, State> {
 
   render() {
     if (this.state.hasError) {
+      const { t } = this.context
       return (
         <div style={{ padding: 24, maxWidth: 900, margin: '0 auto' }}>
-          <h1 style={{ margin: 0 }}>Ups, algo salió mal</h1>
-          <p style={{ opacity: 0.85 }}>
-            Si estabas abriendo “Privacidad” o “Términos”, recarga la página. Si persiste, avísanos al creador.
-          </p>
+          <h1 style={{ margin: 0 }}>{t('error.title')}</h1>
+          <p style={{ opacity: 0.85 }}>{t('error.body')}</p>
           <pre
             style={{
               whiteSpace: 'pre-wrap',
@@ -52,7 +56,7 @@ export class ErrorBoundary extends Component<Props, State> {
               background: 'rgba(255,255,255,0.04)',
             }}
           >
-            {this.state.message}
+            {this.state.message || t('error.unknown')}
           </pre>
           <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', marginTop: 12 }}>
             <button
@@ -61,7 +65,7 @@ export class ErrorBoundary extends Component<Props, State> {
                 window.location.reload()
               }}
             >
-              Recargar
+              {t('error.reload')}
             </button>
             <button
               type="button"
@@ -70,7 +74,7 @@ export class ErrorBoundary extends Component<Props, State> {
                 window.location.reload()
               }}
             >
-              Volver al inicio
+              {t('error.home')}
             </button>
           </div>
         </div>
@@ -0,0 +1,163 @@
+/**
+ * Modo "comparar dos exports" sin guardar nada: un export viejo y uno nuevo, lado a lado.
+ *
+ * Relación con otros archivos:
+ * - Se usa desde `src/App.tsx`.
+ * - Cada lado usa `FileDropZone` + `ImportChecklist` (con progreso vía `useBackgroundImport`) y el mismo pipeline que la carga principal
+ *   (`src/lib/relationshipImport.ts`), así que acepta ZIP, carpeta, JSON o HTML (y mezclas: viejo en HTML, nuevo en JSON).
+ * - El diff y los avisos de "¿misma cuenta?" vienen de `src/lib/exportComparison.ts`.
+ *
+ * Nota de privacidad:
+ * - Todo vive en el estado de React; al recargar la página desaparece.
+ */
+
+import { useMemo, useState } from 'react'
+import { compareExports } from '../lib/exportComparison'
+import {
+  mergeImportedFiles,
+  summarizeImportedFiles,
+  type ImportedRelationshipFile,
+  type ImportInput,
+  type RelationshipFileKind,
+  type SkippedImportFile,
+} from '../lib/relationshipImport'
+import { buildDiffTabs } from './diffTabs'
+import { FileDropZone } from './FileDropZone'
+import { useI18n } from './i18nContext'
+import { ImportChecklist } from './ImportChecklist'
+import { ImportDiagnostics } from './ImportDiagnostics'
+import { ImportProgressList } from './ImportProgressList'
+import { RelationshipResults } from './RelationshipResults'
+import { useBackgroundImport } from './useBackgroundImport'
+
+type SideState = {
+  files: ImportedRelationshipFile[]
+  skipped: SkippedImportFile[]
+  ignoredCount: number
+}
+
+const EMPTY_SIDE: SideState = { files: [], skipped: [], ignoredCount: 0 }
+
+type SideProps = {
+  title: string
+  state: SideState
+  onChange: (update: (current: SideState) => SideState) => void
+}
+
+function ComparisonSide({ title, state, onChange }: SideProps) {
+  const { t, errorMessage } = useI18n()
+  const backgroundImport = useBackgroundImport()
+  const [error, setError] = useState<string | null>(null)
+  const summary = useMemo(() => summarizeImportedFiles(state.files), [state.files])
+
+  async function handleImport(inputs: ImportInput[]) {
+    setError(null)
+    try {
+      const batch = await backgroundImport.run(inputs)
+      if (!batch) return
+      onChange((current) => ({
+        files: mergeImportedFiles(current.files, batch.files),
+        skipped: batch.skipped,
+        ignoredCount: batch.ignoredCount,
+      }))
+    } catch (e) {
+      setError(errorMessage(e, t('app.importFailed')))
+    }
+  }
+
+  function assignKind(id: string, kind: RelationshipFileKind) {
+    onChange((current) => ({
+      ...current,
+      files: current.files.map((f) => (f.id === id ? { ...f, kind, detectedBy: 'manual' } : f)),
+    }))
+  }
+
+  function removeFile(id: string) {
+    onChange((current) => ({ ...current, files: current.files.filter((f) => f.id !== id) }))
+  }
+
+  return (
+    <div className="comparisonSide">
+      <h3>{title}</h3>
+      <FileDropZone onFiles={(inputs) => void handleImport(inputs)} busy={backgroundImport.importing} />
+      {backgroundImport.importing ? (
+        <ImportProgressList progress={backgroundImport.progress} onCancel={backgroundImport.cancel} />
+      ) : null}
+      {error ? <p className="error">{error}</p> : null}
+      <ImportChecklist
+        files={state.files}
+        skipped={state.skipped}
+        ignoredCount={state.ignoredCount}
+        summary={summary}
+        onAssignKind={assignKind}
+        onRemove={removeFile}
+      />
+      <ImportDiagnostics files={state.files} skipped={state.skipped} ignoredCount={state.ignoredCount} />
+    </div>
+  )
+}
+
+export function ExportComparison() {
+  const { t, notice } = useI18n()
+  const [older, setOlder] = useState<SideState>(EMPTY_SIDE)
+  const [newer, setNewer] = useState<SideState>(EMPTY_SIDE)
+
+  const comparison = useMemo(() => {
+    const olderLists = summarizeImportedFiles(older.files).lists
+    const newerLists = summarizeImportedFiles(newer.files).lists
+    if (!olderLists.followers || !olderLists.following || !newerLists.followers || !newerLists.following) return null
+    return compareExports({ files: older.files, lists: olderLists }, { files: newer.files, lists: newerLists })
+  }, [older.files, newer.files])
+
+  const tabs = useMemo(() => (comparison ? buildDiffTabs(comparison.diff, t) : null), [comparison, t])
+  const warnings = useMemo(() => (comparison?.warnings ?? []).map(notice), [comparison, notice])
+  const exportContext = useMemo(
+    () => ({
+      sourceFiles: [
+        ...older.files.map((f) => t('compare.olderSource', { path: f.path })),
+        ...newer.files.map((f) => t('compare.newerSource', { path: f.path })),
+      ],
+      warnings,
+    }),
+    [older.files, newer.files, warnings, t],
+  )
+
+  return (
+    <div className="comparison">
+      <div className="grid2">
+        <ComparisonSide title={t('compare.older')} state={older} onChange={setOlder} />
+        <ComparisonSide title={t('compare.newer')} state={newer} onChange={setNewer} />
+      </div>
+
+      {warnings.length > 0 ? (
+        <div className="warnings">
+          <p className="warningsTitle">{t('app.warningsTitle')}</p>
+          <ul>
+            {warnings.map((w) => (
+              <li key={w}>{w}</li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      {tabs ? (
+        <RelationshipResults tabs={tabs} exportContext={exportContext} />
+      ) : (
+        <p className="hint">{t('compare.needLists')}</p>
+      )}
+
+      {older.files.length > 0 || newer.files.length > 0 ? (
+        <button
+          type="button"
+          className="secondary"
+          onClick={() => {
+            setOlder(EMPTY_SIDE)
+            setNewer(EMPTY_SIDE)
+          }}
+        >
+          {t('compare.clear')}
+        </button>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,135 @@
+/**
+ * Zona única de carga: acepta archivos sueltos, una carpeta completa o el ZIP del export.
+ *
+ * Relación con otros archivos:
+ * - Se usa desde `src/App.tsx`; entrega `ImportInput[]` a `importRelationshipFiles` (`src/lib/relationshipImport.ts`).
+ *
+ * Nota:
+ * - Para arrastrar carpetas usamos `webkitGetAsEntry()` (soportado por Chrome, Edge, Firefox y Safari).
+ * - El botón "Elegir carpeta" usa el atributo `webkitdirectory`, que React no tipa; lo seteamos por ref.
+ */
+
+import { useState, type DragEvent } from 'react'
+import { toImportInputs, type ImportInput } from '../lib/relationshipImport'
+import { useI18n } from './i18nContext'
+import { RichText } from './RichText'
+
+type Props = {
+  onFiles: (inputs: ImportInput[]) => void
+  busy?: boolean
+}
+
+const ACCEPT = 'application/json,.json,text/plain,text/html,.html,.htm,application/zip,.zip'
+
+function readDirectoryEntries(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject))
+}
+
+function entryToFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject))
+}
+
+/**
+ * Recorre una carpeta arrastrada de forma recursiva.
+ * `readEntries` devuelve resultados en tandas (~100), por eso se llama hasta que venga vacío.
+ */
+async function collectEntry(entry: FileSystemEntry, out: ImportInput[]): Promise<void> {
+  if (entry.isFile) {
+    const file = await entryToFile(entry as FileSystemFileEntry)
+    out.push({ file, path: entry.fullPath.replace(/^\//, ''), origin: 'folder' })
+    return
+  }
+
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader()
+    for (;;) {
+      const batch = await readDirectoryEntries(reader)
+      if (batch.length === 0) break
+      for (const child of batch) await collectEntry(child, out)
+    }
+  }
+}
+
+async function collectDroppedInputs(dataTransfer: DataTransfer): Promise<ImportInput[]> {
+  const items = Array.from(dataTransfer.items ?? [])
+  const entries = items.map((item) => item.webkitGetAsEntry?.() ?? null)
+
+  // Navegadores sin soporte de entries: usamos la lista plana de archivos.
+  if (entries.length === 0 || entries.some((e) => e === null)) return toImportInputs(dataTransfer.files)
+
+  const out: ImportInput[] = []
+  for (const entry of entries) {
+    if (!entry) continue
+    if (entry.isFile) {
+      // Un archivo arrastrado directamente cuenta como elegido a mano.
+      const file = await entryToFile(entry as FileSystemFileEntry)
+      out.push({ file, path: file.name, origin: 'direct' })
+    } else {
+      await collectEntry(entry, out)
+    }
+  }
+  return out
+}
+
+export function FileDropZone({ onFiles, busy = false }: Props) {
+  const { t } = useI18n()
+  const [dragging, setDragging] = useState(false)
+
+  function handleDragOver(e: DragEvent<HTMLDivElement>) {
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'copy'
+    setDragging(true)
+  }
+
+  async function handleDrop(e: DragEvent<HTMLDivElement>) {
+    e.preventDefault()
+    setDragging(false)
+    const inputs = await collectDroppedInputs(e.dataTransfer)
+    if (inputs.length > 0) onFiles(inputs)
+  }
+
+  return (
+    <div
+      className={dragging ? 'dropZone dropZoneActive' : 'dropZone'}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setDragging(false)}
+      onDrop={(e) => void handleDrop(e)}
+      aria-busy={busy}
+    >
+      <p className="dropZoneTitle">{t('drop.title')}</p>
+      <p className="hint">
+        <RichText text={t('drop.hint')} />
+      </p>
+      <div className="dropZoneActions">
+        <label className="linkBtn">
+          {t('drop.chooseFiles')}
+          <input
+            className="visuallyHidden"
+            type="file"
+            accept={ACCEPT}
+            multiple
+            disabled={busy}
+            onChange={(e) => {
+              if (e.target.files && e.target.files.length > 0) onFiles(toImportInputs(e.target.files))
+              e.target.value = ''
+            }}
+          />
+        </label>
+        <label className="linkBtn">
+          {t('drop.chooseFolder')}
+          <input
+            className="visuallyHidden"
+            type="file"
+            multiple
+            disabled={busy}
+            ref={(el) => el?.setAttribute('webkitdirectory', '')}
+            onChange={(e) => {
+              if (e.target.files && e.target.files.length > 0) onFiles(toImportInputs(e.target.files))
+              e.target.value = ''
+            }}
+          />
+        </label>
+      </div>
+    </div>
+  )
+}
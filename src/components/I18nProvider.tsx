@@ -0,0 +1,35 @@
+/**
+ * Provee el idioma a toda la app: al abrir usa el idioma guardado o el del navegador, y recuerda el que elija el usuario.
+ *
+ * Relación con otros archivos:
+ * - Se usa desde `src/main.tsx` envolviendo todo (incluido `ErrorBoundary`).
+ * - El valor se lee con `useI18n()` (`src/components/i18nContext.ts`).
+ */
+
+import { useEffect, useMemo, useState, type ReactNode } from 'react'
+import { detectLocale, loadSavedLocale, saveLocale, type Locale } from '../lib/i18n'
+import { createI18n, I18nContext } from './i18nContext'
+
+type Props = {
+  children: ReactNode
+}
+
+export function I18nProvider({ children }: Props) {
+  const [locale, setLocale] = useState<Locale>(() => loadSavedLocale() ?? detectLocale(navigator.languages ?? []))
+
+  const value = useMemo(
+    () =>
+      createI18n(locale, (next) => {
+        saveLocale(next)
+        setLocale(next)
+      }),
+    [locale],
+  )
+
+  // El atributo `lang` ayuda a lectores de pantalla y al corrector ortográfico del navegador.
+  useEffect(() => {
+    document.documentElement.lang = locale
+  }, [locale])
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>
+}
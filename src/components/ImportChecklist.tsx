@@ -0,0 +1,96 @@
+/**
+ * Panel de estado de la importación: checklist de lo que falta y cómo se clasificó cada archivo.
+ *
+ * Relación con otros archivos:
+ * - Se usa desde `src/App.tsx` debajo de la zona de carga.
+ * - Los datos vienen de `summarizeImportedFiles` / `importRelationshipFiles` (`src/lib/relationshipImport.ts`).
+ */
+
+import {
+  RELATIONSHIP_FILE_KINDS,
+  type ImportedRelationshipFile,
+  type RelationshipFileKind,
+  type RelationshipImportSummary,
+  type SkippedImportFile,
+} from '../lib/relationshipImport'
+import { useI18n } from './i18nContext'
+
+type Props = {
+  files: ImportedRelationshipFile[]
+  skipped: SkippedImportFile[]
+  ignoredCount: number
+  summary: RelationshipImportSummary
+  onAssignKind: (id: string, kind: RelationshipFileKind) => void
+  onRemove: (id: string) => void
+}
+
+export function ImportChecklist({ files, skipped, ignoredCount, summary, onAssignKind, onRemove }: Props) {
+  const { t, notice, kindLabel } = useI18n()
+  if (files.length === 0 && skipped.length === 0) return null
+
+  return (
+    <div className="importPanel">
+      <ul className="checklist" aria-label={t('checklist.ariaLabel')}>
+        {summary.checklist.map((item) => (
+          <li key={item.id} className={item.done ? 'checkDone' : 'checkMissing'}>
+            <span aria-hidden="true">{item.done ? '✓' : '•'}</span> {notice(item.label)}
+          </li>
+        ))}
+      </ul>
+
+      {files.length > 0 ? (
+        <div className="list">
+          {files.map((f) => (
+            <div key={f.id} className="listRow">
+              <div>
+                <div className="username">
+                  {f.path}
+                  {f.sourceKey && f.id !== f.path ? ` (${f.sourceKey})` : ''}
+                </div>
+                <span className="hint">
+                  {f.schema ? t(`schema.${f.schema}`) : f.format.toUpperCase()} ·{' '}
+                  {t('checklist.accounts', { count: f.entries.length })}
+                  {f.detectedBy ? ` · ${t(`detectedBy.${f.detectedBy}`)}` : ''}
+                </span>
+              </div>
+              <div className="actions">
+                <select
+                  value={f.kind}
+                  aria-label={t('checklist.kindAriaLabel', { name: f.name })}
+                  onChange={(e) => onAssignKind(f.id, e.target.value as RelationshipFileKind)}
+                >
+                  {RELATIONSHIP_FILE_KINDS.map((kind) => (
+                    <option key={kind} value={kind}>
+                      {kindLabel(kind)}
+                    </option>
+                  ))}
+                </select>
+                <button type="button" className="secondary" onClick={() => onRemove(f.id)}>
+                  {t('checklist.remove')}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      {skipped.length > 0 || ignoredCount > 0 ? (
+        <details className="help">
+          <summary>{t('checklist.skippedSummary', { count: skipped.length })}</summary>
+          <div className="helpBody">
+            <ul>
+              {skipped.map((s) => (
+                <li key={s.path}>
+                  <code>{s.path}</code>: {notice(s.reason)}
+                </li>
+              ))}
+            </ul>
+            {ignoredCount > 0 ? (
+              <p className="hint">{t('checklist.ignored', { count: ignoredCount })}</p>
+            ) : null}
+          </div>
+        </details>
+      ) : null}
+    </div>
+  )
+}
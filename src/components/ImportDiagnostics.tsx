@@ -0,0 +1,112 @@
+/**
+ * Diagnóstico por archivo de la última importación: qué se detectó en cada archivo, cuántas entries se
+ * revisaron, cuántos usuarios salieron y qué se descartó, con sus avisos. Permite copiar un reporte sin usuarios.
+ *
+ * Relación con otros archivos:
+ * - Se usa desde `src/App.tsx` y `src/components/ExportComparison.tsx`, debajo del checklist de archivos.
+ * - Los datos y el reporte de texto salen de `src/lib/importDiagnostics.ts`.
+ */
+
+import { useMemo, useState } from 'react'
+import {
+  buildImportDiagnostics,
+  ENTRY_SKIP_REASONS,
+  formatImportDiagnosticsReport,
+  type FileDiagnostic,
+} from '../lib/importDiagnostics'
+import type { ImportedRelationshipFile, SkippedImportFile } from '../lib/relationshipImport'
+import { useI18n } from './i18nContext'
+
+type Props = {
+  files: ImportedRelationshipFile[]
+  skipped: SkippedImportFile[]
+  ignoredCount: number
+}
+
+function skippedTotal(f: FileDiagnostic): number {
+  return Object.values(f.skipped).reduce((sum, count) => sum + count, 0)
+}
+
+export function ImportDiagnostics({ files, skipped, ignoredCount }: Props) {
+  const { t, notice, kindLabel } = useI18n()
+  const [copyState, setCopyState] = useState<'idle' | 'copied' | 'failed'>('idle')
+  const diagnostics = useMemo(() => buildImportDiagnostics(files, skipped, ignoredCount), [files, skipped, ignoredCount])
+
+  if (diagnostics.files.length === 0) return null
+  const withNotices = diagnostics.files.filter((f) => f.notices.length > 0).length
+
+  async function copyReport() {
+    const usernames = files.flatMap((f) => f.entries.map((e) => e.username))
+    try {
+      await navigator.clipboard.writeText(formatImportDiagnosticsReport(diagnostics, usernames, navigator.userAgent))
+      setCopyState('copied')
+    } catch {
+      setCopyState('failed')
+    }
+  }
+
+  // Se abre solo si algún archivo tiene avisos; si no, queda a mano para quien quiera revisarlo.
+  return (
+    <details className="help" open={withNotices > 0}>
+      <summary>
+        {t('diagnostics.summary', { count: diagnostics.files.length })}
+        {withNotices > 0 ? ` · ${t('diagnostics.withNotices', { count: withNotices })}` : ''}
+      </summary>
+      <div className="helpBody">
+        <p className="hint">{t('diagnostics.intro')}</p>
+        <div className="actions diagnosticsActions">
+          <button type="button" className="secondary" onClick={() => void copyReport()}>
+            {t('diagnostics.copy')}
+          </button>
+          {copyState !== 'idle' ? (
+            <span className={copyState === 'copied' ? 'ok' : 'error'} role="status">
+              {t(copyState === 'copied' ? 'diagnostics.copied' : 'diagnostics.copyFailed')}
+            </span>
+          ) : null}
+        </div>
+
+        <ul className="diagnosticsList">
+          {diagnostics.files.map((f) => (
+            <li key={f.id} className="diagnosticsFile">
+              <div>
+                <code>{f.path}</code>
+                {f.sourceKey && f.id !== f.path ? ` (${f.sourceKey})` : ''}{' '}
+                <span className={`diagnosticsStatus ${f.status}`}>{t(`diagnostics.status.${f.status}`)}</span>
+              </div>
+              {f.status !== 'skipped' ? (
+                <>
+                  <span className="hint">
+                    {f.format ? f.format.toUpperCase() : ''}
+                    {f.schema ? ` · ${t(`schema.${f.schema}`)}` : ''}
+                    {f.kind ? ` · ${kindLabel(f.kind)}` : ''}
+                    {f.detectedBy ? ` (${t(`detectedBy.${f.detectedBy}`)})` : ''}
+                  </span>
+                  <span className="hint">
+                    {f.seen === null
+                      ? t('diagnostics.notParsed')
+                      : t('diagnostics.counts', { seen: f.seen, extracted: f.extracted, skipped: skippedTotal(f) })}
+                  </span>
+                  {ENTRY_SKIP_REASONS.some((reason) => f.skipped[reason]) ? (
+                    <span className="hint">
+                      {ENTRY_SKIP_REASONS.flatMap((reason) => {
+                        const count = f.skipped[reason]
+                        return count ? [t(`diagnostics.skip.${reason}`, { count })] : []
+                      }).join(' · ')}
+                    </span>
+                  ) : null}
+                </>
+              ) : null}
+              {f.notices.length > 0 ? (
+                <ul>
+                  {f.notices.map((n, i) => (
+                    <li key={`${n.code}-${i}`}>{notice(n)}</li>
+                  ))}
+                </ul>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </details>
+  )
+}
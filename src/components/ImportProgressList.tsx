@@ -0,0 +1,60 @@
+/**
+ * Barras de progreso por archivo mientras se procesa una carga, con botón para cancelar.
+ *
+ * Relación con otros archivos:
+ * - Recibe el estado de `useBackgroundImport` (`src/components/useBackgroundImport.ts`).
+ */
+
+import type { ImportProgress } from '../lib/relationshipImport'
+import type { MessageKey } from '../locales'
+import { useI18n } from './i18nContext'
+
+type Props = {
+  progress: ImportProgress[]
+  onCancel: () => void
+}
+
+const STATUS_LABELS: Record<ImportProgress['status'], MessageKey> = {
+  pending: 'progress.pending',
+  reading: 'progress.reading',
+  parsing: 'progress.parsing',
+  done: 'progress.done',
+  skipped: 'progress.skipped',
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export function ImportProgressList({ progress, onCancel }: Props) {
+  const { t } = useI18n()
+  return (
+    <div className="importProgress" aria-live="polite">
+      <div className="importProgressHeader">
+        <p className="hint">{t('progress.processing')}</p>
+        <button type="button" className="secondary" onClick={onCancel}>
+          {t('progress.cancel')}
+        </button>
+      </div>
+      {progress.map((p) => (
+        <div key={p.path} className="progressRow">
+          <span className="progressName" title={p.path}>
+            {p.path}
+          </span>
+          <progress
+            value={p.status === 'parsing' ? undefined : p.loaded}
+            max={Math.max(p.total, 1)}
+            aria-label={t('progress.ariaLabel', { path: p.path })}
+          />
+          <span className="hint">
+            {t(STATUS_LABELS[p.status])}
+            {p.status === 'reading'
+              ? ` · ${t('progress.read', { loaded: formatBytes(p.loaded), total: formatBytes(p.total) })}`
+              : ''}
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,155 @@
+/**
+ * Gestión de la lista "mantener": agregar pegando usernames, importar/exportar el archivo para compartirla
+ * con un equipo, quitar cuentas y borrar todo.
+ *
+ * Relación con otros archivos:
+ * - Se usa desde `src/App.tsx`, que le pasa el estado de `useKeepList` (`src/components/useKeepList.ts`).
+ * - El formato del archivo y la lectura de lo pegado están en `src/lib/keepList.ts`.
+ * - Las cuentas también se marcan/desmarcan desde cada fila de `RelationshipResults`.
+ */
+
+import { useState } from 'react'
+import { buildKeepListFile, parseKeepListFile, parseUsernameList, type ParsedUsernameList } from '../lib/keepList'
+import { downloadFile, exportFileName } from '../lib/resultExport'
+import { useI18n, type I18n } from './i18nContext'
+import { RichText } from './RichText'
+import type { KeepListState } from './useKeepList'
+import { VirtualList } from './VirtualList'
+
+type Props = {
+  keepList: KeepListState
+}
+
+const ROW_HEIGHT = 60
+const LIST_MAX_HEIGHT = 320
+// Cuántos textos no reconocidos mostramos como ejemplo.
+const MAX_INVALID_SHOWN = 5
+
+function describeAdded(added: number, parsed: ParsedUsernameList, t: I18n['t']): string {
+  const repeated = parsed.usernames.length - added
+  const parts = [t('keep.added', { count: added })]
+  if (repeated > 0) parts.push(t('keep.repeated', { count: repeated }))
+  if (parsed.invalid.length > 0) {
+    const sample = parsed.invalid.slice(0, MAX_INVALID_SHOWN).join(', ')
+    const more = parsed.invalid.length > MAX_INVALID_SHOWN ? '…' : ''
+    parts.push(t('keep.invalid', { count: parsed.invalid.length, sample: `${sample}${more}` }))
+  }
+  return parts.join(' ')
+}
+
+export function KeepListPanel({ keepList }: Props) {
+  const { t, errorMessage } = useI18n()
+  const { accounts, error } = keepList
+  const [pasted, setPasted] = useState('')
+  const [message, setMessage] = useState<string | null>(null)
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [scrollTop, setScrollTop] = useState(0)
+
+  // Devuelve false si no se pudo guardar (el error lo muestra `keepList.error`).
+  async function addParsed(parsed: ParsedUsernameList): Promise<boolean> {
+    const added = await keepList.add(parsed.usernames)
+    if (added === null) return false
+    setMessage(describeAdded(added, parsed, t))
+    return true
+  }
+
+  async function handlePaste() {
+    const parsed = parseUsernameList(pasted)
+    if (parsed.usernames.length === 0 && parsed.invalid.length === 0) return
+    if (await addParsed(parsed)) setPasted('')
+  }
+
+  async function handleImportFile(file: File) {
+    setFileError(null)
+    setMessage(null)
+    try {
+      await addParsed(parseKeepListFile(await file.text()))
+    } catch (e) {
+      setFileError(errorMessage(e, t('keep.fileFailed')))
+    }
+  }
+
+  function handleExport() {
+    downloadFile(buildKeepListFile(accounts), exportFileName(t('keep.exportName'), 'json'), 'application/json')
+  }
+
+  async function handleClear() {
+    if (!window.confirm(t('keep.confirmClear'))) return
+    await keepList.clear()
+    setMessage(null)
+  }
+
+  return (
+    <div className="keepList">
+      <label className="toolbarField">
+        <span className="hint">{t('keep.pasteLabel')}</span>
+        <textarea
+          rows={4}
+          value={pasted}
+          placeholder={'@diario_ejemplo\nhttps://www.instagram.com/marca.ejemplo/'}
+          onChange={(e) => setPasted(e.target.value)}
+        />
+      </label>
+
+      <div className="listToolbar">
+        <button type="button" onClick={() => void handlePaste()} disabled={!pasted.trim()}>
+          {t('keep.add')}
+        </button>
+        <label className="linkBtn">
+          {t('keep.importFile')}
+          <input
+            className="visuallyHidden"
+            type="file"
+            accept=".json,.txt,.csv,application/json,text/plain,text/csv"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) void handleImportFile(file)
+              e.target.value = ''
+            }}
+          />
+        </label>
+        <button type="button" className="secondary" onClick={handleExport} disabled={accounts.length === 0}>
+          {t('keep.exportFile')}
+        </button>
+        <button type="button" className="secondary" onClick={() => void handleClear()} disabled={accounts.length === 0}>
+          {t('keep.clear')}
+        </button>
+      </div>
+
+      {message ? <p className="ok">{message}</p> : null}
+      {fileError ? <p className="error">{fileError}</p> : null}
+      {error ? <p className="error">{error}</p> : null}
+
+      {accounts.length === 0 ? (
+        <p className="hint">{t('keep.empty')}</p>
+      ) : (
+        <>
+          <p className="hint">
+            <RichText text={t('keep.count', { count: accounts.length })} />
+          </p>
+          <VirtualList
+            items={accounts}
+            rowHeight={ROW_HEIGHT}
+            maxHeight={LIST_MAX_HEIGHT}
+            scrollTop={scrollTop}
+            onScroll={setScrollTop}
+            getKey={(a) => a.username}
+            ariaLabel={t('keep.listLabel')}
+            renderRow={(a) => (
+              <div className="listRow">
+                <div className="rowText">
+                  <div className="username">@{a.username}</div>
+                </div>
+                <div className="actions">
+                  <button type="button" className="secondary" onClick={() => void keepList.remove([a.username])}>
+                    {t('keep.remove')}
+                  </button>
+                </div>
+              </div>
+            )}
+          />
+        </>
+      )}
+    </div>
+  )
+}
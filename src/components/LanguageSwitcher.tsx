@@ -0,0 +1,27 @@
+/**
+ * Selector de idioma (español, inglés, portugués).
+ *
+ * Relación con otros archivos:
+ * - Se usa en el encabezado de `src/App.tsx` y de `src/pages/LegalPage.tsx`.
+ * - La elección se guarda con `saveLocale` (`src/lib/i18n.ts`) desde `I18nProvider`.
+ */
+
+import { LOCALES, type Locale } from '../lib/i18n'
+import { useI18n } from './i18nContext'
+
+export function LanguageSwitcher() {
+  const { locale, setLocale, t } = useI18n()
+
+  return (
+    <label className="languageSwitcher">
+      <span className="visuallyHidden">{t('lang.label')}</span>
+      <select value={locale} onChange={(e) => setLocale(e.target.value as Locale)}>
+        {LOCALES.map((l) => (
+          <option key={l.id} value={l.id} lang={l.id}>
+            {l.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
@@ -0,0 +1,225 @@
+/**
+ * Pegar o importar una lista de cuentas sacada de otro lado (columna de una planilla, CSV de otra herramienta,
+ * texto copiado de instagram.com) y usarla como seguidores o como seguidos.
+ *
+ * Relación con otros archivos:
+ * - Se usa desde `src/App.tsx`, dentro de "1) Cargar archivos"; `onAdd` suma la lista al espacio activo como
+ *   un archivo cargado más (aparece en el checklist, donde se puede quitar o cambiar de lado).
+ * - La lectura (modos, columnas del CSV, líneas no reconocidas) está en `src/lib/pastedList.ts`.
+ *
+ * Nota:
+ * - Un archivo elegido se vuelca en el cuadro de texto: así las líneas que no se pudieron leer se corrigen ahí
+ *   mismo antes de usar la lista.
+ */
+
+import { useDeferredValue, useMemo, useState } from 'react'
+import {
+  buildPastedListFile,
+  describeCsv,
+  guessPastedListMode,
+  parsePastedList,
+  PASTED_LIST_MODES,
+  type PastedListKind,
+  type PastedListMode,
+} from '../lib/pastedList'
+import type { ImportedRelationshipFile } from '../lib/relationshipImport'
+import { useI18n } from './i18nContext'
+import { RichText } from './RichText'
+
+type Props = {
+  /** Archivos ya cargados en el espacio activo (para proponer un nombre que no pise a otro). */
+  files: ImportedRelationshipFile[]
+  onAdd: (file: ImportedRelationshipFile) => void
+}
+
+const KINDS: PastedListKind[] = ['followers', 'following']
+// Cuántas líneas no leídas se listan (el resto se resume con un número).
+const MAX_REJECTED_SHOWN = 20
+
+export function PastedListPanel({ files, onAdd }: Props) {
+  const { t, kindLabel } = useI18n()
+  const [text, setText] = useState('')
+  const [kind, setKind] = useState<PastedListKind>('followers')
+  const [mode, setMode] = useState<PastedListMode | 'auto'>('auto')
+  // null = lo que adivina `describeCsv`; el usuario puede cambiarlo.
+  const [column, setColumn] = useState<number | null>(null)
+  const [hasHeader, setHasHeader] = useState<boolean | null>(null)
+  const [name, setName] = useState('')
+  const [message, setMessage] = useState<string | null>(null)
+  const [fileError, setFileError] = useState<string | null>(null)
+
+  // Con listas de miles de líneas, leer en cada tecla trabaría el cuadro de texto.
+  const deferredText = useDeferredValue(text)
+  const guessedMode = useMemo(() => guessPastedListMode(deferredText), [deferredText])
+  const activeMode = mode === 'auto' ? guessedMode : mode
+  const layout = useMemo(() => (activeMode === 'csv' ? describeCsv(deferredText) : null), [activeMode, deferredText])
+  const csvColumn = column !== null && layout && column < layout.columns.length ? column : layout?.usernameColumn
+  const csvHeader = hasHeader ?? layout?.hasHeader ?? false
+  const parsed = useMemo(
+    () =>
+      parsePastedList(
+        deferredText,
+        activeMode,
+        layout ? { delimiter: layout.delimiter, hasHeader: csvHeader, column: csvColumn ?? 0 } : undefined,
+      ),
+    [deferredText, activeMode, layout, csvHeader, csvColumn],
+  )
+
+  const defaultName = useMemo(() => {
+    const paths = new Set(files.map((f) => f.path))
+    let number = 1
+    while (paths.has(t('paste.defaultName', { number }))) number++
+    return t('paste.defaultName', { number })
+  }, [files, t])
+  const listName = name.trim() || defaultName
+  const replaces = files.some((f) => f.path === listName)
+
+  function changeText(value: string) {
+    setText(value)
+    setMessage(null)
+  }
+
+  async function handleFile(file: File) {
+    setFileError(null)
+    try {
+      changeText(await file.text())
+      setColumn(null)
+      setHasHeader(null)
+      if (!name.trim()) setName(file.name)
+    } catch {
+      setFileError(t('paste.fileFailed'))
+    }
+  }
+
+  function handleAdd() {
+    onAdd(buildPastedListFile(listName, kind, activeMode, parsed))
+    setMessage(t('paste.added', { name: listName, kind: kindLabel(kind), count: parsed.usernames.length }))
+    setText('')
+    setName('')
+    setColumn(null)
+    setHasHeader(null)
+  }
+
+  const rejectedShown = parsed.rejected.slice(0, MAX_REJECTED_SHOWN)
+  const hasText = deferredText.trim() !== ''
+
+  return (
+    <div className="pastedList">
+      <p className="hint">{t('paste.intro')}</p>
+
+      <fieldset className="pastedListKind">
+        <legend className="hint">{t('paste.kind')}</legend>
+        {KINDS.map((k) => (
+          <label key={k} className="toggleField">
+            <input type="radio" name="pastedListKind" value={k} checked={kind === k} onChange={() => setKind(k)} />
+            {kindLabel(k)}
+          </label>
+        ))}
+      </fieldset>
+
+      <label className="toolbarField">
+        <span className="hint">{t('paste.textLabel')}</span>
+        <textarea
+          rows={6}
+          value={text}
+          spellCheck={false}
+          placeholder={'@cuenta_ejemplo\nhttps://www.instagram.com/otra.cuenta/'}
+          onChange={(e) => changeText(e.target.value)}
+        />
+      </label>
+
+      <div className="listToolbar">
+        <label className="linkBtn">
+          {t('paste.chooseFile')}
+          <input
+            className="visuallyHidden"
+            type="file"
+            accept=".csv,.txt,.tsv,text/csv,text/plain,text/tab-separated-values"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) void handleFile(file)
+              e.target.value = ''
+            }}
+          />
+        </label>
+        <label className="toolbarField">
+          <span className="hint">{t('paste.mode')}</span>
+          <select value={mode} onChange={(e) => setMode(e.target.value as PastedListMode | 'auto')}>
+            <option value="auto">{t('paste.modeAuto', { mode: t(`paste.mode.${guessedMode}`) })}</option>
+            {PASTED_LIST_MODES.map((m) => (
+              <option key={m} value={m}>
+                {t(`paste.mode.${m}`)}
+              </option>
+            ))}
+          </select>
+        </label>
+        {layout ? (
+          <>
+            <label className="toolbarField">
+              <span className="hint">{t('paste.column')}</span>
+              <select value={csvColumn} onChange={(e) => setColumn(Number(e.target.value))}>
+                {layout.columns.map((label, i) => (
+                  <option key={i} value={i}>
+                    {label && csvHeader ? label : t('paste.columnNumber', { number: i + 1 })}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="toggleField">
+              <input type="checkbox" checked={csvHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+              {t('paste.hasHeader')}
+            </label>
+          </>
+        ) : null}
+      </div>
+      <p className="hint">{t(`paste.modeHint.${activeMode}`)}</p>
+
+      {fileError ? <p className="error">{fileError}</p> : null}
+
+      {hasText ? (
+        <div className="pastedListPreview">
+          <p className="hint">
+            <RichText text={t('paste.read', { count: parsed.usernames.length })} />
+            {parsed.duplicates > 0 ? ` ${t('paste.duplicates', { count: parsed.duplicates })}` : ''}
+            {parsed.ignored > 0 ? ` ${t('paste.ignored', { count: parsed.ignored })}` : ''}
+          </p>
+          {parsed.rejected.length > 0 ? (
+            <div className="pastedListRejected">
+              <p className="error">{t('paste.rejected', { count: parsed.rejected.length })}</p>
+              <ol aria-label={t('paste.rejectedLabel')}>
+                {rejectedShown.map((r) => (
+                  <li key={r.line}>
+                    <span className="hint">{t('paste.line', { line: r.line })}</span> <code>{r.text.trim()}</code>
+                  </li>
+                ))}
+              </ol>
+              {parsed.rejected.length > rejectedShown.length ? (
+                <p className="hint">{t('paste.rejectedMore', { count: parsed.rejected.length - rejectedShown.length })}</p>
+              ) : null}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
+      <div className="listToolbar">
+        <label className="toolbarField">
+          <span className="hint">{t('paste.name')}</span>
+          <input type="text" value={name} placeholder={defaultName} onChange={(e) => setName(e.target.value)} />
+        </label>
+        <button type="button" onClick={handleAdd} disabled={parsed.usernames.length === 0 || text !== deferredText}>
+          {t('paste.add', { kind: kindLabel(kind) })}
+        </button>
+      </div>
+      {replaces ? (
+        <p className="hint">
+          <RichText text={t('paste.replaces', { name: listName })} />
+        </p>
+      ) : null}
+      {message ? (
+        <p className="ok">
+          <RichText text={message} />
+        </p>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,464 @@
+/**
+ * Resultados en pestañas: cada pestaña es una lista de cuentas con las mismas acciones
+ * (buscar, ordenar, filtrar por fecha, seleccionar, abrir perfil, copiar y descargar).
+ *
+ * Relación con otros archivos:
+ * - Se usa desde `src/App.tsx`, que arma las pestañas con `computeRelationshipBreakdown`
+ *   (`src/lib/relationshipBreakdown.ts`).
+ * - Las filas se dibujan con `VirtualList` (solo las visibles), pensado para cuentas con miles de seguidos.
+ * - Las descargas (CSV, JSON, Excel) se generan en `src/lib/resultExport.ts`; el informe HTML / PDF, con
+ *   `ReportControls` (`src/lib/htmlReport.ts`).
+ * - Si recibe `keep` (lista "mantener" de `src/components/useKeepList.ts`), cada fila se puede marcar y las
+ *   pestañas con `hideKept` ocultan las cuentas marcadas salvo que el usuario pida verlas.
+ *
+ * - Con `route` (resultados principales), la pestaña, la búsqueda, el orden y el filtro de fecha van en la URL
+ *   (`#/results/fans?q=shop&sort=date`, ver `src/lib/routes.ts`): se pueden enlazar y "Atrás" los restaura.
+ *
+ * Nota:
+ * - Búsqueda, orden, filtro, selección y scroll se recuerdan por pestaña mientras la página siga abierta.
+ */
+
+import { useMemo, useState } from 'react'
+import { profileUrl, type InstagramRelationshipEntry } from '../lib/instagramExport'
+import {
+  buildCsv,
+  buildJsonReport,
+  buildXlsx,
+  downloadFile,
+  exportFileName,
+  type ResultExportContext,
+} from '../lib/resultExport'
+import type { ResultsRoute, ResultsSort } from '../lib/routes'
+import { useI18n } from './i18nContext'
+import { ReportControls } from './ReportControls'
+import { RichText } from './RichText'
+import { VirtualList } from './VirtualList'
+
+export type ResultTab = {
+  id: string
+  label: string
+  entries: InstagramRelationshipEntry[]
+  /** Mensaje cuando la lista está vacía. */
+  emptyMessage: string
+  /** Texto antes de la fecha de cada fila, ej: "Lo seguiste el" (ya traducido). */
+  dateLabel: string
+  /** Oculta por defecto las cuentas marcadas como "mantener" (ej: en "No te siguen"). */
+  hideKept?: boolean
+}
+
+/** Lista "mantener": qué cuentas están marcadas y cómo marcar/desmarcar. */
+export type KeepControls = {
+  usernames: ReadonlySet<string>
+  onChange: (usernames: string[], keep: boolean) => void
+}
+
+type SortOrder = ResultsSort
+
+/** Estado de vista de una pestaña (se conserva al cambiar de pestaña). */
+type TabView = {
+  query: string
+  sortOrder: SortOrder
+  before: string
+  scrollTop: number
+  selected: ReadonlySet<string>
+  showKept: boolean
+}
+
+type Props = {
+  tabs: ResultTab[]
+  /** Metadatos que acompañan a la descarga JSON (archivos de origen y avisos). */
+  exportContext?: ResultExportContext
+  keep?: KeepControls
+  /** Pestaña activa controlada desde afuera (ej: el diagrama de Venn elige la zona); si falta, la maneja el componente. */
+  activeTab?: string
+  onActiveTabChange?: (id: string) => void
+  /** Pestaña y vista leídas de la URL; manda sobre lo recordado por pestaña. */
+  route?: ResultsRoute
+  /** Cada cambio de pestaña o de vista; `replace` cuando no merece entrada propia en el historial (escribir). */
+  onRouteChange?: (route: ResultsRoute, options: { replace: boolean }) => void
+}
+
+const EMPTY_EXPORT_CONTEXT: ResultExportContext = { sourceFiles: [], warnings: [] }
+
+const DEFAULT_VIEW: TabView = {
+  query: '',
+  sortOrder: 'alpha',
+  before: '',
+  scrollTop: 0,
+  selected: new Set(),
+  showKept: false,
+}
+
+// Alto fijo de fila (incluye el espacio entre filas) y alto máximo de la lista, en px.
+const ROW_HEIGHT = 72
+const LIST_MAX_HEIGHT = 520
+
+function normalizeQuery(query: string): string {
+  return query.trim().replace(/^@+/, '').toLowerCase()
+}
+
+/**
+ * Ordena la lista. Por fecha: las cuentas sin fecha (ej: export HTML) quedan al final.
+ * Por pertenencia: primero las cuentas que aparecen en más listas (ej: mejores amigos + restringido).
+ */
+function sortEntries(
+  entries: InstagramRelationshipEntry[],
+  order: SortOrder,
+  otherLists: (username: string) => string[],
+): InstagramRelationshipEntry[] {
+  if (order === 'alpha') return entries
+  if (order === 'membership') {
+    return [...entries].sort(
+      (a, b) => otherLists(b.username).length - otherLists(a.username).length || a.username.localeCompare(b.username),
+    )
+  }
+  const sign = order === 'oldest' ? 1 : -1
+  return [...entries].sort((a, b) => {
+    if (a.timestamp === null && b.timestamp === null) return a.username.localeCompare(b.username)
+    if (a.timestamp === null) return 1
+    if (b.timestamp === null) return -1
+    return sign * (a.timestamp - b.timestamp)
+  })
+}
+
+export function RelationshipResults({
+  tabs,
+  exportContext = EMPTY_EXPORT_CONTEXT,
+  keep,
+  activeTab,
+  onActiveTabChange,
+  route,
+  onRouteChange,
+}: Props) {
+  const { t, formatDate } = useI18n()
+  const [ownActiveId, setOwnActiveId] = useState(tabs[0]?.id ?? '')
+  const activeId = route?.tab ?? activeTab ?? ownActiveId
+  const [views, setViews] = useState<Record<string, TabView>>({})
+
+  // Una pestaña desconocida en la URL (ej: una lista que este export no trae) cae en la primera.
+  const active = tabs.find((tab) => tab.id === activeId) ?? tabs[0]
+  const entries = active?.entries
+  const view = (active && views[active.id]) || DEFAULT_VIEW
+  const { scrollTop, selected, showKept } = view
+  const query = route ? route.view.query : view.query
+  const sortOrder = route ? route.view.sort : view.sortOrder
+  const before = route ? route.view.before : view.before
+  const keptUsernames = keep?.usernames
+  const hidingKept = Boolean(active?.hideKept && keptUsernames && !showKept)
+
+  // username -> etiquetas de las pestañas donde aparece (para el orden "por pertenencia" y las etiquetas de cada fila).
+  const membership = useMemo(() => {
+    const map = new Map<string, string[]>()
+    for (const tab of tabs) {
+      for (const e of tab.entries) {
+        const labels = map.get(e.username)
+        if (labels) labels.push(tab.label)
+        else map.set(e.username, [tab.label])
+      }
+    }
+    return map
+  }, [tabs])
+
+  const activeLabel = active?.label
+  const otherLists = useMemo(
+    () => (username: string) => (membership.get(username) ?? []).filter((label) => label !== activeLabel),
+    [membership, activeLabel],
+  )
+
+  const visible = useMemo(() => {
+    if (!entries) return []
+    const q = normalizeQuery(query)
+    // `before` viene de un <input type="date"> (yyyy-mm-dd, hora local).
+    const limit = before ? new Date(`${before}T00:00:00`).getTime() / 1000 : null
+    const filtered = entries.filter(
+      (e) =>
+        (!q || e.username.includes(q)) &&
+        (limit === null || (e.timestamp !== null && e.timestamp < limit)) &&
+        !(hidingKept && keptUsernames?.has(e.username)),
+    )
+    return sortEntries(filtered, sortOrder, otherLists)
+  }, [entries, query, before, sortOrder, otherLists, hidingKept, keptUsernames])
+  const hasDates = Boolean(entries?.some((e) => e.timestamp !== null))
+  const keptInTab = useMemo(
+    () => (entries && keptUsernames ? entries.filter((e) => keptUsernames.has(e.username)).length : 0),
+    [entries, keptUsernames],
+  )
+
+  if (!active) return null
+
+  const selectedVisible = selected.size > 0 ? visible.filter((e) => selected.has(e.username)) : []
+  // Las acciones trabajan sobre la selección si hay, o sobre toda la lista visible.
+  const actionTarget = selectedVisible.length > 0 ? selectedVisible : visible
+
+  function updateView(patch: Partial<TabView>) {
+    if (!active) return
+    const id = active.id
+    setViews((current) => ({ ...current, [id]: { ...(current[id] ?? DEFAULT_VIEW), ...patch } }))
+  }
+
+  // Al cambiar búsqueda/orden/filtro volvemos arriba: la posición anterior ya no apunta a la misma cuenta.
+  function updateFilters(patch: Partial<Pick<TabView, 'query' | 'sortOrder' | 'before' | 'showKept'>>) {
+    updateView({ ...patch, scrollTop: 0 })
+    if (!active || patch.showKept !== undefined) return
+    onRouteChange?.(
+      {
+        name: 'results',
+        tab: active.id,
+        view: { query: patch.query ?? query, sort: patch.sortOrder ?? sortOrder, before: patch.before ?? before },
+      },
+      { replace: patch.query !== undefined },
+    )
+  }
+
+  function selectTab(id: string) {
+    if (!active) return
+    // Lo que se ve ahora (puede venir de la URL) queda recordado para cuando se vuelva a esta pestaña.
+    updateView({ query, sortOrder, before })
+    setOwnActiveId(id)
+    onActiveTabChange?.(id)
+    const next = views[id] ?? DEFAULT_VIEW
+    onRouteChange?.(
+      { name: 'results', tab: id, view: { query: next.query, sort: next.sortOrder, before: next.before } },
+      { replace: false },
+    )
+  }
+
+  function toggleSelected(username: string) {
+    const next = new Set(selected)
+    if (next.has(username)) next.delete(username)
+    else next.add(username)
+    updateView({ selected: next })
+  }
+
+  async function copyList() {
+    if (actionTarget.length === 0) return
+    const text = actionTarget.map((e) => `@${e.username}`).join('\n')
+    await navigator.clipboard.writeText(text)
+  }
+
+  // CSV: la pestaña actual tal como se ve (orden, búsqueda y filtro aplicados) o solo la selección.
+  function downloadCsv() {
+    if (!active || actionTarget.length === 0) return
+    downloadFile(buildCsv(actionTarget), exportFileName(active.label, 'csv'), 'text/csv;charset=utf-8')
+  }
+
+  // JSON y Excel: todas las pestañas completas (una hoja por lista en el Excel).
+  function downloadJson() {
+    downloadFile(buildJsonReport(tabs, exportContext), exportFileName(t('results.exportAllName'), 'json'), 'application/json')
+  }
+
+  function downloadXlsx() {
+    const workbook = buildXlsx(tabs, (i) => t('results.sheetName', { number: i + 1 }))
+    downloadFile(workbook, exportFileName(t('results.exportAllName'), 'xlsx'))
+  }
+
+  // `Number(...)`: sin él, el compilador de React asume que `t` podría modificar `active.entries` y deja de memoizar.
+  const tabTotal = Number(active.entries.length)
+  const totalText =
+    visible.length !== tabTotal
+      ? t('results.totalOf', { count: visible.length, total: tabTotal })
+      : t('results.total', { count: visible.length })
+
+  return (
+    <div className="results">
+      <div className="tabs" role="tablist" aria-label={t('results.tabsLabel')}>
+        {tabs.map((tab) => (
+          <button
+            key={tab.id}
+            type="button"
+            role="tab"
+            aria-selected={tab.id === active.id}
+            className={tab.id === active.id ? 'tab tabActive' : 'tab'}
+            onClick={() => selectTab(tab.id)}
+          >
+            {tab.label} <span className="tabCount">{tab.entries.length}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="exportBar">
+        <span className="hint">{t('results.downloadAll')}</span>
+        <button type="button" className="secondary" onClick={downloadJson} title={t('results.jsonTitle')}>
+          JSON
+        </button>
+        <button type="button" className="secondary" onClick={downloadXlsx} title={t('results.xlsxTitle')}>
+          {t('results.xlsx')}
+        </button>
+        <ReportControls lists={tabs} exportContext={exportContext} />
+      </div>
+
+      <div role="tabpanel" aria-label={active.label}>
+        {active.entries.length === 0 ? (
+          <p className="ok">{active.emptyMessage}</p>
+        ) : (
+          <>
+            <div className="listToolbar">
+              <label className="toolbarField">
+                <span className="hint">{t('results.search')}</span>
+                <input
+                  type="search"
+                  value={query}
+                  placeholder={t('results.searchPlaceholder')}
+                  onChange={(e) => updateFilters({ query: e.target.value })}
+                />
+              </label>
+              <label className="toolbarField">
+                <span className="hint">{t('results.sort')}</span>
+                <select value={sortOrder} onChange={(e) => updateFilters({ sortOrder: e.target.value as SortOrder })}>
+                  <option value="alpha">{t('results.sortAlpha')}</option>
+                  <option value="oldest" disabled={!hasDates}>
+                    {t('results.sortOldest')}
+                  </option>
+                  <option value="newest" disabled={!hasDates}>
+                    {t('results.sortNewest')}
+                  </option>
+                  <option value="membership" disabled={tabs.length < 2}>
+                    {t('results.sortMembership')}
+                  </option>
+                </select>
+              </label>
+              <label className="toolbarField">
+                <span className="hint">{t('results.before')}</span>
+                <input
+                  type="date"
+                  value={before}
+                  disabled={!hasDates}
+                  onChange={(e) => updateFilters({ before: e.target.value })}
+                />
+              </label>
+              {!hasDates ? (
+                <span className="hint">{t('results.noDates')}</span>
+              ) : null}
+              {active.hideKept && keep && keptInTab > 0 ? (
+                <label className="toggleField">
+                  <input
+                    type="checkbox"
+                    checked={showKept}
+                    onChange={(e) => updateFilters({ showKept: e.target.checked })}
+                  />
+                  <span className="hint">{t('results.showKept', { count: keptInTab })}</span>
+                </label>
+              ) : null}
+            </div>
+
+            <div className="listToolbar">
+              <button
+                type="button"
+                className="secondary"
+                onClick={() => updateView({ selected: new Set([...selected, ...visible.map((e) => e.username)]) })}
+                disabled={visible.length === 0}
+              >
+                {t('results.selectVisible')}
+              </button>
+              <button
+                type="button"
+                className="secondary"
+                onClick={() => updateView({ selected: new Set() })}
+                disabled={selected.size === 0}
+              >
+                {t('results.clearSelection')}
+              </button>
+              <button
+                type="button"
+                onClick={() => void copyList()}
+                disabled={actionTarget.length === 0}
+                title={t('results.copyTitle')}
+              >
+                {selectedVisible.length > 0
+                  ? t('results.copySelection', { count: selectedVisible.length })
+                  : t('results.copyList')}
+              </button>
+              <button
+                type="button"
+                className="secondary"
+                onClick={downloadCsv}
+                disabled={actionTarget.length === 0}
+                title={t('results.csvTitle')}
+              >
+                {selectedVisible.length > 0
+                  ? t('results.downloadSelection', { count: selectedVisible.length })
+                  : t('results.downloadCsv')}
+              </button>
+              {keep ? (
+                <button
+                  type="button"
+                  className="secondary"
+                  onClick={() => {
+                    keep.onChange(selectedVisible.map((e) => e.username), true)
+                    updateView({ selected: new Set() })
+                  }}
+                  disabled={selectedVisible.length === 0}
+                  title={t('results.keepSelectionTitle')}
+                >
+                  {selectedVisible.length > 0
+                    ? t('results.keepSelectionCount', { count: selectedVisible.length })
+                    : t('results.keepSelection')}
+                </button>
+              ) : null}
+            </div>
+
+            <p className="hint">
+              <RichText text={totalText} />
+              {selectedVisible.length > 0 ? t('results.selectedCount', { count: selectedVisible.length }) : ''}
+              {hidingKept && keptInTab > 0 ? t('results.hiddenKept', { count: keptInTab }) : ''}
+            </p>
+            {visible.length === 0 ? (
+              <p className="hint">{t('results.noMatches')}</p>
+            ) : (
+              <VirtualList
+                key={active.id}
+                items={visible}
+                rowHeight={ROW_HEIGHT}
+                maxHeight={LIST_MAX_HEIGHT}
+                scrollTop={scrollTop}
+                onScroll={(top) => updateView({ scrollTop: top })}
+                getKey={(e) => e.username}
+                ariaLabel={active.label}
+                renderRow={(e) => {
+                  const others = otherLists(e.username)
+                  const kept = keptUsernames?.has(e.username) ?? false
+                  return (
+                    <div className="listRow">
+                      <label className="rowSelect">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(e.username)}
+                          onChange={() => toggleSelected(e.username)}
+                          aria-label={t('results.selectAccount', { username: e.username })}
+                        />
+                        <div className="rowText">
+                          <div className="username">@{e.username}</div>
+                          <span className="hint">
+                            {e.timestamp !== null ? `${active.dateLabel} ${formatDate(e.timestamp * 1000)}` : null}
+                            {e.timestamp !== null && others.length > 0 ? ' · ' : null}
+                            {others.length > 0 ? t('results.alsoIn', { lists: others.join(', ') }) : null}
+                            {kept ? `${e.timestamp !== null || others.length > 0 ? ' · ' : ''}${t('results.keptTag')}` : null}
+                          </span>
+                        </div>
+                      </label>
+                      <div className="actions">
+                        {keep ? (
+                          <button
+                            type="button"
+                            className="secondary"
+                            onClick={() => keep.onChange([e.username], !kept)}
+                            title={kept ? t('results.unkeepTitle') : t('results.keepTitle')}
+                          >
+                            {kept ? t('results.unkeep') : t('results.keep')}
+                          </button>
+                        ) : null}
+                        <a className="linkBtn" href={profileUrl(e)} target="_blank" rel="noreferrer">
+                          {t('results.openProfile')}
+                        </a>
+                      </div>
+                    </div>
+                  )
+                }}
+              />
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+/**
+ * Botones del informe para compartir: descargar un HTML autocontenido o imprimirlo / guardarlo como PDF,
+ * con la opción de anonimizar los usernames.
+ *
+ * Relación con otros archivos:
+ * - Se usa dentro de la barra de descargas de `src/components/RelationshipResults.tsx` (mismas listas que el JSON).
+ * - El documento lo arma `src/lib/htmlReport.ts`; la descarga, `downloadFile` de `src/lib/resultExport.ts`.
+ */
+
+import { useState } from 'react'
+import {
+  buildHtmlReport,
+  printHtmlDocument,
+  REPORT_ANONYMIZATIONS,
+  type HtmlReportTexts,
+  type ReportAnonymization,
+  type ReportList,
+} from '../lib/htmlReport'
+import { downloadFile, exportFileName, type ResultExportContext } from '../lib/resultExport'
+import { useI18n } from './i18nContext'
+
+type Props = {
+  lists: ReportList[]
+  exportContext: ResultExportContext
+}
+
+export function ReportControls({ lists, exportContext }: Props) {
+  const { t, locale, formatDate, formatDateTime, errorMessage } = useI18n()
+  const [mode, setMode] = useState<ReportAnonymization>('none')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function generate(deliver: (html: string) => void) {
+    setBusy(true)
+    setError(null)
+    try {
+      const texts: HtmlReportTexts = {
+        lang: locale,
+        title: t('report.title'),
+        generatedLabel: t('report.generated'),
+        exportDateLabel: t('report.exportDate'),
+        countsTitle: t('report.counts'),
+        sourcesTitle: t('report.sources'),
+        warningsTitle: t('report.warnings'),
+        usernameHeader: t('report.username'),
+        anonymizedNote: t(mode === 'hash' ? 'report.anonymizedHash' : 'report.anonymizedMask'),
+        printButton: t('report.printButton'),
+        footer: t('report.footer'),
+        formatDate,
+        formatDateTime,
+      }
+      deliver(await buildHtmlReport(lists, exportContext, texts, mode))
+    } catch (e) {
+      setError(errorMessage(e, t('report.failed')))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <>
+      <span className="hint">{t('report.anonymize')}</span>
+      <select
+        value={mode}
+        aria-label={t('report.anonymizeLabel')}
+        onChange={(e) => setMode(e.target.value as ReportAnonymization)}
+      >
+        {REPORT_ANONYMIZATIONS.map((m) => (
+          <option key={m} value={m}>
+            {t(`report.mode.${m}`)}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        className="secondary"
+        disabled={busy}
+        title={t('report.htmlTitle')}
+        onClick={() =>
+          void generate((html) =>
+            downloadFile(html, exportFileName(t('report.fileName'), 'html'), 'text/html;charset=utf-8'),
+          )
+        }
+      >
+        {t('report.html')}
+      </button>
+      <button
+        type="button"
+        className="secondary"
+        disabled={busy}
+        title={t('report.printTitle')}
+        onClick={() => void generate(printHtmlDocument)}
+      >
+        {t('report.print')}
+      </button>
+      {error ? <span className="error">{error}</span> : null}
+    </>
+  )
+}
@@ -0,0 +1,299 @@
+/**
+ * Revisión guiada de "No te siguen": muestra una cuenta a la vez para abrir su perfil y decidir
+ * (ya la dejé de seguir / mantener / saltar), con atajos de teclado y pausa opcional entre cuentas.
+ *
+ * Relación con otros archivos:
+ * - Se usa desde `src/App.tsx` con la lista "No te siguen" de `computeRelationshipBreakdown`.
+ * - El avance se guarda con `src/lib/reviewProgress.ts`; "mantener" usa la lista de `useKeepList`.
+ *
+ * Nota:
+ * - Todo es manual: la app solo abre el perfil en otra pestaña cuando el usuario lo pide. Dejar de seguir
+ *   se hace en Instagram, y aquí solo se anota.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { profileUrl, type InstagramRelationshipEntry } from '../lib/instagramExport'
+import {
+  clearReviewDecisions,
+  listReviewDecisions,
+  restoreReviewDecision,
+  saveReviewDecision,
+  type ReviewDecision,
+} from '../lib/reviewProgress'
+import type { MessageKey } from '../locales'
+import { useI18n } from './i18nContext'
+import { RichText } from './RichText'
+import type { KeepListState } from './useKeepList'
+
+type Props = {
+  entries: InstagramRelationshipEntry[]
+  keepList: KeepListState
+  onClose: () => void
+}
+
+type ReviewAction = 'unfollowed' | 'keep' | 'skipped'
+
+/** Lo necesario para deshacer la última decisión. */
+type UndoStep = {
+  username: string
+  action: ReviewAction
+  previous: ReviewDecision | null
+}
+
+const PACING_OPTIONS_SECONDS = [10, 20, 30, 60]
+const ONE_HOUR_MS = 60 * 60 * 1000
+
+const SHORTCUTS: { key: string; label: MessageKey }[] = [
+  { key: 'O', label: 'review.shortcutOpen' },
+  { key: 'U', label: 'review.shortcutUnfollowed' },
+  { key: 'K', label: 'review.shortcutKeep' },
+  { key: 'S', label: 'review.shortcutSkip' },
+  { key: 'Z', label: 'review.shortcutUndo' },
+]
+
+/**
+ * Cola pendiente: primero las cuentas sin decisión (en el orden de la lista), después las saltadas
+ * (de la que se saltó hace más tiempo a la más reciente).
+ */
+function buildQueue(
+  entries: InstagramRelationshipEntry[],
+  decisions: ReadonlyMap<string, ReviewDecision>,
+  kept: ReadonlySet<string>,
+): InstagramRelationshipEntry[] {
+  const fresh: InstagramRelationshipEntry[] = []
+  const skipped: InstagramRelationshipEntry[] = []
+  for (const e of entries) {
+    if (kept.has(e.username)) continue
+    const decision = decisions.get(e.username)
+    if (!decision) fresh.push(e)
+    else if (decision.decision === 'skipped') skipped.push(e)
+  }
+  skipped.sort((a, b) => (decisions.get(a.username)?.decidedAt ?? 0) - (decisions.get(b.username)?.decidedAt ?? 0))
+  return [...fresh, ...skipped]
+}
+
+// No interceptamos teclas mientras el usuario escribe en un campo.
+function isTypingTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName))
+}
+
+// Con foco en un botón o enlace, Enter tiene que activar ese elemento, no abrir el perfil.
+function isInteractiveTarget(target: EventTarget | null): boolean {
+  return target instanceof Element && target.closest('button, a[href], summary, [role="button"], [role="link"]') !== null
+}
+
+export function ReviewQueue({ entries, keepList, onClose }: Props) {
+  const { t, formatDate, errorMessage } = useI18n()
+  const [decisions, setDecisions] = useState<ReadonlyMap<string, ReviewDecision>>(new Map())
+  const [loaded, setLoaded] = useState(false)
+  const [undoStack, setUndoStack] = useState<UndoStep[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [pacingSeconds, setPacingSeconds] = useState(0)
+  const [pauseUntil, setPauseUntil] = useState<number | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    listReviewDecisions()
+      .then((list) => setDecisions(new Map(list.map((d) => [d.username, d]))))
+      .catch((e: unknown) => setError(errorMessage(e, t('review.loadFailed'))))
+      .finally(() => setLoaded(true))
+  }, [t, errorMessage])
+
+  // Cuenta regresiva de la pausa: solo corre mientras hay una pausa activa.
+  useEffect(() => {
+    if (pauseUntil === null) return
+    const id = window.setInterval(() => {
+      const time = Date.now()
+      setNow(time)
+      if (time >= pauseUntil) setPauseUntil(null)
+    }, 250)
+    return () => window.clearInterval(id)
+  }, [pauseUntil])
+
+  const kept = keepList.usernames
+  const queue = useMemo(() => buildQueue(entries, decisions, kept), [entries, decisions, kept])
+  const current = queue[0]
+  const done = useMemo(
+    () => entries.filter((e) => kept.has(e.username) || decisions.get(e.username)?.decision === 'unfollowed').length,
+    [entries, decisions, kept],
+  )
+  const unfollowedLastHour = useMemo(() => {
+    let count = 0
+    for (const d of decisions.values()) if (d.decision === 'unfollowed' && d.decidedAt > now - ONE_HOUR_MS) count++
+    return count
+  }, [decisions, now])
+  const pauseLeft = pauseUntil !== null ? Math.max(0, Math.ceil((pauseUntil - now) / 1000)) : 0
+
+  function setDecision(username: string, decision: ReviewDecision | null) {
+    setDecisions((map) => {
+      const next = new Map(map)
+      if (decision) next.set(username, decision)
+      else next.delete(username)
+      return next
+    })
+  }
+
+  async function decide(action: ReviewAction) {
+    if (!current) return
+    const { username } = current
+    const previous = decisions.get(username) ?? null
+    setError(null)
+    try {
+      if (action === 'keep') {
+        // `keepList.add` no lanza: si no se pudo guardar devuelve null y no hay nada que deshacer.
+        if ((await keepList.add([username])) === null) {
+          setError(t('review.saveFailed'))
+          return
+        }
+      } else setDecision(username, await saveReviewDecision(username, action))
+      setUndoStack((stack) => [...stack, { username, action, previous }])
+
+      const time = Date.now()
+      setNow(time)
+      if (action === 'unfollowed' && pacingSeconds > 0) setPauseUntil(time + pacingSeconds * 1000)
+    } catch (e) {
+      setError(errorMessage(e, t('review.saveFailed')))
+    }
+  }
+
+  async function undo() {
+    const last = undoStack[undoStack.length - 1]
+    if (!last) return
+    setError(null)
+    try {
+      if (last.action === 'keep') {
+        if (!(await keepList.remove([last.username]))) {
+          setError(t('review.undoFailed'))
+          return
+        }
+      } else {
+        await restoreReviewDecision(last.username, last.previous)
+        setDecision(last.username, last.previous)
+      }
+      setUndoStack((stack) => stack.slice(0, -1))
+    } catch (e) {
+      setError(errorMessage(e, t('review.undoFailed')))
+    }
+  }
+
+  function openProfile() {
+    if (!current || pauseLeft > 0) return
+    window.open(profileUrl(current), '_blank', 'noopener,noreferrer')
+  }
+
+  async function handleReset() {
+    if (!window.confirm(t('review.confirmReset'))) return
+    setError(null)
+    try {
+      await clearReviewDecisions()
+      setDecisions(new Map())
+      setUndoStack([])
+    } catch (e) {
+      setError(errorMessage(e, t('review.resetFailed')))
+    }
+  }
+
+  // El listener de teclado se registra una vez y llama siempre a la versión más reciente del handler.
+  const keyHandler = useRef<(e: KeyboardEvent) => void>(() => undefined)
+  useEffect(() => {
+    keyHandler.current = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return
+      const key = e.key.toLowerCase()
+      if (key === 'enter' && isInteractiveTarget(e.target)) return
+      if (key === 'o' || key === 'enter') openProfile()
+      else if (key === 'u') void decide('unfollowed')
+      else if (key === 'k') void decide('keep')
+      else if (key === 's' || key === 'arrowright') void decide('skipped')
+      else if (key === 'z') void undo()
+      else if (key === 'escape') onClose()
+      else return
+      e.preventDefault()
+    }
+  })
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) => keyHandler.current(e)
+    window.addEventListener('keydown', listener)
+    return () => window.removeEventListener('keydown', listener)
+  }, [])
+
+  if (!loaded) return <p className="hint">{t('review.loading')}</p>
+
+  return (
+    <div className="review" aria-label={t('review.ariaLabel')}>
+      <div className="reviewHeader">
+        <p className="hint">
+          <RichText text={t('review.progress', { done, total: entries.length, pending: queue.length })} />
+          {unfollowedLastHour > 0 ? t('review.lastHour', { count: unfollowedLastHour }) : ''}
+        </p>
+        <progress max={entries.length || 1} value={done} />
+      </div>
+
+      {current ? (
+        <div className="reviewCard">
+          <div className="username">@{current.username}</div>
+          <span className="hint">
+            {current.timestamp !== null ? t('review.followedOn', { date: formatDate(current.timestamp * 1000) }) : null}
+            {decisions.get(current.username)?.decision === 'skipped' ? t('review.skippedBefore') : null}
+          </span>
+
+          <div className="listToolbar">
+            <button type="button" onClick={openProfile} disabled={pauseLeft > 0}>
+              {pauseLeft > 0 ? t('review.wait', { seconds: pauseLeft }) : t('review.open')}
+            </button>
+            <button type="button" onClick={() => void decide('unfollowed')}>
+              {t('review.unfollowed')}
+            </button>
+            <button type="button" className="secondary" onClick={() => void decide('keep')}>
+              {t('review.keep')}
+            </button>
+            <button type="button" className="secondary" onClick={() => void decide('skipped')}>
+              {t('review.skip')}
+            </button>
+            <button type="button" className="secondary" onClick={() => void undo()} disabled={undoStack.length === 0}>
+              {t('review.undo')}
+            </button>
+          </div>
+
+          {pauseLeft > 0 ? (
+            <div className="reviewPause" role="status">
+              <span>{t('review.pause', { seconds: pauseLeft })}</span>
+              <button type="button" className="secondary" onClick={() => setPauseUntil(null)}>
+                {t('review.skipPause')}
+              </button>
+            </div>
+          ) : null}
+        </div>
+      ) : (
+        <p className="ok">
+          {t('review.finished')}
+          {undoStack.length > 0 ? t('review.finishedUndo') : ''}
+        </p>
+      )}
+
+      <div className="listToolbar">
+        <label className="toolbarField">
+          <span className="hint">{t('review.pacing')}</span>
+          <select value={pacingSeconds} onChange={(e) => setPacingSeconds(Number(e.target.value))}>
+            <option value={0}>{t('review.noPacing')}</option>
+            {PACING_OPTIONS_SECONDS.map((s) => (
+              <option key={s} value={s}>
+                {t('review.seconds', { count: s })}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button type="button" className="secondary" onClick={() => void handleReset()}>
+          {t('review.reset')}
+        </button>
+        <button type="button" className="secondary" onClick={onClose}>
+          {t('review.close')}
+        </button>
+      </div>
+
+      {error ? <p className="error">{error}</p> : null}
+      <p className="hint">
+        {t('review.shortcuts')} {SHORTCUTS.map((s) => `${s.key} ${t(s.label)}`).join(' · ')}. {t('review.manualNote')}
+      </p>
+    </div>
+  )
+}
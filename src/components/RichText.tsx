@@ -0,0 +1,28 @@
+/**
+ * Muestra un texto traducido con marcas simples: `**negrita**` y `` `código` ``.
+ *
+ * Relación con otros archivos:
+ * - Lo usan `src/App.tsx` (ayuda, encabezado) y `src/pages/LegalPage.tsx` con textos de `src/locales/*.ts`.
+ *
+ * Nota:
+ * - No interpreta HTML: el texto se muestra siempre como texto.
+ */
+
+import { Fragment } from 'react'
+
+type Props = {
+  text: string
+}
+
+export function RichText({ text }: Props) {
+  const parts = text.split(/(\*\*[^*]+\*\*|`[^`]+`)/g)
+  return (
+    <>
+      {parts.map((part, i) => {
+        if (part.length > 4 && part.startsWith('**') && part.endsWith('**')) return <strong key={i}>{part.slice(2, -2)}</strong>
+        if (part.length > 2 && part.startsWith('`') && part.endsWith('`')) return <code key={i}>{part.slice(1, -1)}</code>
+        return <Fragment key={i}>{part}</Fragment>
+      })}
+    </>
+  )
+}
@@ -0,0 +1,172 @@
+/**
+ * Historial local: guardar snapshots con nombre, listarlos, borrarlos y comparar dos de ellos.
+ *
+ * Relación con otros archivos:
+ * - Se usa desde `src/App.tsx` (recibe las listas actualmente cargadas).
+ * - Persistencia en `src/lib/snapshotStore.ts`; comparación en `src/lib/relationshipDiff.ts`.
+ * - Las diferencias se muestran con `RelationshipResults` (mismas acciones que el resultado principal),
+ *   usando las pestañas de `src/components/diffTabs.ts`.
+ *
+ * Nota de privacidad:
+ * - Nada se guarda hasta que el usuario pulsa "Guardar snapshot".
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import { diffRelationshipLists } from '../lib/relationshipDiff'
+import type { ResultExportContext } from '../lib/resultExport'
+import {
+  clearSnapshots,
+  deleteSnapshot,
+  listSnapshots,
+  saveSnapshot,
+  type RelationshipLists,
+  type RelationshipSnapshot,
+} from '../lib/snapshotStore'
+import { buildDiffTabs } from './diffTabs'
+import { useI18n } from './i18nContext'
+import { RelationshipResults, type ResultTab } from './RelationshipResults'
+
+type Props = {
+  /** Listas cargadas ahora mismo (null si todavía faltan seguidores o seguidos). */
+  currentLists: RelationshipLists | null
+}
+
+export function SnapshotHistory({ currentLists }: Props) {
+  const { t, formatDateTime, errorMessage } = useI18n()
+  const [snapshots, setSnapshots] = useState<RelationshipSnapshot[]>([])
+  const [name, setName] = useState('')
+  const [fromId, setFromId] = useState('')
+  const [toId, setToId] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    listSnapshots()
+      .then(setSnapshots)
+      .catch((e: unknown) => setError(errorMessage(e, t('history.loadFailed'))))
+  }, [t, errorMessage])
+
+  async function refresh() {
+    setSnapshots(await listSnapshots())
+  }
+
+  async function handleSave() {
+    if (!currentLists) return
+    setError(null)
+    try {
+      const label = name.trim() || t('history.defaultName', { date: formatDateTime(Date.now()) })
+      await saveSnapshot(label, currentLists)
+      setName('')
+      await refresh()
+    } catch (e) {
+      setError(errorMessage(e, t('history.saveFailed')))
+    }
+  }
+
+  async function handleDelete(id: string) {
+    await deleteSnapshot(id)
+    if (fromId === id) setFromId('')
+    if (toId === id) setToId('')
+    await refresh()
+  }
+
+  async function handleClear() {
+    if (!window.confirm(t('history.confirmClear'))) return
+    await clearSnapshots()
+    setFromId('')
+    setToId('')
+    await refresh()
+  }
+
+  const comparison = useMemo<{ tabs: ResultTab[]; exportContext: ResultExportContext } | null>(() => {
+    const a = snapshots.find((s) => s.id === fromId)
+    const b = snapshots.find((s) => s.id === toId)
+    if (!a || !b || a.id === b.id) return null
+
+    // Siempre comparamos del más antiguo al más nuevo, sin importar el orden elegido.
+    const [older, newer] = a.createdAt <= b.createdAt ? [a, b] : [b, a]
+    return {
+      tabs: buildDiffTabs(diffRelationshipLists(older.lists, newer.lists), t),
+      exportContext: {
+        sourceFiles: [t('history.source', { name: older.name }), t('history.source', { name: newer.name })],
+        warnings: [],
+      },
+    }
+  }, [snapshots, fromId, toId, t])
+
+  return (
+    <div className="history">
+      <div className="historySave">
+        <input
+          type="text"
+          value={name}
+          placeholder={t('history.namePlaceholder')}
+          onChange={(e) => setName(e.target.value)}
+          disabled={!currentLists}
+        />
+        <button type="button" onClick={() => void handleSave()} disabled={!currentLists}>
+          {t('history.save')}
+        </button>
+      </div>
+      {!currentLists ? <p className="hint">{t('history.needLists')}</p> : null}
+      {error ? <p className="error">{error}</p> : null}
+
+      {snapshots.length === 0 ? (
+        <p className="hint">{t('history.empty')}</p>
+      ) : (
+        <>
+          <div className="list">
+            {snapshots.map((s) => (
+              <div key={s.id} className="listRow">
+                <div>
+                  <div className="username">{s.name}</div>
+                  <span className="hint">
+                    {t('history.counts', {
+                      date: formatDateTime(s.createdAt),
+                      followers: s.lists.followers?.length ?? 0,
+                      following: s.lists.following?.length ?? 0,
+                    })}
+                  </span>
+                </div>
+                <div className="actions">
+                  <button type="button" className="secondary" onClick={() => void handleDelete(s.id)}>
+                    {t('history.delete')}
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="listToolbar">
+            <label className="toolbarField">
+              <span className="hint">{t('history.from')}</span>
+              <select value={fromId} onChange={(e) => setFromId(e.target.value)}>
+                <option value="">{t('history.choose')}</option>
+                {snapshots.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="toolbarField">
+              <span className="hint">{t('history.to')}</span>
+              <select value={toId} onChange={(e) => setToId(e.target.value)}>
+                <option value="">{t('history.choose')}</option>
+                {snapshots.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button type="button" className="secondary" onClick={() => void handleClear()}>
+              {t('history.clear')}
+            </button>
+          </div>
+
+          {comparison ? <RelationshipResults tabs={comparison.tabs} exportContext={comparison.exportContext} /> : null}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,321 @@
+/**
+ * Panel de estadísticas: cuántos te siguen de vuelta, seguidos y seguidores nuevos por mes, qué parte no te
+ * sigue según hace cuánto los seguiste, y los seguidos más viejos y más nuevos.
+ *
+ * Relación con otros archivos:
+ * - Se usa desde `src/App.tsx` con las listas del espacio activo y la lista "mantener" (`useKeepList`).
+ * - Los números salen de `src/lib/followStats.ts`; la fecha del export, de `exportDateFromPath`
+ *   (`src/lib/exportComparison.ts`).
+ *
+ * Nota:
+ * - Los gráficos son SVG propios (sin librerías ni CDN). Cada gráfico tiene al lado sus datos en una tabla
+ *   plegable, para lectores de pantalla y para copiar los números.
+ */
+
+import { useMemo, useState } from 'react'
+import { exportDateFromPath } from '../lib/exportComparison'
+import { computeFollowStats, type FollowAgeBucket, type MonthlyFollowCount } from '../lib/followStats'
+import { profileUrl, type InstagramRelationshipEntry } from '../lib/instagramExport'
+import { useI18n } from './i18nContext'
+import { RichText } from './RichText'
+
+type Props = {
+  followers: InstagramRelationshipEntry[]
+  following: InstagramRelationshipEntry[]
+  keptUsernames: ReadonlySet<string>
+  /** Rutas de los archivos cargados (para leer la fecha del export del nombre del ZIP). */
+  sourceFiles: string[]
+}
+
+// Medidas de los gráficos (unidades del viewBox).
+const CHART_WIDTH = 640
+const CHART_HEIGHT = 220
+const CHART_PADDING = { top: 12, right: 8, bottom: 28, left: 36 }
+const AGE_ROW_HEIGHT = 30
+const AGE_LABEL_WIDTH = 150
+
+function percent(part: number, total: number): number {
+  return total === 0 ? 0 : Math.round((part / total) * 100)
+}
+
+type MonthlyChartProps = {
+  months: MonthlyFollowCount[]
+}
+
+function MonthlyChart({ months }: MonthlyChartProps) {
+  const { t, locale } = useI18n()
+  let max = 1
+  for (const m of months) max = Math.max(max, m.follows, m.newFollowers)
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom
+  const slot = plotWidth / months.length
+  const barWidth = Math.max(1, slot / 2 - 1)
+  const y = (value: number) => CHART_PADDING.top + plotHeight - (value / max) * plotHeight
+  const monthLabel = (m: MonthlyFollowCount) =>
+    new Date(m.start).toLocaleDateString(locale, { month: 'short', year: 'numeric' })
+  // Con muchos meses, solo rotulamos enero (y el primero); con pocos, todos.
+  const labelled = (m: MonthlyFollowCount, i: number) => months.length <= 12 || i === 0 || m.month.endsWith('-01')
+
+  return (
+    <div className="statsChart">
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        role="img"
+        aria-label={t('stats.monthlyLabel', { months: months.length })}
+      >
+        <line
+          className="statsAxis"
+          x1={CHART_PADDING.left}
+          x2={CHART_WIDTH - CHART_PADDING.right}
+          y1={y(0)}
+          y2={y(0)}
+        />
+        <text className="statsTick" x={CHART_PADDING.left - 6} y={y(max)} textAnchor="end" dominantBaseline="middle">
+          {max}
+        </text>
+        <text className="statsTick" x={CHART_PADDING.left - 6} y={y(0)} textAnchor="end" dominantBaseline="middle">
+          0
+        </text>
+        {months.map((m, i) => {
+          const x = CHART_PADDING.left + i * slot
+          return (
+            <g key={m.month}>
+              <title>
+                {t('stats.monthTooltip', { month: monthLabel(m), follows: m.follows, followers: m.newFollowers })}
+              </title>
+              <rect className="statsBar follows" x={x} y={y(m.follows)} width={barWidth} height={y(0) - y(m.follows)} />
+              <rect
+                className="statsBar newFollowers"
+                x={x + barWidth + 1}
+                y={y(m.newFollowers)}
+                width={barWidth}
+                height={y(0) - y(m.newFollowers)}
+              />
+              {labelled(m, i) ? (
+                <text className="statsTick" x={x + slot / 2} y={CHART_HEIGHT - 8} textAnchor="middle">
+                  {months.length <= 12 ? monthLabel(m) : m.month.slice(0, 4)}
+                </text>
+              ) : null}
+            </g>
+          )
+        })}
+      </svg>
+      <div className="statsLegend">
+        <span>
+          <span className="statsSwatch follows" aria-hidden="true" /> {t('stats.follows')}
+        </span>
+        <span>
+          <span className="statsSwatch newFollowers" aria-hidden="true" /> {t('stats.newFollowers')}
+        </span>
+      </div>
+      <details className="statsData">
+        <summary>{t('stats.showData')}</summary>
+        <table>
+          <thead>
+            <tr>
+              <th>{t('stats.month')}</th>
+              <th>{t('stats.follows')}</th>
+              <th>{t('stats.newFollowers')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {months.map((m) => (
+              <tr key={m.month}>
+                <td>{monthLabel(m)}</td>
+                <td>{m.follows}</td>
+                <td>{m.newFollowers}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+    </div>
+  )
+}
+
+type AgeChartProps = {
+  buckets: FollowAgeBucket[]
+}
+
+function AgeChart({ buckets }: AgeChartProps) {
+  const { t } = useI18n()
+  const height = buckets.length * AGE_ROW_HEIGHT
+  const barSpace = CHART_WIDTH - AGE_LABEL_WIDTH - 130
+
+  return (
+    <div className="statsChart">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${height}`} role="img" aria-label={t('stats.ageLabel')}>
+        {buckets.map((b, i) => {
+          const share = percent(b.notFollowingBack, b.following)
+          const top = i * AGE_ROW_HEIGHT
+          const middle = top + AGE_ROW_HEIGHT / 2
+          const barHeight = AGE_ROW_HEIGHT - 12
+          return (
+            <g key={b.id}>
+              <text className="statsTick" x={AGE_LABEL_WIDTH - 8} y={middle} textAnchor="end" dominantBaseline="middle">
+                {t(`stats.age.${b.id}`)}
+              </text>
+              <rect className="statsTrack" x={AGE_LABEL_WIDTH} y={top + 6} width={barSpace} height={barHeight} />
+              <rect
+                className="statsBar notFollowingBack"
+                x={AGE_LABEL_WIDTH}
+                y={top + 6}
+                width={(barSpace * share) / 100}
+                height={barHeight}
+              />
+              <text className="statsTick" x={AGE_LABEL_WIDTH + barSpace + 8} y={middle} dominantBaseline="middle">
+                {b.following === 0
+                  ? '—'
+                  : t('stats.ageShare', { percent: share, count: b.notFollowingBack, total: b.following })}
+              </text>
+            </g>
+          )
+        })}
+      </svg>
+      <details className="statsData">
+        <summary>{t('stats.showData')}</summary>
+        <table>
+          <thead>
+            <tr>
+              <th>{t('stats.followedAgo')}</th>
+              <th>{t('stats.following')}</th>
+              <th>{t('stats.notFollowingBack')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {buckets.map((b) => (
+              <tr key={b.id}>
+                <td>{t(`stats.age.${b.id}`)}</td>
+                <td>{b.following}</td>
+                <td>{b.notFollowingBack}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+    </div>
+  )
+}
+
+type FollowListProps = {
+  title: string
+  entries: InstagramRelationshipEntry[]
+}
+
+function FollowList({ title, entries }: FollowListProps) {
+  const { t, formatDate } = useI18n()
+  return (
+    <div className="statsList">
+      <h3>{title}</h3>
+      {entries.length === 0 ? (
+        <p className="hint">{t('stats.noFollowDates')}</p>
+      ) : (
+        <ol>
+          {entries.map((e) => (
+            <li key={e.username}>
+              <a href={profileUrl(e)} target="_blank" rel="noreferrer">
+                @{e.username}
+              </a>{' '}
+              <span className="hint">{e.timestamp === null ? '' : formatDate(e.timestamp * 1000)}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
+
+export function StatsDashboard({ followers, following, keptUsernames, sourceFiles }: Props) {
+  const { t, formatDate } = useI18n()
+  const [excludeKept, setExcludeKept] = useState(true)
+  const [since, setSince] = useState('')
+  // "Hace cuánto" se mide desde la fecha del export (la del ZIP); si no se sabe, desde que se abrió el panel.
+  const [openedAt] = useState(() => Date.now())
+  const exportDate = useMemo(() => {
+    for (const path of sourceFiles) {
+      const date = exportDateFromPath(path)
+      if (date !== null) return date
+    }
+    return null
+  }, [sourceFiles])
+  const referenceMs = exportDate ?? openedAt
+
+  const keptFollowing = useMemo(
+    () => following.filter((e) => keptUsernames.has(e.username)).length,
+    [following, keptUsernames],
+  )
+  const stats = useMemo(
+    () =>
+      computeFollowStats(followers, following, {
+        referenceMs,
+        excluded: excludeKept ? keptUsernames : undefined,
+        // `since` viene de un <input type="date"> (yyyy-mm-dd, hora local).
+        sinceMs: since ? new Date(`${since}T00:00:00`).getTime() : null,
+      }),
+    [followers, following, referenceMs, excludeKept, keptUsernames, since],
+  )
+  const hasDates = stats.monthly.length > 0
+
+  return (
+    <div className="stats">
+      <div className="listToolbar">
+        <label className="toggleField">
+          <input
+            type="checkbox"
+            checked={excludeKept}
+            disabled={keptFollowing === 0}
+            onChange={(e) => setExcludeKept(e.target.checked)}
+          />
+          {t('stats.excludeKept', { count: keptFollowing })}
+        </label>
+        <label className="toolbarField">
+          <span className="hint">{t('stats.since')}</span>
+          <input type="date" value={since} onChange={(e) => setSince(e.target.value)} />
+        </label>
+      </div>
+
+      <div className="statsTiles">
+        <div className="statsTile">
+          <span className="statsValue">{stats.following}</span>
+          <span className="hint">{t('stats.following')}</span>
+        </div>
+        <div className="statsTile">
+          <span className="statsValue">{stats.followers}</span>
+          <span className="hint">{t('stats.followers')}</span>
+        </div>
+        <div className="statsTile">
+          <span className="statsValue">{percent(stats.followingBack, stats.following)}%</span>
+          <span className="hint">
+            {t('stats.followBackRatio', { count: stats.followingBack, total: stats.following })}
+          </span>
+        </div>
+      </div>
+
+      <p className="hint">
+        <RichText
+          text={
+            exportDate === null
+              ? t('stats.referenceToday')
+              : t('stats.referenceExport', { date: formatDate(exportDate) })
+          }
+        />
+      </p>
+      {stats.undated > 0 ? <p className="hint">{t('stats.undated', { count: stats.undated })}</p> : null}
+
+      {hasDates ? (
+        <>
+          <h3>{t('stats.monthlyTitle')}</h3>
+          <MonthlyChart months={stats.monthly} />
+          <h3>{t('stats.ageTitle')}</h3>
+          <AgeChart buckets={stats.byAge} />
+          <div className="statsLists">
+            <FollowList title={t('stats.oldest')} entries={stats.oldest} />
+            <FollowList title={t('stats.newest')} entries={stats.newest} />
+          </div>
+        </>
+      ) : (
+        <p className="hint">{t('stats.noDates')}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+/**
+ * Registra el service worker (solo en el build de producción) y muestra sus avisos: "hay una versión nueva"
+ * y "la app ya funciona sin conexión".
+ *
+ * Relación con otros archivos:
+ * - Se monta en `src/main.tsx`, fuera de las rutas, así el aviso aparece también en las páginas legales.
+ * - La lógica del service worker está en `src/lib/pwa.ts`.
+ */
+
+import { useEffect, useState } from 'react'
+import { registerServiceWorker } from '../lib/pwa'
+import { useI18n } from './i18nContext'
+
+export function UpdatePrompt() {
+  const { t } = useI18n()
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null)
+  const [offlineReady, setOfflineReady] = useState(false)
+
+  useEffect(() => {
+    // En desarrollo no hay service worker: cachear los módulos de Vite rompería la recarga en caliente.
+    if (!import.meta.env.PROD) return
+    registerServiceWorker(`${import.meta.env.BASE_URL}sw.js`, {
+      onUpdateReady: (apply) => setApplyUpdate(() => apply),
+      onOfflineReady: () => setOfflineReady(true),
+    }).catch(() => {
+      // Sin service worker la app funciona igual, solo que necesita conexión para abrir.
+    })
+  }, [])
+
+  if (applyUpdate) {
+    return (
+      <div className="updatePrompt" role="status">
+        <span>{t('pwa.updateAvailable')}</span>
+        <div className="actions">
+          <button type="button" onClick={applyUpdate}>
+            {t('pwa.update')}
+          </button>
+          <button type="button" className="secondary" onClick={() => setApplyUpdate(null)}>
+            {t('pwa.later')}
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  if (offlineReady) {
+    return (
+      <div className="updatePrompt" role="status">
+        <span>{t('pwa.offlineReady')}</span>
+        <button type="button" className="secondary" onClick={() => setOfflineReady(false)}>
+          {t('pwa.dismiss')}
+        </button>
+      </div>
+    )
+  }
+
+  return null
+}
@@ -0,0 +1,68 @@
+/**
+ * Lista virtualizada: solo monta en el DOM las filas visibles (más un margen), así listas de miles
+ * de cuentas (ej: 7.500 seguidos) se desplazan sin trabas.
+ *
+ * Relación con otros archivos:
+ * - Se usa desde `src/components/RelationshipResults.tsx`.
+ *
+ * Nota:
+ * - Todas las filas miden lo mismo (`rowHeight`); así no hay que medir el DOM.
+ * - El scroll es "controlado" (`scrollTop` + `onScroll`) para que el padre pueda recordarlo por pestaña.
+ */
+
+import { useLayoutEffect, useRef, type ReactNode } from 'react'
+
+type Props<T> = {
+  items: T[]
+  /** Alto de cada fila en px (incluye el espacio entre filas). */
+  rowHeight: number
+  /** Alto máximo de la ventana visible en px. */
+  maxHeight: number
+  scrollTop: number
+  onScroll: (scrollTop: number) => void
+  getKey: (item: T) => string
+  renderRow: (item: T) => ReactNode
+  ariaLabel?: string
+}
+
+// Filas extra arriba y abajo para que no se vea "vacío" al desplazar rápido.
+const OVERSCAN = 6
+
+export function VirtualList<T>({ items, rowHeight, maxHeight, scrollTop, onScroll, getKey, renderRow, ariaLabel }: Props<T>) {
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Restaura la posición guardada al montar (ej: al volver a una pestaña) o cuando el padre la reinicia.
+  useLayoutEffect(() => {
+    const el = containerRef.current
+    if (el && Math.abs(el.scrollTop - scrollTop) > 1) el.scrollTop = scrollTop
+  }, [scrollTop])
+
+  const totalHeight = items.length * rowHeight
+  const viewportHeight = Math.min(maxHeight, totalHeight)
+  const first = Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN)
+  const last = Math.min(items.length, Math.ceil((scrollTop + viewportHeight) / rowHeight) + OVERSCAN)
+
+  return (
+    <div
+      ref={containerRef}
+      className="virtualList"
+      style={{ height: viewportHeight }}
+      role="list"
+      aria-label={ariaLabel}
+      onScroll={(e) => onScroll(e.currentTarget.scrollTop)}
+    >
+      <div style={{ height: totalHeight, position: 'relative' }}>
+        {items.slice(first, last).map((item, i) => (
+          <div
+            key={getKey(item)}
+            role="listitem"
+            className="virtualRow"
+            style={{ top: (first + i) * rowHeight, height: rowHeight }}
+          >
+            {renderRow(item)}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
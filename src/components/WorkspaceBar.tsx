@@ -0,0 +1,77 @@
+/**
+ * Barra de espacios de trabajo: una pestaña por cuenta, más renombrar, agregar y borrar.
+ *
+ * Relación con otros archivos:
+ * - Se usa desde `src/App.tsx`, encima de la zona de carga.
+ * - El estado es de `src/components/useWorkspaces.ts`.
+ */
+
+import { useI18n } from './i18nContext'
+import type { WorkspacesState } from './useWorkspaces'
+
+type Props = {
+  workspaces: WorkspacesState
+  /** Se llama antes de cambiar de espacio (App cierra la revisión guiada, que es de la cuenta anterior). */
+  onSwitch: () => void
+}
+
+export function WorkspaceBar({ workspaces, onSwitch }: Props) {
+  const { t } = useI18n()
+  const { active, labels } = workspaces
+
+  function handleRemove() {
+    if (active.files.length > 0 && !window.confirm(t('workspace.confirmRemove', { name: labels.get(active.id) ?? '' }))) {
+      return
+    }
+    onSwitch()
+    workspaces.remove(active.id)
+  }
+
+  return (
+    <div className="workspaceBar">
+      <div className="tabs" role="tablist" aria-label={t('workspace.tabsLabel')}>
+        {workspaces.workspaces.map((w) => (
+          <button
+            key={w.id}
+            type="button"
+            role="tab"
+            aria-selected={w.id === active.id}
+            className={w.id === active.id ? 'tab tabActive' : 'tab'}
+            onClick={() => {
+              if (w.id === active.id) return
+              onSwitch()
+              workspaces.select(w.id)
+            }}
+          >
+            {labels.get(w.id)} <span className="tabCount">{t('workspace.files', { count: w.files.length })}</span>
+          </button>
+        ))}
+        <button
+          type="button"
+          className="tab"
+          onClick={() => {
+            onSwitch()
+            workspaces.add()
+          }}
+        >
+          {t('workspace.add')}
+        </button>
+      </div>
+
+      <div className="listToolbar">
+        <label className="toolbarField">
+          <span className="hint">{t('workspace.name')}</span>
+          <input
+            type="text"
+            value={active.name ?? ''}
+            placeholder={labels.get(active.id)}
+            onChange={(e) => workspaces.rename(active.id, e.target.value)}
+          />
+        </label>
+        <button type="button" className="secondary" onClick={handleRemove}>
+          {t('workspace.remove')}
+        </button>
+      </div>
+    </div>
+  )
+}
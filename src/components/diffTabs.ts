@@ -0,0 +1,44 @@
+/**
+ * Pestañas de diferencias entre dos momentos (comparten textos el historial y el modo "comparar dos exports").
+ *
+ * Relación con otros archivos:
+ * - Lo usan `src/components/SnapshotHistory.tsx` y `src/components/ExportComparison.tsx`.
+ * - El cálculo vive en `src/lib/relationshipDiff.ts`.
+ */
+
+import type { RelationshipDiff } from '../lib/relationshipDiff'
+import type { I18n } from './i18nContext'
+import type { ResultTab } from './RelationshipResults'
+
+export function buildDiffTabs(diff: RelationshipDiff, t: I18n['t']): ResultTab[] {
+  return [
+    {
+      id: 'newFollowers',
+      label: t('diff.newFollowers'),
+      entries: diff.newFollowers,
+      emptyMessage: t('diff.newFollowersEmpty'),
+      dateLabel: t('date.followsYouSince'),
+    },
+    {
+      id: 'lostFollowers',
+      label: t('diff.lostFollowers'),
+      entries: diff.lostFollowers,
+      emptyMessage: t('diff.lostFollowersEmpty'),
+      dateLabel: t('date.followedYouSince'),
+    },
+    {
+      id: 'newFollowing',
+      label: t('diff.newFollowing'),
+      entries: diff.newFollowing,
+      emptyMessage: t('diff.newFollowingEmpty'),
+      dateLabel: t('date.followedOn'),
+    },
+    {
+      id: 'stoppedFollowingBack',
+      label: t('diff.stoppedFollowingBack'),
+      entries: diff.stoppedFollowingBack,
+      emptyMessage: t('diff.stoppedFollowingBackEmpty'),
+      dateLabel: t('date.followedOn'),
+    },
+  ]
+}
@@ -0,0 +1,78 @@
+/**
+ * Contexto de idioma: `useI18n()` da el idioma actual y las funciones para traducir textos, avisos y fechas.
+ *
+ * Relación con otros archivos:
+ * - `src/components/I18nProvider.tsx` provee el valor real (idioma detectado o elegido).
+ * - Los textos salen de `src/locales/*.ts`; el formato de mensajes, de `src/lib/i18n.ts`.
+ *
+ * Nota:
+ * - El valor por defecto (sin provider) es español; así `ErrorBoundary` puede mostrar algo aunque falle el provider.
+ */
+
+import { createContext, useContext } from 'react'
+import {
+  DEFAULT_LOCALE,
+  formatDate,
+  formatDateTime,
+  formatMessage,
+  type Locale,
+  type MessageParams,
+} from '../lib/i18n'
+import { NoticeError, type Notice } from '../lib/notices'
+import type { RelationshipFileKind } from '../lib/relationshipImport'
+import { MESSAGES, type MessageKey } from '../locales'
+
+export type I18n = {
+  locale: Locale
+  setLocale: (locale: Locale) => void
+  t: (key: MessageKey, params?: MessageParams) => string
+  /** Traduce un aviso de los parsers / pipeline (`src/lib/notices.ts`). */
+  notice: (value: Notice) => string
+  /** Nombre de una lista (Seguidores, Seguidos, ...). */
+  kindLabel: (kind: RelationshipFileKind) => string
+  /** `ms` en milisegundos desde epoch. */
+  formatDate: (ms: number) => string
+  formatDateTime: (ms: number) => string
+  /**
+   * Texto para mostrar un error atrapado: el aviso traducido si es un `NoticeError`, si no el mensaje del error
+   * (ej: los de IndexedDB, que ya vienen en el idioma del navegador), o `fallback`.
+   */
+  errorMessage: (e: unknown, fallback: string) => string
+}
+
+function isMessageKey(key: string): key is MessageKey {
+  return key in MESSAGES[DEFAULT_LOCALE]
+}
+
+export function createI18n(locale: Locale, setLocale: (locale: Locale) => void): I18n {
+  const messages = MESSAGES[locale]
+  const t = (key: MessageKey, params?: MessageParams) => formatMessage(messages[key], locale, params)
+
+  const notice = (value: Notice) => {
+    // Los parámetros con un id de lista (`kind`, `nameKind`, ...) se muestran con el nombre traducido.
+    const params: MessageParams = {}
+    for (const [name, param] of Object.entries(value.params ?? {})) {
+      const kindKey = `kind.${param}`
+      params[name] = (name === 'kind' || name.endsWith('Kind')) && isMessageKey(kindKey) ? t(kindKey) : param
+    }
+    return t(`notice.${value.code}`, params)
+  }
+
+  return {
+    locale,
+    setLocale,
+    t,
+    notice,
+    kindLabel: (kind) => t(`kind.${kind}`),
+    formatDate: (ms) => formatDate(locale, ms),
+    formatDateTime: (ms) => formatDateTime(locale, ms),
+    errorMessage: (e, fallback) =>
+      e instanceof NoticeError ? notice(e.notice) : e instanceof Error && e.message ? e.message : fallback,
+  }
+}
+
+export const I18nContext = createContext<I18n>(createI18n(DEFAULT_LOCALE, () => {}))
+
+export function useI18n(): I18n {
+  return useContext(I18nContext)
+}
@@ -0,0 +1,62 @@
+/**
+ * Hook para importar archivos en segundo plano con progreso por archivo y botón de cancelar.
+ *
+ * Relación con otros archivos:
+ * - Lo usan `src/App.tsx` y `src/components/ExportComparison.tsx`.
+ * - Delega en `importInBackground` (`src/lib/backgroundImport.ts`).
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import { importInBackground, type BackgroundImport } from '../lib/backgroundImport'
+import type { ImportInput, ImportProgress, RelationshipFileBatch } from '../lib/relationshipImport'
+import { ImportCancelledError } from '../lib/streamText'
+
+export function useBackgroundImport() {
+  const [importing, setImporting] = useState(false)
+  // Progreso por ruta, en el orden en que aparecieron los archivos.
+  const [progress, setProgress] = useState<ImportProgress[]>([])
+  const current = useRef<BackgroundImport | null>(null)
+
+  // Si el componente se desmonta a mitad de camino, no dejamos el worker corriendo.
+  useEffect(() => () => current.current?.cancel(), [])
+
+  /**
+   * Devuelve la tanda procesada, o null si el usuario canceló.
+   */
+  async function run(inputs: ImportInput[]): Promise<RelationshipFileBatch | null> {
+    current.current?.cancel()
+    setProgress([])
+    setImporting(true)
+
+    const job = importInBackground(inputs, (update) => {
+      setProgress((list) => {
+        const i = list.findIndex((p) => p.path === update.path)
+        if (i < 0) return [...list, update]
+        const next = [...list]
+        next[i] = update
+        return next
+      })
+    })
+    current.current = job
+
+    try {
+      return await job.result
+    } catch (e) {
+      if (e instanceof ImportCancelledError) return null
+      throw e
+    } finally {
+      // Solo limpiamos si este sigue siendo el trabajo actual (no uno reemplazado por otra carga).
+      if (current.current === job) {
+        current.current = null
+        setImporting(false)
+        setProgress([])
+      }
+    }
+  }
+
+  function cancel() {
+    current.current?.cancel()
+  }
+
+  return { importing, progress, run, cancel }
+}
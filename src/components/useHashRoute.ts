@@ -0,0 +1,24 @@
+/**
+ * Hook con la ruta actual (según `location.hash`). Se actualiza con "Atrás" / "Adelante", con los enlaces
+ * `href="#/..."` y con `navigate` de `src/lib/routes.ts`.
+ *
+ * Relación con otros archivos:
+ * - Lo usa `src/App.tsx`; la tabla de rutas y el formato del hash están en `src/lib/routes.ts`.
+ */
+
+import { useMemo, useSyncExternalStore } from 'react'
+import { parseRoute, type AppRoute } from '../lib/routes'
+
+function subscribe(onChange: () => void) {
+  window.addEventListener('hashchange', onChange)
+  return () => window.removeEventListener('hashchange', onChange)
+}
+
+function getHash() {
+  return window.location.hash
+}
+
+export function useHashRoute(): AppRoute {
+  const hash = useSyncExternalStore(subscribe, getHash)
+  return useMemo(() => parseRoute(hash), [hash])
+}
@@ -0,0 +1,67 @@
+/**
+ * Hook con la lista de cuentas a "mantener" guardada en el dispositivo.
+ *
+ * Relación con otros archivos:
+ * - Lo usa `src/App.tsx`, que lo pasa a `KeepListPanel` (gestión) y a `RelationshipResults` (ocultar / marcar).
+ * - Persistencia en `src/lib/keepList.ts`.
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import {
+  addKeptAccounts,
+  clearKeptAccounts,
+  listKeptAccounts,
+  removeKeptAccounts,
+  type KeptAccount,
+} from '../lib/keepList'
+import { useI18n } from './i18nContext'
+
+export function useKeepList() {
+  const { t, errorMessage } = useI18n()
+  const [accounts, setAccounts] = useState<KeptAccount[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    listKeptAccounts()
+      .then(setAccounts)
+      .catch((e: unknown) => setError(errorMessage(e, t('keep.loadFailed'))))
+  }, [t, errorMessage])
+
+  const usernames = useMemo<ReadonlySet<string>>(() => new Set(accounts.map((a) => a.username)), [accounts])
+
+  // Cada cambio vuelve a leer la lista: así el estado siempre refleja lo que quedó guardado.
+  // Devuelve false si no se pudo guardar (el motivo queda en `error`).
+  async function update(change: () => Promise<unknown>): Promise<boolean> {
+    setError(null)
+    try {
+      await change()
+      setAccounts(await listKeptAccounts())
+      return true
+    } catch (e) {
+      setError(errorMessage(e, t('keep.saveFailed')))
+      return false
+    }
+  }
+
+  /** Devuelve cuántas cuentas eran nuevas, o null si no se pudo guardar. */
+  async function add(list: string[]): Promise<number | null> {
+    let added = 0
+    const saved = await update(async () => {
+      added = await addKeptAccounts(list)
+    })
+    return saved ? added : null
+  }
+
+  return {
+    accounts,
+    usernames,
+    error,
+    add,
+    remove: (list: string[]) => update(() => removeKeptAccounts(list)),
+    clear: () => update(() => clearKeptAccounts()),
+    /** Vuelve a leer la lista (ej: después de restaurar una copia de seguridad). */
+    reload: () => update(async () => {}),
+  }
+}
+
+export type KeepListState = ReturnType<typeof useKeepList>
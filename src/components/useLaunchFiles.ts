@@ -0,0 +1,31 @@
+/**
+ * Hook para recibir archivos que llegan desde el sistema: "Abrir con" la app instalada (escritorio) o
+ * "Compartir" desde el administrador de archivos del celular.
+ *
+ * Relación con otros archivos:
+ * - Lo usa `src/App.tsx`, que los manda al mismo `handleImport` que la zona de carga.
+ * - La parte del navegador (File Handling API, archivos guardados por el service worker) está en `src/lib/pwa.ts`.
+ */
+
+import { useEffect, useRef } from 'react'
+import type { NoticeError } from '../lib/notices'
+import { consumeLaunchedFiles, takeSharedFiles } from '../lib/pwa'
+import { toImportInputs, type ImportInput } from '../lib/relationshipImport'
+
+export function useLaunchFiles(onFiles: (inputs: ImportInput[]) => void, onError: (error: NoticeError) => void) {
+  // Los archivos pueden llegar en cualquier momento; siempre llamamos a la versión más reciente de los callbacks.
+  const latest = useRef({ onFiles, onError })
+  useEffect(() => {
+    latest.current = { onFiles, onError }
+  })
+
+  useEffect(() => {
+    const deliver = (files: File[]) => {
+      if (files.length > 0) latest.current.onFiles(toImportInputs(files))
+    }
+    consumeLaunchedFiles(deliver, (error) => latest.current.onError(error))
+    void takeSharedFiles()
+      .then(deliver)
+      .catch(() => undefined)
+  }, [])
+}
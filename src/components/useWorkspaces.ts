@@ -0,0 +1,79 @@
+/**
+ * Hook con los espacios de trabajo (uno por cuenta) y cuál está activo.
+ *
+ * Relación con otros archivos:
+ * - Lo usa `src/App.tsx`: la carga, el checklist y los resultados trabajan siempre sobre el espacio activo.
+ * - La lógica (crear, repartir una tanda con varias cuentas) está en `src/lib/workspaces.ts`.
+ * - `src/components/WorkspaceBar.tsx` muestra los espacios y permite cambiar, renombrar, agregar y borrar.
+ */
+
+import { useMemo, useState } from 'react'
+import type { RelationshipFileBatch } from '../lib/relationshipImport'
+import {
+  createWorkspace,
+  distributeBatch,
+  initialWorkspaceState,
+  splitBatchByAccount,
+  type Workspace,
+  type WorkspaceState,
+} from '../lib/workspaces'
+import { useI18n } from './i18nContext'
+
+export function useWorkspaces() {
+  const { t } = useI18n()
+  const [state, setState] = useState<WorkspaceState>(initialWorkspaceState)
+  const { workspaces } = state
+  const active = workspaces.find((w) => w.id === state.activeId) ?? workspaces[0]
+
+  // Nombre para mostrar de cada espacio: el puesto por el usuario o el detectado; si no hay, "Cuenta N".
+  const labels = useMemo<ReadonlyMap<string, string>>(
+    () => new Map(workspaces.map((w, i) => [w.id, w.name?.trim() || t('workspace.defaultName', { n: i + 1 })])),
+    [workspaces, t],
+  )
+
+  function update(id: string, change: (workspace: Workspace) => Workspace) {
+    setState((current) => ({
+      ...current,
+      workspaces: current.workspaces.map((w) => (w.id === id ? change(w) : w)),
+    }))
+  }
+
+  function add() {
+    const workspace = createWorkspace()
+    setState((current) => ({ workspaces: [...current.workspaces, workspace], activeId: workspace.id }))
+  }
+
+  // Borrar el último espacio lo deja vacío en lugar de quedarse sin ninguno.
+  function remove(id: string) {
+    setState((current) => {
+      const index = current.workspaces.findIndex((w) => w.id === id)
+      const rest = current.workspaces.filter((w) => w.id !== id)
+      if (rest.length === 0) return initialWorkspaceState()
+      // Si se borra el activo, pasa a estar activo el que ocupaba su lugar (o el anterior, si era el último).
+      const activeId = current.activeId === id ? rest[Math.min(index, rest.length - 1)].id : current.activeId
+      return { workspaces: rest, activeId }
+    })
+  }
+
+  /** Suma una tanda al espacio `targetId`, separándola por cuenta. Devuelve cuántas cuentas traía. */
+  function importBatch(targetId: string, batch: RelationshipFileBatch): number {
+    const accounts = splitBatchByAccount(batch)
+    setState((current) => distributeBatch(current, targetId, accounts))
+    return accounts.length
+  }
+
+  return {
+    workspaces,
+    active,
+    labels,
+    select: (id: string) => setState((current) => ({ ...current, activeId: id })),
+    // Se guarda tal cual se escribe (el campo es controlado); vacío vuelve al nombre por defecto.
+    rename: (id: string, name: string) => update(id, (w) => ({ ...w, name: name.trim() ? name : null })),
+    update,
+    add,
+    remove,
+    importBatch,
+  }
+}
+
+export type WorkspacesState = ReturnType<typeof useWorkspaces>
@@ -0,0 +1,39 @@
+/**
+ * Cruce de audiencias entre dos cuentas (dos espacios de trabajo).
+ *
+ * Relación con otros archivos:
+ * - Lo usa `src/components/AudienceOverlap.tsx` (diagrama de Venn y listas por zona).
+ * - Las listas de cada cuenta salen de `summarizeImportedFiles` (`src/lib/relationshipImport.ts`).
+ *
+ * Conjuntos (sobre la lista elegida: seguidores o seguidos):
+ * - onlyA: están en la lista de A y no en la de B (ej: siguen a la marca pero no a la cuenta personal).
+ * - both: están en las dos.
+ * - onlyB: están en la lista de B y no en la de A.
+ */
+
+import type { InstagramRelationshipEntry } from './instagramExport'
+
+export type AudienceRegion = 'onlyA' | 'both' | 'onlyB'
+
+export type AudienceOverlap = Record<AudienceRegion, InstagramRelationshipEntry[]> & {
+  /** Índice de Jaccard: cuentas en común sobre cuentas distintas en total (0 a 1). */
+  similarity: number
+}
+
+/**
+ * Calcula las tres zonas. En `both` usamos la entry de A (la fecha es la de la lista de A).
+ */
+export function computeAudienceOverlap(
+  a: InstagramRelationshipEntry[],
+  b: InstagramRelationshipEntry[],
+): AudienceOverlap {
+  const aSet = new Set(a.map((e) => e.username))
+  const bSet = new Set(b.map((e) => e.username))
+
+  const both = a.filter((e) => bSet.has(e.username))
+  const onlyA = a.filter((e) => !bSet.has(e.username))
+  const onlyB = b.filter((e) => !aSet.has(e.username))
+  const total = onlyA.length + both.length + onlyB.length
+
+  return { onlyA, both, onlyB, similarity: total === 0 ? 0 : both.length / total }
+}
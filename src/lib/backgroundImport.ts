@@ -0,0 +1,77 @@
+/**
+ * Ejecuta la importación en segundo plano (Web Worker) con progreso por archivo y cancelación.
+ *
+ * Relación con otros archivos:
+ * - Lo usa `src/components/useBackgroundImport.ts` (carga principal y "Comparar dos exports").
+ * - El worker es `src/lib/importWorker.ts`; si el navegador no soporta workers, corre el mismo
+ *   `importRelationshipFiles` en el hilo principal (más lento para la UI, pero funciona).
+ */
+
+import {
+  importRelationshipFiles,
+  type ImportInput,
+  type ImportProgress,
+  type RelationshipFileBatch,
+} from './relationshipImport'
+import { notice, NoticeError, type Notice } from './notices'
+import { ImportCancelledError } from './streamText'
+
+export type ImportWorkerRequest = {
+  inputs: ImportInput[]
+}
+
+export type ImportWorkerMessage =
+  | { type: 'progress'; progress: ImportProgress }
+  | { type: 'done'; batch: RelationshipFileBatch }
+  // Un `NoticeError` viaja como su aviso (se traduce en la UI); otro error, con su mensaje si lo tiene.
+  | { type: 'error'; notice: Notice | null; message: string | null }
+
+export type BackgroundImport = {
+  /** Se rechaza con `ImportCancelledError` si se llamó a `cancel()`. */
+  result: Promise<RelationshipFileBatch>
+  cancel: () => void
+}
+
+function runOnMainThread(inputs: ImportInput[], onProgress: (progress: ImportProgress) => void): BackgroundImport {
+  const controller = new AbortController()
+  return {
+    result: importRelationshipFiles(inputs, { onProgress, signal: controller.signal }),
+    cancel: () => controller.abort(),
+  }
+}
+
+export function importInBackground(
+  inputs: ImportInput[],
+  onProgress: (progress: ImportProgress) => void,
+): BackgroundImport {
+  if (typeof Worker === 'undefined') return runOnMainThread(inputs, onProgress)
+
+  const worker = new Worker(new URL('./importWorker.ts', import.meta.url), { type: 'module' })
+  let settle: { resolve: (batch: RelationshipFileBatch) => void; reject: (e: Error) => void } | null = null
+  const result = new Promise<RelationshipFileBatch>((resolve, reject) => {
+    settle = { resolve, reject }
+  })
+
+  function finish(outcome: RelationshipFileBatch | Error) {
+    worker.terminate()
+    const current = settle
+    settle = null
+    if (!current) return
+    if (outcome instanceof Error) current.reject(outcome)
+    else current.resolve(outcome)
+  }
+
+  worker.onmessage = (event: MessageEvent<ImportWorkerMessage>) => {
+    const message = event.data
+    if (message.type === 'progress') onProgress(message.progress)
+    else if (message.type === 'done') finish(message.batch)
+    else if (message.notice) finish(new NoticeError(message.notice))
+    else finish(message.message ? new Error(message.message) : new NoticeError(notice('import_unknown_error')))
+  }
+  worker.onerror = () => finish(new NoticeError(notice('import_worker_failed')))
+
+  const request: ImportWorkerRequest = { inputs }
+  worker.postMessage(request)
+
+  return { result, cancel: () => finish(new ImportCancelledError()) }
+}
@@ -0,0 +1,105 @@
+/**
+ * Comparación "export viejo vs export nuevo" sin guardar nada.
+ *
+ * Relación con otros archivos:
+ * - Lo usa `src/components/ExportComparison.tsx`; cada lado pasa por el mismo pipeline que la carga principal
+ *   (`importRelationshipFiles` + `summarizeImportedFiles` en `src/lib/relationshipImport.ts`).
+ * - El cálculo de diferencias es `diffRelationshipLists` (`src/lib/relationshipDiff.ts`).
+ *
+ * Además del diff, revisamos si los dos exports parecen de la misma cuenta:
+ * - Meta nombra el ZIP `instagram-<usuario>-<fecha>-<id>.zip`; si los usuarios no coinciden, avisamos.
+ * - Si las listas casi no se solapan, probablemente son de cuentas distintas.
+ */
+
+import { notice, type Notice } from './notices'
+import { diffRelationshipLists, type RelationshipDiff } from './relationshipDiff'
+import type { ImportedRelationshipFile } from './relationshipImport'
+import type { RelationshipLists } from './snapshotStore'
+
+export type ExportComparison = {
+  diff: RelationshipDiff
+  warnings: Notice[]
+}
+
+// Por debajo de este solapamiento (índice de Jaccard) sospechamos que son cuentas distintas.
+const MIN_EXPECTED_OVERLAP = 0.2
+// Con listas muy chicas el solapamiento no dice mucho.
+const MIN_ACCOUNTS_FOR_OVERLAP_CHECK = 20
+
+/**
+ * Extrae el username del dueño del export a partir de una ruta tipo
+ * `instagram-mi_cuenta-2024-05-01-AbCdEf.zip/connections/...`.
+ */
+export function ownerFromPath(path: string): string | null {
+  const match = path.match(/(?:^|\/)instagram-([a-z0-9._]{1,30})-\d{4}-\d{2}-\d{2}/i)
+  return match?.[1] ? match[1].toLowerCase() : null
+}
+
+/**
+ * Fecha del export según el nombre que le pone Meta al ZIP, o null si la ruta no la trae.
+ * Devuelve la medianoche local de ese día (ms), así al mostrarla no se corre al día anterior por la zona horaria.
+ */
+export function exportDateFromPath(path: string): number | null {
+  const match = path.match(/(?:^|\/)instagram-[a-z0-9._]{1,30}-(\d{4})-(\d{2})-(\d{2})/i)
+  if (!match) return null
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime()
+  return Number.isNaN(date) ? null : date
+}
+
+/**
+ * Dueño del export según la ruta del primer archivo que lo indique.
+ */
+export function detectExportOwner(files: ImportedRelationshipFile[]): string | null {
+  for (const f of files) {
+    const owner = ownerFromPath(f.path)
+    if (owner) return owner
+  }
+  return null
+}
+
+function accountSet(lists: RelationshipLists): Set<string> {
+  return new Set([...(lists.followers ?? []), ...(lists.following ?? [])].map((e) => e.username))
+}
+
+function latestTimestamp(lists: RelationshipLists): number | null {
+  let latest: number | null = null
+  for (const e of [...(lists.followers ?? []), ...(lists.following ?? [])]) {
+    if (e.timestamp !== null && (latest === null || e.timestamp > latest)) latest = e.timestamp
+  }
+  return latest
+}
+
+/**
+ * Calcula el diff y los avisos de consistencia entre los dos exports.
+ */
+export function compareExports(
+  older: { files: ImportedRelationshipFile[]; lists: RelationshipLists },
+  newer: { files: ImportedRelationshipFile[]; lists: RelationshipLists },
+): ExportComparison {
+  const warnings: Notice[] = []
+
+  const olderOwner = detectExportOwner(older.files)
+  const newerOwner = detectExportOwner(newer.files)
+  if (olderOwner && newerOwner && olderOwner !== newerOwner) {
+    warnings.push(notice('compare_different_owners', { older: olderOwner, newer: newerOwner }))
+  }
+
+  const a = accountSet(older.lists)
+  const b = accountSet(newer.lists)
+  if (a.size >= MIN_ACCOUNTS_FOR_OVERLAP_CHECK && b.size >= MIN_ACCOUNTS_FOR_OVERLAP_CHECK) {
+    let shared = 0
+    for (const u of a) if (b.has(u)) shared++
+    const overlap = shared / (a.size + b.size - shared)
+    if (overlap < MIN_EXPECTED_OVERLAP) {
+      warnings.push(notice('compare_low_overlap', { percent: Math.round(overlap * 100) }))
+    }
+  }
+
+  const olderLatest = latestTimestamp(older.lists)
+  const newerLatest = latestTimestamp(newer.lists)
+  if (olderLatest !== null && newerLatest !== null && olderLatest > newerLatest) {
+    warnings.push(notice('compare_reversed'))
+  }
+
+  return { diff: diffRelationshipLists(older.lists, newer.lists), warnings }
+}
@@ -0,0 +1,57 @@
+/**
+ * Corpus de exports de ejemplo: cada archivo de `fixtures/instagram-export/` pasa por el parser que elige el
+ * registro y se compara, sección por sección, con lo que espera `manifest.json`.
+ *
+ * Relación con otros archivos:
+ * - El registro de parsers está en `src/lib/exportParsers.ts`; el formato del manifest, en
+ *   `fixtures/instagram-export/README.md`.
+ *
+ * Nota:
+ * - Si Meta cambia el export, primero se agrega el ejemplo y su entrada en el manifest: este test falla hasta
+ *   que el parser lo soporte.
+ */
+
+import { readFileSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+import { pickExportParser, type ExportFormat } from './exportParsers'
+
+type ManifestSection = {
+  kind: string
+  schema: string
+  usernames: string[]
+  /** Opcional: descartes esperados por motivo (`stats.skipped`). */
+  skipped?: Record<string, number>
+}
+
+type ManifestFixture = {
+  file: string
+  format: ExportFormat
+  note: string
+  sections: ManifestSection[]
+}
+
+const FIXTURES_DIR = new URL('../../fixtures/instagram-export/', import.meta.url)
+
+const manifest = JSON.parse(readFileSync(new URL('manifest.json', FIXTURES_DIR), 'utf8')) as {
+  version: number
+  fixtures: ManifestFixture[]
+}
+
+describe('corpus de exports (fixtures/instagram-export)', () => {
+  it.each(manifest.fixtures.map((f) => [f.file, f] as const))('%s', (file, fixture) => {
+    const name = file.split('/').pop() ?? file
+    const text = readFileSync(new URL(file, FIXTURES_DIR), 'utf8')
+    const { parser, confidence } = pickExportParser({ name, text })
+    expect(confidence).toBeGreaterThan(0)
+    expect(parser.format).toBe(fixture.format)
+
+    const result = parser.parse({ name, text, sourceFile: file })
+    const sections = result.sections.map((s, i) => ({
+      kind: s.kind,
+      schema: s.schema,
+      usernames: s.entries.map((e) => e.username),
+      ...(fixture.sections[i]?.skipped ? { skipped: s.stats.skipped } : {}),
+    }))
+    expect(sections).toEqual(fixture.sections)
+  })
+})
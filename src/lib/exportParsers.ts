@@ -0,0 +1,133 @@
+/**
+ * Registro de parsers de export: cada formato (JSON, HTML, y los que vengan) declara cómo reconocer un archivo
+ * (`detect`, con un puntaje de confianza) y cómo leerlo (`parse`).
+ *
+ * Relación con otros archivos:
+ * - `src/lib/relationshipImport.ts` le pregunta al registro qué parser usar para cada archivo; no sabe de formatos.
+ * - `src/lib/instagramExportZip.ts` usa `sniff` para decidir si un archivo del ZIP con nombre desconocido
+ *   es una lista de cuentas.
+ * - Los parsers en sí viven en `src/lib/instagramExport.ts` (JSON) y `src/lib/instagramExportHtml.ts` (HTML).
+ *
+ * Para agregar un formato nuevo: escribir su parser, sumarlo a `EXPORT_PARSERS` y agregar ejemplos a
+ * `fixtures/instagram-export/`. La UI no cambia.
+ */
+
+import { parseInstagramRelationshipJson, type InstagramExportParseResult } from './instagramExport'
+import { detectRelationshipKindFromHtmlTitle, parseInstagramRelationshipHtml } from './instagramExportHtml'
+import { locateJsonError } from './jsonErrorLocation'
+import { notice, type Notice } from './notices'
+
+export type ExportFormat = 'json' | 'html'
+
+export type ExportParserInput = {
+  /** Nombre del archivo (solo el nombre, sin carpetas). */
+  name: string
+  text: string
+  sourceFile: string | null
+}
+
+export type ExportParser = {
+  format: ExportFormat
+  /** Confianza de 0 (no es este formato) a 1 (seguro que lo es). */
+  detect: (input: Pick<ExportParserInput, 'name' | 'text'>) => number
+  /** Puede lanzar `ExportParseError` si el archivo no se deja leer en este formato. */
+  parse: (input: ExportParserInput) => InstagramExportParseResult
+  /** Chequeo barato de si el contenido es una lista de cuentas (para archivos sin nombre conocido). */
+  sniff: (text: string) => boolean
+  /**
+   * De dónde sale el `kind` de las secciones que devuelve `parse`:
+   * - 'content': de la estructura del archivo (manda sobre el nombre).
+   * - 'title': del título de la página, que depende del idioma (el nombre del archivo manda).
+   */
+  kindSource: 'content' | 'title'
+  /** Motivo para saltar un archivo de carpeta que se pudo leer pero no trae ninguna lista reconocida. */
+  notRecognizedReason: Notice
+}
+
+export type ExportParserMatch = {
+  parser: ExportParser
+  confidence: number
+}
+
+/**
+ * El archivo no se pudo leer con el parser elegido (ej: JSON mal formado).
+ * `warning` es el aviso para el usuario; `skipReason`, el motivo corto si el archivo se salta.
+ */
+export class ExportParseError extends Error {
+  readonly warning: Notice
+  readonly skipReason: Notice
+
+  constructor(warning: Notice, skipReason: Notice) {
+    super(warning.code)
+    this.name = 'ExportParseError'
+    this.warning = warning
+    this.skipReason = skipReason
+  }
+}
+
+const jsonParser: ExportParser = {
+  format: 'json',
+  detect: ({ name, text }) => {
+    const byName = /\.json$/i.test(name)
+    const byContent = /^\s*[[{]/.test(text)
+    if (byName && byContent) return 1
+    return byContent ? 0.8 : byName ? 0.5 : 0
+  },
+  parse: ({ text, sourceFile }) => {
+    let json: unknown
+    try {
+      json = JSON.parse(text) as unknown
+    } catch {
+      const at = locateJsonError(text)
+      if (!at) throw new ExportParseError(notice('json_invalid'), notice('skip_invalid_json'))
+      throw new ExportParseError(notice('json_invalid_at', at), notice('skip_invalid_json_at', at))
+    }
+    return parseInstagramRelationshipJson(json, sourceFile)
+  },
+  // Solo miramos claves `relationships_*` (o el `connections.json` viejo, con `"followers": { ... }`);
+  // evita falsos positivos con textos que mencionen "followers".
+  sniff: (text) =>
+    /"relationships_[a-z_]+"\s*:/.test(text) || /^\s*\{[\s\S]*"(followers|following)"\s*:\s*\{/.test(text),
+  kindSource: 'content',
+  notRecognizedReason: notice('skip_not_relationship_json'),
+}
+
+const htmlParser: ExportParser = {
+  format: 'html',
+  detect: ({ name, text }) => {
+    const byName = /\.html?$/i.test(name)
+    const byContent = /^\s*</.test(text)
+    if (byContent && /<(html|title|body)[\s>]/i.test(text.slice(0, 4096))) return 1
+    if (byName && byContent) return 0.9
+    return byContent ? 0.7 : byName ? 0.5 : 0
+  },
+  parse: ({ text, sourceFile }) => parseInstagramRelationshipHtml(text, sourceFile),
+  sniff: (text) => detectRelationshipKindFromHtmlTitle(text) !== null,
+  kindSource: 'title',
+  notRecognizedReason: notice('skip_not_relationship_html'),
+}
+
+/** Parsers registrados. El primero es el de respaldo cuando ninguno reconoce el archivo. */
+export const EXPORT_PARSERS: readonly ExportParser[] = [jsonParser, htmlParser]
+
+/**
+ * Elige el parser con más confianza para el archivo. Si ninguno lo reconoce, devuelve el de respaldo
+ * con confianza 0 (su `parse` explicará por qué no pudo leerlo).
+ */
+export function pickExportParser(input: Pick<ExportParserInput, 'name' | 'text'>): ExportParserMatch {
+  let best: ExportParserMatch = { parser: EXPORT_PARSERS[0] ?? jsonParser, confidence: 0 }
+  for (const parser of EXPORT_PARSERS) {
+    const confidence = parser.detect(input)
+    if (confidence > best.confidence) best = { parser, confidence }
+  }
+  return best
+}
+
+/**
+ * Para archivos de un ZIP sin nombre conocido: null si algún parser lo reconoce como lista; si no, el motivo
+ * para saltarlo, del parser que corresponde al archivo (un .html no se reporta como "no es JSON de relaciones").
+ */
+export function relationshipExportSkipReason(name: string, text: string): Notice | null {
+  const { parser, confidence } = pickExportParser({ name, text })
+  return confidence > 0 && parser.sniff(text) ? null : parser.notRecognizedReason
+}
@@ -0,0 +1,191 @@
+/**
+ * Estadísticas a partir de las fechas del export (`string_list_data[].timestamp`): cuántos te siguen de vuelta,
+ * seguidos y seguidores nuevos por mes, qué parte no te sigue según hace cuánto los seguiste, y los seguidos
+ * más viejos y más nuevos.
+ *
+ * Relación con otros archivos:
+ * - Las listas salen de `summarizeImportedFiles` (`src/lib/relationshipImport.ts`); las fechas, de los parsers
+ *   de `src/lib/instagramExport.ts` (en segundos desde epoch, o `null` si el export no las trae, ej: HTML).
+ * - Lo dibuja `src/components/StatsDashboard.tsx`.
+ *
+ * Nota:
+ * - Es puro: la fecha de referencia ("hoy" o la del export) la pasa quien llama.
+ * - Los meses se cuentan en hora local, igual que las fechas que muestra la app.
+ */
+
+import type { InstagramRelationshipEntry } from './instagramExport'
+
+export type FollowAgeBucketId = 'month' | 'quarter' | 'halfYear' | 'year' | 'twoYears' | 'older'
+
+export type FollowAgeBucket = {
+  id: FollowAgeBucketId
+  /** Seguidos con fecha en este rango. */
+  following: number
+  /** De esos, cuántos no te siguen. */
+  notFollowingBack: number
+}
+
+export type MonthlyFollowCount = {
+  /** `yyyy-mm` */
+  month: string
+  /** Inicio del mes (ms, hora local). */
+  start: number
+  /** Cuentas que empezaste a seguir ese mes. */
+  follows: number
+  /** Cuentas que empezaron a seguirte ese mes. */
+  newFollowers: number
+}
+
+export type FollowStats = {
+  following: number
+  followers: number
+  /** Seguidos que también te siguen. */
+  followingBack: number
+  /** Seguidos y seguidores sin fecha (no entran en los gráficos). */
+  undated: number
+  monthly: MonthlyFollowCount[]
+  byAge: FollowAgeBucket[]
+  /** Seguidos con fecha, del más viejo al más nuevo / del más nuevo al más viejo. */
+  oldest: InstagramRelationshipEntry[]
+  newest: InstagramRelationshipEntry[]
+}
+
+export type FollowStatsOptions = {
+  /** "Hoy" para calcular hace cuánto se siguió a cada cuenta (ms). */
+  referenceMs: number
+  /** Seguidos que no cuentan (ej: la lista "mantener"). */
+  excluded?: ReadonlySet<string>
+  /** Solo cuentas con fecha desde este momento (ms); `null` = todas. */
+  sinceMs?: number | null
+  /** Cuántas cuentas en las listas de más viejos / más nuevos. */
+  listSize?: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Límite superior de cada rango, en días (el último no tiene).
+const AGE_BUCKETS: { id: FollowAgeBucketId; maxDays: number }[] = [
+  { id: 'month', maxDays: 30 },
+  { id: 'quarter', maxDays: 90 },
+  { id: 'halfYear', maxDays: 182 },
+  { id: 'year', maxDays: 365 },
+  { id: 'twoYears', maxDays: 730 },
+  { id: 'older', maxDays: Infinity },
+]
+
+const DEFAULT_LIST_SIZE = 10
+// Tope de meses del gráfico (los parsers ya descartan fechas imposibles; esto es la red de seguridad).
+const MAX_CHART_MONTHS = 240
+
+function monthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
+}
+
+/**
+ * Meses seguidos (sin huecos) desde el primer hasta el último movimiento con fecha; como mucho los últimos
+ * `MAX_CHART_MONTHS`.
+ */
+function countByMonth(following: InstagramRelationshipEntry[], followers: InstagramRelationshipEntry[]) {
+  const counts = new Map<string, { follows: number; newFollowers: number }>()
+  let first: number | null = null
+  let last: number | null = null
+
+  const sources = [
+    [following, 'follows'],
+    [followers, 'newFollowers'],
+  ] as const
+  for (const [entries, field] of sources) {
+    for (const e of entries) {
+      if (e.timestamp === null) continue
+      const ms = e.timestamp * 1000
+      if (first === null || ms < first) first = ms
+      if (last === null || ms > last) last = ms
+      const key = monthKey(new Date(ms))
+      const count = counts.get(key) ?? { follows: 0, newFollowers: 0 }
+      count[field]++
+      counts.set(key, count)
+    }
+  }
+  if (first === null || last === null) return []
+
+  const months: MonthlyFollowCount[] = []
+  const lastKey = monthKey(new Date(last))
+  const cursor = new Date(last)
+  cursor.setDate(1)
+  cursor.setHours(0, 0, 0, 0)
+  cursor.setMonth(cursor.getMonth() - (MAX_CHART_MONTHS - 1))
+  if (cursor.getTime() < first) {
+    cursor.setTime(first)
+    cursor.setDate(1)
+    cursor.setHours(0, 0, 0, 0)
+  }
+  for (;;) {
+    const key = monthKey(cursor)
+    const count = counts.get(key)
+    months.push({
+      month: key,
+      start: cursor.getTime(),
+      follows: count?.follows ?? 0,
+      newFollowers: count?.newFollowers ?? 0,
+    })
+    if (key === lastKey) break
+    cursor.setMonth(cursor.getMonth() + 1)
+  }
+  return months
+}
+
+/**
+ * Una fecha fuera del rango de `Date` (ej: un valor en milisegundos que vino de otra fuente) cuenta como
+ * "sin fecha": no hay mes ni "hace cuánto" que calcularle.
+ */
+function withUsableDate(entries: InstagramRelationshipEntry[]): InstagramRelationshipEntry[] {
+  return entries.map((e) =>
+    e.timestamp !== null && Number.isNaN(new Date(e.timestamp * 1000).getTime()) ? { ...e, timestamp: null } : e,
+  )
+}
+
+export function computeFollowStats(
+  allFollowers: InstagramRelationshipEntry[],
+  allFollowing: InstagramRelationshipEntry[],
+  options: FollowStatsOptions,
+): FollowStats {
+  const { referenceMs, excluded, sinceMs = null, listSize = DEFAULT_LIST_SIZE } = options
+  const followers = withUsableDate(allFollowers)
+  const following = withUsableDate(allFollowing)
+  const inRange = (e: InstagramRelationshipEntry) =>
+    sinceMs === null || (e.timestamp !== null && e.timestamp * 1000 >= sinceMs)
+
+  const followersInRange = followers.filter(inRange)
+  const followingInRange = following.filter((e) => inRange(e) && !excluded?.has(e.username))
+  // "Te sigue de vuelta" mira la lista completa de seguidores: el filtro de fecha es sobre cuándo lo seguiste tú.
+  const followerNames = new Set(followers.map((e) => e.username))
+
+  const byAge = AGE_BUCKETS.map(({ id }) => ({ id, following: 0, notFollowingBack: 0 }))
+  const dated: InstagramRelationshipEntry[] = []
+  let followingBack = 0
+  for (const e of followingInRange) {
+    const followsBack = followerNames.has(e.username)
+    if (followsBack) followingBack++
+    if (e.timestamp === null) continue
+    dated.push(e)
+    const days = Math.max(0, (referenceMs - e.timestamp * 1000) / DAY_MS)
+    const index = AGE_BUCKETS.findIndex((b) => days < b.maxDays)
+    const bucket = byAge[index]
+    bucket.following++
+    if (!followsBack) bucket.notFollowingBack++
+  }
+
+  const undated = [...followingInRange, ...followersInRange].filter((e) => e.timestamp === null).length
+  const sorted = dated.sort((a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0) || a.username.localeCompare(b.username))
+
+  return {
+    following: followingInRange.length,
+    followers: followersInRange.length,
+    followingBack,
+    undated,
+    monthly: countByMonth(followingInRange, followersInRange),
+    byAge,
+    oldest: sorted.slice(0, listSize),
+    newest: sorted.slice(-listSize).reverse(),
+  }
+}
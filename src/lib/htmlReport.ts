@@ -0,0 +1,254 @@
+/**
+ * Informe para compartir: un único archivo HTML, sin nada externo (estilos en línea, sin fuentes, imágenes ni
+ * scripts remotos), con conteos, listas, fecha del export y avisos de la carga. El mismo HTML se imprime
+ * (o se guarda como PDF) con un diseño pensado para papel.
+ *
+ * Relación con otros archivos:
+ * - Lo usa `src/components/ReportControls.tsx` (botones en la barra de descargas de `RelationshipResults`).
+ * - Las listas y el contexto son los mismos que el JSON de `src/lib/resultExport.ts`.
+ * - La fecha del export sale del nombre del ZIP (`exportDateFromPath`, `src/lib/exportComparison.ts`).
+ *
+ * Anonimización (para publicar el informe):
+ * - 'mask': deja la primera y la última letra (`m•••z`).
+ * - 'hash': seudónimo con SHA-256 y una sal aleatoria por informe: la misma cuenta tiene el mismo seudónimo en
+ *   todas las listas del informe, pero no se puede recalcular probando usernames conocidos ni cruzar dos informes.
+ * - En ambos casos se quitan los enlaces a perfiles y se tapan los usuarios en rutas y avisos (`createRedactor`).
+ *
+ * Nota de privacidad:
+ * - Todo se genera en el navegador a partir de las listas ya parseadas; nada se sube.
+ */
+
+import { exportDateFromPath } from './exportComparison'
+import { createRedactor } from './importDiagnostics'
+import { profileUrl } from './instagramExport'
+import type { ExportableList, ResultExportContext } from './resultExport'
+
+export type ReportAnonymization = 'none' | 'mask' | 'hash'
+
+export const REPORT_ANONYMIZATIONS: ReportAnonymization[] = ['none', 'mask', 'hash']
+
+/** Una lista del informe, con los textos de su tabla. */
+export type ReportList = ExportableList & {
+  emptyMessage: string
+  dateLabel: string
+}
+
+/** Textos ya traducidos (el informe queda en el idioma en que se generó). */
+export type HtmlReportTexts = {
+  lang: string
+  title: string
+  generatedLabel: string
+  exportDateLabel: string
+  countsTitle: string
+  sourcesTitle: string
+  warningsTitle: string
+  usernameHeader: string
+  /** Aviso al pie de un informe anonimizado. */
+  anonymizedNote: string
+  printButton: string
+  footer: string
+  formatDate: (ms: number) => string
+  formatDateTime: (ms: number) => string
+}
+
+const MASK = '•••'
+
+const REPORT_STYLES = `
+*{box-sizing:border-box}
+body{margin:0;font:14px/1.45 system-ui,-apple-system,'Segoe UI',Roboto,sans-serif;color:#1b1f29;background:#f4f5f8}
+main{max-width:880px;margin:0 auto;padding:32px 20px 48px}
+h1{margin:0 0 4px;font-size:26px}
+h2{margin:28px 0 8px;font-size:18px;break-after:avoid}
+.meta{margin:0;color:#555d6e}
+.toolbar{margin-top:14px}
+.toolbar button{font:inherit;padding:6px 14px;border-radius:8px;border:1px solid #b9c0cf;background:#fff;cursor:pointer}
+table{width:100%;border-collapse:collapse;background:#fff}
+th,td{text-align:left;padding:5px 8px;border-bottom:1px solid #e3e6ee;vertical-align:top}
+th{background:#eceff5;font-weight:600}
+tr{break-inside:avoid}
+td.num{text-align:right;font-variant-numeric:tabular-nums}
+.counts{max-width:420px}
+.empty{color:#555d6e;font-style:italic}
+ul{margin:0;padding-left:20px}
+a{color:#0e6b86}
+footer{margin-top:32px;color:#555d6e;font-size:12px}
+@media print{
+  @page{margin:14mm}
+  body{background:#fff;font-size:11pt}
+  main{max-width:none;padding:0}
+  .toolbar{display:none}
+  thead{display:table-header-group}
+  a{color:inherit;text-decoration:none}
+}
+`
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function maskUsername(username: string): string {
+  if (username.length <= 2) return `${username[0] ?? ''}${MASK}`
+  return `${username[0]}${MASK}${username[username.length - 1]}`
+}
+
+function randomSalt(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16))
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Función que convierte cada username según el modo. Con 'hash' calcula los seudónimos de antemano
+ * (`crypto.subtle` es asíncrono) para todas las cuentas del informe.
+ */
+async function createAnonymizer(
+  lists: ReportList[],
+  mode: ReportAnonymization,
+): Promise<(username: string) => string> {
+  if (mode === 'none') return (username) => username
+  if (mode === 'mask') return maskUsername
+
+  const salt = randomSalt()
+  const encoder = new TextEncoder()
+  const pseudonyms = new Map<string, string>()
+  for (const l of lists) {
+    for (const e of l.entries) {
+      if (pseudonyms.has(e.username)) continue
+      const digest = await crypto.subtle.digest('SHA-256', encoder.encode(`${salt}:${e.username}`))
+      const hex = Array.from(new Uint8Array(digest).slice(0, 5), (b) => b.toString(16).padStart(2, '0')).join('')
+      pseudonyms.set(e.username, `user-${hex}`)
+    }
+  }
+  return (username) => pseudonyms.get(username) ?? maskUsername(username)
+}
+
+/**
+ * Fecha del export: la del nombre del ZIP si está; si no, la más reciente de las listas (los datos llegan hasta ahí).
+ */
+function detectExportDate(sourceFiles: string[], lists: ReportList[]): number | null {
+  for (const path of sourceFiles) {
+    const date = exportDateFromPath(path)
+    if (date !== null) return date
+  }
+  let latest: number | null = null
+  for (const l of lists) {
+    for (const e of l.entries) {
+      if (e.timestamp !== null && (latest === null || e.timestamp > latest)) latest = e.timestamp
+    }
+  }
+  return latest === null ? null : latest * 1000
+}
+
+// Las anclas usan la posición de la lista: los ids de lista pueden traer espacios (`other:<clave>`).
+function listSection(
+  list: ReportList,
+  index: number,
+  texts: HtmlReportTexts,
+  anonymize: (username: string) => string,
+  withLinks: boolean,
+): string {
+  const heading = `<h2 id="list-${index + 1}">${escapeHtml(list.label)} (${list.entries.length})</h2>`
+  if (list.entries.length === 0) {
+    return `<section>${heading}<p class="empty">${escapeHtml(list.emptyMessage)}</p></section>`
+  }
+
+  const rows = list.entries.map((e) => {
+    const name = escapeHtml(`@${anonymize(e.username)}`)
+    const user = withLinks ? `<a href="${escapeHtml(profileUrl(e))}" rel="noreferrer">${name}</a>` : name
+    const date = e.timestamp === null ? '—' : escapeHtml(texts.formatDate(e.timestamp * 1000))
+    return `<tr><td>${user}</td><td>${date}</td></tr>`
+  })
+  return (
+    `<section>${heading}<table><thead><tr><th>${escapeHtml(texts.usernameHeader)}</th>` +
+    `<th>${escapeHtml(list.dateLabel)}</th></tr></thead><tbody>${rows.join('')}</tbody></table></section>`
+  )
+}
+
+/**
+ * Arma el documento HTML completo (listo para descargar o imprimir).
+ */
+export async function buildHtmlReport(
+  lists: ReportList[],
+  context: ResultExportContext,
+  texts: HtmlReportTexts,
+  mode: ReportAnonymization,
+): Promise<string> {
+  const anonymized = mode !== 'none'
+  const anonymize = await createAnonymizer(lists, mode)
+  const redact = anonymized
+    ? createRedactor(lists.flatMap((l) => l.entries.map((e) => e.username)))
+    : (value: string) => value
+
+  const exportDate = detectExportDate(context.sourceFiles, lists)
+  const meta = [`${texts.generatedLabel}: ${texts.formatDateTime(Date.now())}`]
+  if (exportDate !== null) meta.push(`${texts.exportDateLabel}: ${texts.formatDate(exportDate)}`)
+
+  const counts = lists
+    .map((l, i) => {
+      const link = `<a href="#list-${i + 1}">${escapeHtml(l.label)}</a>`
+      return `<tr><td>${link}</td><td class="num">${l.entries.length}</td></tr>`
+    })
+    .join('')
+
+  const parts = [
+    '<!doctype html>',
+    `<html lang="${escapeHtml(texts.lang)}">`,
+    '<head><meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    // Sin referencias externas: el informe tiene que abrir igual sin conexión, años después.
+    `<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'unsafe-inline'">`,
+    `<title>${escapeHtml(texts.title)}</title>`,
+    `<style>${REPORT_STYLES}</style></head>`,
+    '<body><main>',
+    `<h1>${escapeHtml(texts.title)}</h1>`,
+    ...meta.map((line) => `<p class="meta">${escapeHtml(line)}</p>`),
+    `<div class="toolbar"><button type="button" onclick="window.print()">${escapeHtml(texts.printButton)}</button></div>`,
+    `<h2>${escapeHtml(texts.countsTitle)}</h2>`,
+    `<table class="counts"><tbody>${counts}</tbody></table>`,
+  ]
+
+  if (context.warnings.length > 0) {
+    parts.push(
+      `<h2>${escapeHtml(texts.warningsTitle)}</h2>`,
+      `<ul>${context.warnings.map((w) => `<li>${escapeHtml(redact(w))}</li>`).join('')}</ul>`,
+    )
+  }
+  if (context.sourceFiles.length > 0) {
+    parts.push(
+      `<h2>${escapeHtml(texts.sourcesTitle)}</h2>`,
+      `<ul>${context.sourceFiles.map((f) => `<li>${escapeHtml(redact(f))}</li>`).join('')}</ul>`,
+    )
+  }
+
+  lists.forEach((l, i) => parts.push(listSection(l, i, texts, anonymize, !anonymized)))
+
+  const footer = anonymized ? `${texts.anonymizedNote} ${texts.footer}` : texts.footer
+  parts.push(`<footer>${escapeHtml(footer)}</footer>`, '</main></body></html>')
+  return parts.join('\n')
+}
+
+/**
+ * Imprime un documento HTML sin abrir otra ventana (los bloqueadores de pop-ups no lo frenan): lo carga en un
+ * iframe oculto y abre el diálogo de impresión, donde el usuario puede elegir "Guardar como PDF".
+ */
+export function printHtmlDocument(html: string): void {
+  const frame = document.createElement('iframe')
+  frame.style.position = 'fixed'
+  frame.style.width = '0'
+  frame.style.height = '0'
+  frame.style.border = '0'
+  frame.setAttribute('aria-hidden', 'true')
+  frame.onload = () => {
+    const win = frame.contentWindow
+    if (!win) return
+    win.addEventListener('afterprint', () => frame.remove(), { once: true })
+    win.focus()
+    win.print()
+  }
+  frame.srcdoc = html
+  document.body.appendChild(frame)
+}
@@ -0,0 +1,102 @@
+/**
+ * Base del soporte de idiomas: qué idiomas hay, cuál elegir al abrir la app y cómo armar un texto
+ * con parámetros (y plural) a partir de un mensaje.
+ *
+ * Relación con otros archivos:
+ * - Los textos están en `src/locales/es.ts` (idioma de referencia), `en.ts` y `pt.ts`.
+ * - `src/components/I18nProvider.tsx` y `src/components/i18nContext.ts` lo exponen a la UI como `useI18n()`.
+ *
+ * Nota:
+ * - La única preferencia que se guarda es el idioma elegido a mano (en `localStorage`); si no hay, se usa
+ *   el idioma del navegador.
+ */
+
+export type Locale = 'es' | 'en' | 'pt'
+
+export const LOCALES: { id: Locale; name: string }[] = [
+  { id: 'es', name: 'Español' },
+  { id: 'en', name: 'English' },
+  { id: 'pt', name: 'Português' },
+]
+
+export const DEFAULT_LOCALE: Locale = 'es'
+
+/** Mensaje con forma singular y plural; se elige con el parámetro `count`. */
+export type PluralMessage = { one: string; other: string }
+
+export type Message = string | PluralMessage
+
+export type MessageParams = Record<string, string | number>
+
+const LOCALE_STORAGE_KEY = 'escaner-ig:locale'
+
+export function isLocale(value: string): value is Locale {
+  return LOCALES.some((l) => l.id === value)
+}
+
+/**
+ * Elige el primer idioma soportado de la lista del navegador (`navigator.languages`), ej: "pt-BR" => "pt".
+ */
+export function detectLocale(languages: readonly string[]): Locale {
+  for (const language of languages) {
+    const base = language.toLowerCase().split('-')[0] ?? ''
+    if (isLocale(base)) return base
+  }
+  return DEFAULT_LOCALE
+}
+
+export function loadSavedLocale(): Locale | null {
+  try {
+    const saved = window.localStorage.getItem(LOCALE_STORAGE_KEY)
+    return saved && isLocale(saved) ? saved : null
+  } catch {
+    // Navegación privada o almacenamiento bloqueado: usamos el idioma del navegador.
+    return null
+  }
+}
+
+export function saveLocale(locale: Locale): void {
+  try {
+    window.localStorage.setItem(LOCALE_STORAGE_KEY, locale)
+  } catch {
+    // Si no se puede guardar, el idioma vale solo para esta visita.
+  }
+}
+
+/** Olvida el idioma elegido (la próxima visita vuelve a usar el del navegador). */
+export function clearSavedLocale(): void {
+  try {
+    window.localStorage.removeItem(LOCALE_STORAGE_KEY)
+  } catch {
+    // Sin acceso al almacenamiento no había nada guardado.
+  }
+}
+
+/**
+ * Arma el texto final: elige singular/plural según `count` y reemplaza `{nombre}` por su parámetro.
+ */
+export function formatMessage(message: Message, locale: Locale, params?: MessageParams): string {
+  let text: string
+  if (typeof message === 'string') {
+    text = message
+  } else {
+    const count = Number(params?.['count'] ?? 0)
+    text = new Intl.PluralRules(locale).select(count) === 'one' ? message.one : message.other
+  }
+  if (!params) return text
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name]
+    if (value === undefined) return match
+    return typeof value === 'number' ? value.toLocaleString(locale) : value
+  })
+}
+
+/** Fecha corta (ej: "14 nov 2023" / "Nov 14, 2023"). `ms` en milisegundos desde epoch. */
+export function formatDate(locale: Locale, ms: number): string {
+  return new Date(ms).toLocaleDateString(locale, { year: 'numeric', month: 'short', day: 'numeric' })
+}
+
+/** Fecha con hora (ej: para el nombre de un snapshot). */
+export function formatDateTime(locale: Locale, ms: number): string {
+  return new Date(ms).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' })
+}
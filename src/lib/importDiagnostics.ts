@@ -0,0 +1,163 @@
+/**
+ * Diagnóstico de importación por archivo: formato y lista detectados, variante de esquema, cuántas entries
+ * vio el parser, cuántos usuarios salieron y cuántas se descartaron (y por qué).
+ *
+ * Relación con otros archivos:
+ * - Los datos vienen de `importRelationshipFiles` (`src/lib/relationshipImport.ts`); las cuentas por sección,
+ *   de los parsers (`stats` en `src/lib/instagramExport.ts` y `src/lib/instagramExportHtml.ts`).
+ * - Lo muestra `src/components/ImportDiagnostics.tsx`, que también copia el reporte de texto.
+ *
+ * Nota:
+ * - El reporte copiable es para adjuntarlo a un reporte de error, así que no lleva cuentas: las rutas y los
+ *   parámetros de los avisos se pasan por `redact`, que tapa el usuario del nombre del export
+ *   (`instagram-<usuario>-<fecha>`) y cualquier usuario extraído de los archivos.
+ * - Los avisos van como código + parámetros (sin traducir): se leen igual sea cual sea el idioma del usuario.
+ */
+
+import type { EntrySkipReason, InstagramSchemaVariant, InstagramSectionStats } from './instagramExport'
+import type { Notice } from './notices'
+import type { ImportedRelationshipFile, RelationshipFileKind, SkippedImportFile } from './relationshipImport'
+
+/**
+ * - 'parsed': el parser leyó el archivo (aunque no haya salido ninguna cuenta).
+ * - 'failed': se intentó leer y el parser falló (ej: JSON mal formado); queda cargado para asignarlo a mano.
+ * - 'skipped': se revisó y se dejó afuera (no es una lista, muy grande, no se pudo descomprimir...).
+ */
+export type FileDiagnosticStatus = 'parsed' | 'failed' | 'skipped'
+
+export type FileDiagnostic = {
+  id: string
+  path: string
+  status: FileDiagnosticStatus
+  /** Los campos siguientes son null para archivos saltados (no llegaron al parser). */
+  format: ImportedRelationshipFile['format'] | null
+  schema: InstagramSchemaVariant | null
+  kind: RelationshipFileKind | null
+  detectedBy: ImportedRelationshipFile['detectedBy']
+  sourceKey: string | null
+  /** Entries revisadas (null si el parser no llegó a leerlas). */
+  seen: number | null
+  extracted: number
+  skipped: InstagramSectionStats['skipped']
+  notices: Notice[]
+}
+
+export type ImportDiagnostics = {
+  files: FileDiagnostic[]
+  /** Archivos que no se abrieron (fotos, videos...). */
+  ignoredCount: number
+}
+
+/** Orden fijo de los motivos en la interfaz y en el reporte. */
+export const ENTRY_SKIP_REASONS: EntrySkipReason[] = [
+  'unrecognized',
+  'duplicate',
+  'no_username',
+  'invalid_username',
+  'reserved_path',
+  'outside_list',
+]
+
+export function buildImportDiagnostics(
+  files: ImportedRelationshipFile[],
+  skipped: SkippedImportFile[],
+  ignoredCount: number,
+): ImportDiagnostics {
+  const parsed = files.map<FileDiagnostic>((f) => ({
+    id: f.id,
+    path: f.path,
+    status: f.stats ? 'parsed' : 'failed',
+    format: f.format,
+    schema: f.schema,
+    kind: f.kind,
+    detectedBy: f.detectedBy,
+    sourceKey: f.sourceKey,
+    seen: f.stats?.seen ?? null,
+    extracted: f.entries.length,
+    skipped: f.stats?.skipped ?? {},
+    notices: f.warnings,
+  }))
+  const left = skipped.map<FileDiagnostic>((s) => ({
+    id: `skipped:${s.path}`,
+    path: s.path,
+    status: 'skipped',
+    format: null,
+    schema: null,
+    kind: null,
+    detectedBy: null,
+    sourceKey: null,
+    seen: null,
+    extracted: 0,
+    skipped: {},
+    notices: [s.reason],
+  }))
+  return { files: [...parsed, ...left], ignoredCount }
+}
+
+const EXPORT_OWNER_RE = /(instagram-)[a-z0-9._]{1,30}(-\d{4}-\d{2}-\d{2})/gi
+const TOKEN_RE = /[a-z0-9._]+/gi
+const REDACTED = '<user>'
+
+/**
+ * Tapa con `<user>` el usuario del nombre del export y cualquiera de `usernames` que aparezca como palabra.
+ * También lo usa el informe anonimizado (`src/lib/htmlReport.ts`) para rutas y avisos.
+ */
+export function createRedactor(usernames: Iterable<string>): (value: string) => string {
+  const known = new Set<string>()
+  for (const username of usernames) known.add(username.toLowerCase())
+  return (value) =>
+    value
+      .replace(EXPORT_OWNER_RE, `$1${REDACTED}$2`)
+      .replace(TOKEN_RE, (token) => (known.has(token.toLowerCase()) ? REDACTED : token))
+}
+
+function formatNotice(n: Notice, redact: (value: string) => string): string {
+  if (!n.params) return n.code
+  const params = Object.fromEntries(
+    Object.entries(n.params).map(([key, value]) => [key, typeof value === 'string' ? redact(value) : value]),
+  )
+  return `${n.code} ${JSON.stringify(params)}`
+}
+
+function formatSkipped(skipped: InstagramSectionStats['skipped']): string {
+  const parts = ENTRY_SKIP_REASONS.flatMap((reason) => {
+    const count = skipped[reason]
+    return count ? [`${reason} ${count}`] : []
+  })
+  return parts.length > 0 ? parts.join(', ') : '0'
+}
+
+/**
+ * Reporte de texto para copiar y pegar en un reporte de error, sin usuarios.
+ * - `usernames`: todas las cuentas cargadas (se tapan donde aparezcan).
+ * - `environment`: navegador/sistema, si quien llama lo conoce (ej: `navigator.userAgent`).
+ */
+export function formatImportDiagnosticsReport(
+  diagnostics: ImportDiagnostics,
+  usernames: Iterable<string>,
+  environment: string | null = null,
+): string {
+  const redact = createRedactor(usernames)
+  const count = (status: FileDiagnosticStatus) => diagnostics.files.filter((f) => f.status === status).length
+
+  const lines = ['Escáner IG — import diagnostics']
+  if (environment) lines.push(`environment: ${environment}`)
+  lines.push(
+    `files: ${diagnostics.files.length} (parsed ${count('parsed')}, failed ${count('failed')}, skipped ${count('skipped')}); not opened: ${diagnostics.ignoredCount}`,
+  )
+
+  diagnostics.files.forEach((f, i) => {
+    lines.push('', `#${i + 1} ${redact(f.path)}`, `status: ${f.status}`)
+    if (f.status !== 'skipped') {
+      const detected = f.detectedBy ? ` (${f.detectedBy})` : ''
+      const key = f.sourceKey ? ` · key: ${f.sourceKey}` : ''
+      lines.push(`format: ${f.format ?? '-'} · schema: ${f.schema ?? '-'} · kind: ${f.kind ?? '-'}${detected}${key}`)
+      lines.push(`entries seen: ${f.seen ?? '-'} · usernames: ${f.extracted} · skipped: ${formatSkipped(f.skipped)}`)
+    }
+    if (f.notices.length > 0) {
+      lines.push('notices:')
+      for (const n of f.notices) lines.push(`  - ${formatNotice(n, redact)}`)
+    }
+  })
+  return lines.join('\n')
+}
@@ -0,0 +1,31 @@
+/**
+ * Web Worker que corre el pipeline de importación fuera del hilo principal.
+ *
+ * Relación con otros archivos:
+ * - Lo crea `src/lib/backgroundImport.ts`; los mensajes están tipados allí.
+ * - Ejecuta `importRelationshipFiles` (`src/lib/relationshipImport.ts`) tal cual, reenviando el progreso.
+ *
+ * Nota:
+ * - En un worker no existe `DOMParser`: el parser HTML (`src/lib/instagramExportHtml.ts`) arma su propio árbol y no lo necesita.
+ * - Para cancelar, el hilo principal termina el worker (`worker.terminate()`).
+ */
+
+import type { ImportWorkerMessage, ImportWorkerRequest } from './backgroundImport'
+import { NoticeError } from './notices'
+import { importRelationshipFiles } from './relationshipImport'
+
+function send(message: ImportWorkerMessage) {
+  self.postMessage(message)
+}
+
+self.onmessage = (event: MessageEvent<ImportWorkerRequest>) => {
+  importRelationshipFiles(event.data.inputs, { onProgress: (progress) => send({ type: 'progress', progress }) })
+    .then((batch) => send({ type: 'done', batch }))
+    .catch((e: unknown) =>
+      send({
+        type: 'error',
+        notice: e instanceof NoticeError ? e.notice : null,
+        message: e instanceof Error && e.message ? e.message : null,
+      }),
+    )
+}
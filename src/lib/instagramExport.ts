@@ -1,25 +1,180 @@
 /**
  * Parser de exportación oficial de Instagram (Data Download).
  *
- * Este archivo se usa desde `src/App.tsx` para extraer usernames a partir
- * de los JSON de "seguidores" y "seguidos" SIN login, SIN scraping.
+ * Este archivo extrae usernames a partir de los JSON de "seguidores" y "seguidos" SIN login, SIN scraping.
+ * Lo registra como parser del formato JSON `src/lib/exportParsers.ts`; el HTML está en `src/lib/instagramExportHtml.ts`.
  *
  * Formatos comunes que soporta:
  * - followers_1.json:
  *   { "relationships_followers": [ { "string_list_data": [ { value, href, timestamp } ] }, ... ] }
  * - following.json:
  *   { "relationships_following": [ { "string_list_data": [ { value, href, timestamp } ] }, ... ] }
+ * - Resto de listas de la carpeta "followers_and_following" (close_friends.json, blocked_profiles.json,
+ *   pending_follow_requests.json, ...): misma forma, con su propia clave `relationships_*`.
+ *
+ * Meta cambió la forma de cada entry varias veces; cada variante se detecta y se maneja de forma explícita
+ * (ver `InstagramSchemaVariant`) y se informa por sección. Hay ejemplos de cada una en `fixtures/instagram-export/`.
  *
  * Nota de privacidad:
- * - Este parser solo devuelve usernames (strings) y warnings; no guarda el JSON completo.
+ * - Este parser solo devuelve entries (username, href, fecha) y warnings; no guarda el JSON completo.
  */
 
-export type InstagramRelationshipKind = 'followers' | 'following' | 'unknown'
+import { notice, type Notice } from './notices'
+
+export type InstagramRelationshipKind =
+  | 'followers'
+  | 'following'
+  | 'close_friends'
+  | 'blocked'
+  | 'restricted'
+  | 'follow_requests_sent'
+  | 'recent_follow_requests'
+  | 'follow_requests_received'
+  | 'recently_unfollowed'
+  | 'removed_suggestions'
+  | 'hide_story_from'
+  | 'followed_hashtags'
+  | 'unknown'
+
+/** Listas reconocidas (todas menos 'unknown'). */
+export type InstagramRelationshipListKind = Exclude<InstagramRelationshipKind, 'unknown'>
 
-export type InstagramExportParseResult = {
+/**
+ * Clave `relationships_*` del JSON => lista.
+ * Meta ha usado estas claves en distintas versiones del export; si aparece una nueva,
+ * el parser igual la extrae como 'unknown' (ver `parseInstagramRelationshipJson`).
+ */
+const RELATIONSHIP_JSON_KEYS: Partial<Record<string, InstagramRelationshipListKind>> = {
+  relationships_followers: 'followers',
+  relationships_following: 'following',
+  relationships_close_friends: 'close_friends',
+  relationships_blocked_users: 'blocked',
+  relationships_restricted_users: 'restricted',
+  relationships_follow_requests_sent: 'follow_requests_sent',
+  relationships_permanent_follow_requests: 'recent_follow_requests',
+  relationships_follow_requests_received: 'follow_requests_received',
+  relationships_unfollowed_users: 'recently_unfollowed',
+  relationships_dismissed_suggested_users: 'removed_suggestions',
+  relationships_hide_stories_from: 'hide_story_from',
+  relationships_following_hashtags: 'followed_hashtags',
+}
+
+/**
+ * Claves de `connections.json` (exports hasta ~2020) => lista. Cada valor es un objeto `usuario => fecha ISO`.
+ */
+const CONNECTIONS_MAP_KEYS: Partial<Record<string, InstagramRelationshipListKind>> = {
+  followers: 'followers',
+  following: 'following',
+  close_friends: 'close_friends',
+  blocked_users: 'blocked',
+  restricted_users: 'restricted',
+  follow_requests_sent: 'follow_requests_sent',
+  dismissed_suggested_users: 'removed_suggestions',
+  hide_stories_from: 'hide_story_from',
+  following_hashtags: 'followed_hashtags',
+}
+
+/** Nombre de archivo (sin extensión) => lista. `followers_N` se resuelve aparte. */
+const RELATIONSHIP_FILE_NAMES: Partial<Record<string, InstagramRelationshipListKind>> = {
+  following: 'following',
+  close_friends: 'close_friends',
+  blocked_profiles: 'blocked',
+  blocked_accounts: 'blocked',
+  restricted_profiles: 'restricted',
+  restricted_accounts: 'restricted',
+  pending_follow_requests: 'follow_requests_sent',
+  recent_follow_requests: 'recent_follow_requests',
+  "follow_requests_you've_received": 'follow_requests_received',
+  recently_unfollowed_profiles: 'recently_unfollowed',
+  recently_unfollowed_accounts: 'recently_unfollowed',
+  removed_suggestions: 'removed_suggestions',
+  hide_story_from: 'hide_story_from',
+  following_hashtags: 'followed_hashtags',
+}
+
+/**
+ * Una cuenta dentro de una lista de relaciones, con los datos que trae el export.
+ * - `username`: normalizado con `normalizeUsername`.
+ * - `href`: URL del perfil tal como viene en el export (si viene).
+ * - `timestamp`: segundos Unix de `string_list_data[].timestamp` (cuándo la seguiste / te siguió).
+ * - `sourceFile`: nombre del archivo de donde salió (para reportes y depuración).
+ */
+export type InstagramRelationshipEntry = {
+  username: string
+  href: string | null
+  timestamp: number | null
+  sourceFile: string | null
+}
+
+/**
+ * Variantes de esquema conocidas del export:
+ * - string_list_value: `{ string_list_data: [{ value, href, timestamp }] }` (forma clásica, 2019–2023).
+ * - title_string_list: `{ title: "usuario", string_list_data: [{ href, timestamp }] }` (following.json desde 2024).
+ * - string_list_href: `{ string_list_data: [{ href, timestamp }] }` sin `value` ni `title`; el usuario sale del href
+ *   (en hashtags seguidos, el hashtag sale de `/explore/tags/<tag>/`).
+ * - label_values: `{ timestamp, label_values: [{ label, value, href }] }` (exports del Centro de cuentas).
+ * - connections_map: `connections.json` de los exports viejos (hasta ~2020):
+ *   `{ "followers": { "usuario": "2019-05-04T16:22:41+00:00" }, "following": { ... } }`.
+ * - html: página HTML del export.
+ * - mixed: la lista mezcla varias formas de entry.
+ * - empty: la lista está vacía (no hay de dónde deducir la forma).
+ * - pasted_lines / pasted_csv / pasted_text: no vienen del export sino de una lista pegada o importada
+ *   (un username por línea, una columna de CSV o texto libre; ver `src/lib/pastedList.ts`).
+ */
+export type InstagramSchemaVariant =
+  | 'string_list_value'
+  | 'title_string_list'
+  | 'string_list_href'
+  | 'label_values'
+  | 'connections_map'
+  | 'html'
+  | 'mixed'
+  | 'empty'
+  | 'pasted_lines'
+  | 'pasted_csv'
+  | 'pasted_text'
+
+/**
+ * Por qué el parser descartó una entry (o un candidato, en HTML):
+ * - unrecognized: entry JSON con una forma que no conocemos.
+ * - duplicate: la cuenta ya estaba en la misma lista.
+ * - outside_list / reserved_path / invalid_username / no_username: ver `HtmlRejectReason`.
+ */
+export type EntrySkipReason =
+  | 'unrecognized'
+  | 'duplicate'
+  | 'outside_list'
+  | 'reserved_path'
+  | 'invalid_username'
+  | 'no_username'
+
+/**
+ * Cuentas de una sección, para el diagnóstico por archivo:
+ * - `seen`: entries (o candidatos, en HTML) que el parser revisó.
+ * - `skipped`: cuántas descartó, por motivo. `seen` = usuarios extraídos + la suma de `skipped`.
+ */
+export type InstagramSectionStats = {
+  seen: number
+  skipped: Partial<Record<EntrySkipReason, number>>
+}
+
+/**
+ * Una lista dentro de un archivo. Casi siempre hay una por archivo, pero el parser no lo asume.
+ * - `sourceKey`: clave `relationships_*` de donde salió (null si el JSON era un array directo o HTML).
+ * - `schema`: variante de esquema detectada para sus entries.
+ */
+export type InstagramRelationshipSection = {
   kind: InstagramRelationshipKind
-  usernames: string[]
-  warnings: string[]
+  sourceKey: string | null
+  schema: InstagramSchemaVariant
+  entries: InstagramRelationshipEntry[]
+  stats: InstagramSectionStats
+}
+
+export type InstagramExportParseResult = {
+  sections: InstagramRelationshipSection[]
+  /** Avisos como códigos traducibles (ver `src/lib/notices.ts`). */
+  warnings: Notice[]
 }
 
 /**
@@ -32,6 +187,21 @@ export function normalizeUsername(username: string): string {
   return username.trim().replace(/^@/, '').toLowerCase()
 }
 
+/**
+ * Clasifica un archivo del export solo por su nombre (sin leerlo).
+ * - followers_1.json / followers_2.html => 'followers'
+ * - following.json / following.html => 'following'
+ * - close_friends.json => 'close_friends', pending_follow_requests.html => 'follow_requests_sent', ...
+ * Devuelve null si el nombre no se parece a ningún archivo de "Seguidores y seguidos".
+ */
+export function guessRelationshipKindFromFileName(fileName: string): InstagramRelationshipListKind | null {
+  const match = fileName.toLowerCase().match(/^(.+)\.(json|html?)$/)
+  const base = match?.[1]
+  if (!base) return null
+  if (/^followers(_\d+)?$/.test(base)) return 'followers'
+  return RELATIONSHIP_FILE_NAMES[base] ?? null
+}
+
 function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null
 }
@@ -40,192 +210,311 @@ function toStringOrNull(value: unknown): string | null {
   return typeof value === 'string' ? value : null
 }
 
+// Instagram abrió en octubre de 2010: una fecha anterior no puede ser de un seguimiento.
+const MIN_PLAUSIBLE_TIMESTAMP = Date.UTC(2010, 9, 1) / 1000
+// Margen hacia adelante por relojes desajustados o zonas horarias.
+const FUTURE_MARGIN_SECONDS = 2 * 24 * 60 * 60
+
+/**
+ * Segundos Unix de una fecha del export, o null si no es creíble: antes de que existiera Instagram o después
+ * de hoy (un valor en milisegundos, ej: `1700000000000`, cae acá). Mejor sin fecha que con una que desarme
+ * los gráficos por mes (`src/lib/followStats.ts`).
+ */
+export function plausibleTimestamp(seconds: number): number | null {
+  if (!Number.isFinite(seconds)) return null
+  const max = Date.now() / 1000 + FUTURE_MARGIN_SECONDS
+  return seconds >= MIN_PLAUSIBLE_TIMESTAMP && seconds <= max ? seconds : null
+}
+
+function toTimestampOrNull(value: unknown): number | null {
+  return typeof value === 'number' ? plausibleTimestamp(value) : null
+}
+
+/**
+ * URL de perfil a usar para abrir una cuenta: la del export si existe, si no la construimos.
+ */
+export function profileUrl(entry: Pick<InstagramRelationshipEntry, 'username' | 'href'>): string {
+  return entry.href ?? `https://www.instagram.com/${entry.username}/`
+}
+
+/**
+ * Deduplica entries por username normalizado y las ordena alfabéticamente.
+ * Si una cuenta aparece varias veces (ej: en followers_1 y followers_2), se combinan
+ * quedándonos con el primer href conocido y la fecha más antigua.
+ */
+export function mergeRelationshipEntries(entries: Iterable<InstagramRelationshipEntry>): InstagramRelationshipEntry[] {
+  const byUsername = new Map<string, InstagramRelationshipEntry>()
+  for (const entry of entries) {
+    const username = normalizeUsername(entry.username)
+    if (!username) continue
+    const prev = byUsername.get(username)
+    if (!prev) {
+      byUsername.set(username, { ...entry, username })
+      continue
+    }
+    byUsername.set(username, {
+      username,
+      href: prev.href ?? entry.href,
+      timestamp:
+        prev.timestamp !== null && entry.timestamp !== null
+          ? Math.min(prev.timestamp, entry.timestamp)
+          : (prev.timestamp ?? entry.timestamp),
+      sourceFile: prev.sourceFile ?? entry.sourceFile,
+    })
+  }
+  return Array.from(byUsername.values()).sort((a, b) => a.username.localeCompare(b.username))
+}
+
 /**
  * Extrae username desde un href típico del export de Instagram.
  * Ejemplos:
  * - https://www.instagram.com/_u/thenest_games
  * - https://www.instagram.com/thenest_games/
  */
+// Primer segmento de la URL que nunca es un perfil (pie de página, navegación, publicaciones, hashtags...).
+const RESERVED_PATHS = new Set([
+  'accounts', 'explore', 'about', 'legal', 'developer', 'direct', 'p', 'reel', 'reels', 'stories', 'tv', 'web',
+  'privacy', 'terms', 'help', 'press', 'api', 'static', 'challenge', 'emails', 'session', 'download', 'directory',
+])
+
+/**
+ * ¿El primer segmento de una URL de instagram.com es de navegación y no un perfil? (ej: `p`, `reel`, `explore`)
+ * Lo usan también el parser HTML (`src/lib/instagramExportHtml.ts`) y las listas pegadas (`src/lib/pastedList.ts`).
+ */
+export function isReservedPath(segment: string): boolean {
+  return RESERVED_PATHS.has(segment.toLowerCase())
+}
+
 function extractUsernameFromHref(href: string): string | null {
   // Preferimos capturar el path después de /_u/ (formato común en exports).
   const uMatch = href.match(/instagram\.com\/_u\/([a-zA-Z0-9._]{1,30})\/?/)
   if (uMatch?.[1]) return uMatch[1]
 
-  // Fallback: path normal /<username>/
+  // Fallback: path normal /<username>/ (salvo rutas que no son perfiles, ej: /explore/tags/...)
   const match = href.match(/instagram\.com\/([a-zA-Z0-9._]{1,30})\/?/)
-  if (match?.[1]) return match[1]
+  if (match?.[1] && !isReservedPath(match[1])) return match[1]
 
   return null
 }
 
 /**
- * Intenta extraer un username desde un "relationship entry" típico de Instagram.
- * Ejemplo de entry:
- * { "string_list_data": [ { "value": "usuario", "href": "...", "timestamp": 123 } ] }
+ * Hashtag de un enlace `/explore/tags/<tag>/` (así vienen los hashtags seguidos en exports actuales).
  */
-function extractUsernameFromRelationshipEntry(entry: unknown): string | null {
-  if (!isRecord(entry)) return null
+function extractHashtagFromHref(href: string): string | null {
+  const match = href.match(/instagram\.com\/explore\/tags\/([^/?#]+)/i)
+  if (!match?.[1]) return null
+  try {
+    return decodeURIComponent(match[1]) || null
+  } catch {
+    return null
+  }
+}
 
-  const sld = entry['string_list_data']
-  if (!Array.isArray(sld)) return null
+function isReservedHref(href: string): boolean {
+  const segment = href.match(/instagram\.com\/([^/?#]+)/)?.[1]
+  return segment !== undefined && isReservedPath(segment)
+}
 
-  // En muchos exports, el username viene como `string_list_data[].value`.
-  for (const item of sld) {
-    if (!isRecord(item)) continue
-    const value = toStringOrNull(item['value'])
-    if (value) return value
-  }
+type EntryVariant = Extract<
+  InstagramSchemaVariant,
+  'string_list_value' | 'title_string_list' | 'string_list_href' | 'label_values'
+>
 
-  // En algunos exports (como tu `following.json`), NO existe `value`, y el username viene en `title`.
-  const title = toStringOrNull(entry['title'])
-  if (title) return title
-
-  // Fallback adicional: intentar extraer desde `href` si viene en string_list_data.
-  for (const item of sld) {
-    if (!isRecord(item)) continue
-    const href = toStringOrNull(item['href'])
-    if (!href) continue
-    const fromHref = extractUsernameFromHref(href)
-    if (fromHref) return fromHref
-  }
+// Etiqueta del campo "usuario" en `label_values`, según el idioma de la cuenta.
+const USERNAME_LABEL_RE = /^(username|user ?name|nombre de usuario|nome de usu[aá]rio|nom d.utilisateur|benutzername|nome utente)$/i
 
+function stringListItems(entry: Record<string, unknown>): Record<string, unknown>[] {
+  const sld = entry['string_list_data']
+  return Array.isArray(sld) ? sld.filter(isRecord) : []
+}
+
+/**
+ * Reconoce la forma de una entry. Si trae `value` y `title`, gana `value` (es lo que usaba la forma clásica).
+ */
+function detectEntryVariant(entry: Record<string, unknown>): EntryVariant | null {
+  if (Array.isArray(entry['label_values'])) return 'label_values'
+  if (!Array.isArray(entry['string_list_data'])) return null
+
+  const items = stringListItems(entry)
+  if (items.some((item) => toStringOrNull(item['value']))) return 'string_list_value'
+  if (toStringOrNull(entry['title'])) return 'title_string_list'
+  if (items.some((item) => toStringOrNull(item['href']))) return 'string_list_href'
   return null
 }
 
-function uniqueSorted(usernames: string[]): string[] {
-  // Usamos normalización para deduplicar, pero devolvemos la versión normalizada,
-  // que es la más útil para construir URLs / comparación.
-  const set = new Set<string>()
-  for (const u of usernames) {
-    const nu = normalizeUsername(u)
-    if (nu) set.add(nu)
+function firstHrefAndTimestamp(items: Record<string, unknown>[]): Pick<InstagramRelationshipEntry, 'href' | 'timestamp'> {
+  let href: string | null = null
+  let timestamp: number | null = null
+  for (const item of items) {
+    href ??= toStringOrNull(item['href'])
+    timestamp ??= toTimestampOrNull(item['timestamp'])
   }
-  return Array.from(set).sort((a, b) => a.localeCompare(b))
+  return { href, timestamp }
 }
 
 /**
- * Parsea el JSON cargado y devuelve usernames + el "tipo" detectado.
- * - Si detecta `relationships_followers` => kind = 'followers'
- * - Si detecta `relationships_following` => kind = 'following'
- * - En otro caso intenta parsear si es array de entries => kind = 'unknown'
+ * Un extractor por variante: cada uno sabe exactamente dónde está el usuario en su forma.
  */
-export function parseInstagramRelationshipJson(json: unknown): InstagramExportParseResult {
-  const warnings: string[] = []
+const ENTRY_EXTRACTORS: Record<
+  EntryVariant,
+  (
+    entry: Record<string, unknown>,
+    kind: InstagramRelationshipKind,
+  ) => Omit<InstagramRelationshipEntry, 'sourceFile'> | 'reserved_path' | null
+> = {
+  string_list_value: (entry) => {
+    const items = stringListItems(entry)
+    const username = items.map((item) => toStringOrNull(item['value'])).find(Boolean)
+    return username ? { username, ...firstHrefAndTimestamp(items) } : null
+  },
+  title_string_list: (entry) => {
+    const username = toStringOrNull(entry['title'])
+    return username ? { username, ...firstHrefAndTimestamp(stringListItems(entry)) } : null
+  },
+  string_list_href: (entry, kind) => {
+    const items = stringListItems(entry)
+    const { href, timestamp } = firstHrefAndTimestamp(items)
+    // En la lista de hashtags seguidos el "usuario" es el hashtag (igual que en la forma con `value`).
+    const extract = kind === 'followed_hashtags' ? extractHashtagFromHref : extractUsernameFromHref
+    const username = href ? extract(href) : null
+    if (!username && href && isReservedHref(href)) return 'reserved_path'
+    return username ? { username, href, timestamp } : null
+  },
+  label_values: (entry) => {
+    const labels = (entry['label_values'] as unknown[]).filter(isRecord)
+    const { href, timestamp } = firstHrefAndTimestamp(labels)
+    const byLabel = labels.find((l) => USERNAME_LABEL_RE.test(toStringOrNull(l['label'])?.trim() ?? ''))
+    const username = toStringOrNull(byLabel?.['value']) ?? (href ? extractUsernameFromHref(href) : null)
+    // En esta forma la fecha va en la entry, no en cada label.
+    return username ? { username, href, timestamp: toTimestampOrNull(entry['timestamp']) ?? timestamp } : null
+  },
+}
 
-  // Detectar formato "objeto con clave relationships_*"
-  if (isRecord(json)) {
-    const followers = json['relationships_followers']
-    if (Array.isArray(followers)) {
-      const usernames = followers
-        .map(extractUsernameFromRelationshipEntry)
-        .filter((u): u is string => Boolean(u))
-      if (usernames.length === 0) warnings.push('Se detectó followers, pero no se pudieron extraer usernames.')
-      return { kind: 'followers', usernames: uniqueSorted(usernames), warnings }
-    }
+type ExtractedList = {
+  schema: InstagramSchemaVariant
+  entries: InstagramRelationshipEntry[]
+  /** Entries con una forma que no conocemos (se ignoran y se avisa). */
+  unrecognized: number
+  stats: InstagramSectionStats
+}
 
-    const following = json['relationships_following']
-    if (Array.isArray(following)) {
-      const usernames = following
-        .map(extractUsernameFromRelationshipEntry)
-        .filter((u): u is string => Boolean(u))
-      if (usernames.length === 0) warnings.push('Se detectó following, pero no se pudieron extraer usernames.')
-      return { kind: 'following', usernames: uniqueSorted(usernames), warnings }
-    }
+/**
+ * Arma las cuentas de una lista: lo que no sobrevivió a `mergeRelationshipEntries` cuenta como duplicado.
+ */
+function listStats(
+  seen: number,
+  extracted: number,
+  merged: number,
+  skipped: InstagramSectionStats['skipped'] = {},
+): InstagramSectionStats {
+  const duplicate = extracted - merged
+  return { seen, skipped: duplicate > 0 ? { ...skipped, duplicate } : skipped }
+}
 
-    // Algunos exports pueden venir como `relationships_follow_requests_sent`, etc.
-    // Intentamos extraer de la primera lista "parecida".
-    for (const [key, value] of Object.entries(json)) {
-      if (!key.startsWith('relationships_')) continue
-      if (!Array.isArray(value)) continue
-      const usernames = value
-        .map(extractUsernameFromRelationshipEntry)
-        .filter((u): u is string => Boolean(u))
-      if (usernames.length > 0) {
-        warnings.push(`Formato no estándar: se extrajo desde "${key}".`)
-        return { kind: 'unknown', usernames: uniqueSorted(usernames), warnings }
-      }
+function extractEntries(list: unknown[], kind: InstagramRelationshipKind, sourceFile: string | null): ExtractedList {
+  const variants = new Set<EntryVariant>()
+  const entries: InstagramRelationshipEntry[] = []
+  let unrecognized = 0
+  let reserved = 0
+
+  for (const raw of list) {
+    const variant = isRecord(raw) ? detectEntryVariant(raw) : null
+    const extracted = variant && isRecord(raw) ? ENTRY_EXTRACTORS[variant](raw, kind) : null
+    if (!variant || !extracted) {
+      unrecognized++
+      continue
+    }
+    variants.add(variant)
+    // Enlaces a rutas que no son perfiles (ej: un hashtag en /explore/tags/): la forma se reconoce, el usuario no.
+    if (extracted === 'reserved_path') {
+      reserved++
+      continue
     }
+    entries.push({ ...extracted, sourceFile })
   }
 
-  // Detectar formato "array directo"
-  if (Array.isArray(json)) {
-    const usernames = json
-      .map(extractUsernameFromRelationshipEntry)
-      .filter((u): u is string => Boolean(u))
-    if (usernames.length === 0) warnings.push('El JSON es un array, pero no se pudieron extraer usernames.')
-    return { kind: 'unknown', usernames: uniqueSorted(usernames), warnings }
+  const [only] = variants
+  const schema: InstagramSchemaVariant = variants.size === 0 ? 'empty' : variants.size === 1 && only ? only : 'mixed'
+  const merged = mergeRelationshipEntries(entries)
+  const skipped: InstagramSectionStats['skipped'] = {}
+  if (unrecognized > 0) skipped.unrecognized = unrecognized
+  if (reserved > 0) skipped.reserved_path = reserved
+  const stats = listStats(list.length, entries.length, merged.length, skipped)
+  return { schema, entries: merged, unrecognized, stats }
+}
+
+/**
+ * `connections.json` viejo: `{ usuario: "2019-05-04T16:22:41+00:00" }` por cada lista.
+ */
+function extractConnectionsMap(
+  map: Record<string, unknown>,
+  sourceFile: string | null,
+): Pick<ExtractedList, 'entries' | 'stats'> {
+  const entries: InstagramRelationshipEntry[] = []
+  for (const [username, date] of Object.entries(map)) {
+    const ms = typeof date === 'string' ? Date.parse(date) : NaN
+    const timestamp = Number.isNaN(ms) ? null : plausibleTimestamp(Math.floor(ms / 1000))
+    entries.push({ username, href: null, timestamp, sourceFile })
   }
+  const merged = mergeRelationshipEntries(entries)
+  return { entries: merged, stats: listStats(entries.length, entries.length, merged.length) }
+}
 
-  warnings.push('Formato de JSON no reconocido para seguidores/seguidos.')
-  return { kind: 'unknown', usernames: [], warnings }
+function describeKind(kind: InstagramRelationshipKind, sourceKey: string): string {
+  return kind === 'unknown' ? sourceKey : kind
 }
 
 /**
- * Parser heurístico para exportación oficial de Instagram en **HTML**.
+ * Parsea el JSON cargado y devuelve una sección por cada lista que encuentre.
+ * - Cada clave `relationships_*` conocida => su `kind` (followers, following, close_friends, blocked, ...)
+ * - Claves `relationships_*` nuevas/no reconocidas => kind = 'unknown' (igual se extraen)
+ * - Array directo de entries (ej: followers_1.json en exports recientes) => una sección 'unknown'
+ * - `connections.json` de exports viejos => una sección por lista (followers, following, ...)
  *
- * En algunas descargas, Instagram permite escoger formato (JSON/HTML).
- * Si el usuario descargó en HTML, encontrará archivos como:
- * - followers_1.html
- * - following.html
- *
- * Este parser NO intenta ejecutar scripts: solo extrae posibles usernames desde:
- * - URLs tipo https://www.instagram.com/<username>/
- * - Texto tipo @username
- * - Ocurrencias tipo "value":"username" (a veces embebidas en el HTML)
- *
- * Se usa desde `src/App.tsx` cuando el archivo parece HTML.
+ * `sourceFile` (opcional) se copia en cada entry para saber de qué archivo salió.
  */
-export function parseInstagramRelationshipHtml(htmlText: string): InstagramExportParseResult {
-  const warnings: string[] = ['Se importó un archivo HTML (export de Instagram en formato HTML).']
+export function parseInstagramRelationshipJson(json: unknown, sourceFile: string | null = null): InstagramExportParseResult {
+  const warnings: Notice[] = []
+  const sections: InstagramRelationshipSection[] = []
 
-  const candidates: string[] = []
-
-  // 1) Extraer usernames desde URLs de Instagram presentes en el HTML
-  // Captura el segmento inmediato después del dominio.
-  const urlRe = /https?:\/\/(?:www\.)?instagram\.com\/([a-zA-Z0-9._]{1,30})\/?/g
-  for (const match of htmlText.matchAll(urlRe)) {
-    if (match[1]) candidates.push(match[1])
-  }
+  // Detectar formato "objeto con claves relationships_*" (todas, no solo la primera).
+  if (isRecord(json)) {
+    for (const [key, value] of Object.entries(json)) {
+      if (!key.startsWith('relationships_')) continue
+      if (!Array.isArray(value)) continue
 
-  // 2) Extraer usernames desde texto tipo @username
-  const atRe = /@([a-zA-Z0-9._]{1,30})/g
-  for (const match of htmlText.matchAll(atRe)) {
-    if (match[1]) candidates.push(match[1])
-  }
+      const kind = RELATIONSHIP_JSON_KEYS[key] ?? 'unknown'
+      const { schema, entries, unrecognized, stats } = extractEntries(value, kind, sourceFile)
+      if (kind === 'unknown') warnings.push(notice('json_nonstandard_key', { key }))
+      if (entries.length === 0 && value.length > 0) {
+        warnings.push(notice('json_list_no_usernames', { kind: describeKind(kind, key) }))
+      } else if (unrecognized > 0) {
+        warnings.push(notice('json_list_unrecognized_entries', { kind: describeKind(kind, key), count: unrecognized }))
+      }
+      sections.push({ kind, sourceKey: key, schema, entries, stats })
+    }
 
-  // 3) Extraer desde fragmentos tipo "value":"username" (común en exports)
-  const valueRe = /"value"\s*:\s*"([^"]{1,64})"/g
-  for (const match of htmlText.matchAll(valueRe)) {
-    if (match[1]) candidates.push(match[1])
-  }
+    if (sections.length > 0) return { sections, warnings }
 
-  // 4) Si existe DOMParser (navegador), hacer un pase extra por anchors.
-  // Esto mejora casos donde el HTML no contiene URLs completas en texto plano.
-  try {
-    if (typeof DOMParser !== 'undefined') {
-      const doc = new DOMParser().parseFromString(htmlText, 'text/html')
-      const anchors = Array.from(doc.querySelectorAll('a'))
-      for (const a of anchors) {
-        const href = a.getAttribute('href') ?? ''
-        const text = a.textContent ?? ''
-
-        const hrefMatch = href.match(/instagram\.com\/([a-zA-Z0-9._]{1,30})\/?/)
-        if (hrefMatch?.[1]) candidates.push(hrefMatch[1])
-
-        const textMatch = text.match(/@?([a-zA-Z0-9._]{1,30})/)
-        if (textMatch?.[1]) candidates.push(textMatch[1])
-      }
+    // Formato viejo (`connections.json`): listas como objetos `usuario => fecha`.
+    for (const [key, value] of Object.entries(json)) {
+      const kind = CONNECTIONS_MAP_KEYS[key]
+      if (!kind || !isRecord(value) || Array.isArray(value)) continue
+      const { entries, stats } = extractConnectionsMap(value, sourceFile)
+      sections.push({ kind, sourceKey: key, schema: entries.length > 0 ? 'connections_map' : 'empty', entries, stats })
     }
-  } catch {
-    // Silencioso: seguimos con el resultado por regex.
-  }
 
-  // Filtrado final: quedarnos con lo que parece username válido.
-  const plausible = candidates.filter((raw) => /^[a-zA-Z0-9._]{1,30}$/.test(raw))
+    if (sections.length > 0) return { sections, warnings }
+  }
 
-  if (plausible.length === 0) {
-    warnings.push('No se pudieron extraer usernames desde el HTML. Intenta descargar en formato JSON si Instagram te da esa opción.')
+  // Detectar formato "array directo"
+  if (Array.isArray(json)) {
+    const { schema, entries, unrecognized, stats } = extractEntries(json, 'unknown', sourceFile)
+    if (entries.length === 0) warnings.push(notice('json_array_no_usernames'))
+    else if (unrecognized > 0) warnings.push(notice('json_array_unrecognized_entries', { count: unrecognized }))
+    return { sections: [{ kind: 'unknown', sourceKey: null, schema, entries, stats }], warnings }
   }
 
-  return { kind: 'unknown', usernames: uniqueSorted(plausible), warnings }
+  warnings.push(notice('json_unknown_format'))
+  return { sections: [], warnings }
 }
@@ -2,78 +2,460 @@
  * Parser de exportación oficial de Instagram en formato **HTML**.
  *
  * Relación con otros archivos:
- * - Se usa desde `src/App.tsx` cuando el usuario sube `followers_*.html` / `following.html`.
- * - Comparte el tipo `InstagramExportParseResult` con `src/lib/instagramExport.ts`.
+ * - Está registrado como parser del formato HTML en `src/lib/exportParsers.ts` (`followers_*.html`, `following.html`, etc.).
+ * - Comparte los tipos de resultado con `src/lib/instagramExport.ts`.
+ * - Hay ejemplos en `fixtures/instagram-export/*-html/`.
  *
- * Nota:
- * - Instagram a veces deja elegir el formato al pedir la descarga (JSON o HTML).
- * - Este parser es heurístico (regex/DOMParser) para extraer usernames sin ejecutar scripts.
+ * Cómo lee la página (sin `DOMParser`, así funciona también dentro del Web Worker):
+ * 1) Arma un árbol liviano del HTML (ignora `<script>`, `<style>` y comentarios).
+ * 2) Busca las "tarjetas" de la lista: los bloques `uiBoxWhite` del export (o filas `<tr>` / `<li>` en
+ *    layouts viejos). Cada tarjeta trae un enlace al perfil, a veces el usuario en un `<h2>`, y la fecha en texto.
+ * 3) Solo acepta usuarios que salen de una tarjeta; el resto (enlaces del pie, rutas como `explore` o
+ *    `accounts`, textos sueltos) se descarta y se informa cuántos y por qué.
+ * 4) El `<title>` dice qué lista es, en el idioma de la cuenta ("Followers", "Seguidores", "Abonnés", ...).
  */
 
-import type { InstagramExportParseResult } from './instagramExport'
-import { normalizeUsername } from './instagramExport'
+import {
+  isReservedPath,
+  mergeRelationshipEntries,
+  plausibleTimestamp,
+  type EntrySkipReason,
+  type InstagramExportParseResult,
+  type InstagramRelationshipEntry,
+  type InstagramRelationshipListKind,
+  type InstagramSectionStats,
+} from './instagramExport'
+import { notice, type Notice } from './notices'
 
-function uniqueSorted(usernames: string[]): string[] {
-  // Dedupe por normalización (Instagram es case-insensitive) y devolvemos la forma normalizada.
-  const set = new Set<string>()
-  for (const u of usernames) {
-    const nu = normalizeUsername(u)
-    if (nu) set.add(nu)
+export type HtmlRejectReason = Exclude<EntrySkipReason, 'unrecognized'>
+
+export type HtmlRejectedCandidate = {
+  value: string
+  reason: HtmlRejectReason
+}
+
+export type InstagramHtmlParseResult = InstagramExportParseResult & {
+  /** Candidatos descartados (enlaces o tarjetas que no parecen una cuenta de la lista). */
+  rejected: HtmlRejectedCandidate[]
+}
+
+/**
+ * Títulos de página por lista, normalizados (minúsculas, sin acentos). Los de seguidores/seguidos van en
+ * todos los idiomas de la interfaz de Instagram que conocemos; el resto de listas, en inglés y español.
+ */
+const TITLE_KINDS: [InstagramRelationshipListKind, string[]][] = [
+  [
+    'followers',
+    [
+      'followers', 'seguidores', 'abonnes', 'follower', 'abonnenten', 'volgers', 'takipciler', 'pengikut',
+      'obserwujacy', 'подписчики', 'підписники', 'フォロワー', '팔로워', '粉丝', '粉絲', 'المتابعون', 'फ़ॉलोअर्स',
+      'foljare', 'folgere', 'seuraajat', 'sledujici', 'ακολουθοι', 'עוקבים', 'kovetok', 'urmaritori',
+      'nguoi theo doi', 'ผู้ติดตาม', 'mga tagasubaybay',
+    ],
+  ],
+  [
+    'following',
+    [
+      'following', 'seguidos', 'siguiendo', 'seguindo', 'accounts you follow', 'personas a las que sigues',
+      'abonnements', 'gefolgt', 'abonniert', 'seguiti', 'volgend', 'takip edilenler', 'takip', 'mengikuti',
+      'obserwowani', 'подписки', 'стежить', 'フォロー中', '팔로잉', '关注', '追蹤中', 'يتابع', 'फ़ॉलोइंग', 'foljer',
+      'folger', 'seurattavat', 'sledovani', 'ακολουθειτε', 'במעקב', 'kovetes', 'urmaresti', 'dang theo doi',
+      'กำลังติดตาม', 'sinusubaybayan',
+    ],
+  ],
+  ['close_friends', ['close friends', 'mejores amigos', 'amigos proximos', 'amis proches']],
+  ['blocked', ['blocked profiles', 'blocked accounts', 'cuentas bloqueadas', 'perfiles bloqueados']],
+  ['restricted', ['restricted profiles', 'restricted accounts', 'cuentas restringidas', 'perfiles restringidos']],
+  ['follow_requests_sent', ['pending follow requests', 'solicitudes de seguimiento pendientes']],
+  ['recent_follow_requests', ['recent follow requests', 'solicitudes de seguimiento recientes']],
+  ['follow_requests_received', ["follow requests you've received", 'solicitudes de seguimiento recibidas']],
+  [
+    'recently_unfollowed',
+    ['recently unfollowed profiles', 'recently unfollowed accounts', 'cuentas que dejaste de seguir recientemente'],
+  ],
+  ['removed_suggestions', ['removed suggestions', 'sugerencias eliminadas']],
+  ['hide_story_from', ['hide story from', 'ocultar historia a']],
+  ['followed_hashtags', ['hashtags you follow', 'following hashtags', 'hashtags que sigues']],
+]
+
+const TITLE_LOOKUP = new Map<string, InstagramRelationshipListKind>(
+  TITLE_KINDS.flatMap(([kind, titles]) => titles.map((title) => [title, kind] as const)),
+)
+
+const USERNAME_RE = /^[a-zA-Z0-9._]{1,30}$/
+
+function stripAccents(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+}
+
+function normalizeTitle(text: string): string {
+  return stripAccents(text)
+    .toLowerCase()
+    .replace(/\(\s*\d[\d.,\s]*\)\s*$/, '') // algunos títulos traen el total: "Followers (1.234)"
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// ---------------------------------------------------------------------------
+// Árbol HTML mínimo
+// ---------------------------------------------------------------------------
+
+type HtmlElement = {
+  tag: string
+  attrs: Record<string, string>
+  children: HtmlNode[]
+  parent: HtmlElement | null
+}
+
+type HtmlNode = HtmlElement | string
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'])
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'template', 'noscript'])
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' }
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, code: string) => {
+    if (code[0] === '#') {
+      const n = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+      return Number.isFinite(n) && n > 0 && n <= 0x10ffff ? String.fromCodePoint(n) : match
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? match
+  })
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {}
+  for (const m of source.matchAll(/([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g)) {
+    const name = m[1]?.toLowerCase()
+    if (name) attrs[name] = decodeEntities(m[2] ?? m[3] ?? m[4] ?? '')
   }
-  return Array.from(set).sort((a, b) => a.localeCompare(b))
+  return attrs
 }
 
-export function parseInstagramRelationshipHtml(htmlText: string): InstagramExportParseResult {
-  const warnings: string[] = ['Se importó un archivo HTML (export de Instagram en formato HTML).']
+/**
+ * Tokeniza el HTML y arma un árbol tolerante a etiquetas mal cerradas (como hacen los navegadores, pero simple).
+ */
+function parseHtmlTree(html: string): HtmlElement {
+  const root: HtmlElement = { tag: '#root', attrs: {}, children: [], parent: null }
+  let current = root
+  const tagRe = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\?[^>]*>|<\/\s*([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/g
+  let last = 0
 
-  const candidates: string[] = []
+  for (let m = tagRe.exec(html); m; m = tagRe.exec(html)) {
+    if (m.index > last) {
+      const text = html.slice(last, m.index)
+      if (text.trim()) current.children.push(decodeEntities(text))
+    }
+    last = tagRe.lastIndex
 
-  // 1) Extraer usernames desde URLs de Instagram presentes en el HTML
-  const urlRe = /https?:\/\/(?:www\.)?instagram\.com\/([a-zA-Z0-9._]{1,30})\/?/g
-  for (const match of htmlText.matchAll(urlRe)) {
-    if (match[1]) candidates.push(match[1])
+    const closing = m[1]?.toLowerCase()
+    const opening = m[2]?.toLowerCase()
+    if (closing) {
+      // Cerramos hasta la etiqueta correspondiente; si no está abierta, ignoramos el cierre.
+      let node: HtmlElement | null = current
+      while (node && node.tag !== closing) node = node.parent
+      if (node?.parent) current = node.parent
+      continue
+    }
+    if (!opening) continue // comentario, doctype, etc.
+
+    if (RAW_TEXT_TAGS.has(opening)) {
+      // Su contenido no es parte de la página visible: lo saltamos entero. Buscamos el cierre desde aquí y sin
+      // distinguir mayúsculas (pasar todo el documento a minúsculas en cada <script> sería cuadrático).
+      const closeRe = new RegExp(`</${opening}`, 'gi')
+      closeRe.lastIndex = last
+      const end = closeRe.exec(html)?.index ?? -1
+      last = end < 0 ? html.length : end
+      tagRe.lastIndex = last
+      continue
+    }
+
+    const element: HtmlElement = { tag: opening, attrs: parseAttributes(m[3] ?? ''), children: [], parent: current }
+    current.children.push(element)
+    if (!VOID_TAGS.has(opening) && !(m[3] ?? '').trim().endsWith('/')) current = element
   }
 
-  // 2) Extraer usernames desde texto tipo @username
-  const atRe = /@([a-zA-Z0-9._]{1,30})/g
-  for (const match of htmlText.matchAll(atRe)) {
-    if (match[1]) candidates.push(match[1])
+  if (last < html.length) {
+    const text = html.slice(last)
+    if (text.trim()) current.children.push(decodeEntities(text))
   }
+  return root
+}
 
-  // 3) Extraer desde fragmentos tipo "value":"username" (común en exports)
-  const valueRe = /"value"\s*:\s*"([^"]{1,64})"/g
-  for (const match of htmlText.matchAll(valueRe)) {
-    if (match[1]) candidates.push(match[1])
+function* walk(node: HtmlElement): Generator<HtmlElement> {
+  for (const child of node.children) {
+    if (typeof child === 'string') continue
+    yield child
+    yield* walk(child)
   }
+}
 
-  // 4) Si existe DOMParser (navegador), pase extra por anchors.
+function textOf(node: HtmlNode): string {
+  if (typeof node === 'string') return node
+  return node.children.map(textOf).join(' ')
+}
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+/** Textos "sueltos" de un elemento, en orden, sin el texto de los enlaces ni de los encabezados. */
+function looseTexts(node: HtmlElement, out: string[] = []): string[] {
+  for (const child of node.children) {
+    if (typeof child === 'string') {
+      const text = cleanText(child)
+      if (text) out.push(text)
+    } else if (child.tag !== 'a' && !/^h[1-6]$/.test(child.tag)) {
+      looseTexts(child, out)
+    }
+  }
+  return out
+}
+
+function hasClass(node: HtmlElement, className: string): boolean {
+  return (node.attrs['class'] ?? '').split(/\s+/).includes(className)
+}
+
+// ---------------------------------------------------------------------------
+// Fechas
+// ---------------------------------------------------------------------------
+
+// Prefijos de meses (sin acentos) en los idiomas más comunes del export: en, es, pt, fr, de, it, nl.
+const MONTH_PREFIXES: [string, number][] = [
+  ['juin', 5], ['juil', 6],
+  ['jan', 0], ['ene', 0], ['gen', 0],
+  ['feb', 1], ['fev', 1],
+  ['mar', 2], ['maa', 2], ['mrt', 2],
+  ['apr', 3], ['abr', 3], ['avr', 3],
+  ['may', 4], ['mai', 4], ['mag', 4], ['mei', 4],
+  ['jun', 5], ['giu', 5],
+  ['jul', 6], ['lug', 6],
+  ['aug', 7], ['ago', 7], ['aou', 7],
+  ['sep', 8], ['set', 8],
+  ['oct', 9], ['out', 9], ['ott', 9], ['okt', 9],
+  ['nov', 10],
+  ['dec', 11], ['dic', 11], ['dez', 11],
+]
+
+function monthFromToken(token: string): number | null {
+  if (!/^[a-z]{3,}$/.test(token)) return null
+  for (const [prefix, month] of MONTH_PREFIXES) if (token.startsWith(prefix)) return month
+  return null
+}
+
+/**
+ * Convierte el texto de fecha del export a segundos Unix (UTC). Formatos vistos:
+ * - "Nov 14, 2023 10:13 pm", "ene 07, 2021 10:12 am", "14 nov 2023, 22:13", "14 de nov. de 2023 22:13"
+ * - "2023-11-14 22:13", "14.11.2023 22:13"
+ * Devuelve null si no lo entiende (mejor sin fecha que con una fecha equivocada).
+ */
+export function parseExportDateText(text: string): number | null {
+  const normalized = stripAccents(text).toLowerCase()
+
+  let year: number | undefined
+  let month: number | null | undefined
+  let day: number | undefined
+
+  const iso = normalized.match(/\b(\d{4})-(\d{2})-(\d{2})\b/)
+  const dotted = normalized.match(/\b(\d{1,2})\.(\d{1,2})\.(\d{4})\b/)
+  if (iso) {
+    year = Number(iso[1])
+    month = Number(iso[2]) - 1
+    day = Number(iso[3])
+  } else if (dotted) {
+    day = Number(dotted[1])
+    month = Number(dotted[2]) - 1
+    year = Number(dotted[3])
+  } else {
+    const tokens = normalized.replace(/\./g, ' ').split(/[\s,/]+/).filter(Boolean)
+    for (const token of tokens) {
+      if (/^\d{4}$/.test(token)) year ??= Number(token)
+      else if (/^\d{1,2}$/.test(token)) day ??= Number(token)
+      else month ??= monthFromToken(token)
+    }
+  }
+  if (year === undefined || month === undefined || month === null || day === undefined) return null
+  if (month < 0 || month > 11 || day < 1 || day > 31) return null
+
+  let hours = 0
+  let minutes = 0
+  const time = normalized.match(/\b(\d{1,2}):(\d{2})(?::\d{2})?\s*(a\.?\s*m\.?|p\.?\s*m\.?)?/)
+  if (time) {
+    hours = Number(time[1])
+    minutes = Number(time[2])
+    const meridiem = time[3]?.replace(/[\s.]/g, '')
+    if (meridiem === 'pm' && hours < 12) hours += 12
+    if (meridiem === 'am' && hours === 12) hours = 0
+  }
+
+  const ms = Date.UTC(year, month, day, hours, minutes)
+  return Number.isNaN(ms) ? null : plausibleTimestamp(Math.floor(ms / 1000))
+}
+
+// ---------------------------------------------------------------------------
+// Detección de lista y extracción
+// ---------------------------------------------------------------------------
+
+function pageTitle(htmlText: string): string | null {
+  const match = htmlText.match(/<title[^>]*>([\s\S]*?)<\/title>/i)
+  return match?.[1] ? decodeEntities(match[1]) : null
+}
+
+/**
+ * Detecta qué lista es la página a partir del `<title>`, en el idioma de la cuenta.
+ */
+export function detectRelationshipKindFromHtmlTitle(htmlText: string): InstagramRelationshipListKind | null {
+  const title = pageTitle(htmlText)
+  return title ? (TITLE_LOOKUP.get(normalizeTitle(title)) ?? null) : null
+}
+
+type ProfileLink = { username: string; href: string } | { rejected: HtmlRejectedCandidate }
+
+/**
+ * Interpreta un enlace a Instagram. Devuelve null si no apunta a instagram.com.
+ */
+function readProfileLink(href: string): ProfileLink | null {
+  const match = href.match(/^(?:https?:)?\/\/(?:www\.)?instagram\.com\/(?:_u\/)?([^/?#]*)/i)
+  if (!match) return null
+  let segment: string
   try {
-    if (typeof DOMParser !== 'undefined') {
-      const doc = new DOMParser().parseFromString(htmlText, 'text/html')
-      const anchors = Array.from(doc.querySelectorAll('a'))
-      for (const a of anchors) {
-        const href = a.getAttribute('href') ?? ''
-        const text = a.textContent ?? ''
-
-        const hrefMatch = href.match(/instagram\.com\/([a-zA-Z0-9._]{1,30})\/?/)
-        if (hrefMatch?.[1]) candidates.push(hrefMatch[1])
-
-        const textMatch = text.match(/@?([a-zA-Z0-9._]{1,30})/)
-        if (textMatch?.[1]) candidates.push(textMatch[1])
+    segment = decodeURIComponent(match[1] ?? '')
+  } catch {
+    // Escape mal formado (ej: `%zz`): no es un username, pero no debe tumbar el archivo entero.
+    return { rejected: { value: match[1] ?? href, reason: 'invalid_username' } }
+  }
+  if (!segment || isReservedPath(segment)) {
+    return { rejected: { value: href, reason: 'reserved_path' } }
+  }
+  if (!USERNAME_RE.test(segment)) return { rejected: { value: segment, reason: 'invalid_username' } }
+  return { username: segment, href }
+}
+
+/**
+ * Las tarjetas de la lista. El export actual usa bloques `uiBoxWhite`; exports viejos, tablas o listas.
+ */
+function findCards(root: HtmlElement): HtmlElement[] {
+  const all = Array.from(walk(root))
+  const boxes = all.filter((n) => hasClass(n, 'uiBoxWhite'))
+  if (boxes.length > 0) return boxes
+  const rows = all.filter((n) => n.tag === 'tr')
+  if (rows.length > 0) return rows
+  return all.filter((n) => n.tag === 'li')
+}
+
+function countRejected(rejected: HtmlRejectedCandidate[]): Map<HtmlRejectReason, number> {
+  const counts = new Map<HtmlRejectReason, number>()
+  for (const r of rejected) counts.set(r.reason, (counts.get(r.reason) ?? 0) + 1)
+  return counts
+}
+
+/**
+ * Parsea la página HTML de una lista del export: una entry por tarjeta (usuario, enlace y fecha).
+ */
+export function parseInstagramRelationshipHtml(htmlText: string, sourceFile: string | null = null): InstagramHtmlParseResult {
+  const warnings: Notice[] = []
+  const rejected: HtmlRejectedCandidate[] = []
+  const entries: InstagramRelationshipEntry[] = []
+  const seen = new Set<string>()
+  let unreadableDates = 0
+  let unreadableDateExample: string | null = null
+
+  const root = parseHtmlTree(htmlText)
+  const cards = findCards(root)
+  const cardSet = new Set(cards)
+
+  for (const card of cards) {
+    let username: string | null = null
+    let href: string | null = null
+    let rejectedLinks = 0
+
+    for (const node of walk(card)) {
+      if (node.tag !== 'a' || !node.attrs['href']) continue
+      const link = readProfileLink(node.attrs['href'])
+      if (!link) continue
+      if ('rejected' in link) {
+        rejected.push(link.rejected)
+        rejectedLinks++
+        continue
       }
+      username = link.username
+      href = link.href
+      break
     }
-  } catch {
-    // Silencioso: seguimos con el resultado por regex.
+
+    // Algunos exports ponen el usuario en un <h2> y el enlace como texto/URL aparte.
+    if (!username) {
+      const heading = Array.from(walk(card)).find((n) => /^h[1-6]$/.test(n.tag))
+      const text = heading ? cleanText(textOf(heading)).replace(/^@/, '') : ''
+      if (text && USERNAME_RE.test(text)) username = text
+      else if (text) rejected.push({ value: text, reason: 'invalid_username' })
+    }
+
+    if (!username) {
+      const text = cleanText(textOf(card))
+      // Las tarjetas vacías o cuyo enlace ya se descartó no cuentan dos veces.
+      if (text && rejectedLinks === 0) rejected.push({ value: text.slice(0, 60), reason: 'no_username' })
+      continue
+    }
+
+    const key = username.toLowerCase()
+    if (seen.has(key)) {
+      rejected.push({ value: username, reason: 'duplicate' })
+      continue
+    }
+    seen.add(key)
+
+    // La fecha es el último texto suelto de la tarjeta con algún número (ej: "Nov 14, 2023 10:13 pm").
+    const dateText = looseTexts(card)
+      .reverse()
+      .find((t) => /\d/.test(t) && t.length <= 60)
+    const timestamp = dateText ? parseExportDateText(dateText) : null
+    if (dateText && timestamp === null) {
+      unreadableDates++
+      unreadableDateExample ??= dateText
+    }
+
+    entries.push({ username, href, timestamp, sourceFile })
+  }
+
+  // Enlaces a perfiles fuera de las tarjetas (pie de página, encabezado...): se descartan.
+  for (const node of walk(root)) {
+    if (node.tag !== 'a' || !node.attrs['href']) continue
+    let inCard = false
+    for (let p = node.parent; p; p = p.parent) {
+      if (cardSet.has(p)) {
+        inCard = true
+        break
+      }
+    }
+    if (!inCard && readProfileLink(node.attrs['href'])) rejected.push({ value: node.attrs['href'], reason: 'outside_list' })
   }
 
-  // Filtrado final: quedarnos con lo que parece username válido.
-  const plausible = candidates.filter((raw) => /^[a-zA-Z0-9._]{1,30}$/.test(raw))
-  const usernames = uniqueSorted(plausible)
+  const kind = detectRelationshipKindFromHtmlTitle(htmlText) ?? 'unknown'
 
-  if (usernames.length === 0) {
-    warnings.push('No se pudieron extraer usernames desde el HTML. Si Instagram te deja elegir formato, prueba con JSON.')
+  if (cards.length === 0) {
+    warnings.push(notice('html_no_structure'))
+  } else if (entries.length === 0) {
+    warnings.push(notice('html_no_usernames'))
+  }
+  if (unreadableDates > 0) {
+    warnings.push(notice('html_unreadable_dates', { count: unreadableDates, example: unreadableDateExample ?? '' }))
   }
+  const rejectedCounts = countRejected(rejected)
+  for (const [reason, count] of rejectedCounts) warnings.push(notice(`html_rejected_${reason}`, { count }))
 
-  return { kind: 'unknown', usernames, warnings }
-}
+  const merged = mergeRelationshipEntries(entries)
+  const skipped: InstagramSectionStats['skipped'] = Object.fromEntries(rejectedCounts)
+  // Los duplicados por mayúsculas ya se descartaron arriba; aquí solo se juntan los que difieren en `@` o espacios.
+  const mergedAway = entries.length - merged.length
+  if (mergedAway > 0) skipped.duplicate = (skipped.duplicate ?? 0) + mergedAway
+  const stats = { seen: entries.length + rejected.length, skipped }
 
+  return {
+    sections: [{ kind, sourceKey: null, schema: 'html', entries: merged, stats }],
+    warnings,
+    rejected,
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Importación directa del ZIP de "Descargar tu información" (Meta / Instagram).
+ *
+ * Relación con otros archivos:
+ * - Usa `src/lib/zipArchive.ts` para listar y descomprimir entradas.
+ * - `src/lib/relationshipImport.ts` recibe los archivos extraídos y los pasa por el mismo pipeline que los
+ *   archivos sueltos; allí se decide si cada archivo es de seguidores, seguidos u otra lista.
+ *
+ * Memoria:
+ * - Los archivos reconocidos por nombre no se descomprimen aquí: `open()` los descomprime como stream
+ *   recién cuando el pipeline los lee, uno por uno.
+ *
+ * Por qué no usamos una ruta fija:
+ * - La ruta cambia entre versiones del export (`connections/followers_and_following/`,
+ *   `followers_and_following/`, carpetas por perfil en Accounts Center, etc.).
+ * - Por eso localizamos archivos por **nombre** (followers_1.json, following.html, close_friends.json, ...) y,
+ *   si el nombre no ayuda, por **contenido** (claves `relationships_*` en JSON o el `<title>` en HTML; lo decide
+ *   el parser de cada formato en `src/lib/exportParsers.ts`).
+ */
+
+import { relationshipExportSkipReason } from './exportParsers'
+import { guessRelationshipKindFromFileName } from './instagramExport'
+import { notice, NoticeError, type Notice } from './notices'
+import {
+  hasZipSignature,
+  isZipDirectory,
+  openZipEntryStream,
+  readZipEntries,
+  readZipEntryBytes,
+} from './zipArchive'
+
+export type ZipRelationshipFile = {
+  /** Ruta dentro del ZIP (útil para reportar al usuario). */
+  path: string
+  name: string
+  /** Tamaño descomprimido en bytes. */
+  size: number
+  /** Abre el contenido descomprimido como stream. */
+  open: () => Promise<ReadableStream<Uint8Array>>
+  detectedBy: 'name' | 'content'
+}
+
+export type ZipSkippedFile = {
+  path: string
+  reason: Notice
+}
+
+export type InstagramZipExtraction = {
+  files: ZipRelationshipFile[]
+  /** JSON/HTML que revisamos pero no usamos (con el motivo). */
+  skipped: ZipSkippedFile[]
+  /** Cantidad de entradas que ni siquiera revisamos (fotos, videos, carpetas...). */
+  ignoredCount: number
+}
+
+// Para detectar por contenido descomprimimos el archivo completo; evitamos hacerlo con archivos enormes
+// que casi seguro no son listas de seguidores (ej: mensajes, historial de búsqueda).
+const MAX_CONTENT_SNIFF_BYTES = 20 * 1024 * 1024
+
+function basename(path: string): string {
+  const parts = path.split('/')
+  return parts[parts.length - 1] ?? path
+}
+
+function isTextExport(name: string): boolean {
+  return /\.(json|html?)$/i.test(name)
+}
+
+/**
+ * Indica si el archivo subido es un ZIP (por extensión o por firma).
+ */
+export async function isZipUpload(file: File): Promise<boolean> {
+  if (file.name.toLowerCase().endsWith('.zip')) return true
+  return hasZipSignature(file)
+}
+
+/**
+ * Abre el ZIP del export y devuelve los archivos de relaciones que encontró
+ * (seguidores, seguidos y otras listas), más un reporte de lo que se saltó.
+ */
+export async function extractRelationshipFilesFromZip(zip: Blob): Promise<InstagramZipExtraction> {
+  const entries = await readZipEntries(zip)
+  const files: ZipRelationshipFile[] = []
+  const skipped: ZipSkippedFile[] = []
+  let ignoredCount = 0
+
+  for (const entry of entries) {
+    const name = basename(entry.path)
+
+    // macOS agrega `__MACOSX/._archivo` con metadatos binarios: nunca son datos del export.
+    if (isZipDirectory(entry) || entry.path.startsWith('__MACOSX/') || name.startsWith('._') || !isTextExport(name)) {
+      ignoredCount++
+      continue
+    }
+
+    const byName = guessRelationshipKindFromFileName(name) !== null
+    if (!byName && entry.uncompressedSize > MAX_CONTENT_SNIFF_BYTES) {
+      skipped.push({ path: entry.path, reason: notice('skip_too_large') })
+      continue
+    }
+
+    if (byName) {
+      files.push({
+        path: entry.path,
+        name,
+        size: entry.uncompressedSize,
+        open: () => openZipEntryStream(zip, entry),
+        detectedBy: 'name',
+      })
+      continue
+    }
+
+    let bytes: Uint8Array
+    try {
+      bytes = await readZipEntryBytes(zip, entry)
+    } catch (e) {
+      const reason = e instanceof NoticeError ? e.notice : notice('skip_unzip_failed', { error: e instanceof Error ? e.message : '' })
+      skipped.push({ path: entry.path, reason })
+      continue
+    }
+
+    const skipReason = relationshipExportSkipReason(name, new TextDecoder('utf-8').decode(bytes))
+    if (!skipReason) {
+      // Ya está descomprimido: reusamos los bytes en vez de descomprimir dos veces.
+      const blob = new Blob([bytes as BlobPart])
+      files.push({ path: entry.path, name, size: bytes.length, open: async () => blob.stream(), detectedBy: 'content' })
+      continue
+    }
+
+    skipped.push({ path: entry.path, reason: skipReason })
+  }
+
+  return { files, skipped, ignoredCount }
+}
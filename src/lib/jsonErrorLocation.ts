@@ -0,0 +1,122 @@
+/**
+ * Ubica el primer error de sintaxis de un JSON (línea y columna, desde 1) para mostrarlo al usuario.
+ *
+ * Relación con otros archivos:
+ * - Lo usa el parser JSON de `src/lib/exportParsers.ts`, solo después de que `JSON.parse` falló.
+ *
+ * Nota:
+ * - No usamos el mensaje de `JSON.parse`: cada navegador lo escribe distinto (Safari no da posición) y el de
+ *   Chrome incluye un trozo del archivo, que puede tener usuarios.
+ * - Es un recorrido mínimo de la gramática JSON; no arma ningún valor.
+ */
+
+export type JsonErrorLocation = {
+  line: number
+  column: number
+}
+
+const NUMBER_RE = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y
+const LITERAL_RE = /true|false|null/y
+const ESCAPES = '"\\/bfnrt'
+
+function toLocation(text: string, offset: number): JsonErrorLocation {
+  let line = 1
+  let lineStart = 0
+  for (let i = text.indexOf('\n'); i !== -1 && i < offset; i = text.indexOf('\n', i + 1)) {
+    line++
+    lineStart = i + 1
+  }
+  return { line, column: offset - lineStart + 1 }
+}
+
+/**
+ * Devuelve dónde deja de ser JSON válido el texto (un archivo cortado da el final del texto),
+ * o null si el texto es válido o demasiado anidado para recorrerlo.
+ */
+export function locateJsonError(text: string): JsonErrorLocation | null {
+  let i = 0
+
+  const skipWhitespace = () => {
+    while (i < text.length && ' \t\n\r'.includes(text.charAt(i))) i++
+  }
+
+  const matchAt = (re: RegExp) => {
+    re.lastIndex = i
+    const match = re.exec(text)
+    if (!match) return false
+    i += match[0].length
+    return true
+  }
+
+  // Cada función avanza `i`; si devuelve false, `i` queda en el carácter que rompió el JSON.
+  const string = (): boolean => {
+    i++
+    while (i < text.length) {
+      const c = text.charAt(i)
+      if (c === '"') {
+        i++
+        return true
+      }
+      if (c < ' ') return false
+      if (c === '\\') {
+        const next = text.charAt(i + 1)
+        if (next === 'u' && /^[0-9a-fA-F]{4}$/.test(text.slice(i + 2, i + 6))) i += 6
+        else if (next && next !== 'u' && ESCAPES.includes(next)) i += 2
+        else {
+          i++
+          return false
+        }
+        continue
+      }
+      i++
+    }
+    return false
+  }
+
+  const value = (): boolean => {
+    skipWhitespace()
+    const c = text.charAt(i)
+    if (c === '{') return container('}', true)
+    if (c === '[') return container(']', false)
+    if (c === '"') return string()
+    return matchAt(LITERAL_RE) || matchAt(NUMBER_RE)
+  }
+
+  const container = (close: string, keyed: boolean): boolean => {
+    i++
+    skipWhitespace()
+    if (text.charAt(i) === close) {
+      i++
+      return true
+    }
+    for (;;) {
+      if (keyed) {
+        skipWhitespace()
+        if (text.charAt(i) !== '"' || !string()) return false
+        skipWhitespace()
+        if (text.charAt(i) !== ':') return false
+        i++
+      }
+      if (!value()) return false
+      skipWhitespace()
+      const c = text.charAt(i)
+      if (c === close) {
+        i++
+        return true
+      }
+      if (c !== ',') return false
+      i++
+    }
+  }
+
+  try {
+    if (value()) {
+      skipWhitespace()
+      if (i >= text.length) return null
+    }
+  } catch (e) {
+    if (e instanceof RangeError) return null
+    throw e
+  }
+  return toLocation(text, Math.min(i, text.length))
+}
@@ -0,0 +1,159 @@
+/**
+ * Lista de cuentas a "mantener": cuentas que sigues a propósito aunque no te sigan (medios, marcas, artistas).
+ * Se ocultan por defecto de "No te siguen".
+ *
+ * Relación con otros archivos:
+ * - Usa `src/lib/localDb.ts` para la persistencia.
+ * - `src/components/useKeepList.ts` la carga y la expone a la UI (`KeepListPanel`, `RelationshipResults`).
+ *
+ * Nota de privacidad:
+ * - Solo se guardan usernames y la fecha en que se marcaron; se puede borrar toda la lista desde la interfaz.
+ */
+
+import { normalizeUsername } from './instagramExport'
+import { STORE_KEEP_LIST, withStore } from './localDb'
+import { notice, NoticeError } from './notices'
+
+export type KeptAccount = {
+  username: string
+  /** Fecha en que se marcó (ms desde epoch). */
+  addedAt: number
+}
+
+export type ParsedUsernameList = {
+  /** Usernames normalizados, sin repetidos, en el orden en que aparecieron. */
+  usernames: string[]
+  /** Textos que no parecen un username (para mostrárselos al usuario). */
+  invalid: string[]
+}
+
+// Identifica el archivo exportado por la app (para no confundirlo con otros JSON).
+const KEEP_LIST_FILE_FORMAT = 'escaner-ig-keep-list'
+const KEEP_LIST_FILE_VERSION = 1
+
+const USERNAME_RE = /^[a-z0-9._]{1,30}$/
+
+/**
+ * Un token pegado puede ser `@usuario`, `usuario` o el enlace al perfil (`https://www.instagram.com/usuario/`).
+ * También lo usa `src/lib/pastedList.ts`.
+ */
+export function usernameFromToken(token: string): string {
+  const url = token.match(/instagram\.com\/(?:_u\/)?([^/?#\s]+)/i)
+  return normalizeUsername(url?.[1] ?? token)
+}
+
+/** ¿Es un username válido de Instagram? (ya normalizado: minúsculas y sin `@`) */
+export function isValidUsername(username: string): boolean {
+  return USERNAME_RE.test(username)
+}
+
+/**
+ * Convierte texto pegado (uno por línea, o separados por comas, espacios o punto y coma) en usernames.
+ */
+export function parseUsernameList(text: string): ParsedUsernameList {
+  const seen = new Set<string>()
+  const usernames: string[] = []
+  const invalid: string[] = []
+
+  for (const token of text.split(/[\s,;]+/)) {
+    if (!token) continue
+    const username = usernameFromToken(token)
+    if (!isValidUsername(username)) {
+      invalid.push(token)
+      continue
+    }
+    if (seen.has(username)) continue
+    seen.add(username)
+    usernames.push(username)
+  }
+
+  return { usernames, invalid }
+}
+
+/**
+ * Lee un archivo de lista compartido: el JSON que genera `buildKeepListFile`, un array de usernames,
+ * o texto / CSV con un username por línea (la fila de encabezado `username,...` se ignora).
+ */
+export function parseKeepListFile(text: string): ParsedUsernameList {
+  const trimmed = text.trim()
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    let json: unknown
+    try {
+      json = JSON.parse(trimmed) as unknown
+    } catch {
+      throw new NoticeError(notice('keep_file_bad_json'))
+    }
+    const list = Array.isArray(json)
+      ? json
+      : typeof json === 'object' && json !== null && 'accounts' in json && Array.isArray(json.accounts)
+        ? json.accounts
+        : null
+    if (!list) throw new NoticeError(notice('keep_file_no_list'))
+    const names = list.map((item: unknown) =>
+      typeof item === 'string'
+        ? item
+        : typeof item === 'object' && item !== null && 'username' in item && typeof item.username === 'string'
+          ? item.username
+          : '',
+    )
+    return parseUsernameList(names.filter(Boolean).join('\n'))
+  }
+
+  // CSV (ej: el que descarga la app desde los resultados): solo la primera columna.
+  const lines = trimmed.split(/\r?\n/)
+  const isCsv = /^"?username"?\s*,/i.test(lines[0] ?? '')
+  const firstColumn = (isCsv ? lines.slice(1) : lines).map((line) => (isCsv ? (line.split(',')[0] ?? '') : line))
+  return parseUsernameList(firstColumn.join('\n').replace(/"/g, ''))
+}
+
+/**
+ * Genera el archivo para compartir la lista (JSON versionado).
+ */
+export function buildKeepListFile(accounts: KeptAccount[]): string {
+  const file = {
+    format: KEEP_LIST_FILE_FORMAT,
+    version: KEEP_LIST_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    accounts: accounts.map((a) => ({ username: a.username, addedAt: new Date(a.addedAt).toISOString() })),
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+/**
+ * Devuelve todas las cuentas marcadas, en orden alfabético.
+ */
+export async function listKeptAccounts(): Promise<KeptAccount[]> {
+  const all = await withStore(STORE_KEEP_LIST, 'readonly', (store) => store.getAll() as IDBRequest<KeptAccount[]>)
+  return all.sort((a, b) => a.username.localeCompare(b.username))
+}
+
+/**
+ * Marca usernames (ya normalizados) como "mantener". Los que ya estaban conservan su fecha.
+ * Devuelve cuántos eran nuevos.
+ */
+export async function addKeptAccounts(usernames: string[]): Promise<number> {
+  const existing = new Set((await listKeptAccounts()).map((a) => a.username))
+  const now = Date.now()
+  const fresh = [...new Set(usernames)].filter((u) => !existing.has(u))
+  if (fresh.length === 0) return 0
+
+  await withStore(STORE_KEEP_LIST, 'readwrite', (store) => {
+    let last: IDBRequest<IDBValidKey> | null = null
+    for (const username of fresh) last = store.put({ username, addedAt: now } satisfies KeptAccount)
+    return last as IDBRequest<IDBValidKey>
+  })
+  return fresh.length
+}
+
+export async function removeKeptAccounts(usernames: string[]): Promise<void> {
+  if (usernames.length === 0) return
+  await withStore(STORE_KEEP_LIST, 'readwrite', (store) => {
+    let last: IDBRequest<undefined> | null = null
+    for (const username of usernames) last = store.delete(username)
+    return last as IDBRequest<undefined>
+  })
+}
+
+export async function clearKeptAccounts(): Promise<void> {
+  await withStore(STORE_KEEP_LIST, 'readwrite', (store) => store.clear())
+}
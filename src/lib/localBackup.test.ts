@@ -0,0 +1,144 @@
+/**
+ * Copia de seguridad: ida y vuelta del cifrado, errores al abrir (frase, encabezado alterado, versión) y
+ * restaurar con 'merge' y con 'replace'.
+ *
+ * Relación con otros archivos:
+ * - Prueba `src/lib/localBackup.ts`; IndexedDB lo pone `fake-indexeddb` (en Node no existe).
+ *
+ * Nota:
+ * - Cada cifrado deriva la clave con las iteraciones reales de PBKDF2: la copia se arma una sola vez y los
+ *   casos de error parten de ella.
+ */
+
+import 'fake-indexeddb/auto'
+import { afterEach, beforeAll, describe, expect, it } from 'vitest'
+import {
+  decryptBackup,
+  encryptBackup,
+  readLocalData,
+  restoreLocalData,
+  wipeLocalData,
+  type LocalData,
+} from './localBackup'
+
+const PASSPHRASE = 'frase de prueba larga'
+
+const DATA: LocalData = {
+  snapshots: [
+    {
+      id: 'snap-1',
+      name: 'Enero',
+      createdAt: 1_736_000_000_000,
+      lists: {
+        followers: [{ username: 'ana.ejemplo', href: null, timestamp: 1_735_000_000, sourceFile: 'followers_1.json' }],
+        following: [
+          { username: 'tomas_demo', href: 'https://www.instagram.com/tomas_demo', timestamp: null, sourceFile: null },
+        ],
+      },
+    },
+  ],
+  keepList: [{ username: 'ana.ejemplo', addedAt: 1_736_000_000_000 }],
+  reviewDecisions: [{ username: 'tomas_demo', decision: 'skipped', decidedAt: 1_736_000_000_000 }],
+  locale: 'pt',
+}
+
+function noticeCode(code: string) {
+  return expect.objectContaining({ notice: expect.objectContaining({ code }) })
+}
+
+describe('cifrado de la copia', () => {
+  let backup: string
+  beforeAll(async () => {
+    backup = await encryptBackup(DATA, PASSPHRASE)
+  }, 30_000)
+
+  it('descifra lo mismo que se cifró', async () => {
+    expect(await decryptBackup(backup, PASSPHRASE)).toEqual(DATA)
+  }, 30_000)
+
+  it('con otra frase no abre', async () => {
+    await expect(decryptBackup(backup, 'otra frase cualquiera')).rejects.toEqual(noticeCode('backup_wrong_passphrase'))
+  }, 30_000)
+
+  it('un encabezado alterado no pasa la autenticación (AAD)', async () => {
+    const file = JSON.parse(backup) as Record<string, unknown>
+    const tampered = JSON.stringify({ ...file, createdAt: '2020-01-01T00:00:00.000Z' })
+    await expect(decryptBackup(tampered, PASSPHRASE)).rejects.toEqual(noticeCode('backup_wrong_passphrase'))
+  }, 30_000)
+
+  it('rechaza versiones más nuevas, archivos que no son copias y encabezados incompletos', async () => {
+    const file = JSON.parse(backup) as Record<string, unknown>
+    await expect(decryptBackup(JSON.stringify({ ...file, version: 99 }), PASSPHRASE)).rejects.toEqual(
+      noticeCode('backup_newer_version'),
+    )
+    await expect(decryptBackup('{"followers": []}', PASSPHRASE)).rejects.toEqual(noticeCode('backup_not_backup'))
+    await expect(decryptBackup('no es json', PASSPHRASE)).rejects.toEqual(noticeCode('backup_not_backup'))
+    await expect(decryptBackup(JSON.stringify({ ...file, kdf: null }), PASSPHRASE)).rejects.toEqual(
+      noticeCode('backup_corrupt'),
+    )
+  })
+
+  it('descarta listas y entries de snapshots mal formadas', async () => {
+    const malformed = {
+      ...DATA,
+      snapshots: [
+        {
+          ...DATA.snapshots[0],
+          lists: {
+            followers: [{ username: 'ana.ejemplo', href: null, timestamp: 1_735_000_000 }, { href: null }, 'x'],
+            following: 'no es una lista',
+          },
+        },
+        { id: 'snap-2', name: 'Sin listas', createdAt: 1, lists: [] },
+      ],
+    } as unknown as LocalData
+    const restored = await decryptBackup(await encryptBackup(malformed, PASSPHRASE), PASSPHRASE)
+    expect(restored.snapshots).toEqual([
+      {
+        ...DATA.snapshots[0],
+        lists: { followers: [{ username: 'ana.ejemplo', href: null, timestamp: 1_735_000_000, sourceFile: null }] },
+      },
+    ])
+  }, 30_000)
+})
+
+describe('restaurar', () => {
+  const CURRENT: LocalData = {
+    snapshots: [{ id: 'snap-local', name: 'Local', createdAt: 1_700_000_000_000, lists: {} }],
+    keepList: [
+      { username: 'ana.ejemplo', addedAt: 1_740_000_000_000 },
+      { username: 'zoe.local', addedAt: 1_740_000_000_000 },
+    ],
+    reviewDecisions: [{ username: 'tomas_demo', decision: 'unfollowed', decidedAt: 1_740_000_000_000 }],
+    locale: 'en',
+  }
+
+  afterEach(() => wipeLocalData())
+
+  it("'merge' suma la copia a lo que ya había", async () => {
+    await restoreLocalData(CURRENT, 'replace')
+    const stats = await restoreLocalData(DATA, 'merge')
+
+    // "mantener" nuevo por fecha más antigua; la decisión local es más reciente que la de la copia.
+    // (El idioma va en `localStorage`, que en Node no existe: no se compara.)
+    expect(stats).toMatchObject({ snapshots: 1, keepList: 1, reviewDecisions: 0 })
+    const local = await readLocalData()
+    expect(local.snapshots.map((s) => s.id)).toEqual(['snap-1', 'snap-local'])
+    expect(local.keepList).toEqual([
+      { username: 'ana.ejemplo', addedAt: 1_736_000_000_000 },
+      { username: 'zoe.local', addedAt: 1_740_000_000_000 },
+    ])
+    expect(local.reviewDecisions).toEqual(CURRENT.reviewDecisions)
+  })
+
+  it("'replace' deja exactamente lo de la copia", async () => {
+    await restoreLocalData(CURRENT, 'replace')
+    const stats = await restoreLocalData(DATA, 'replace')
+
+    expect(stats).toEqual({ snapshots: 1, keepList: 1, reviewDecisions: 1, locale: 'pt' })
+    const local = await readLocalData()
+    expect(local.snapshots).toEqual(DATA.snapshots)
+    expect(local.keepList).toEqual(DATA.keepList)
+    expect(local.reviewDecisions).toEqual(DATA.reviewDecisions)
+  })
+})
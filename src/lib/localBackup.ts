@@ -0,0 +1,323 @@
+/**
+ * Copia de seguridad de los datos locales (historial, lista "mantener", avance de la revisión e idioma) en un
+ * solo archivo cifrado con una frase del usuario, para pasarlos a otro dispositivo sin servidor. También el
+ * borrado total de esos datos.
+ *
+ * Relación con otros archivos:
+ * - Lee y escribe los stores de `src/lib/localDb.ts` (los mismos que `snapshotStore`, `keepList` y `reviewProgress`).
+ * - El idioma guardado es el de `src/lib/i18n.ts`.
+ * - La interfaz está en `src/components/BackupPanel.tsx`; la política de privacidad (`LegalPage`) enlaza a ella.
+ *
+ * Formato (JSON, versión `BACKUP_VERSION`):
+ * - Afuera, en claro: `format`, `version`, fecha y los parámetros del cifrado (sal, iteraciones, iv).
+ * - `data`: los datos en JSON, cifrados con AES-GCM. La clave sale de la frase con PBKDF2-SHA-256.
+ * - El encabezado va como dato autenticado: si alguien cambia la versión o la sal, descifrar falla.
+ *
+ * Al restaurar:
+ * - 'merge': suma lo de la copia a lo que ya hay. Snapshots por id (los que ya están no se tocan), "mantener"
+ *   por username (queda la fecha más antigua), decisiones de la revisión por username (gana la más reciente) y
+ *   el idioma del dispositivo, si ya había uno elegido.
+ * - 'replace': borra lo local y deja exactamente lo de la copia (en una sola transacción).
+ *
+ * Nota de privacidad:
+ * - Todo pasa en el navegador con Web Crypto; la frase no se guarda en ningún lado. Sin ella la copia no se
+ *   puede abrir (tampoco nosotros podríamos).
+ */
+
+import { clearSavedLocale, isLocale, loadSavedLocale, saveLocale, type Locale } from './i18n'
+import type { InstagramRelationshipEntry } from './instagramExport'
+import { listKeptAccounts, type KeptAccount } from './keepList'
+import { LOCAL_STORES, STORE_KEEP_LIST, STORE_REVIEW, STORE_SNAPSHOTS, withStores } from './localDb'
+import { notice, NoticeError } from './notices'
+import { listReviewDecisions, type ReviewDecision } from './reviewProgress'
+import { listSnapshots, type RelationshipLists, type RelationshipSnapshot } from './snapshotStore'
+
+export type LocalData = {
+  snapshots: RelationshipSnapshot[]
+  keepList: KeptAccount[]
+  reviewDecisions: ReviewDecision[]
+  locale: Locale | null
+}
+
+export type RestoreStrategy = 'merge' | 'replace'
+
+/** Cuántos registros de la copia se escribieron (en 'merge', solo los nuevos o actualizados). */
+export type RestoreStats = {
+  snapshots: number
+  keepList: number
+  reviewDecisions: number
+  /** Idioma que quedó guardado después de restaurar. */
+  locale: Locale | null
+}
+
+const BACKUP_FORMAT = 'escaner-ig-backup'
+const BACKUP_VERSION = 1
+
+// Recomendación actual para PBKDF2-SHA-256. Va en el archivo: subirla más adelante no rompe las copias viejas.
+const PBKDF2_ITERATIONS = 600_000
+// Tope al leer: un archivo alterado con un número enorme dejaría la pestaña colgada derivando la clave.
+const MAX_PBKDF2_ITERATIONS = 10_000_000
+
+/** Largo mínimo de la frase (la UI lo pide antes de cifrar). */
+export const MIN_PASSPHRASE_LENGTH = 8
+
+type BackupHeader = {
+  format: typeof BACKUP_FORMAT
+  version: number
+  createdAt: string
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string }
+  cipher: { name: 'AES-GCM'; iv: string }
+}
+
+type BackupFile = BackupHeader & { data: string }
+
+function toBase64(bytes: Uint8Array): string {
+  // Por partes: `String.fromCharCode(...bytes)` con varios MB desborda la pila.
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+    'deriveKey',
+  ])
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  )
+}
+
+// El encabezado (sin `data`) en un orden fijo: es el dato autenticado de AES-GCM.
+function headerBytes(header: BackupHeader): Uint8Array<ArrayBuffer> {
+  const { format, version, createdAt, kdf, cipher } = header
+  return new TextEncoder().encode(JSON.stringify({ format, version, createdAt, kdf, cipher }))
+}
+
+/**
+ * Lee todos los datos locales del dispositivo.
+ */
+export async function readLocalData(): Promise<LocalData> {
+  const [snapshots, keepList, reviewDecisions] = await Promise.all([
+    listSnapshots(),
+    listKeptAccounts(),
+    listReviewDecisions(),
+  ])
+  return { snapshots, keepList, reviewDecisions, locale: loadSavedLocale() }
+}
+
+/**
+ * Cifra los datos con la frase y devuelve el contenido del archivo de copia.
+ */
+export async function encryptBackup(data: LocalData, passphrase: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const header: BackupHeader = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+  }
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS)
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: headerBytes(header) },
+    key,
+    new TextEncoder().encode(JSON.stringify(data)),
+  )
+  const file: BackupFile = { ...header, data: toBase64(new Uint8Array(encrypted)) }
+  return JSON.stringify(file, null, 2)
+}
+
+function parseBackupFile(text: string): BackupFile {
+  let json: unknown
+  try {
+    json = JSON.parse(text) as unknown
+  } catch {
+    throw new NoticeError(notice('backup_not_backup'))
+  }
+  const file = json as Partial<BackupFile> | null
+  if (!file || typeof file !== 'object' || file.format !== BACKUP_FORMAT || typeof file.version !== 'number') {
+    throw new NoticeError(notice('backup_not_backup'))
+  }
+  if (file.version > BACKUP_VERSION) {
+    throw new NoticeError(notice('backup_newer_version', { version: file.version }))
+  }
+  if (
+    typeof file.createdAt !== 'string' ||
+    typeof file.data !== 'string' ||
+    file.kdf?.name !== 'PBKDF2' ||
+    typeof file.kdf.salt !== 'string' ||
+    typeof file.kdf.iterations !== 'number' ||
+    !(file.kdf.iterations >= 1 && file.kdf.iterations <= MAX_PBKDF2_ITERATIONS) ||
+    file.cipher?.name !== 'AES-GCM' ||
+    typeof file.cipher.iv !== 'string'
+  ) {
+    throw new NoticeError(notice('backup_corrupt'))
+  }
+  return file as BackupFile
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+// `sourceFile` no es obligatorio: si falta o no es texto, queda en null.
+function isEntry(value: unknown): value is Omit<InstagramRelationshipEntry, 'sourceFile'> & { sourceFile?: unknown } {
+  return (
+    isRecord(value) &&
+    typeof value.username === 'string' &&
+    value.username !== '' &&
+    (value.href === null || typeof value.href === 'string') &&
+    (value.timestamp === null || (typeof value.timestamp === 'number' && Number.isFinite(value.timestamp)))
+  )
+}
+
+// Listas de un snapshot: las que no son arrays se descartan, y dentro de cada una, las entries mal formadas.
+function readSnapshotLists(value: Record<string, unknown>): RelationshipLists {
+  const lists: Record<string, InstagramRelationshipEntry[]> = {}
+  for (const [kind, entries] of Object.entries(value)) {
+    if (!Array.isArray(entries)) continue
+    lists[kind] = entries.filter(isEntry).map((e) => ({
+      username: e.username,
+      href: e.href,
+      timestamp: e.timestamp,
+      sourceFile: typeof e.sourceFile === 'string' ? e.sourceFile : null,
+    }))
+  }
+  return lists as RelationshipLists
+}
+
+/**
+ * Valida los datos descifrados. Los registros que no tienen la forma esperada se descartan (no rompen la carga).
+ * Cuando haya una versión 2 del formato, aquí se convierte lo de la versión 1.
+ */
+function readPayload(value: unknown): LocalData {
+  if (!isRecord(value)) throw new NoticeError(notice('backup_corrupt'))
+  const list = (key: string) => (Array.isArray(value[key]) ? (value[key] as unknown[]) : [])
+
+  const snapshots = list('snapshots').flatMap((s): RelationshipSnapshot[] =>
+    isRecord(s) &&
+    typeof s.id === 'string' &&
+    typeof s.name === 'string' &&
+    typeof s.createdAt === 'number' &&
+    isRecord(s.lists) &&
+    !Array.isArray(s.lists)
+      ? [{ id: s.id, name: s.name, createdAt: s.createdAt, lists: readSnapshotLists(s.lists) }]
+      : [],
+  )
+  const keepList = list('keepList').filter(
+    (k): k is KeptAccount => isRecord(k) && typeof k.username === 'string' && typeof k.addedAt === 'number',
+  )
+  const reviewDecisions = list('reviewDecisions').filter(
+    (r): r is ReviewDecision =>
+      isRecord(r) &&
+      typeof r.username === 'string' &&
+      (r.decision === 'unfollowed' || r.decision === 'skipped') &&
+      typeof r.decidedAt === 'number',
+  )
+  const locale = typeof value.locale === 'string' && isLocale(value.locale) ? value.locale : null
+  return { snapshots, keepList, reviewDecisions, locale }
+}
+
+/**
+ * Abre un archivo de copia con la frase. Errores (traducibles): no es una copia, versión más nueva que la app,
+ * frase incorrecta o archivo dañado.
+ */
+export async function decryptBackup(text: string, passphrase: string): Promise<LocalData> {
+  const file = parseBackupFile(text)
+  let plain: ArrayBuffer
+  try {
+    const key = await deriveKey(passphrase, fromBase64(file.kdf.salt), file.kdf.iterations)
+    plain = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(file.cipher.iv), additionalData: headerBytes(file) },
+      key,
+      fromBase64(file.data),
+    )
+  } catch {
+    // AES-GCM no distingue: frase equivocada y archivo modificado fallan igual.
+    throw new NoticeError(notice('backup_wrong_passphrase'))
+  }
+  try {
+    return readPayload(JSON.parse(new TextDecoder().decode(plain)) as unknown)
+  } catch (e) {
+    if (e instanceof NoticeError) throw e
+    throw new NoticeError(notice('backup_corrupt'))
+  }
+}
+
+/**
+ * Une la copia con los datos actuales (estrategia 'merge'). Devuelve solo lo que hay que escribir.
+ */
+export function mergeLocalData(current: LocalData, incoming: LocalData): LocalData {
+  const snapshotIds = new Set(current.snapshots.map((s) => s.id))
+  const snapshots = incoming.snapshots.filter((s) => !snapshotIds.has(s.id))
+
+  const kept = new Map(current.keepList.map((k) => [k.username, k]))
+  const keepList = incoming.keepList.filter((k) => {
+    const existing = kept.get(k.username)
+    return !existing || k.addedAt < existing.addedAt
+  })
+
+  const decisions = new Map(current.reviewDecisions.map((r) => [r.username, r]))
+  const reviewDecisions = incoming.reviewDecisions.filter((r) => {
+    const existing = decisions.get(r.username)
+    return !existing || r.decidedAt > existing.decidedAt
+  })
+
+  return { snapshots, keepList, reviewDecisions, locale: current.locale ?? incoming.locale }
+}
+
+/**
+ * Escribe una copia ya descifrada en el dispositivo, según la estrategia.
+ */
+export async function restoreLocalData(incoming: LocalData, strategy: RestoreStrategy): Promise<RestoreStats> {
+  const changes = strategy === 'merge' ? mergeLocalData(await readLocalData(), incoming) : incoming
+
+  await withStores(LOCAL_STORES, 'readwrite', (tx) => {
+    const snapshots = tx.objectStore(STORE_SNAPSHOTS)
+    const keepList = tx.objectStore(STORE_KEEP_LIST)
+    const review = tx.objectStore(STORE_REVIEW)
+    if (strategy === 'replace') {
+      snapshots.clear()
+      keepList.clear()
+      review.clear()
+    }
+    for (const s of changes.snapshots) snapshots.put(s)
+    for (const k of changes.keepList) keepList.put(k)
+    for (const r of changes.reviewDecisions) review.put(r)
+  })
+
+  if (changes.locale) saveLocale(changes.locale)
+  else clearSavedLocale()
+
+  return {
+    snapshots: changes.snapshots.length,
+    keepList: changes.keepList.length,
+    reviewDecisions: changes.reviewDecisions.length,
+    locale: changes.locale,
+  }
+}
+
+/**
+ * Borra todos los datos que la app guardó en este dispositivo (IndexedDB y el idioma elegido).
+ * Los archivos cargados solo viven en memoria: la UI recarga la página para soltarlos también.
+ */
+export async function wipeLocalData(): Promise<void> {
+  await withStores(LOCAL_STORES, 'readwrite', (tx) => {
+    for (const name of LOCAL_STORES) tx.objectStore(name).clear()
+  })
+  clearSavedLocale()
+}
@@ -0,0 +1,93 @@
+/**
+ * Acceso mínimo a IndexedDB (sin dependencias) para los datos que el usuario decide guardar en su dispositivo.
+ *
+ * Relación con otros archivos:
+ * - `src/lib/snapshotStore.ts` guarda aquí el historial de snapshots.
+ * - `src/lib/keepList.ts` guarda aquí las cuentas marcadas como "mantener".
+ * - `src/lib/reviewProgress.ts` guarda aquí el avance de la revisión guiada.
+ * - `src/lib/localBackup.ts` lee y escribe todos los stores juntos (copia de seguridad y "borrar todo").
+ *
+ * Nota de privacidad:
+ * - IndexedDB vive en el navegador del usuario; nada sale del dispositivo.
+ * - Todo lo que se guarda aquí debe poder borrarse desde la interfaz (ver `LegalPage`).
+ */
+
+import { notice, NoticeError } from './notices'
+
+const DB_NAME = 'escaner-ig'
+const DB_VERSION = 3
+
+export const STORE_SNAPSHOTS = 'snapshots'
+export const STORE_KEEP_LIST = 'keepList'
+export const STORE_REVIEW = 'reviewDecisions'
+
+/** Todos los stores con datos del usuario (los que cubren la copia de seguridad y el borrado total). */
+export const LOCAL_STORES = [STORE_SNAPSHOTS, STORE_KEEP_LIST, STORE_REVIEW]
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openLocalDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new NoticeError(notice('local_db_unavailable')))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      // Cada versión nueva de la DB agrega sus stores aquí (sin borrar los anteriores).
+      const db = request.result
+      if (!db.objectStoreNames.contains(STORE_SNAPSHOTS)) db.createObjectStore(STORE_SNAPSHOTS, { keyPath: 'id' })
+      // v2: lista de cuentas a mantener.
+      if (!db.objectStoreNames.contains(STORE_KEEP_LIST)) db.createObjectStore(STORE_KEEP_LIST, { keyPath: 'username' })
+      // v3: avance de la revisión guiada.
+      if (!db.objectStoreNames.contains(STORE_REVIEW)) db.createObjectStore(STORE_REVIEW, { keyPath: 'username' })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error ?? new NoticeError(notice('local_db_open_failed')))
+    }
+  })
+
+  return dbPromise
+}
+
+/**
+ * Ejecuta `fn` dentro de una transacción sobre `storeName` y resuelve cuando la transacción termina.
+ */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openLocalDb()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode)
+    const request = fn(tx.objectStore(storeName))
+    tx.oncomplete = () => resolve(request.result)
+    tx.onerror = () => reject(tx.error ?? new NoticeError(notice('local_db_failed')))
+    tx.onabort = () => reject(tx.error ?? new NoticeError(notice('local_db_aborted')))
+  })
+}
+
+/**
+ * Como `withStore`, pero con una sola transacción sobre varios stores: o se aplican todos los cambios o ninguno
+ * (ej: restaurar una copia con "reemplazar" no deja la mitad de los datos borrados si algo falla).
+ */
+export async function withStores(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => void,
+): Promise<void> {
+  const db = await openLocalDb()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeNames, mode)
+    fn(tx)
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error ?? new NoticeError(notice('local_db_failed')))
+    tx.onabort = () => reject(tx.error ?? new NoticeError(notice('local_db_aborted')))
+  })
+}
@@ -0,0 +1,110 @@
+/**
+ * Avisos estructurados: los parsers y el pipeline no devuelven textos, sino un código con parámetros
+ * que la interfaz traduce al idioma elegido.
+ *
+ * Relación con otros archivos:
+ * - Los generan `src/lib/instagramExport.ts`, `src/lib/instagramExportHtml.ts`, `src/lib/exportParsers.ts`,
+ *   `src/lib/relationshipImport.ts`, `src/lib/instagramExportZip.ts`, `src/lib/zipArchive.ts`,
+ *   `src/lib/exportComparison.ts`, `src/lib/keepList.ts`, `src/lib/localBackup.ts`, `src/lib/localDb.ts`,
+ *   `src/lib/backgroundImport.ts`, `src/lib/streamText.ts` y `src/lib/pwa.ts`.
+ * - Los textos de cada código están en `src/locales/*.ts` (clave `notice.<código>`); `useI18n().notice` los traduce.
+ *
+ * Nota:
+ * - Un parámetro llamado `kind` o terminado en `Kind` con el id de una lista (`followers`, ...) se muestra
+ *   con el nombre traducido de la lista.
+ */
+
+export type NoticeCode =
+  // JSON
+  | 'json_nonstandard_key'
+  | 'json_list_no_usernames'
+  | 'json_list_unrecognized_entries'
+  | 'json_array_no_usernames'
+  | 'json_array_unrecognized_entries'
+  | 'json_unknown_format'
+  | 'json_invalid'
+  | 'json_invalid_at'
+  // HTML
+  | 'html_no_structure'
+  | 'html_no_usernames'
+  | 'html_unreadable_dates'
+  | 'html_rejected_outside_list'
+  | 'html_rejected_reserved_path'
+  | 'html_rejected_invalid_username'
+  | 'html_rejected_no_username'
+  | 'html_rejected_duplicate'
+  // Clasificación
+  | 'name_content_mismatch'
+  | 'name_title_mismatch'
+  // Archivos saltados
+  | 'skip_too_large'
+  | 'skip_read_failed'
+  | 'skip_invalid_json'
+  | 'skip_invalid_json_at'
+  | 'skip_not_relationship_json'
+  | 'skip_not_relationship_html'
+  | 'skip_unzip_failed'
+  | 'skip_zip_failed'
+  // ZIP ilegible
+  | 'zip_not_a_zip'
+  | 'zip64_incomplete'
+  | 'zip64_corrupt'
+  | 'zip_corrupt'
+  | 'zip_entry_encrypted'
+  | 'zip_entry_bad_header'
+  | 'zip_unsupported_browser'
+  | 'zip_unsupported_method'
+  // Checklist
+  | 'checklist_followers_loaded'
+  | 'checklist_followers_missing'
+  | 'checklist_following_loaded'
+  | 'checklist_following_missing'
+  | 'checklist_missing_part'
+  | 'checklist_unclassified'
+  // Comparación de exports
+  | 'compare_different_owners'
+  | 'compare_low_overlap'
+  | 'compare_reversed'
+  // Archivo de la lista "mantener"
+  | 'keep_file_bad_json'
+  | 'keep_file_no_list'
+  // Copia de seguridad
+  | 'backup_not_backup'
+  | 'backup_newer_version'
+  | 'backup_wrong_passphrase'
+  | 'backup_corrupt'
+  // Datos locales (IndexedDB)
+  | 'local_db_unavailable'
+  | 'local_db_open_failed'
+  | 'local_db_failed'
+  | 'local_db_aborted'
+  // Importación en segundo plano
+  | 'import_cancelled'
+  | 'import_worker_failed'
+  | 'import_unknown_error'
+  // Archivos abiertos con la app instalada
+  | 'launch_files_unreadable'
+
+export type NoticeParams = Record<string, string | number>
+
+export type Notice = {
+  code: NoticeCode
+  params?: NoticeParams
+}
+
+export function notice(code: NoticeCode, params?: NoticeParams): Notice {
+  return params ? { code, params } : { code }
+}
+
+/**
+ * Error con un aviso traducible (para errores que se muestran tal cual al usuario).
+ */
+export class NoticeError extends Error {
+  readonly notice: Notice
+
+  constructor(value: Notice) {
+    super(value.code)
+    this.name = 'NoticeError'
+    this.notice = value
+  }
+}
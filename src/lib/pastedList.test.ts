@@ -0,0 +1,120 @@
+/**
+ * Listas pegadas: lectura de CSV (comillas, encabezado, columna), modo propuesto y texto copiado de instagram.com
+ * en los tres idiomas.
+ *
+ * Relación con otros archivos:
+ * - Prueba `src/lib/pastedList.ts` por su API pública (`describeCsv`, `guessPastedListMode`, `parsePastedList`).
+ */
+
+import { describe, expect, it } from 'vitest'
+import { describeCsv, guessPastedListMode, parsePastedList } from './pastedList'
+
+describe('CSV', () => {
+  it('respeta comillas, comillas escapadas y saltos de línea dentro de una celda', () => {
+    const text = [
+      'username,nota',
+      'ana.ejemplo,"dijo ""hola""\nen dos líneas"',
+      '"tomas_demo","a, b"',
+      'Juan Pérez,sin usuario',
+    ].join('\n')
+    expect(describeCsv(text)).toEqual({
+      delimiter: ',',
+      columns: ['username', 'nota'],
+      hasHeader: true,
+      usernameColumn: 0,
+    })
+    expect(parsePastedList(text, 'csv')).toEqual({
+      usernames: ['ana.ejemplo', 'tomas_demo'],
+      // La fila mal escrita empieza en la línea 5: la celda con salto de línea ocupa la 2 y la 3.
+      rejected: [{ line: 5, text: 'Juan Pérez,sin usuario' }],
+      duplicates: 0,
+      ignored: 1,
+    })
+  })
+
+  it('reconoce el encabezado por nombre de columna, aunque no sea la primera', () => {
+    const layout = describeCsv('Nombre;Perfil\nAna;https://www.instagram.com/ana.ejemplo/\nTomás;@tomas_demo')
+    expect(layout).toEqual({ delimiter: ';', columns: ['Nombre', 'Perfil'], hasHeader: true, usernameColumn: 1 })
+  })
+
+  it('reconoce el encabezado cuando la primera fila no tiene usernames y las siguientes sí', () => {
+    const layout = describeCsv('Seguidor desde\tCuenta\n2024-01-01\tana.ejemplo\n2024-02-01\ttomas_demo')
+    expect(layout).toMatchObject({ delimiter: '\t', hasHeader: true, usernameColumn: 1 })
+  })
+
+  it('sin encabezado, elige la columna con más usernames', () => {
+    const text = 'Ana Ejemplo,ana.ejemplo,2024\nTomás Demo,tomas_demo,2023'
+    expect(describeCsv(text)).toEqual({ delimiter: ',', columns: ['', '', ''], hasHeader: false, usernameColumn: 1 })
+    expect(parsePastedList(text, 'csv').usernames).toEqual(['ana.ejemplo', 'tomas_demo'])
+  })
+
+  it('usa la columna y el encabezado que elige el usuario', () => {
+    const list = parsePastedList('a|@uno\nb|@dos', 'csv', { delimiter: '|', hasHeader: true, column: 1 })
+    expect(list).toMatchObject({ usernames: ['dos'], ignored: 1, rejected: [] })
+  })
+})
+
+describe('una cuenta por línea', () => {
+  it('lee @usuario, usuario y enlaces; cuenta repetidos', () => {
+    const text = '@Ana.Ejemplo\nhttps://www.instagram.com/tomas_demo/\nana.ejemplo, otra_cuenta\n'
+    const list = parsePastedList(text, 'lines')
+    expect(list).toEqual({
+      usernames: ['ana.ejemplo', 'tomas_demo', 'otra_cuenta'],
+      rejected: [],
+      duplicates: 1,
+      ignored: 0,
+    })
+  })
+
+  it('rechaza la línea entera si una parte no es un username ("Juan Pérez" no suma a @juan)', () => {
+    const list = parsePastedList('ana.ejemplo\nJuan Pérez\nhttps://www.instagram.com/explore/tags/viajes/', 'lines')
+    expect(list.usernames).toEqual(['ana.ejemplo'])
+    expect(list.rejected).toEqual([
+      { line: 2, text: 'Juan Pérez' },
+      { line: 3, text: 'https://www.instagram.com/explore/tags/viajes/' },
+    ])
+  })
+})
+
+describe('texto copiado de instagram.com', () => {
+  // Por cada cuenta: alt de la foto, username, nombre y botón.
+  const copy = (picture: (username: string) => string, remove: string, follow: string) =>
+    [picture('ana.ejemplo'), 'ana.ejemplo', 'Ana Ejemplo', remove, picture('tomas_demo'), 'tomas_demo', 'Juan', follow]
+  const copies = {
+    en: copy((u) => `${u}'s profile picture`, 'Remove', 'Follow'),
+    es: copy((u) => `Foto del perfil de ${u}`, 'Eliminar', 'Seguir'),
+    pt: copy((u) => `Foto do perfil de ${u}`, 'Remover', 'Seguir'),
+  }
+
+  it.each(Object.entries(copies))('%s: toma las cuentas de la foto e ignora nombres y botones', (_, lines) => {
+    const text = lines.join('\n')
+    expect(guessPastedListMode(text)).toBe('text')
+    expect(parsePastedList(text, 'text')).toEqual({
+      usernames: ['ana.ejemplo', 'tomas_demo'],
+      rejected: [],
+      duplicates: 0,
+      // Las líneas con el username repiten la cuenta; "Juan" parece un username pero es un nombre.
+      ignored: 6,
+    })
+  })
+
+  it('en texto libre toma menciones y enlaces, no otras palabras', () => {
+    const text = [
+      'Seguí a @ana.ejemplo ayer (correo: x@mail.com)',
+      'Mirá https://instagram.com/tomas_demo y www.instagram.com/p/abc',
+    ].join('\n')
+    const list = parsePastedList(text, 'text')
+    expect(list).toMatchObject({ usernames: ['ana.ejemplo', 'tomas_demo'], rejected: [] })
+  })
+})
+
+describe('modo propuesto', () => {
+  it.each([
+    ['una cuenta por línea', 'ana.ejemplo\n@tomas_demo\n', 'lines'],
+    ['menciones en una lista', '@ana.ejemplo @tomas_demo', 'lines'],
+    ['CSV con columnas parejas', 'username,fecha\nana.ejemplo,2024\ntomas_demo,2023', 'csv'],
+    ['menciones dentro de una frase', 'Seguí a @ana.ejemplo ayer', 'text'],
+  ] as const)('%s', (_, text, mode) => {
+    expect(guessPastedListMode(text)).toBe(mode)
+  })
+})
@@ -0,0 +1,419 @@
+/**
+ * Listas pegadas o importadas de otro lado, como alternativa al export oficial: una columna de una planilla,
+ * el CSV de otra herramienta o el texto copiado de la lista de seguidores en la web de Instagram.
+ * El usuario elige si la lista son sus seguidores o sus seguidos.
+ *
+ * Relación con otros archivos:
+ * - Lo usa `src/components/PastedListPanel.tsx` (zona de carga de `src/App.tsx`).
+ * - Cada username se lee con `usernameFromToken` / `isValidUsername` (`src/lib/keepList.ts`): mismas reglas
+ *   que al pegar en la lista "mantener" (`@usuario`, `usuario` o el enlace al perfil, normalizado).
+ * - `buildPastedListFile` la convierte en un `ImportedRelationshipFile` (`src/lib/relationshipImport.ts`):
+ *   desde ahí se trata como cualquier archivo cargado (checklist, diagnóstico, resultados).
+ *
+ * Modos:
+ * - lines: un username por línea (o varios separados por comas, espacios o punto y coma).
+ * - csv: una columna elegida de un CSV (coma, punto y coma, tabulación o barra; con o sin encabezado).
+ * - text: texto libre; se toman las menciones (`@usuario`) y los enlaces a perfiles. Si es la lista copiada
+ *   de instagram.com ("usuario's profile picture", nombre, botones), se leen las cuentas de esas líneas.
+ *
+ * Nota:
+ * - Es puro: no lee archivos ni toca la UI.
+ * - Las listas pegadas no traen fechas: quedan fuera de los gráficos por fecha y del orden por antigüedad.
+ */
+
+import { isReservedPath, mergeRelationshipEntries } from './instagramExport'
+import { isValidUsername, usernameFromToken } from './keepList'
+import type { ImportedRelationshipFile } from './relationshipImport'
+
+export type PastedListMode = 'lines' | 'csv' | 'text'
+
+export const PASTED_LIST_MODES: PastedListMode[] = ['lines', 'csv', 'text']
+
+/** Del lado de la comparación que puede ocupar una lista pegada. */
+export type PastedListKind = 'followers' | 'following'
+
+export type PastedListLine = {
+  /** Número de línea en el texto pegado (desde 1). */
+  line: number
+  text: string
+}
+
+export type ParsedPastedList = {
+  /** Usernames normalizados, sin repetidos, en el orden en que aparecieron. */
+  usernames: string[]
+  /** Líneas (o filas del CSV) de las que no salió un username válido: se muestran para corregirlas. */
+  rejected: PastedListLine[]
+  /** Usernames que ya habían aparecido antes en la lista. */
+  duplicates: number
+  /** Líneas que se saltan a propósito (encabezado del CSV; nombres y botones copiados de instagram.com). */
+  ignored: number
+}
+
+export type CsvLayout = {
+  delimiter: string
+  /** Un nombre por columna: el del encabezado, o '' si no hay encabezado. */
+  columns: string[]
+  hasHeader: boolean
+  /** Columna que parece tener los usernames. */
+  usernameColumn: number
+}
+
+export type CsvOptions = Pick<CsvLayout, 'delimiter' | 'hasHeader'> & {
+  column: number
+}
+
+type CsvRow = {
+  line: number
+  cells: string[]
+  text: string
+}
+
+const CSV_DELIMITERS = [',', ';', '\t', '|']
+// Filas que se miran para adivinar el formato (un CSV de 50.000 filas no necesita leerse entero para eso).
+const SAMPLE_ROWS = 50
+
+const USERNAME_HEADERS = [
+  'username',
+  'user ?name',
+  'user',
+  'usuario',
+  'nombre de usuario',
+  'usu[aá]rio',
+  'nome de usu[aá]rio',
+  'handle',
+  'instagram',
+  'ig',
+  'account',
+  'cuenta',
+  'conta',
+  'profile',
+  'perfil',
+  'url',
+  'link',
+  'enlace',
+]
+const USERNAME_HEADER_RE = new RegExp(`^(${USERNAME_HEADERS.join('|')})$`, 'i')
+
+// Texto alternativo de la foto en instagram.com: "usuario's profile picture" (inglés),
+// "Foto del perfil de usuario" (español), "Foto do perfil de usuario" (portugués).
+const PROFILE_PICTURE_RES = [/^(\S+?)['’]s profile picture$/i, /^foto d[eo]l? perfil de (\S+)$/i]
+
+const MENTION_RE = /(?:^|[^\w.@])@([a-z0-9._]{1,30})(?![\w.])/gi
+const PROFILE_URL_RE = /(?:https?:\/\/)?(?:www\.)?instagram\.com\/(?:_u\/)?[^/?#\s]+/gi
+
+// Botones y rótulos que vienen pegados al copiar una lista desde instagram.com (en minúsculas).
+const INSTAGRAM_UI_LINES = new Set([
+  '·',
+  'follow',
+  'following',
+  'follow back',
+  'followers',
+  'remove',
+  'message',
+  'verified',
+  'search',
+  'seguir',
+  'siguiendo',
+  'seguir también',
+  'seguidores',
+  'seguidos',
+  'eliminar',
+  'mensaje',
+  'verificado',
+  'buscar',
+  'seguindo',
+  'seguir de volta',
+  'remover',
+  'mensagem',
+  'pesquisar',
+])
+
+function splitLines(text: string): string[] {
+  return text.split(/\r\n|\r|\n/)
+}
+
+/**
+ * Username de un token (`@usuario`, `usuario` o enlace al perfil), o '' si el enlace no es a un perfil.
+ */
+function readToken(token: string): string {
+  const url = token.match(/instagram\.com\/(?:_u\/)?([^/?#\s]+)/i)
+  if (url?.[1] && isReservedPath(url[1])) return ''
+  return usernameFromToken(token)
+}
+
+function profilePictureUsername(line: string): string | null {
+  for (const re of PROFILE_PICTURE_RES) {
+    const match = line.match(re)
+    if (match?.[1]) return match[1]
+  }
+  return null
+}
+
+function createCollector() {
+  const seen = new Set<string>()
+  const list: ParsedPastedList = { usernames: [], rejected: [], duplicates: 0, ignored: 0 }
+  return {
+    list,
+    add(username: string) {
+      if (seen.has(username)) {
+        list.duplicates++
+        return
+      }
+      seen.add(username)
+      list.usernames.push(username)
+    },
+    reject(line: number, text: string) {
+      list.rejected.push({ line, text })
+    },
+  }
+}
+
+/**
+ * Separa un CSV en filas y celdas (respeta comillas, comillas dobles escapadas y saltos de línea dentro de una
+ * celda). Las filas vacías no se devuelven; `line` es la línea donde empieza cada fila.
+ */
+function parseCsvRows(text: string, delimiter: string): CsvRow[] {
+  const rows: CsvRow[] = []
+  let cells: string[] = []
+  let cell = ''
+  let quoted = false
+  let line = 1
+  let rowLine = 1
+  let rowStart = 0
+
+  const endRow = (end: number) => {
+    cells.push(cell)
+    const raw = text.slice(rowStart, end)
+    if (raw.trim()) rows.push({ line: rowLine, cells, text: raw })
+    cells = []
+    cell = ''
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        if (ch === '\n') line++
+        cell += ch
+      }
+    } else if (ch === '"' && cell.trim() === '') {
+      quoted = true
+      cell = ''
+    } else if (ch === delimiter) {
+      cells.push(cell)
+      cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      endRow(i)
+      if (ch === '\r' && text[i + 1] === '\n') i++
+      line++
+      rowLine = line
+      rowStart = i + 1
+    } else {
+      cell += ch
+    }
+  }
+  endRow(text.length)
+  return rows
+}
+
+/**
+ * El separador que más aparece en la primera línea con contenido (coma si no hay ninguno: una sola columna).
+ */
+function detectDelimiter(text: string): string {
+  const first = splitLines(text).find((l) => l.trim()) ?? ''
+  let best = ','
+  let bestCount = 0
+  for (const delimiter of CSV_DELIMITERS) {
+    const count = first.split(delimiter).length - 1
+    if (count > bestCount) {
+      best = delimiter
+      bestCount = count
+    }
+  }
+  return best
+}
+
+function isUsernameCell(cell: string | undefined): boolean {
+  const value = cell?.trim() ?? ''
+  return value !== '' && isValidUsername(readToken(value))
+}
+
+/**
+ * Adivina separador, encabezado y columna de usernames de un CSV (el usuario puede corregirlos).
+ * - Hay encabezado si una celda de la primera fila nombra la columna ("username", "usuario", "perfil", ...)
+ *   o si la primera fila no tiene ningún username y las siguientes sí.
+ * - La columna es la del encabezado reconocido; si no, la que tiene más usernames válidos.
+ */
+export function describeCsv(text: string): CsvLayout {
+  const delimiter = detectDelimiter(text)
+  const rows = parseCsvRows(text, delimiter).slice(0, SAMPLE_ROWS)
+  const width = Math.max(1, ...rows.map((r) => r.cells.length))
+  const first = rows[0]?.cells ?? []
+  const headerColumn = first.findIndex((c) => USERNAME_HEADER_RE.test(c.trim()))
+  const rest = rows.slice(1)
+  const namesBelow = rest.some((r) => r.cells.some(isUsernameCell))
+  const hasHeader = headerColumn >= 0 || (rest.length > 0 && !first.some(isUsernameCell) && namesBelow)
+
+  let usernameColumn = Math.max(0, headerColumn)
+  if (headerColumn < 0) {
+    const dataRows = hasHeader ? rest : rows
+    let bestCount = 0
+    for (let column = 0; column < width; column++) {
+      const count = dataRows.filter((r) => isUsernameCell(r.cells[column])).length
+      if (count > bestCount) {
+        usernameColumn = column
+        bestCount = count
+      }
+    }
+  }
+
+  const columns = Array.from({ length: width }, (_, i) => (hasHeader ? (first[i]?.trim() ?? '') : ''))
+  return { delimiter, columns, hasHeader, usernameColumn }
+}
+
+/**
+ * Propone un modo para lo pegado: texto copiado de instagram.com => 'text'; varias filas con la misma cantidad
+ * (> 1) de columnas => 'csv'; menciones o enlaces entre otras palabras => 'text'; si no, un username por línea.
+ */
+export function guessPastedListMode(text: string): PastedListMode {
+  const lines = splitLines(text)
+    .map((l) => l.trim())
+    .filter(Boolean)
+  if (lines.some((l) => profilePictureUsername(l) !== null)) return 'text'
+
+  const rows = parseCsvRows(text, detectDelimiter(text)).slice(0, SAMPLE_ROWS)
+  const width = rows[0]?.cells.length ?? 0
+  if (rows.length > 1 && width > 1 && rows.every((r) => r.cells.length === width)) return 'csv'
+
+  // "Seguí a @usuario ayer" es texto; "@uno @dos" o "@uno, @dos" es una lista.
+  const isListLine = (line: string) =>
+    line
+      .split(/[\s,;]+/)
+      .filter(Boolean)
+      .every((word) => isValidUsername(readToken(word)))
+  if (lines.some((l) => /@|instagram\.com\//i.test(l) && !isListLine(l))) return 'text'
+  return 'lines'
+}
+
+function parseLines(text: string): ParsedPastedList {
+  const collector = createCollector()
+  splitLines(text).forEach((raw, i) => {
+    const tokens = raw.split(/[\s,;]+/).filter(Boolean)
+    if (tokens.length === 0) return
+    const usernames = tokens.map(readToken)
+    // Si algo de la línea no se entiende, no se toma nada de ella: "Juan Pérez" no debe sumar a @juan.
+    if (!usernames.every(isValidUsername)) {
+      collector.reject(i + 1, raw)
+      return
+    }
+    for (const username of usernames) collector.add(username)
+  })
+  return collector.list
+}
+
+function parseCsvColumn(text: string, options: CsvOptions): ParsedPastedList {
+  const collector = createCollector()
+  parseCsvRows(text, options.delimiter).forEach((row, i) => {
+    if (i === 0 && options.hasHeader) {
+      collector.list.ignored++
+      return
+    }
+    const username = readToken(row.cells[options.column]?.trim() ?? '')
+    if (isValidUsername(username)) collector.add(username)
+    else collector.reject(row.line, row.text)
+  })
+  return collector.list
+}
+
+function parseFreeText(text: string): ParsedPastedList {
+  const collector = createCollector()
+  const lines = splitLines(text)
+  // En la lista copiada de instagram.com cada cuenta trae su línea "usuario's profile picture": solo confiamos
+  // en esas (y en menciones y enlaces), porque un nombre de una palabra ("Juan") también parece un username.
+  const fromInstagramWeb = lines.some((l) => profilePictureUsername(l.trim()) !== null)
+
+  lines.forEach((raw, i) => {
+    const line = raw.trim()
+    if (!line) return
+
+    const picture = profilePictureUsername(line)
+    if (picture !== null) {
+      const username = readToken(picture)
+      if (isValidUsername(username)) collector.add(username)
+      else collector.reject(i + 1, raw)
+      return
+    }
+
+    const found = [
+      ...Array.from(line.matchAll(MENTION_RE), (m) => m[1] ?? ''),
+      ...Array.from(line.matchAll(PROFILE_URL_RE), (m) => readToken(m[0])),
+    ]
+      .map((u) => u.toLowerCase())
+      .filter(isValidUsername)
+    if (found.length > 0) {
+      for (const username of found) collector.add(username)
+      return
+    }
+
+    if (fromInstagramWeb || INSTAGRAM_UI_LINES.has(line.toLowerCase())) {
+      collector.list.ignored++
+      return
+    }
+    const username = /\s/.test(line) ? '' : readToken(line)
+    if (isValidUsername(username)) collector.add(username)
+    else collector.reject(i + 1, raw)
+  })
+  return collector.list
+}
+
+/**
+ * Lee lo pegado en el modo elegido. En modo 'csv', sin `csv` se usa lo que adivina `describeCsv`.
+ */
+export function parsePastedList(text: string, mode: PastedListMode, csv?: CsvOptions): ParsedPastedList {
+  if (mode === 'text') return parseFreeText(text)
+  if (mode === 'lines') return parseLines(text)
+  if (csv) return parseCsvColumn(text, csv)
+  const { delimiter, hasHeader, usernameColumn } = describeCsv(text)
+  return parseCsvColumn(text, { delimiter, hasHeader, column: usernameColumn })
+}
+
+const SCHEMA_BY_MODE = {
+  lines: 'pasted_lines',
+  csv: 'pasted_csv',
+  text: 'pasted_text',
+} as const satisfies Record<PastedListMode, ImportedRelationshipFile['schema']>
+
+/**
+ * Convierte una lista leída en un archivo cargado más, del lado elegido. `name` identifica la lista en el
+ * checklist: pegar de nuevo con el mismo nombre la reemplaza (como volver a soltar un archivo).
+ */
+export function buildPastedListFile(
+  name: string,
+  kind: PastedListKind,
+  mode: PastedListMode,
+  list: ParsedPastedList,
+): ImportedRelationshipFile {
+  const entries = list.usernames.map((username) => ({ username, href: null, timestamp: null, sourceFile: name }))
+  const skipped: NonNullable<ImportedRelationshipFile['stats']>['skipped'] = {}
+  if (list.rejected.length > 0) skipped.invalid_username = list.rejected.length
+  if (list.duplicates > 0) skipped.duplicate = list.duplicates
+
+  return {
+    id: name,
+    path: name,
+    name,
+    sourceKey: null,
+    format: 'text',
+    schema: SCHEMA_BY_MODE[mode],
+    kind,
+    detectedBy: 'manual',
+    entries: mergeRelationshipEntries(entries),
+    stats: { seen: list.usernames.length + list.duplicates + list.rejected.length, skipped },
+    warnings: [],
+  }
+}
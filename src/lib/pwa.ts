@@ -0,0 +1,110 @@
+/**
+ * App instalable y sin conexión: registro del service worker, aviso de versión nueva y archivos que llegan
+ * desde el sistema ("Abrir con" en escritorio, "Compartir" en el celular).
+ *
+ * Relación con otros archivos:
+ * - El service worker es `sw/serviceWorker.ts`; `vite/serviceWorkerPlugin.ts` lo compila como `/sw.js` con la lista
+ *   de archivos de cada build.
+ * - `public/manifest.webmanifest` declara los tipos de archivo (`file_handlers`) y el destino de compartir
+ *   (`share_target`).
+ * - `src/components/UpdatePrompt.tsx` muestra los avisos; `src/components/useLaunchFiles.ts` manda los archivos
+ *   a la zona de carga.
+ *
+ * Nota:
+ * - Una versión nueva no reemplaza a la actual sola: queda esperando hasta que el usuario acepta el aviso
+ *   (así no cambia la app a mitad de una revisión).
+ * - Los archivos compartidos los guarda el service worker en Cache Storage (`SHARE_CACHE`) y se borran apenas
+ *   la página los toma; nunca salen del dispositivo.
+ */
+
+import { notice, NoticeError } from './notices'
+
+/** Parámetro con el que el service worker abre la app después de recibir archivos compartidos. */
+export const SHARE_TARGET_PARAM = 'share-target'
+
+// Deben coincidir con `sw/serviceWorker.ts`.
+const SHARE_CACHE = 'escaner-ig-share'
+const FILE_NAME_HEADER = 'x-file-name'
+const SKIP_WAITING_MESSAGE = 'skip-waiting'
+
+export type ServiceWorkerEvents = {
+  /** Hay una versión nueva esperando; `apply` la activa y recarga la página. */
+  onUpdateReady: (apply: () => void) => void
+  /** Primera instalación terminada: la app ya abre sin conexión. */
+  onOfflineReady: () => void
+}
+
+/**
+ * Registra el service worker y avisa cuando hay una versión nueva lista.
+ * También busca actualizaciones cada vez que la pestaña vuelve a primer plano (la app suele quedar abierta días).
+ */
+export async function registerServiceWorker(url: string, events: ServiceWorkerEvents): Promise<void> {
+  if (!('serviceWorker' in navigator)) return
+  const registration = await navigator.serviceWorker.register(url)
+
+  const offerUpdate = (worker: ServiceWorker) =>
+    events.onUpdateReady(() => {
+      navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true })
+      worker.postMessage(SKIP_WAITING_MESSAGE)
+    })
+
+  if (registration.waiting && navigator.serviceWorker.controller) offerUpdate(registration.waiting)
+  registration.addEventListener('updatefound', () => {
+    const worker = registration.installing
+    if (!worker) return
+    worker.addEventListener('statechange', () => {
+      if (worker.state !== 'installed') return
+      // Sin controller es la primera instalación; con controller, una actualización.
+      if (navigator.serviceWorker.controller) offerUpdate(worker)
+      else events.onOfflineReady()
+    })
+  })
+
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') void registration.update().catch(() => undefined)
+  })
+}
+
+// `launchQueue` (File Handling API) todavía no está en los tipos del DOM.
+type LaunchParams = { files: readonly FileSystemFileHandle[] }
+type LaunchQueue = { setConsumer: (consumer: (params: LaunchParams) => void) => void }
+
+/**
+ * Archivos abiertos con la app instalada ("Abrir con > Escáner IG" o doble clic en un .zip asociado).
+ * Solo existe en Chrome/Edge de escritorio; en el resto no hace nada.
+ * Si el sistema entrega un archivo que no se puede leer (sin permiso, ya no existe), avisa por `onError`.
+ */
+export function consumeLaunchedFiles(onFiles: (files: File[]) => void, onError: (error: NoticeError) => void): void {
+  const queue = (window as Window & { launchQueue?: LaunchQueue }).launchQueue
+  if (!queue) return
+  queue.setConsumer((params) => {
+    if (params.files.length === 0) return
+    void Promise.all(params.files.map((handle) => handle.getFile()))
+      .then(onFiles)
+      .catch(() => onError(new NoticeError(notice('launch_files_unreadable'))))
+  })
+}
+
+/**
+ * Archivos que llegaron por "Compartir" (Android). Devuelve [] si la página no se abrió desde ahí.
+ */
+export async function takeSharedFiles(): Promise<File[]> {
+  const url = new URL(window.location.href)
+  if (!url.searchParams.has(SHARE_TARGET_PARAM) || typeof caches === 'undefined') return []
+
+  // Quitamos el parámetro antes de leer, para que recargar la página no vuelva a importar lo mismo.
+  url.searchParams.delete(SHARE_TARGET_PARAM)
+  window.history.replaceState(window.history.state, '', url)
+
+  const cache = await caches.open(SHARE_CACHE)
+  const files: File[] = []
+  for (const request of await cache.keys()) {
+    const response = await cache.match(request)
+    await cache.delete(request)
+    if (!response) continue
+    const name = decodeURIComponent(response.headers.get(FILE_NAME_HEADER) ?? '')
+    const type = response.headers.get('content-type') ?? ''
+    files.push(new File([await response.blob()], name || `archivo-${files.length + 1}`, { type }))
+  }
+  return files
+}
@@ -0,0 +1,38 @@
+/**
+ * Desglose completo de la relación entre seguidores y seguidos.
+ *
+ * Relación con otros archivos:
+ * - Lo usa `src/App.tsx` (vía `src/components/RelationshipResults.tsx`) para las pestañas de resultados.
+ * - Recibe las entries combinadas de `summarizeImportedFiles` (`src/lib/relationshipImport.ts`).
+ *
+ * Conjuntos:
+ * - notFollowingBack: sigues y NO te siguen (seguidos − seguidores).
+ * - fans: te siguen y NO los sigues (seguidores − seguidos).
+ * - mutuals: se siguen mutuamente (intersección).
+ */
+
+import type { InstagramRelationshipEntry } from './instagramExport'
+
+export type RelationshipBreakdownKey = 'notFollowingBack' | 'fans' | 'mutuals'
+
+export type RelationshipBreakdown = Record<RelationshipBreakdownKey, InstagramRelationshipEntry[]>
+
+/**
+ * Calcula los tres conjuntos. Las entries conservan el orden de entrada (alfabético si vienen de
+ * `mergeRelationshipEntries`).
+ * - En notFollowingBack y mutuals usamos la entry de "seguidos" (la fecha es cuándo seguiste la cuenta).
+ * - En fans usamos la entry de "seguidores" (la fecha es cuándo te empezó a seguir).
+ */
+export function computeRelationshipBreakdown(
+  followers: InstagramRelationshipEntry[],
+  following: InstagramRelationshipEntry[],
+): RelationshipBreakdown {
+  const followersSet = new Set(followers.map((e) => e.username))
+  const followingSet = new Set(following.map((e) => e.username))
+
+  return {
+    notFollowingBack: following.filter((e) => !followersSet.has(e.username)),
+    fans: followers.filter((e) => !followingSet.has(e.username)),
+    mutuals: following.filter((e) => followersSet.has(e.username)),
+  }
+}
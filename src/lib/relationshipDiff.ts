@@ -0,0 +1,43 @@
+/**
+ * Diferencias entre dos momentos (dos snapshots o dos exports) de seguidores/seguidos.
+ *
+ * Relación con otros archivos:
+ * - Lo usa `src/components/SnapshotHistory.tsx` para comparar snapshots guardados.
+ *
+ * Conjuntos:
+ * - newFollowers: te siguen ahora y antes no.
+ * - lostFollowers: te seguían antes y ahora no.
+ * - newFollowing: los sigues ahora y antes no.
+ * - stoppedFollowingBack: antes eran mutuos y ahora los sigues pero ya no te siguen.
+ */
+
+import type { InstagramRelationshipEntry } from './instagramExport'
+import type { RelationshipLists } from './snapshotStore'
+
+export type RelationshipDiffKey = 'newFollowers' | 'lostFollowers' | 'newFollowing' | 'stoppedFollowingBack'
+
+export type RelationshipDiff = Record<RelationshipDiffKey, InstagramRelationshipEntry[]>
+
+function usernameSet(entries: InstagramRelationshipEntry[] | undefined): Set<string> {
+  return new Set((entries ?? []).map((e) => e.username))
+}
+
+/**
+ * Compara `older` contra `newer`. Solo usa las listas de seguidores y seguidos.
+ */
+export function diffRelationshipLists(older: RelationshipLists, newer: RelationshipLists): RelationshipDiff {
+  const oldFollowers = usernameSet(older.followers)
+  const oldFollowing = usernameSet(older.following)
+  const newFollowersSet = usernameSet(newer.followers)
+  const newerFollowers = newer.followers ?? []
+  const newerFollowing = newer.following ?? []
+
+  return {
+    newFollowers: newerFollowers.filter((e) => !oldFollowers.has(e.username)),
+    lostFollowers: (older.followers ?? []).filter((e) => !newFollowersSet.has(e.username)),
+    newFollowing: newerFollowing.filter((e) => !oldFollowing.has(e.username)),
+    stoppedFollowingBack: newerFollowing.filter(
+      (e) => oldFollowers.has(e.username) && oldFollowing.has(e.username) && !newFollowersSet.has(e.username),
+    ),
+  }
+}
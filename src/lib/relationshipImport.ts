@@ -0,0 +1,451 @@
+/**
+ * Pipeline de importación: recibe archivos sueltos, carpetas o el ZIP del export y decide
+ * a qué lista pertenece cada archivo (seguidores, seguidos u otra lista de relaciones).
+ *
+ * Relación con otros archivos:
+ * - Lo usa `src/App.tsx` desde la zona única de carga (`src/components/FileDropZone.tsx`).
+ * - Elige el parser de cada archivo con el registro de `src/lib/exportParsers.ts` (JSON, HTML, ...).
+ * - Expande ZIPs con `src/lib/instagramExportZip.ts`.
+ * - En el navegador corre dentro de un Web Worker (`src/lib/importWorker.ts`), para no congelar la página
+ *   con exports de varios MB; lee cada archivo como stream (`src/lib/streamText.ts`) informando progreso.
+ *
+ * Cómo se clasifica cada lista (en orden de confianza):
+ * 1) `kind` detectado por el contenido (en JSON, la clave `relationships_*`: followers, following, close_friends, ...).
+ * 2) Nombre del archivo (`followers_1.json`, `following.html`, `close_friends.json`, ...).
+ * 3) `<title>` de la página HTML ("Followers", "Seguidores", ...).
+ * Si nada de eso funciona, la lista queda "sin clasificar" y el usuario la asigna a mano.
+ *
+ * Un JSON puede traer varias claves `relationships_*`: cada una se vuelve un `ImportedRelationshipFile`
+ * distinto (mismo `path`, distinto `id`/`sourceKey`).
+ */
+
+import { ExportParseError, pickExportParser, type ExportFormat } from './exportParsers'
+import {
+  guessRelationshipKindFromFileName,
+  mergeRelationshipEntries,
+  type InstagramExportParseResult,
+  type InstagramRelationshipEntry,
+  type InstagramRelationshipListKind,
+  type InstagramSchemaVariant,
+  type InstagramSectionStats,
+} from './instagramExport'
+import { extractRelationshipFilesFromZip, isZipUpload } from './instagramExportZip'
+import { notice, NoticeError, type Notice } from './notices'
+import { ImportCancelledError, readStreamAsText } from './streamText'
+
+/**
+ * - Una lista reconocida (followers, following, close_friends, ...).
+ * - 'other': clave `relationships_*` que todavía no conocemos (se muestra con el nombre de la clave).
+ * - 'unclassified': no sabemos qué es; el usuario debe asignarlo.
+ */
+export type RelationshipFileKind = InstagramRelationshipListKind | 'other' | 'unclassified'
+
+/** Todos los tipos, en el orden en que se ofrecen al asignar un archivo a mano (los nombres están en `src/locales`). */
+export const RELATIONSHIP_FILE_KINDS: RelationshipFileKind[] = [
+  'followers',
+  'following',
+  'close_friends',
+  'blocked',
+  'restricted',
+  'follow_requests_sent',
+  'recent_follow_requests',
+  'follow_requests_received',
+  'recently_unfollowed',
+  'removed_suggestions',
+  'hide_story_from',
+  'followed_hashtags',
+  'other',
+  'unclassified',
+]
+
+export type ImportInput = {
+  file: File
+  /** Ruta relativa (carpeta o ZIP) para mostrarla al usuario; si no hay, es el nombre del archivo. */
+  path: string
+  /**
+   * - 'direct': el usuario eligió/arrastró este archivo explícitamente.
+   * - 'folder': vino dentro de una carpeta (puede haber muchos archivos ajenos a seguidores).
+   */
+  origin: 'direct' | 'folder'
+}
+
+export type ImportedRelationshipFile = {
+  /** Identificador único: `path`, o `path#clave` si el JSON traía varias listas. */
+  id: string
+  path: string
+  name: string
+  /** Clave `relationships_*` de donde salió (null para HTML o JSON en forma de array). */
+  sourceKey: string | null
+  /** Formato del parser; 'text' = lista pegada o importada de otra herramienta (`src/lib/pastedList.ts`). */
+  format: ExportFormat | 'text'
+  /** Variante de esquema detectada por el parser (null si no se pudo parsear). */
+  schema: InstagramSchemaVariant | null
+  kind: RelationshipFileKind
+  detectedBy: 'content' | 'name' | 'title' | 'manual' | null
+  entries: InstagramRelationshipEntry[]
+  /** Cuentas del parser para el diagnóstico por archivo (null si el archivo no se pudo parsear). */
+  stats: InstagramSectionStats | null
+  warnings: Notice[]
+}
+
+export type SkippedImportFile = {
+  path: string
+  reason: Notice
+}
+
+export type RelationshipFileBatch = {
+  files: ImportedRelationshipFile[]
+  skipped: SkippedImportFile[]
+  /** Archivos que no revisamos por no ser JSON/HTML (fotos, videos...). */
+  ignoredCount: number
+}
+
+export type ImportProgress = {
+  path: string
+  /** Bytes leídos (del contenido ya descomprimido si viene de un ZIP). */
+  loaded: number
+  total: number
+  status: 'pending' | 'reading' | 'parsing' | 'done' | 'skipped'
+}
+
+export type ImportOptions = {
+  onProgress?: (progress: ImportProgress) => void
+  signal?: AbortSignal
+}
+
+export type ImportChecklistItem = {
+  id: string
+  label: Notice
+  done: boolean
+}
+
+export type RelationshipImportSummary = {
+  /** Entries combinadas por lista; solo aparecen las listas que se cargaron. */
+  lists: Partial<Record<InstagramRelationshipListKind, InstagramRelationshipEntry[]>>
+  /** Listas con claves `relationships_*` desconocidas, agrupadas por clave. */
+  other: { label: string; entries: InstagramRelationshipEntry[] }[]
+  checklist: ImportChecklistItem[]
+  /** true cuando no falta nada del checklist. */
+  complete: boolean
+}
+
+// Un archivo dentro de una carpeta que no reconocemos por nombre se lee solo si es razonablemente chico.
+const MAX_UNNAMED_FILE_BYTES = 20 * 1024 * 1024
+
+function basename(path: string): string {
+  const parts = path.split('/')
+  return parts[parts.length - 1] ?? path
+}
+
+function stripExtension(name: string): string {
+  return name.replace(/\.[^.]+$/, '')
+}
+
+/**
+ * Convierte un `FileList` de un `<input type="file">` en entradas del pipeline.
+ * Si el input es de carpeta (`webkitdirectory`), conserva la ruta relativa.
+ */
+export function toImportInputs(files: FileList | File[]): ImportInput[] {
+  return Array.from(files).map((file) => {
+    const relative = file.webkitRelativePath
+    return relative ? { file, path: relative, origin: 'folder' } : { file, path: file.name, origin: 'direct' }
+  })
+}
+
+/**
+ * Archivo listo para leer: un `File` suelto o una entrada de un ZIP (que se descomprime al abrirla).
+ */
+type ImportSource = {
+  name: string
+  path: string
+  origin: ImportInput['origin']
+  size: number
+  open: () => Promise<ReadableStream<Uint8Array>>
+}
+
+function toImportedFiles(
+  input: ImportSource,
+  format: ExportFormat,
+  result: InstagramExportParseResult,
+  classify: (sectionKind: InstagramExportParseResult['sections'][number]) => Pick<ImportedRelationshipFile, 'kind' | 'detectedBy'>,
+): ImportedRelationshipFile[] {
+  const multiple = result.sections.length > 1
+  return result.sections.map((section, i) => ({
+    id: multiple ? `${input.path}#${section.sourceKey ?? i}` : input.path,
+    path: input.path,
+    name: input.name,
+    sourceKey: section.sourceKey,
+    format,
+    schema: section.schema,
+    ...classify(section),
+    entries: section.entries,
+    stats: section.stats,
+    // Los warnings son del archivo: los dejamos en la primera lista para no repetirlos.
+    warnings: i === 0 ? result.warnings : [],
+  }))
+}
+
+/**
+ * Un archivo que se leyó pero del que no salió ninguna lista (queda para que el usuario lo vea o lo asigne).
+ * `stats` es null cuando el parser ni siquiera pudo leerlo (ej: JSON mal formado).
+ */
+function emptyImportedFile(
+  input: ImportSource,
+  format: ExportFormat,
+  kindByName: InstagramRelationshipListKind | null,
+  warnings: Notice[],
+  stats: InstagramSectionStats | null,
+): ImportedRelationshipFile {
+  return {
+    id: input.path,
+    path: input.path,
+    name: input.name,
+    sourceKey: null,
+    format,
+    schema: null,
+    kind: kindByName ?? 'unclassified',
+    detectedBy: kindByName ? 'name' : null,
+    entries: [],
+    stats,
+    warnings,
+  }
+}
+
+async function parseRelationshipFile(
+  input: ImportSource,
+  options: ImportOptions,
+): Promise<ImportedRelationshipFile[] | SkippedImportFile> {
+  const { name, path, origin, size } = input
+  const kindByName = guessRelationshipKindFromFileName(name)
+
+  if (origin === 'folder' && !kindByName && size > MAX_UNNAMED_FILE_BYTES) {
+    return { path, reason: notice('skip_too_large') }
+  }
+
+  let text: string
+  try {
+    text = await readStreamAsText(await input.open(), {
+      signal: options.signal,
+      onProgress: (loaded) => options.onProgress?.({ path, loaded, total: size, status: 'reading' }),
+    })
+  } catch (e) {
+    if (e instanceof ImportCancelledError) throw e
+    return { path, reason: notice('skip_read_failed') }
+  }
+  options.onProgress?.({ path, loaded: size, total: size, status: 'parsing' })
+
+  // Instagram puede entregar el export en JSON o HTML (según lo que el usuario eligió al pedir la descarga);
+  // el registro de parsers decide cuál corresponde.
+  const { parser } = pickExportParser({ name, text })
+
+  let result: InstagramExportParseResult
+  try {
+    result = parser.parse({ name, text, sourceFile: path })
+  } catch (e) {
+    if (!(e instanceof ExportParseError)) throw e
+    if (origin === 'folder' && !kindByName) return { path, reason: e.skipReason }
+    return [emptyImportedFile(input, parser.format, kindByName, [e.warning], null)]
+  }
+
+  const recognized = result.sections.some((section) => section.sourceKey !== null || section.kind !== 'unknown')
+  if (origin === 'folder' && !kindByName && !recognized) return { path, reason: parser.notRecognizedReason }
+  if (result.sections.length === 0) {
+    return [emptyImportedFile(input, parser.format, kindByName, result.warnings, { seen: 0, skipped: {} })]
+  }
+
+  const detectedBy = parser.kindSource
+  const files = toImportedFiles(input, parser.format, result, (section) => {
+    // Si el contenido lo dice, manda sobre el nombre; el título de una página HTML, en cambio, es el respaldo.
+    if (section.kind !== 'unknown' && detectedBy === 'content') return { kind: section.kind, detectedBy }
+    if (kindByName) return { kind: kindByName, detectedBy: 'name' }
+    if (section.kind !== 'unknown') return { kind: section.kind, detectedBy }
+    if (section.sourceKey) return { kind: 'other', detectedBy: 'content' }
+    return { kind: 'unclassified', detectedBy: null }
+  })
+
+  // Si el nombre decía otra cosa que el contenido o el título, avisamos (sin bloquear).
+  const single = files.length === 1 ? files[0] : undefined
+  const sectionKind = result.sections[0]?.kind
+  if (single && kindByName && sectionKind && sectionKind !== 'unknown' && sectionKind !== kindByName) {
+    const code = detectedBy === 'content' ? 'name_content_mismatch' : 'name_title_mismatch'
+    single.warnings = [...single.warnings, notice(code, { nameKind: kindByName, detectedKind: sectionKind })]
+  }
+  return files
+}
+
+function fromInput(input: ImportInput): ImportSource {
+  const { file } = input
+  return { name: file.name, path: input.path, origin: input.origin, size: file.size, open: async () => file.stream() }
+}
+
+/**
+ * Procesa una tanda de archivos (sueltos, de una carpeta o ZIPs) y los clasifica.
+ * No acumula nada: quien llama decide cómo combinar tandas sucesivas.
+ *
+ * `options.signal` permite cancelar: se corta entre trozos leídos y entre archivos con `ImportCancelledError`.
+ */
+export async function importRelationshipFiles(
+  inputs: ImportInput[],
+  options: ImportOptions = {},
+): Promise<RelationshipFileBatch> {
+  const { onProgress, signal } = options
+  const files: ImportedRelationshipFile[] = []
+  const skipped: SkippedImportFile[] = []
+  let ignoredCount = 0
+
+  const queue: ImportSource[] = []
+  for (const input of inputs) {
+    if (signal?.aborted) throw new ImportCancelledError()
+    if (/\.(json|html?)$/i.test(input.file.name)) {
+      queue.push(fromInput(input))
+      continue
+    }
+
+    // ZIP del export: lo abrimos y sus archivos entran al mismo pipeline como si vinieran de una carpeta.
+    let isZip = false
+    try {
+      isZip = await isZipUpload(input.file)
+    } catch {
+      isZip = false
+    }
+    if (isZip) {
+      const size = input.file.size
+      onProgress?.({ path: input.path, loaded: 0, total: size, status: 'reading' })
+      try {
+        const extraction = await extractRelationshipFilesFromZip(input.file)
+        for (const f of extraction.files) {
+          queue.push({ name: f.name, path: `${input.path}/${f.path}`, origin: 'folder', size: f.size, open: f.open })
+        }
+        for (const s of extraction.skipped) skipped.push({ path: `${input.path}/${s.path}`, reason: s.reason })
+        ignoredCount += extraction.ignoredCount
+        onProgress?.({ path: input.path, loaded: size, total: size, status: 'done' })
+      } catch (e) {
+        const reason =
+          e instanceof NoticeError ? e.notice : notice('skip_zip_failed', { error: e instanceof Error ? e.message : '' })
+        skipped.push({ path: input.path, reason })
+        onProgress?.({ path: input.path, loaded: 0, total: size, status: 'skipped' })
+      }
+      continue
+    }
+
+    if (input.origin === 'folder') {
+      ignoredCount++
+    } else {
+      // Un archivo elegido a mano sin extensión conocida: intentamos igual (Windows a veces oculta/cambia la extensión).
+      queue.push(fromInput(input))
+    }
+  }
+
+  // Avisamos la cola completa antes de empezar, para que la UI muestre todas las barras desde el inicio.
+  for (const source of queue) onProgress?.({ path: source.path, loaded: 0, total: source.size, status: 'pending' })
+
+  for (const source of queue) {
+    if (signal?.aborted) throw new ImportCancelledError()
+    const result = await parseRelationshipFile(source, options)
+    const status = 'reason' in result ? 'skipped' : 'done'
+    onProgress?.({ path: source.path, loaded: source.size, total: source.size, status })
+    if ('reason' in result) skipped.push(result)
+    else files.push(...result)
+  }
+
+  return { files, skipped, ignoredCount }
+}
+
+/**
+ * Combina una tanda nueva con lo ya cargado. Un archivo con la misma ruta reemplaza al anterior
+ * (por ejemplo, si el usuario vuelve a arrastrar `followers_1.json`).
+ */
+export function mergeImportedFiles(
+  current: ImportedRelationshipFile[],
+  incoming: ImportedRelationshipFile[],
+): ImportedRelationshipFile[] {
+  const incomingPaths = new Set(incoming.map((f) => f.path))
+  return [...current.filter((f) => !incomingPaths.has(f.path)), ...incoming]
+}
+
+/**
+ * Detecta huecos en la numeración de archivos partidos: si hay `followers_1` y `followers_3`,
+ * falta `followers_2`. Devuelve cada parte que falta junto con la parte cargada que lo demuestra.
+ *
+ * Nota:
+ * - El export no trae un índice ni una referencia a la parte siguiente: con solo `followers_1` cargado no hay
+ *   forma de saber si existe `followers_2`, así que no se avisa (no adivinamos).
+ */
+function findMissingParts(files: ImportedRelationshipFile[]): { name: string; after: string }[] {
+  const parts = new Map<number, string>()
+  for (const f of files) {
+    const match = f.name.toLowerCase().match(/^followers_(\d+)\.(json|html?)$/)
+    if (match?.[1]) parts.set(Number(match[1]), match[2] ?? 'json')
+  }
+  if (parts.size === 0) return []
+
+  const extension = parts.values().next().value ?? 'json'
+  const max = Math.max(...parts.keys())
+  const after = `followers_${max}.${parts.get(max) ?? extension}`
+  const missing: { name: string; after: string }[] = []
+  for (let n = 1; n < max; n++) {
+    if (!parts.has(n)) missing.push({ name: `followers_${n}.${extension}`, after })
+  }
+  return missing
+}
+
+/**
+ * Calcula las listas combinadas y el checklist de lo que falta a partir de todos los archivos cargados.
+ */
+export function summarizeImportedFiles(files: ImportedRelationshipFile[]): RelationshipImportSummary {
+  const followerFiles = files.filter((f) => f.kind === 'followers')
+  const followingFiles = files.filter((f) => f.kind === 'following')
+
+  const grouped = new Map<InstagramRelationshipListKind, InstagramRelationshipEntry[]>()
+  const otherByLabel = new Map<string, InstagramRelationshipEntry[]>()
+  for (const f of files) {
+    if (f.kind === 'unclassified') continue
+    if (f.kind === 'other') {
+      const label = f.sourceKey ?? stripExtension(basename(f.name))
+      otherByLabel.set(label, [...(otherByLabel.get(label) ?? []), ...f.entries])
+      continue
+    }
+    grouped.set(f.kind, [...(grouped.get(f.kind) ?? []), ...f.entries])
+  }
+
+  const lists: RelationshipImportSummary['lists'] = {}
+  for (const [kind, entries] of grouped) lists[kind] = mergeRelationshipEntries(entries)
+  const followers = lists.followers ?? null
+  const following = lists.following ?? null
+
+  const other = Array.from(otherByLabel.entries())
+    .map(([label, entries]) => ({ label, entries: mergeRelationshipEntries(entries) }))
+    .sort((a, b) => a.label.localeCompare(b.label))
+
+  const checklist: ImportChecklistItem[] = [
+    {
+      id: 'followers',
+      label: followers
+        ? notice('checklist_followers_loaded', { files: followerFiles.length, count: followers.length })
+        : notice('checklist_followers_missing'),
+      done: Boolean(followers),
+    },
+    {
+      id: 'following',
+      label: following
+        ? notice('checklist_following_loaded', { files: followingFiles.length, count: following.length })
+        : notice('checklist_following_missing'),
+      done: Boolean(following),
+    },
+  ]
+
+  for (const { name, after } of findMissingParts(followerFiles)) {
+    checklist.push({ id: `missing:${name}`, label: notice('checklist_missing_part', { name, after }), done: false })
+  }
+
+  const unclassified = files.filter((f) => f.kind === 'unclassified')
+  if (unclassified.length > 0) {
+    checklist.push({
+      id: 'unclassified',
+      label: notice('checklist_unclassified', { count: unclassified.length }),
+      done: false,
+    })
+  }
+
+  return { lists, other, checklist, complete: checklist.every((item) => item.done) }
+}
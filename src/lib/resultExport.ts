@@ -0,0 +1,247 @@
+/**
+ * Descarga de resultados como CSV, JSON (con metadatos) o libro Excel (.xlsx).
+ *
+ * Relación con otros archivos:
+ * - Lo usa `src/components/RelationshipResults.tsx` (botones "Descargar"); el CLI (`cli/output.ts`) reutiliza
+ *   el CSV y el JSON.
+ * - El .xlsx es un ZIP de XML; lo arma `createZipBlob` (`src/lib/zipArchive.ts`), sin librerías.
+ *
+ * Columnas (todos los formatos): username, URL del perfil y fecha en UTC cuando el export la trae.
+ *
+ * Nota de privacidad:
+ * - Los archivos se generan en el navegador y se descargan directo; nada se sube.
+ */
+
+import { profileUrl, type InstagramRelationshipEntry } from './instagramExport'
+import { createZipBlob } from './zipArchive'
+
+export type ExportableList = {
+  id: string
+  label: string
+  entries: InstagramRelationshipEntry[]
+}
+
+export type ResultExportContext = {
+  /** Rutas de los archivos de los que salieron las listas. */
+  sourceFiles: string[]
+  warnings: string[]
+}
+
+const COLUMNS = ['username', 'profile_url', 'date_utc'] as const
+
+function isoDate(timestamp: number | null): string {
+  return timestamp === null ? '' : new Date(timestamp * 1000).toISOString()
+}
+
+/**
+ * Evita que Excel/Sheets interprete un valor como fórmula (ej: una entrada que empiece con "=").
+ */
+function neutralizeFormula(value: string): string {
+  return /^[=+\-@]/.test(value) ? `'${value}` : value
+}
+
+function csvField(value: string): string {
+  const safe = neutralizeFormula(value)
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+/**
+ * CSV con encabezado. Usamos CRLF porque es lo que esperan Excel y la RFC 4180.
+ */
+export function buildCsv(entries: InstagramRelationshipEntry[]): string {
+  const rows = [COLUMNS.join(',')]
+  for (const e of entries) {
+    rows.push([e.username, profileUrl(e), isoDate(e.timestamp)].map(csvField).join(','))
+  }
+  return `${rows.join('\r\n')}\r\n`
+}
+
+/**
+ * CSV de varias listas en un solo archivo: igual que `buildCsv`, con una primera columna `list` (id de la lista).
+ */
+export function buildListsCsv(lists: ExportableList[]): string {
+  const rows = [['list', ...COLUMNS].join(',')]
+  for (const l of lists) {
+    for (const e of l.entries) {
+      rows.push([l.id, e.username, profileUrl(e), isoDate(e.timestamp)].map(csvField).join(','))
+    }
+  }
+  return `${rows.join('\r\n')}\r\n`
+}
+
+/**
+ * JSON con metadatos (fecha de exportación, archivos de origen, conteos y avisos) y todas las listas.
+ */
+export function buildJsonReport(lists: ExportableList[], context: ResultExportContext): string {
+  const report = {
+    generator: 'Escáner IG',
+    exportedAt: new Date().toISOString(),
+    sourceFiles: context.sourceFiles,
+    warnings: context.warnings,
+    counts: Object.fromEntries(lists.map((l) => [l.id, l.entries.length])),
+    lists: lists.map((l) => ({
+      id: l.id,
+      label: l.label,
+      count: l.entries.length,
+      entries: l.entries.map((e) => ({
+        username: e.username,
+        profileUrl: profileUrl(e),
+        date: e.timestamp === null ? null : isoDate(e.timestamp),
+      })),
+    })),
+  }
+  return JSON.stringify(report, null, 2)
+}
+
+function xmlEscape(value: string): string {
+  return value
+    .replace(/[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Excel limita los nombres de hoja a 31 caracteres, sin `[]:*?/\` y sin repetir.
+ * `fallbackName` (ya traducido) nombra las hojas cuya etiqueta queda vacía.
+ */
+function sheetNames(lists: ExportableList[], fallbackName: (index: number) => string): string[] {
+  const used = new Set<string>()
+  return lists.map((l, i) => {
+    const base = l.label.replace(/[[\]:*?/\\]/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 31) || fallbackName(i).slice(0, 31)
+    let name = base
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      const suffix = ` (${n})`
+      name = `${base.slice(0, 31 - suffix.length)}${suffix}`
+    }
+    used.add(name.toLowerCase())
+    return name
+  })
+}
+
+// Estilos: 0 = normal, 1 = fecha y hora, 2 = encabezado en negrita.
+const STYLE_DATE = 1
+const STYLE_HEADER = 2
+
+const XLSX_STYLES =
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="22" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+  '</styleSheet>'
+
+function textCell(ref: string, value: string, style = 0): string {
+  const s = style ? ` s="${style}"` : ''
+  return `<c r="${ref}" t="inlineStr"${s}><is><t>${xmlEscape(value)}</t></is></c>`
+}
+
+function sheetXml(entries: InstagramRelationshipEntry[]): string {
+  const rows = [`<row r="1">${COLUMNS.map((c, i) => textCell(`${'ABC'[i]}1`, c, STYLE_HEADER)).join('')}</row>`]
+  entries.forEach((e, i) => {
+    const r = i + 2
+    // Fecha como número de serie de Excel (días desde 1899-12-30), para que se pueda ordenar y filtrar.
+    const date = e.timestamp === null ? '' : `<c r="C${r}" s="${STYLE_DATE}"><v>${e.timestamp / 86400 + 25569}</v></c>`
+    rows.push(`<row r="${r}">${textCell(`A${r}`, e.username)}${textCell(`B${r}`, profileUrl(e))}${date}</row>`)
+  })
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<cols><col min="1" max="1" width="28" customWidth="1"/><col min="2" max="2" width="45" customWidth="1"/>' +
+    '<col min="3" max="3" width="20" customWidth="1"/></cols>' +
+    `<sheetData>${rows.join('')}</sheetData></worksheet>`
+  )
+}
+
+/**
+ * Libro .xlsx con una hoja por lista.
+ */
+export function buildXlsx(lists: ExportableList[], fallbackSheetName: (index: number) => string): Blob {
+  const encoder = new TextEncoder()
+  const names = sheetNames(lists, fallbackSheetName)
+  const xml = (body: string) => encoder.encode(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>${body}`)
+
+  const contentTypes =
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    lists
+      .map(
+        (_, i) =>
+          `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+      )
+      .join('') +
+    '</Types>'
+
+  const rootRels =
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>'
+
+  const workbook =
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets>${names.map((n, i) => `<sheet name="${xmlEscape(n)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>` +
+    '</workbook>'
+
+  const workbookRels =
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    lists
+      .map(
+        (_, i) =>
+          `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`,
+      )
+      .join('') +
+    `<Relationship Id="rId${lists.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+    '</Relationships>'
+
+  const blob = createZipBlob([
+    { path: '[Content_Types].xml', data: xml(contentTypes) },
+    { path: '_rels/.rels', data: xml(rootRels) },
+    { path: 'xl/workbook.xml', data: xml(workbook) },
+    { path: 'xl/_rels/workbook.xml.rels', data: xml(workbookRels) },
+    { path: 'xl/styles.xml', data: xml(XLSX_STYLES) },
+    ...lists.map((l, i) => ({ path: `xl/worksheets/sheet${i + 1}.xml`, data: encoder.encode(sheetXml(l.entries)) })),
+  ])
+  return new Blob([blob], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' })
+}
+
+/**
+ * Nombre de archivo con fecha, ej: `escaner-ig-no-te-siguen-2024-05-01.csv`.
+ */
+export function exportFileName(label: string, extension: string): string {
+  const slug = label
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+  const date = new Date().toISOString().slice(0, 10)
+  return `escaner-ig-${slug || 'resultados'}-${date}.${extension}`
+}
+
+/**
+ * Dispara la descarga de un archivo generado en memoria. `mimeType` solo se usa cuando `content` es texto.
+ */
+export function downloadFile(content: Blob | string, fileName: string, mimeType = 'text/plain;charset=utf-8'): void {
+  // BOM para que Excel abra el CSV en UTF-8 (acentos, emojis en nombres de hashtags, etc.).
+  const blob =
+    typeof content === 'string'
+      ? new Blob([mimeType.startsWith('text/csv') ? '\uFEFF' : '', content], { type: mimeType })
+      : content
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  document.body.appendChild(a)
+  a.click()
+  a.remove()
+  // Algunos navegadores leen el blob de forma asíncrona tras el click.
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,45 @@
+/**
+ * Avance de la revisión guiada de "No te siguen": qué cuentas ya dejaste de seguir (a mano, en Instagram)
+ * y cuáles saltaste para verlas al final.
+ *
+ * Relación con otros archivos:
+ * - Usa `src/lib/localDb.ts` para la persistencia (así el avance sigue ahí al volver otro día).
+ * - `src/components/ReviewQueue.tsx` arma la cola y guarda cada decisión.
+ * - La decisión "mantener" no se guarda aquí: va a la lista de `src/lib/keepList.ts`.
+ *
+ * Nota:
+ * - Esto es solo un registro de lo que el usuario dice que hizo; la app nunca hace pedidos a Instagram.
+ */
+
+import { STORE_REVIEW, withStore } from './localDb'
+
+export type ReviewDecisionKind = 'unfollowed' | 'skipped'
+
+export type ReviewDecision = {
+  username: string
+  decision: ReviewDecisionKind
+  /** Cuándo se decidió (ms desde epoch). Las saltadas se ordenan por esta fecha. */
+  decidedAt: number
+}
+
+export async function listReviewDecisions(): Promise<ReviewDecision[]> {
+  return withStore(STORE_REVIEW, 'readonly', (store) => store.getAll() as IDBRequest<ReviewDecision[]>)
+}
+
+export async function saveReviewDecision(username: string, decision: ReviewDecisionKind): Promise<ReviewDecision> {
+  const record: ReviewDecision = { username, decision, decidedAt: Date.now() }
+  await withStore(STORE_REVIEW, 'readwrite', (store) => store.put(record))
+  return record
+}
+
+/**
+ * Vuelve a dejar la cuenta como pendiente (para "deshacer") o, si se pasa `previous`, restaura esa decisión.
+ */
+export async function restoreReviewDecision(username: string, previous: ReviewDecision | null): Promise<void> {
+  if (previous) await withStore(STORE_REVIEW, 'readwrite', (store) => store.put(previous))
+  else await withStore(STORE_REVIEW, 'readwrite', (store) => store.delete(username))
+}
+
+export async function clearReviewDecisions(): Promise<void> {
+  await withStore(STORE_REVIEW, 'readwrite', (store) => store.clear())
+}
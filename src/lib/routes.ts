@@ -0,0 +1,154 @@
+/**
+ * Rutas de la app (navegación por hash, sin router externo): tabla de rutas, lectura del hash y armado de enlaces.
+ *
+ * Relación con otros archivos:
+ * - `src/components/useHashRoute.ts` escucha el hash y entrega la ruta actual a `src/App.tsx`.
+ * - `src/components/RelationshipResults.tsx` lee y escribe la pestaña, búsqueda, orden y filtro de fecha de
+ *   `#/results/...`, así un enlace abre la lista exactamente como se veía.
+ *
+ * Ejemplos:
+ * - `#/results/fans?q=shop&sort=date` => pestaña "Fans", buscando "shop", de la más antigua a la más nueva.
+ * - `#/history`, `#/compare`, ... => la misma página, desplazada a esa sección.
+ * - `#/privacy`, `#/terms` => páginas legales. Cualquier otra ruta `#/...` => página 404.
+ *
+ * Nota:
+ * - Usamos hash (no rutas reales) porque la app se sirve como archivos estáticos: recargar `#/results/fans`
+ *   no le pide nada al servidor.
+ */
+
+/** Orden de una lista de resultados. */
+export type ResultsSort = 'alpha' | 'oldest' | 'newest' | 'membership'
+
+/** Lo que una ruta de resultados fija de la lista: búsqueda, orden y "antes de" (yyyy-mm-dd). */
+export type ResultsView = {
+  query: string
+  sort: ResultsSort
+  before: string
+}
+
+/** Secciones de la página principal con ruta propia (`#/keep`, `#/history`, ...). */
+export type SectionRouteName = 'home' | 'stats' | 'keep' | 'history' | 'compare' | 'overlap' | 'data'
+
+export type AppRoute =
+  | { name: SectionRouteName }
+  | { name: 'results'; tab: string | null; view: ResultsView }
+  | { name: 'review' }
+  | { name: 'privacy' }
+  | { name: 'terms' }
+  | { name: 'notFound'; path: string }
+
+export type ResultsRoute = Extract<AppRoute, { name: 'results' }>
+
+type RouteName = Exclude<AppRoute['name'], 'notFound'>
+
+/** Primer segmento de la ruta => nombre. `results` es la única que acepta un segundo segmento (la pestaña). */
+const ROUTE_TABLE: Record<string, RouteName> = {
+  '': 'home',
+  results: 'results',
+  review: 'review',
+  stats: 'stats',
+  keep: 'keep',
+  history: 'history',
+  compare: 'compare',
+  overlap: 'overlap',
+  data: 'data',
+  privacy: 'privacy',
+  terms: 'terms',
+}
+
+const ROUTE_PATHS = Object.fromEntries(Object.entries(ROUTE_TABLE).map(([path, name]) => [name, path])) as Record<
+  RouteName,
+  string
+>
+
+// En la URL el orden va con nombres cortos (`sort=date`); el alfabético es el de siempre y no se escribe.
+const SORT_PARAMS: Record<ResultsSort, string | null> = {
+  alpha: null,
+  oldest: 'date',
+  newest: 'date-desc',
+  membership: 'lists',
+}
+
+export const DEFAULT_RESULTS_VIEW: ResultsView = { query: '', sort: 'alpha', before: '' }
+
+export const HOME_ROUTE: AppRoute = { name: 'home' }
+
+function sortFromParam(value: string | null): ResultsSort {
+  const match = (Object.keys(SORT_PARAMS) as ResultsSort[]).find((sort) => SORT_PARAMS[sort] === value)
+  return match ?? 'alpha'
+}
+
+function decodeSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Lee la ruta desde `location.hash`. Un hash vacío (o que no empieza con `#/`, ej: un ancla común) es el inicio.
+ */
+export function parseRoute(hash: string): AppRoute {
+  if (!hash.startsWith('#/')) return HOME_ROUTE
+  const raw = hash.slice(2)
+  const queryStart = raw.indexOf('?')
+  const path = queryStart === -1 ? raw : raw.slice(0, queryStart)
+  const params = new URLSearchParams(queryStart === -1 ? '' : raw.slice(queryStart + 1))
+
+  const segments = path.split('/').filter(Boolean).map(decodeSegment)
+  const notFound: AppRoute = { name: 'notFound', path: `/${path}` }
+  if (segments.some((s) => s === null)) return notFound
+
+  const [first = '', ...rest] = segments as string[]
+  const name = Object.hasOwn(ROUTE_TABLE, first) ? ROUTE_TABLE[first] : undefined
+  if (!name) return notFound
+
+  if (name === 'results') {
+    if (rest.length > 1) return notFound
+    const before = params.get('before') ?? ''
+    return {
+      name,
+      tab: rest[0] ?? null,
+      view: {
+        query: params.get('q') ?? '',
+        sort: sortFromParam(params.get('sort')),
+        // Solo fechas completas: un valor a medio escribir rompería el <input type="date">.
+        before: /^\d{4}-\d{2}-\d{2}$/.test(before) ? before : '',
+      },
+    }
+  }
+  if (rest.length > 0) return notFound
+  return { name }
+}
+
+/** Arma el hash de una ruta (para `href` y para navegar). Los valores por defecto no se escriben. */
+export function formatRoute(route: AppRoute): string {
+  if (route.name === 'notFound') return `#${route.path}`
+  if (route.name !== 'results') return `#/${ROUTE_PATHS[route.name]}`
+
+  const path = route.tab ? `#/results/${encodeURIComponent(route.tab)}` : '#/results'
+  const params = new URLSearchParams()
+  if (route.view.query) params.set('q', route.view.query)
+  const sort = SORT_PARAMS[route.view.sort]
+  if (sort) params.set('sort', sort)
+  if (route.view.before) params.set('before', route.view.before)
+  const search = params.toString()
+  return search ? `${path}?${search}` : path
+}
+
+/**
+ * Cambia de ruta. `replace` no agrega una entrada al historial (ej: mientras se escribe en la búsqueda),
+ * así "Atrás" vuelve a la pestaña anterior y no letra por letra.
+ */
+export function navigate(route: AppRoute, options: { replace?: boolean } = {}): void {
+  const hash = formatRoute(route)
+  if (hash === (window.location.hash || '#/')) return
+  if (options.replace) {
+    window.history.replaceState(window.history.state, '', hash)
+    // replaceState no dispara `hashchange`: avisamos a mano para que la app se entere.
+    window.dispatchEvent(new HashChangeEvent('hashchange'))
+  } else {
+    window.location.hash = hash
+  }
+}
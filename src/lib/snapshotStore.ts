@@ -0,0 +1,56 @@
+/**
+ * Historial de snapshots: copias con nombre y fecha de las listas parseadas, guardadas en IndexedDB.
+ *
+ * Relación con otros archivos:
+ * - Usa `src/lib/localDb.ts` para la persistencia.
+ * - `src/components/SnapshotHistory.tsx` guarda, lista y borra snapshots.
+ * - `src/lib/relationshipDiff.ts` compara dos snapshots.
+ *
+ * Nota de privacidad:
+ * - Solo se guardan las listas de relaciones (username, href, fecha), nunca los archivos originales.
+ * - Guardar es opcional y siempre lo inicia el usuario.
+ */
+
+import type { InstagramRelationshipEntry, InstagramRelationshipListKind } from './instagramExport'
+import { STORE_SNAPSHOTS, withStore } from './localDb'
+
+export type RelationshipLists = Partial<Record<InstagramRelationshipListKind, InstagramRelationshipEntry[]>>
+
+export type RelationshipSnapshot = {
+  id: string
+  name: string
+  /** Fecha de guardado (ms desde epoch). */
+  createdAt: number
+  lists: RelationshipLists
+}
+
+function createSnapshotId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`
+}
+
+/**
+ * Crea y guarda un snapshot con las listas actuales.
+ */
+export async function saveSnapshot(name: string, lists: RelationshipLists): Promise<RelationshipSnapshot> {
+  const snapshot: RelationshipSnapshot = { id: createSnapshotId(), name: name.trim(), createdAt: Date.now(), lists }
+  await withStore(STORE_SNAPSHOTS, 'readwrite', (store) => store.put(snapshot))
+  return snapshot
+}
+
+/**
+ * Devuelve todos los snapshots, del más reciente al más antiguo.
+ */
+export async function listSnapshots(): Promise<RelationshipSnapshot[]> {
+  const all = await withStore(STORE_SNAPSHOTS, 'readonly', (store) => store.getAll() as IDBRequest<RelationshipSnapshot[]>)
+  return all.sort((a, b) => b.createdAt - a.createdAt)
+}
+
+export async function deleteSnapshot(id: string): Promise<void> {
+  await withStore(STORE_SNAPSHOTS, 'readwrite', (store) => store.delete(id))
+}
+
+export async function clearSnapshots(): Promise<void> {
+  await withStore(STORE_SNAPSHOTS, 'readwrite', (store) => store.clear())
+}
@@ -0,0 +1,62 @@
+/**
+ * Lectura de texto por partes (stream) con progreso y cancelación.
+ *
+ * Relación con otros archivos:
+ * - Lo usa `src/lib/relationshipImport.ts` para leer cada archivo (suelto o dentro del ZIP).
+ *
+ * Nota:
+ * - Lo que suma frente a `file.text()` es el progreso y poder cortar a mitad de camino. El resultado sigue
+ *   siendo el texto completo en memoria (el parser JSON/HTML lo necesita entero); solo evitamos guardar
+ *   los trozos decodificados aparte y después unirlos en una segunda copia.
+ */
+
+import { notice, NoticeError } from './notices'
+
+export class ImportCancelledError extends NoticeError {
+  constructor() {
+    super(notice('import_cancelled'))
+    this.name = 'ImportCancelledError'
+  }
+}
+
+type ReadOptions = {
+  /** Recibe los bytes leídos hasta ahora. */
+  onProgress?: (loaded: number) => void
+  signal?: AbortSignal
+}
+
+// No hace falta avisar de cada trozo: con ~10 avisos por segundo la barra se ve fluida.
+const PROGRESS_INTERVAL_MS = 100
+
+export async function readStreamAsText(stream: ReadableStream<Uint8Array>, options: ReadOptions): Promise<string> {
+  const { onProgress, signal } = options
+  const reader = stream.getReader()
+  const decoder = new TextDecoder('utf-8')
+  let text = ''
+  let loaded = 0
+  let lastReport = 0
+
+  try {
+    for (;;) {
+      if (signal?.aborted) throw new ImportCancelledError()
+      const { done, value } = await reader.read()
+      if (done) break
+
+      loaded += value.byteLength
+      text += decoder.decode(value, { stream: true })
+
+      const now = Date.now()
+      if (onProgress && now - lastReport >= PROGRESS_INTERVAL_MS) {
+        lastReport = now
+        onProgress(loaded)
+      }
+    }
+  } catch (e) {
+    await reader.cancel().catch(() => undefined)
+    throw e
+  }
+
+  text += decoder.decode()
+  onProgress?.(loaded)
+  return text
+}
@@ -0,0 +1,175 @@
+/**
+ * Espacios de trabajo: uno por cuenta de Instagram (personal, marca, proyecto...), cada uno con su propio export.
+ *
+ * Relación con otros archivos:
+ * - El estado vive en `src/components/useWorkspaces.ts`; `src/App.tsx` muestra el espacio activo con la misma carga,
+ *   checklist y resultados de siempre.
+ * - `src/lib/audienceOverlap.ts` cruza las listas de dos espacios.
+ * - El dueño de cada export se deduce de la ruta con `ownerFromPath` (`src/lib/exportComparison.ts`).
+ *
+ * Varias cuentas en una sola carga:
+ * - Un export del Centro de cuentas de Meta puede traer varios perfiles (una carpeta por perfil, cada una con su
+ *   `connections/`); también el usuario puede soltar los ZIP de dos cuentas a la vez.
+ * - `splitBatchByAccount` agrupa los archivos por la carpeta que contiene `connections/` (o por el dueño, si la
+ *   ruta lo dice: así las partes de un export partido en varios ZIP quedan juntas) y `distributeBatch` reparte
+ *   cada grupo en su espacio. Las partes cuyo nombre no trae el dueño (ej: `export_part2.zip`) se suman al
+ *   espacio de la carga en curso, en vez de abrir uno por parte.
+ *
+ * Nota de privacidad:
+ * - Los espacios viven en el estado de React, como la carga principal: al recargar la página desaparecen.
+ */
+
+import { ownerFromPath } from './exportComparison'
+import { mergeImportedFiles, type ImportedRelationshipFile, type RelationshipFileBatch } from './relationshipImport'
+
+export type Workspace = {
+  id: string
+  /** Nombre puesto por el usuario o detectado del export; null = todavía sin nombre ("Cuenta 1", ...). */
+  name: string | null
+  files: ImportedRelationshipFile[]
+  /** Reporte de la última tanda cargada en este espacio. */
+  skipped: RelationshipFileBatch['skipped']
+  ignoredCount: number
+  /** El usuario pidió calcular aunque falte algo del checklist. */
+  confirmIncomplete: boolean
+}
+
+export type WorkspaceState = {
+  workspaces: Workspace[]
+  activeId: string
+}
+
+/** Una parte de la tanda que pertenece a una sola cuenta. */
+export type AccountBatch = {
+  /** Nombre sugerido para el espacio (dueño del export o carpeta del perfil); null si no se sabe. */
+  label: string | null
+  batch: RelationshipFileBatch
+}
+
+// Carpetas que, dentro de un export, cuelgan directamente de la carpeta del perfil.
+const ACCOUNT_MARKERS = new Set(['connections', 'followers_and_following'])
+
+let nextWorkspaceId = 1
+
+export function createWorkspace(name: string | null = null): Workspace {
+  return {
+    id: `workspace-${nextWorkspaceId++}`,
+    name,
+    files: [],
+    skipped: [],
+    ignoredCount: 0,
+    confirmIncomplete: false,
+  }
+}
+
+export function initialWorkspaceState(): WorkspaceState {
+  const first = createWorkspace()
+  return { workspaces: [first], activeId: first.id }
+}
+
+/**
+ * Carpeta del perfil dentro de la ruta (todo lo anterior a `connections/`); '' para archivos sueltos.
+ */
+function accountRoot(path: string): string {
+  const segments = path.split('/')
+  const i = segments.findIndex((segment) => ACCOUNT_MARKERS.has(segment.toLowerCase()))
+  return i > 0 ? segments.slice(0, i).join('/') : ''
+}
+
+function rootLabel(root: string): string | null {
+  const last = root.split('/').pop()
+  return last ? last.replace(/\.zip$/i, '') : null
+}
+
+/**
+ * Separa una tanda por cuenta. Si todo es de una sola cuenta (el caso normal), devuelve un único grupo.
+ * Los archivos sueltos, sin carpeta de perfil, y las partes sin dueño reconocible van con el primer grupo.
+ */
+export function splitBatchByAccount(batch: RelationshipFileBatch): AccountBatch[] {
+  const groups = new Map<string, AccountBatch>()
+  const loose: RelationshipFileBatch = { files: [], skipped: [], ignoredCount: 0 }
+  // Nombre de la primera parte sin dueño: el del espacio si la tanda no trae otro.
+  let looseLabel: string | null = null
+
+  const groupFor = (path: string): RelationshipFileBatch => {
+    const root = accountRoot(path)
+    if (!root) return loose
+    const owner = ownerFromPath(root)
+    // `connections/` en la raíz de un ZIP o carpeta sin dueño en el nombre (ej: `export_part2.zip`): es una parte
+    // del export de esta carga, no la carpeta de otro perfil. Va con los sueltos, así no abre un espacio propio.
+    if (!owner && !root.includes('/')) {
+      looseLabel ??= rootLabel(root)
+      return loose
+    }
+    const key = owner ?? root
+    let group = groups.get(key)
+    if (!group) {
+      group = { label: owner ?? rootLabel(root), batch: { files: [], skipped: [], ignoredCount: 0 } }
+      groups.set(key, group)
+    }
+    return group.batch
+  }
+
+  for (const f of batch.files) groupFor(f.path).files.push(f)
+  for (const s of batch.skipped) groupFor(s.path).skipped.push(s)
+
+  const accounts = [...groups.values()]
+  const first = accounts[0]
+  if (!first || accounts.length === 1) {
+    return [{ label: first?.label ?? looseLabel, batch }]
+  }
+
+  first.batch.files.push(...loose.files)
+  first.batch.skipped.push(...loose.skipped)
+  // Los archivos ignorados (fotos, videos...) no se pueden atribuir a una cuenta: quedan en el primer espacio.
+  first.batch.ignoredCount = batch.ignoredCount
+  return accounts
+}
+
+function isEmpty(workspace: Workspace): boolean {
+  return workspace.files.length === 0 && workspace.skipped.length === 0
+}
+
+function withBatch(workspace: Workspace, account: AccountBatch): Workspace {
+  return {
+    ...workspace,
+    name: workspace.name ?? account.label,
+    files: mergeImportedFiles(workspace.files, account.batch.files),
+    skipped: account.batch.skipped,
+    ignoredCount: account.batch.ignoredCount,
+  }
+}
+
+/**
+ * Suma una tanda ya separada por cuenta a los espacios.
+ * - Una sola cuenta: va al espacio `targetId` (el que estaba activo al empezar la carga).
+ * - Varias: cada una va al espacio con su mismo nombre si ya existe; si no, la primera ocupa `targetId` cuando
+ *   está vacío y el resto abre espacios nuevos. Queda activo el espacio de la primera cuenta.
+ */
+export function distributeBatch(state: WorkspaceState, targetId: string, accounts: AccountBatch[]): WorkspaceState {
+  const workspaces = [...state.workspaces]
+  const targetIndex = Math.max(0, workspaces.findIndex((w) => w.id === targetId))
+
+  const [single] = accounts
+  if (accounts.length === 1 && single) {
+    const target = workspaces[targetIndex]
+    if (!target) return state
+    workspaces[targetIndex] = withBatch(target, single)
+    return { ...state, workspaces }
+  }
+
+  let activeId = state.activeId
+  accounts.forEach((account, i) => {
+    const label = account.label?.toLowerCase()
+    let index = label ? workspaces.findIndex((w) => w.name?.trim().toLowerCase() === label) : -1
+    const target = workspaces[targetIndex]
+    if (index < 0 && i === 0 && target && isEmpty(target)) index = targetIndex
+
+    const current = index >= 0 ? workspaces[index] : undefined
+    const next = withBatch(current ?? createWorkspace(), account)
+    if (index >= 0) workspaces[index] = next
+    else workspaces.push(next)
+    if (i === 0) activeId = next.id
+  })
+  return { workspaces, activeId }
+}
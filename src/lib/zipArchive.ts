@@ -0,0 +1,278 @@
+/**
+ * Lector (y escritor mínimo) de archivos ZIP en el navegador (sin dependencias).
+ *
+ * Relación con otros archivos:
+ * - Lo usa `src/lib/instagramExportZip.ts` para abrir el ZIP de "Descargar tu información" de Meta.
+ * - `src/lib/resultExport.ts` lo usa para armar el .xlsx de resultados.
+ *
+ * Alcance:
+ * - Lee el "central directory" para listar entradas (incluye ZIP64, común en exports grandes).
+ * - Descomprime entradas "stored" (método 0) y "deflate" (método 8) usando `DecompressionStream`,
+ *   también como stream (`openZipEntryStream`) para no tener el archivo entero en memoria.
+ * - No soporta ZIP cifrados ni ZIP multi-volumen (Meta no los genera).
+ * - También escribe ZIPs simples sin compresión (`createZipBlob`), usados para generar .xlsx.
+ *
+ * Nota de privacidad:
+ * - Todo se hace en memoria del navegador; nada se sube a ningún servidor.
+ */
+
+import { notice, NoticeError, type NoticeCode, type NoticeParams } from './notices'
+
+export type ZipEntry = {
+  /** Ruta completa dentro del ZIP (con `/` como separador). */
+  path: string
+  compressedSize: number
+  uncompressedSize: number
+  method: number
+  encrypted: boolean
+  localHeaderOffset: number
+}
+
+/** ZIP que no se puede leer; `notice` es el motivo traducible. */
+export class ZipFormatError extends NoticeError {
+  constructor(code: NoticeCode, params?: NoticeParams) {
+    super(notice(code, params))
+    this.name = 'ZipFormatError'
+  }
+}
+
+const SIG_EOCD = 0x06054b50
+const SIG_ZIP64_EOCD_LOCATOR = 0x07064b50
+const SIG_ZIP64_EOCD = 0x06064b50
+const SIG_CENTRAL_HEADER = 0x02014b50
+const SIG_LOCAL_HEADER = 0x04034b50
+
+const METHOD_STORED = 0
+const METHOD_DEFLATE = 8
+
+async function readBytes(blob: Blob, start: number, end: number): Promise<DataView> {
+  const buffer = await blob.slice(start, end).arrayBuffer()
+  return new DataView(buffer)
+}
+
+function readUint64(view: DataView, offset: number): number {
+  // Number es seguro hasta 2^53; ningún export de Meta se acerca a eso.
+  return Number(view.getBigUint64(offset, true))
+}
+
+/**
+ * Indica si los primeros bytes del archivo tienen la firma de un ZIP (`PK\x03\x04`).
+ */
+export async function hasZipSignature(blob: Blob): Promise<boolean> {
+  if (blob.size < 4) return false
+  const view = await readBytes(blob, 0, 4)
+  return view.getUint32(0, true) === SIG_LOCAL_HEADER
+}
+
+/**
+ * Lista las entradas del ZIP leyendo solo el final del archivo (no carga el ZIP entero en memoria).
+ */
+export async function readZipEntries(blob: Blob): Promise<ZipEntry[]> {
+  // El registro EOCD mide 22 bytes + comentario (máx. 65535 bytes).
+  const tailStart = Math.max(0, blob.size - (22 + 0xffff))
+  const tail = await readBytes(blob, tailStart, blob.size)
+
+  let eocdOffset = -1
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === SIG_EOCD) {
+      eocdOffset = i
+      break
+    }
+  }
+  if (eocdOffset < 0) throw new ZipFormatError('zip_not_a_zip')
+
+  let entryCount = tail.getUint16(eocdOffset + 10, true)
+  let cdSize = tail.getUint32(eocdOffset + 12, true)
+  let cdOffset = tail.getUint32(eocdOffset + 16, true)
+
+  // ZIP64: los campos del EOCD clásico vienen "saturados" y los valores reales están en el EOCD64.
+  if (entryCount === 0xffff || cdSize === 0xffffffff || cdOffset === 0xffffffff) {
+    const locatorOffset = eocdOffset - 20
+    if (locatorOffset < 0 || tail.getUint32(locatorOffset, true) !== SIG_ZIP64_EOCD_LOCATOR) {
+      throw new ZipFormatError('zip64_incomplete')
+    }
+    const eocd64Offset = readUint64(tail, locatorOffset + 8)
+    const eocd64 = await readBytes(blob, eocd64Offset, eocd64Offset + 56)
+    if (eocd64.getUint32(0, true) !== SIG_ZIP64_EOCD) {
+      throw new ZipFormatError('zip64_corrupt')
+    }
+    entryCount = readUint64(eocd64, 32)
+    cdSize = readUint64(eocd64, 40)
+    cdOffset = readUint64(eocd64, 48)
+  }
+
+  const cd = await readBytes(blob, cdOffset, cdOffset + cdSize)
+  const decoder = new TextDecoder('utf-8')
+  const entries: ZipEntry[] = []
+
+  let p = 0
+  for (let i = 0; i < entryCount; i++) {
+    if (p + 46 > cd.byteLength || cd.getUint32(p, true) !== SIG_CENTRAL_HEADER) {
+      throw new ZipFormatError('zip_corrupt')
+    }
+
+    const flags = cd.getUint16(p + 8, true)
+    const method = cd.getUint16(p + 10, true)
+    let compressedSize = cd.getUint32(p + 20, true)
+    let uncompressedSize = cd.getUint32(p + 24, true)
+    const nameLength = cd.getUint16(p + 28, true)
+    const extraLength = cd.getUint16(p + 30, true)
+    const commentLength = cd.getUint16(p + 32, true)
+    let localHeaderOffset = cd.getUint32(p + 42, true)
+
+    const nameBytes = new Uint8Array(cd.buffer, cd.byteOffset + p + 46, nameLength)
+    const path = decoder.decode(nameBytes)
+
+    // Campo extra ZIP64 (id 0x0001): solo trae los valores que vinieron saturados, en este orden.
+    let extra = p + 46 + nameLength
+    const extraEnd = extra + extraLength
+    while (extra + 4 <= extraEnd) {
+      const id = cd.getUint16(extra, true)
+      const size = cd.getUint16(extra + 2, true)
+      if (id === 0x0001) {
+        let q = extra + 4
+        if (uncompressedSize === 0xffffffff) {
+          uncompressedSize = readUint64(cd, q)
+          q += 8
+        }
+        if (compressedSize === 0xffffffff) {
+          compressedSize = readUint64(cd, q)
+          q += 8
+        }
+        if (localHeaderOffset === 0xffffffff) {
+          localHeaderOffset = readUint64(cd, q)
+        }
+      }
+      extra += 4 + size
+    }
+
+    entries.push({
+      path,
+      compressedSize,
+      uncompressedSize,
+      method,
+      encrypted: (flags & 0x1) === 0x1,
+      localHeaderOffset,
+    })
+
+    p += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+/**
+ * Indica si la entrada es una carpeta (en ZIP se representan con `/` final).
+ */
+export function isZipDirectory(entry: ZipEntry): boolean {
+  return entry.path.endsWith('/')
+}
+
+/**
+ * Abre una entrada como stream de bytes ya descomprimidos, sin cargarla entera en memoria.
+ */
+export async function openZipEntryStream(blob: Blob, entry: ZipEntry): Promise<ReadableStream<Uint8Array>> {
+  if (entry.encrypted) throw new ZipFormatError('zip_entry_encrypted', { path: entry.path })
+
+  // El header local puede tener nombre/extra distintos al del directorio central: hay que leerlo.
+  const header = await readBytes(blob, entry.localHeaderOffset, entry.localHeaderOffset + 30)
+  if (header.getUint32(0, true) !== SIG_LOCAL_HEADER) {
+    throw new ZipFormatError('zip_entry_bad_header', { path: entry.path })
+  }
+  const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true)
+  const compressed = blob.slice(dataStart, dataStart + entry.compressedSize)
+
+  if (entry.method === METHOD_STORED) {
+    return compressed.stream()
+  }
+
+  if (entry.method === METHOD_DEFLATE) {
+    if (typeof DecompressionStream === 'undefined') {
+      throw new ZipFormatError('zip_unsupported_browser')
+    }
+    return compressed.stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  }
+
+  throw new ZipFormatError('zip_unsupported_method', { path: entry.path, method: String(entry.method) })
+}
+
+/**
+ * Descomprime una entrada y devuelve sus bytes.
+ */
+export async function readZipEntryBytes(blob: Blob, entry: ZipEntry): Promise<Uint8Array> {
+  const stream = await openZipEntryStream(blob, entry)
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+export type ZipWriteEntry = {
+  path: string
+  data: Uint8Array
+}
+
+let crcTable: Uint32Array | null = null
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]!) & 0xff]! ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Crea un ZIP sin compresión (método "stored"). Alcanza para formatos contenedores como .xlsx,
+ * que son ZIPs de XML pequeños; no soporta archivos de más de 4 GB (no hace falta ZIP64).
+ */
+export function createZipBlob(entries: ZipWriteEntry[]): Blob {
+  const encoder = new TextEncoder()
+  const parts: BlobPart[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path)
+    const crc = crc32(entry.data)
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, SIG_LOCAL_HEADER, true)
+    local.setUint16(4, 20, true) // versión mínima
+    local.setUint16(6, 0x0800, true) // flag: nombres en UTF-8
+    local.setUint16(8, METHOD_STORED, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, entry.data.length, true)
+    local.setUint32(22, entry.data.length, true)
+    local.setUint16(26, name.length, true)
+    parts.push(local.buffer, name as BlobPart, entry.data as BlobPart)
+
+    const header = new DataView(new ArrayBuffer(46))
+    header.setUint32(0, SIG_CENTRAL_HEADER, true)
+    header.setUint16(4, 20, true)
+    header.setUint16(6, 20, true)
+    header.setUint16(8, 0x0800, true)
+    header.setUint16(10, METHOD_STORED, true)
+    header.setUint32(16, crc, true)
+    header.setUint32(20, entry.data.length, true)
+    header.setUint32(24, entry.data.length, true)
+    header.setUint16(28, name.length, true)
+    header.setUint32(42, offset, true)
+    central.push(new Uint8Array(header.buffer), name)
+
+    offset += 30 + name.length + entry.data.length
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0)
+  const eocd = new DataView(new ArrayBuffer(22))
+  eocd.setUint32(0, SIG_EOCD, true)
+  eocd.setUint16(8, entries.length, true)
+  eocd.setUint16(10, entries.length, true)
+  eocd.setUint32(12, centralSize, true)
+  eocd.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...(central as BlobPart[]), eocd.buffer], { type: 'application/zip' })
+}
@@ -0,0 +1,685 @@
+/**
+ * Textos en inglés. Mismas claves que `es.ts` (el tipo `Messages` avisa si falta alguna).
+ *
+ * Relación con otros archivos:
+ * - Lo carga `src/locales/index.ts`.
+ */
+
+import type { Messages } from './es'
+
+export const en: Messages = {
+  // Idioma
+  'lang.label': 'Language',
+
+  // Encabezado y pie
+  'app.title': 'IG Scanner',
+  'app.subtitle': 'Compare **following** vs **followers** using Instagram’s **official data export**.',
+  'app.badgesLabel': 'Product features',
+  'app.badgeNoLogin': 'No login',
+  'app.badgeNoScraping': 'No scraping',
+  'app.badgeFormats': 'JSON / HTML',
+  'app.badgePrivacy': 'Privacy: processed locally',
+  'app.ctaLabel': 'Main actions',
+  'app.tutorialTitle': 'Watch the tutorial on YouTube',
+  'app.tutorial': 'Watch tutorial (YouTube)',
+  'app.reset': 'Clear',
+  'app.footerLabel': 'Credits and social links',
+  'app.footerCreatedBy': 'Created by Cristian Cano',
+  'app.footerSocialLabel': 'Social links',
+  'app.footerPortfolio': 'Website / Portfolio',
+  'app.footerDonate': 'Donate (PayPal)',
+  'app.footerNote': 'If this tool saves you time, please consider supporting its development with a donation.',
+  'app.footerLegalLabel': 'Legal links',
+  'app.privacy': 'Privacy Policy',
+  'app.terms': 'Terms and Conditions',
+
+  // 1) Cargar archivos
+  'app.loadTitle': '1) Load files',
+  'app.importFailed': 'The files could not be processed.',
+  'app.nothingFound':
+    'No followers or following files were found. Upload your Instagram download (ZIP, folder or JSON/HTML): followers_* and following.',
+  'app.warningsTitle': 'Warnings:',
+  'app.warningInFile': '"{file}": {message}',
+  'help.summary': 'Where do I get these files on Instagram?',
+  'help.menusVary':
+    'Important: Instagram menus change by version/language. If you don’t see “Accounts Center”, use the **search** in Settings or open Accounts Center from your browser.',
+  'help.windowsNote':
+    'Note (Windows): even if File Explorer shows “Type: Chrome HTML Document”, you can upload it: this app supports `.html` and `.json` exports.',
+  'help.step1': 'Instagram → your profile → ☰ menu → **Settings and activity** (or “Settings and privacy”).',
+  'help.step2': 'In the Settings search, type: `download` / `information` / `data`.',
+  'help.step3': 'Open **Download your information** and select **Followers and following**.',
+  'help.step4':
+    'If you can’t find it in the app, try the browser: `accountscenter.meta.com` → “Your information and permissions” → “Download your information”.',
+  'help.step5': 'Download the **.zip** and drop it here as is. If you prefer to unzip it, upload the folder or files such as:',
+  'help.fileFollowers': '`followers_1.json` or `followers_1.html` (sometimes also `followers_2.*`, etc.)',
+  'help.fileFollowing': '`following.json` or `following.html`',
+  'help.zipPath': 'Tip: the usual path inside the zip is `connections/followers_and_following/`.',
+
+  // 2) Resultado
+  'app.resultTitle': '2) Result',
+  'app.needBothLists': 'Load followers and following to see the result.',
+  'app.incomplete': 'Some files from the checklist above are missing; the result may be incomplete.',
+  'app.computeAnyway': 'Calculate anyway',
+  'app.startReview': 'Review “Not following back” one by one',
+  'app.startReviewHint': 'Open each profile, decide and mark it; your progress is saved on this device.',
+  'app.footnote':
+    'Note: this app does not “unfollow” automatically; it only helps you find and open profiles so you can do it manually.',
+  'tab.notFollowingBack': 'Not following back',
+  'tab.notFollowingBackEmpty': 'Everyone you follow follows you back (according to the loaded files).',
+  'tab.fans': 'Fans (you don’t follow)',
+  'tab.fansEmpty': 'You follow back all your followers.',
+  'tab.mutuals': 'Mutuals',
+  'tab.mutualsEmpty': 'There are no mutual followers in the loaded files.',
+  'tab.listEmpty': 'This list is empty in the export.',
+
+  // 3) Estadísticas
+  'app.statsTitle': '3) Statistics',
+  'app.statsIntro':
+    'Using the export dates (JSON): how many follow you back, how your account grew month by month and whether the accounts you followed long ago follow you or not.',
+
+  // 4) Mantener, 5) Historial, 6) Comparar, 7) Audiencia entre cuentas, 8) Copia de seguridad
+  'app.keepTitle': '4) Accounts to keep (optional, only on this device)',
+  'app.keepIntro':
+    'Mark the accounts you follow on purpose even if they don’t follow you (media, brands, artists) and they will no longer appear in “Not following back”. They are saved in the browser (IndexedDB); export the list to share it with your team.',
+  'app.historyTitle': '5) History (optional, only on this device)',
+  'app.historyIntro':
+    'Save a snapshot of your lists to compare it with future exports and see who unfollowed you. It is saved in the browser (IndexedDB), never on a server, and you can delete it whenever you want.',
+  'app.compareTitle': '6) Compare two exports (nothing is saved)',
+  'app.compareIntro':
+    'Load an old and a new export (one can be JSON and the other HTML) to see what changed between them. Nothing is saved: it disappears when you reload the page.',
+  'app.overlapTitle': '7) Audience across your accounts',
+  'app.overlapIntro':
+    'If you run several accounts (personal, brand, side project), load each export into its own workspace above and compare who follows one but not the other, or both. Everything stays on this page.',
+  'app.dataTitle': '8) Backup and wipe',
+  'app.dataIntro':
+    'Move your history, “keep” list and review progress to another device with an encrypted file, no server involved. Or wipe everything the app saved here.',
+
+  // Texto antes de la fecha de cada fila
+  'date.followedOn': 'You followed on',
+  'date.followsYouSince': 'Follows you since',
+  'date.followedYouSince': 'Followed you since',
+  'date.requestSentOn': 'Request sent on',
+  'date.requestReceivedOn': 'Request received on',
+  'date.unfollowedOn': 'You unfollowed on',
+  'date.addedOn': 'Added on',
+  'date.hiddenSince': 'Hidden since',
+  'date.restrictedOn': 'Restricted on',
+  'date.blockedOn': 'Blocked on',
+  'date.suggestionRemovedOn': 'Suggestion removed on',
+  'date.generic': 'Date:',
+
+  // Listas
+  'kind.followers': 'Followers',
+  'kind.following': 'Following',
+  'kind.close_friends': 'Close friends',
+  'kind.blocked': 'Blocked',
+  'kind.restricted': 'Restricted',
+  'kind.follow_requests_sent': 'Pending requests (sent)',
+  'kind.recent_follow_requests': 'Recently sent requests',
+  'kind.follow_requests_received': 'Received requests',
+  'kind.recently_unfollowed': 'Recently unfollowed',
+  'kind.removed_suggestions': 'Removed suggestions',
+  'kind.hide_story_from': 'Story hidden from',
+  'kind.followed_hashtags': 'Followed hashtags',
+  'kind.other': 'Other list',
+  'kind.unclassified': 'Unclassified',
+
+  // Variantes de esquema
+  'schema.string_list_value': 'Classic JSON (string_list_data.value)',
+  'schema.title_string_list': 'JSON with the username in "title"',
+  'schema.string_list_href': 'JSON with links only (href)',
+  'schema.label_values': 'Accounts Center JSON (label_values)',
+  'schema.connections_map': 'connections.json (old export)',
+  'schema.html': 'HTML',
+  'schema.mixed': 'JSON with mixed shapes',
+  'schema.empty': 'Empty list',
+  'schema.pasted_lines': 'Pasted list (one username per line)',
+  'schema.pasted_csv': 'Pasted list (CSV column)',
+  'schema.pasted_text': 'Pasted list (free text)',
+
+  // Zona de carga y progreso
+  'drop.title': 'Drop the .zip, the unzipped folder or individual files here',
+  'drop.hint': 'We detect each file on our own: `followers_*`, `following` and other lists (JSON or HTML).',
+  'drop.chooseFiles': 'Choose files or .zip',
+  'drop.chooseFolder': 'Choose folder',
+  'progress.processing': 'Processing files…',
+  'progress.cancel': 'Cancel',
+  'progress.ariaLabel': 'Progress of {path}',
+  'progress.read': '{loaded} of {total}',
+  'progress.pending': 'Queued',
+  'progress.reading': 'Reading',
+  'progress.parsing': 'Parsing',
+  'progress.done': 'Done',
+  'progress.skipped': 'Skipped',
+
+  // Listas pegadas o importadas de otra herramienta
+  'paste.summary': "Don't have the export? Paste or import a list of accounts",
+  'paste.intro':
+    'A spreadsheet column, another tool\'s CSV or the text copied from the followers list on instagram.com all work. Choose whether they are your followers or the accounts you follow.',
+  'paste.kind': 'This list is my',
+  'paste.textLabel': 'Paste the list here',
+  'paste.chooseFile': 'Import .csv or .txt',
+  'paste.fileFailed': 'The file could not be read.',
+  'paste.mode': 'How to read it',
+  'paste.modeAuto': 'Automatic ({mode})',
+  'paste.mode.lines': 'One username per line',
+  'paste.mode.csv': 'CSV (one column)',
+  'paste.mode.text': 'Free text',
+  'paste.modeHint.lines':
+    'Each line may hold `@username`, `username` or the profile link (several per line, separated by commas or spaces).',
+  'paste.modeHint.csv': 'Only the chosen column is read; the other columns are ignored.',
+  'paste.modeHint.text':
+    'Mentions (`@username`) and profile links are read. In text copied from instagram.com, names and buttons are skipped.',
+  'paste.column': 'Column with the usernames',
+  'paste.columnNumber': 'Column {number}',
+  'paste.hasHeader': 'The first row is a header',
+  'paste.read': { one: '**{count}** username read.', other: '**{count}** usernames read.' },
+  'paste.duplicates': { one: '{count} repeat is not counted twice.', other: '{count} repeats are not counted twice.' },
+  'paste.ignored': {
+    one: '{count} line was skipped (header, names or buttons).',
+    other: '{count} lines were skipped (header, names or buttons).',
+  },
+  'paste.rejected': {
+    one: '{count} line could not be read as a username. Fix it in the box above or leave it out:',
+    other: '{count} lines could not be read as usernames. Fix them in the box above or leave them out:',
+  },
+  'paste.rejectedLabel': 'Lines that could not be read',
+  'paste.rejectedMore': { one: 'And {count} more line.', other: 'And {count} more lines.' },
+  'paste.line': 'Line {line}:',
+  'paste.name': 'List name',
+  'paste.defaultName': 'Pasted list {number}',
+  'paste.add': 'Add as {kind}',
+  'paste.added': {
+    one: 'Added **{name}** as {kind} ({count} account).',
+    other: 'Added **{name}** as {kind} ({count} accounts).',
+  },
+  'paste.replaces': 'There is already a list called **{name}**: adding this one replaces it.',
+
+  // Checklist de archivos
+  'checklist.ariaLabel': 'File checklist',
+  'checklist.accounts': { one: '{count} account', other: '{count} accounts' },
+  'checklist.kindAriaLabel': 'Type of {name}',
+  'checklist.remove': 'Remove',
+  'checklist.skippedSummary': { one: '{count} file checked and skipped', other: '{count} files checked and skipped' },
+  'checklist.ignored': '{count} other items (photos, videos, folders) were ignored without opening them.',
+  'detectedBy.content': 'by content',
+  'detectedBy.name': 'by name',
+  'detectedBy.title': 'by page title',
+  'detectedBy.manual': 'set manually',
+  'pwa.updateAvailable': 'A new version of the app is available.',
+  'pwa.update': 'Update',
+  'pwa.later': 'Later',
+  'pwa.offlineReady': 'Done: the app now works offline on this device.',
+  'pwa.dismiss': 'Close',
+  'route.loading': 'Loading…',
+  'route.notFoundTitle': 'Page not found',
+  'route.notFoundText': 'The address **{path}** does not exist. Your loaded files are still here.',
+  'route.home': 'Back to the scanner',
+  'cli.usage': [
+    'Usage: escaner-ig [options] <export.zip | folder | files...>',
+    '',
+    'Reads the official Instagram export with the same parsers as the web app, without internet access,',
+    "and shows who doesn't follow you back, your fans and your mutuals.",
+    '',
+    'Options:',
+    '  -f, --format <table|csv|json>  Output format (default: table).',
+    '  -l, --list <id>                Only this list (repeatable): notFollowingBack, fans, mutuals and, with',
+    '                                 --compare, newFollowers, lostFollowers, newFollowing, stoppedFollowingBack.',
+    '  -c, --compare <path>           Previous export (ZIP, folder or file; repeatable) to see what changed.',
+    '  -o, --out <file>               Write the result to a file instead of printing it.',
+    '      --allow-incomplete         Compute even if checklist files are missing (e.g. followers_2.json).',
+    '      --lang <es|en|pt>          Message language (default: the system language).',
+    '  -q, --quiet                    Do not print notices or the checklist (errors are still printed).',
+    '  -h, --help                     Show this help.',
+    '',
+    'Exit codes: 0 = done, 1 = unexpected error, 2 = invalid arguments or paths,',
+    '3 = followers/following or export files are missing.',
+  ].join('\n'),
+  'cli.badArguments': 'Invalid arguments: {message}\nUse --help to see the options.',
+  'cli.invalidValue': 'Invalid value for {option}: "{value}". Options: {allowed}.',
+  'cli.noInputs': 'Provide at least one export (ZIP, folder or files). Use --help to see the options.',
+  'cli.pathNotFound': 'Does not exist or cannot be read: {path}',
+  'cli.skipped': '"{path}" was skipped: {reason}',
+  'cli.missingLists': 'No followers and following found in: {paths}',
+  'cli.incomplete': 'Files are missing according to the checklist; the result might be incomplete. Use --allow-incomplete to compute anyway.',
+  'cli.usernameHeader': 'Username',
+  'cli.written': 'Result saved to {path}.',
+  'cli.unexpectedError': 'Unexpected error: {message}',
+  'diagnostics.summary': { one: 'Diagnostics for {count} file', other: 'Per-file diagnostics ({count})' },
+  'diagnostics.withNotices': { one: '{count} with notices', other: '{count} with notices' },
+  'diagnostics.intro':
+    'What the scanner read in each file. If something looks off, copy the report and attach it when you report the problem: it contains no usernames.',
+  'diagnostics.copy': 'Copy report',
+  'diagnostics.copied': 'Report copied (no usernames).',
+  'diagnostics.copyFailed': 'Could not copy: the browser did not allow clipboard access.',
+  'diagnostics.status.parsed': 'read',
+  'diagnostics.status.failed': 'could not be read',
+  'diagnostics.status.skipped': 'skipped',
+  'diagnostics.notParsed': 'The file could not be read, so no entries were checked.',
+  'diagnostics.counts': 'Entries checked: {seen} · Usernames extracted: {extracted} · Discarded: {skipped}',
+  'diagnostics.skip.unrecognized': 'Unknown shape: {count}',
+  'diagnostics.skip.duplicate': 'Duplicates: {count}',
+  'diagnostics.skip.no_username': 'No username: {count}',
+  'diagnostics.skip.invalid_username': 'Invalid username: {count}',
+  'diagnostics.skip.reserved_path': 'Links that are not profiles: {count}',
+  'diagnostics.skip.outside_list': 'Outside the list: {count}',
+
+  // Resultados
+  'results.tabsLabel': 'Result lists',
+  'results.downloadAll': 'Download all lists:',
+  'results.jsonTitle': 'Includes date, source files, counts and warnings',
+  'results.xlsx': 'Excel (.xlsx)',
+  'results.xlsxTitle': 'One sheet per list',
+  'results.exportAllName': 'results',
+  'results.sheetName': 'List {number}',
+  'report.anonymize': 'Report:',
+  'report.anonymizeLabel': 'Usernames in the report',
+  'report.mode.none': 'With usernames',
+  'report.mode.mask': 'Masked usernames (m•••z)',
+  'report.mode.hash': 'Pseudonyms (hash)',
+  'report.html': 'HTML report',
+  'report.htmlTitle': 'A single file that opens offline: counts, lists, export date and warnings',
+  'report.print': 'Print / PDF',
+  'report.printTitle': 'Opens the print dialog; choose “Save as PDF” to get a PDF',
+  'report.fileName': 'report',
+  'report.failed': 'Could not generate the report.',
+  'report.title': 'Escáner IG report',
+  'report.generated': 'Generated',
+  'report.exportDate': 'Export date',
+  'report.counts': 'Summary',
+  'report.sources': 'Source files',
+  'report.warnings': 'Import warnings',
+  'report.username': 'Username',
+  'report.printButton': 'Print / save as PDF',
+  'report.anonymizedMask': 'Anonymized report: usernames are masked and there are no profile links.',
+  'report.anonymizedHash':
+    'Anonymized report: each account appears under a pseudonym unique to this report and there are no profile links.',
+  'report.footer': 'Generated with Escáner IG from the official Instagram export, in the browser.',
+  'results.search': 'Search',
+  'results.searchPlaceholder': '@username',
+  'results.sort': 'Sort',
+  'results.sortAlpha': 'Alphabetical',
+  'results.sortOldest': 'Oldest first',
+  'results.sortNewest': 'Newest first',
+  'results.sortMembership': 'In most lists first',
+  'results.before': 'Date before',
+  'results.noDates': 'The loaded files have no dates (this usually happens with the HTML export).',
+  'results.showKept': 'Show accounts to keep ({count})',
+  'results.selectVisible': 'Select visible',
+  'results.clearSelection': 'Clear selection',
+  'results.copyTitle': 'Copy @usernames to the clipboard (the selection, or the whole visible list)',
+  'results.copyList': 'Copy list',
+  'results.copySelection': 'Copy selection ({count})',
+  'results.csvTitle': 'Download the selection, or the visible list (with search, sort and filter), as CSV',
+  'results.downloadCsv': 'Download CSV',
+  'results.downloadSelection': 'Download selection ({count})',
+  'results.keepSelection': 'Keep selection',
+  'results.keepSelectionCount': 'Keep selection ({count})',
+  'results.keepSelectionTitle': 'Mark the selected accounts as accounts you follow on purpose',
+  'results.total': 'Total: **{count}**',
+  'results.totalOf': 'Total: **{count}** of {total}',
+  'results.selectedCount': ' · {count} selected',
+  'results.hiddenKept': ' · {count} hidden because they are in "keep"',
+  'results.noMatches': 'No account matches the search or filter.',
+  'results.selectAccount': 'Select @{username}',
+  'results.alsoIn': 'Also in: {lists}',
+  'results.keptTag': 'Keep',
+  'results.keep': 'Keep',
+  'results.unkeep': 'Don’t keep',
+  'results.keepTitle': 'You follow it on purpose: hide it from "Not following back"',
+  'results.unkeepTitle': 'Remove from the "keep" list',
+  'results.openProfile': 'Open profile',
+
+  // Mantener
+  'keep.pasteLabel': 'Paste usernames or profile links (one per line, or separated by commas)',
+  'keep.add': 'Add to the list',
+  'keep.importFile': 'Import file',
+  'keep.exportFile': 'Export list',
+  'keep.exportName': 'keep',
+  'keep.clear': 'Delete all',
+  'keep.confirmClear': 'Delete the whole list of accounts to keep from this device?',
+  'keep.added': { one: '{count} account added.', other: '{count} accounts added.' },
+  'keep.repeated': { one: '{count} was already on the list.', other: '{count} were already on the list.' },
+  'keep.invalid': 'Not usernames ({count}): {sample}',
+  'keep.fileFailed': 'The file could not be read.',
+  'keep.loadFailed': 'The local list could not be read.',
+  'keep.saveFailed': 'The local list could not be saved.',
+  'keep.empty': 'You haven’t marked any account yet.',
+  'keep.count': { one: '**{count}** account to keep.', other: '**{count}** accounts to keep.' },
+  'keep.listLabel': 'Accounts to keep',
+  'keep.remove': 'Remove',
+
+  // Revisión guiada
+  'review.ariaLabel': 'Guided review',
+  'review.loading': 'Loading progress…',
+  'review.progress': 'Reviewed **{done}** of {total} · pending {pending}',
+  'review.lastHour': ' · you unfollowed {count} in the last hour',
+  'review.followedOn': 'You followed on {date}',
+  'review.skippedBefore': ' · you skipped it before',
+  'review.open': 'Open profile (O)',
+  'review.wait': 'Wait {seconds} s',
+  'review.unfollowed': 'I unfollowed it (U)',
+  'review.keep': 'Keep (K)',
+  'review.skip': 'Skip (S)',
+  'review.undo': 'Undo (Z)',
+  'review.pause':
+    'Take it easy: Instagram may limit your account if you unfollow many accounts in a row. Next one in {seconds} s.',
+  'review.skipPause': 'Continue without waiting',
+  'review.finished': 'There are no accounts left to review in “Not following back”.',
+  'review.finishedUndo': ' You can undo the last decision with Z.',
+  'review.pacing': 'Pause after each “unfollowed”',
+  'review.noPacing': 'No pause',
+  'review.seconds': '{count} seconds',
+  'review.reset': 'Reset progress',
+  'review.confirmReset': 'Delete the review progress? Accounts marked as "keep" are not touched.',
+  'review.close': 'Exit review (Esc)',
+  'review.shortcuts': 'Shortcuts:',
+  'review.shortcutOpen': 'open profile',
+  'review.shortcutUnfollowed': 'I unfollowed it',
+  'review.shortcutKeep': 'keep',
+  'review.shortcutSkip': 'skip',
+  'review.shortcutUndo': 'undo',
+  'review.manualNote': 'The app doesn’t unfollow anyone for you: open the profile, do it on Instagram and mark it here.',
+  'review.loadFailed': 'The saved progress could not be read.',
+  'review.saveFailed': 'The decision could not be saved.',
+  'review.undoFailed': 'It could not be undone.',
+  'review.resetFailed': 'The progress could not be reset.',
+
+  // Historial
+  'history.namePlaceholder': 'Snapshot name (e.g. March export)',
+  'history.save': 'Save snapshot',
+  'history.defaultName': 'Export of {date}',
+  'history.needLists': 'Load followers and following to be able to save a snapshot.',
+  'history.loadFailed': 'The local history could not be read.',
+  'history.saveFailed': 'The snapshot could not be saved.',
+  'history.empty': 'There are no snapshots saved on this device yet.',
+  'history.counts': '{date} · {followers} followers · {following} following',
+  'history.delete': 'Delete',
+  'history.from': 'Compare from',
+  'history.to': 'to',
+  'history.choose': 'Choose a snapshot',
+  'history.clear': 'Delete the whole history',
+  'history.confirmClear': 'Delete all snapshots saved on this device?',
+  'history.source': 'snapshot: {name}',
+
+  // Espacios de trabajo (una cuenta por espacio) y audiencia entre cuentas
+  'workspace.tabsLabel': 'Loaded accounts',
+  'workspace.defaultName': 'Account {n}',
+  'workspace.files': { one: '{count} file', other: '{count} files' },
+  'workspace.add': '+ Another account',
+  'workspace.name': 'Name of this account',
+  'workspace.remove': 'Remove this account',
+  'workspace.confirmRemove': 'Remove “{name}” and its loaded files?',
+  'workspace.splitNotice': {
+    one: 'The upload contained {count} account.',
+    other: 'The upload contained {count} accounts: each one went into its own workspace (tabs above).',
+  },
+  'overlap.needTwo': 'Load followers or following for at least two accounts (“+ Another account” button above) to compare them.',
+  'overlap.accountA': 'Account A',
+  'overlap.accountB': 'Account B',
+  'overlap.list': 'Compare',
+  'overlap.listFollowers': 'Followers',
+  'overlap.listFollowing': 'Following',
+  'overlap.missingList': '“{account}” is missing that list; the comparison treats it as empty.',
+  'overlap.diagramLabel': 'Only {a}: {onlyA}; both: {both}; only {b}: {onlyB}',
+  'overlap.bothShort': 'Both',
+  'overlap.similarity': 'Overlap: {percent}% of the distinct accounts are in both.',
+  'overlap.followersOnly': 'Follow {account} but not {other}',
+  'overlap.followersBoth': 'Follow both',
+  'overlap.followingOnly': '{account} follows them, {other} does not',
+  'overlap.followingBoth': 'Followed by both',
+  'overlap.followersDate': 'Follows {account} since',
+  'overlap.followingDate': '{account} followed on',
+  'overlap.empty': 'No accounts in this area.',
+
+  // Comparar dos exports y pestañas de diferencias
+  'compare.older': 'Old export',
+  'compare.newer': 'New export',
+  'compare.olderSource': 'old: {path}',
+  'compare.newerSource': 'new: {path}',
+  'compare.needLists': 'Load followers and following on both sides to see what changed.',
+  'compare.clear': 'Clear comparison',
+  'diff.newFollowers': 'New followers',
+  'diff.newFollowersEmpty': 'There are no new followers between the two versions.',
+  'diff.lostFollowers': 'Unfollowed you',
+  'diff.lostFollowersEmpty': 'Nobody unfollowed you between the two versions.',
+  'diff.newFollowing': 'Newly followed',
+  'diff.newFollowingEmpty': 'You didn’t start following anyone between the two versions.',
+  'diff.stoppedFollowingBack': 'No longer follow you back',
+  'diff.stoppedFollowingBackEmpty': 'All mutuals are still mutuals.',
+
+  // Estadísticas
+  'stats.needResults': 'Statistics show up together with the result (section 2).',
+  'stats.excludeKept': 'Leave out the accounts to keep ({count})',
+  'stats.since': 'Since',
+  'stats.following': 'Following',
+  'stats.followers': 'Followers',
+  'stats.followBackRatio': 'follow you back ({count} of {total})',
+  'stats.referenceToday': 'Ages are counted from **today** (the ZIP name does not include the export date).',
+  'stats.referenceExport': 'Ages are counted from the export date: **{date}**.',
+  'stats.undated': {
+    one: '{count} account without a date (e.g. HTML export) is left out of the charts.',
+    other: '{count} accounts without a date (e.g. HTML export) are left out of the charts.',
+  },
+  'stats.monthlyTitle': 'Follows and new followers per month',
+  'stats.monthlyLabel': 'Bar chart: follows and new followers over {months} months.',
+  'stats.monthTooltip': '{month}: you followed {follows}, {followers} started following you',
+  'stats.follows': 'You followed',
+  'stats.newFollowers': 'Started following you',
+  'stats.showData': 'Show the data',
+  'stats.month': 'Month',
+  'stats.ageTitle': 'How many don’t follow you back, by how long ago you followed them',
+  'stats.ageLabel': 'Bar chart: share of followed accounts that don’t follow you back, by how long ago you followed them.',
+  'stats.ageShare': '{percent}% ({count} of {total})',
+  'stats.age.month': '< 1 month',
+  'stats.age.quarter': '1–3 months',
+  'stats.age.halfYear': '3–6 months',
+  'stats.age.year': '6–12 months',
+  'stats.age.twoYears': '1–2 years',
+  'stats.age.older': 'Over 2 years',
+  'stats.followedAgo': 'Followed',
+  'stats.notFollowingBack': 'Not following back',
+  'stats.oldest': 'Followed the longest',
+  'stats.newest': 'Most recently followed',
+  'stats.noFollowDates': 'No followed account has a date.',
+  'stats.noDates': 'This export has no dates (e.g. HTML), so there are no charts.',
+
+  // Copia de seguridad y borrado
+  'backup.exportTitle': 'Save a backup',
+  'backup.exportHint':
+    'Includes the history, the accounts to keep, the review progress and the language. It does not include the files loaded on this page.',
+  'backup.passphrase': 'Passphrase to encrypt',
+  'backup.passphraseConfirm': 'Repeat the passphrase',
+  'backup.passphraseHint': 'At least {min} characters. Without this passphrase the backup cannot be opened: there is no way to recover it.',
+  'backup.passphraseShort': 'The passphrase needs at least {min} characters.',
+  'backup.passphraseMismatch': 'The two passphrases do not match.',
+  'backup.download': 'Download encrypted backup',
+  'backup.encrypting': 'Encrypting…',
+  'backup.fileName': 'backup',
+  'backup.exported': 'Backup downloaded. Keep the passphrase separately: without it the file cannot be opened.',
+  'backup.exportFailed': 'Could not create the backup.',
+  'backup.importTitle': 'Restore a backup',
+  'backup.chooseFile': 'Choose backup file',
+  'backup.fileChosen': 'File: **{name}**',
+  'backup.passphraseImport': 'Backup passphrase',
+  'backup.strategy': 'What to do with the data already on this device',
+  'backup.strategy.merge': 'Merge: add what is in the backup and keep what is here',
+  'backup.strategy.replace': 'Replace: delete what is here and keep only the backup',
+  'backup.restore': 'Restore',
+  'backup.decrypting': 'Decrypting…',
+  'backup.confirmReplace':
+    'Delete the history, the “keep” list and the review progress on this device and replace them with the backup?',
+  'backup.restored':
+    'Backup restored. Snapshots: **{snapshots}** · Accounts to keep: **{keep}** · Review decisions: **{review}**.',
+  'backup.merged':
+    'Backup merged. New or updated: snapshots **{snapshots}** · accounts to keep **{keep}** · review decisions **{review}**.',
+  'backup.importFailed': 'Could not restore the backup.',
+  'backup.wipeTitle': 'Wipe everything on this device',
+  'backup.wipeHint':
+    'Deletes the history, the “keep” list, the review progress and the chosen language, and discards the files loaded on this page. The offline copy of the app stays (it holds none of your data).',
+  'backup.wipe': 'Wipe everything',
+  'backup.confirmWipe': 'Delete all Escáner IG data on this device? This cannot be undone unless you have a backup.',
+  'backup.wipeFailed': 'Could not wipe everything.',
+
+  // Avisos de parsers y pipeline
+  'notice.json_nonstandard_key': 'Non-standard format: extracted from "{key}".',
+  'notice.json_list_no_usernames': '{kind} was detected, but no usernames could be extracted.',
+  'notice.json_list_unrecognized_entries': {
+    one: '{kind}: {count} entry with an unknown shape was ignored.',
+    other: '{kind}: {count} entries with an unknown shape were ignored.',
+  },
+  'notice.json_array_no_usernames': 'The JSON is an array, but no usernames could be extracted.',
+  'notice.json_array_unrecognized_entries': {
+    one: '{count} entry with an unknown shape was ignored.',
+    other: '{count} entries with an unknown shape were ignored.',
+  },
+  'notice.json_unknown_format': 'Unrecognized JSON format for followers/following.',
+  'notice.json_invalid': 'It could not be parsed as JSON. Make sure you upload the original *.json from the ZIP.',
+  'notice.json_invalid_at':
+    'It could not be parsed as JSON: the error is on line {line}, column {column}. Make sure you upload the original *.json from the ZIP.',
+  'notice.html_no_structure':
+    'The page structure was not recognized (there are no list rows). Is it an HTML file from the Instagram export?',
+  'notice.html_no_usernames':
+    'No usernames could be extracted from the HTML. If Instagram lets you choose the format, try JSON.',
+  'notice.html_unreadable_dates': {
+    one: 'The date of {count} account could not be read (e.g. "{example}").',
+    other: 'The date of {count} accounts could not be read (e.g. "{example}").',
+  },
+  'notice.html_rejected_outside_list': {
+    one: '{count} link outside the list was discarded.',
+    other: '{count} links outside the list were discarded.',
+  },
+  'notice.html_rejected_reserved_path': {
+    one: '{count} Instagram path that is not a profile was discarded.',
+    other: '{count} Instagram paths that are not profiles were discarded.',
+  },
+  'notice.html_rejected_invalid_username': {
+    one: '{count} text that is not a valid username was discarded.',
+    other: '{count} texts that are not valid usernames were discarded.',
+  },
+  'notice.html_rejected_no_username': {
+    one: '{count} row without a username was discarded.',
+    other: '{count} rows without a username were discarded.',
+  },
+  'notice.html_rejected_duplicate': {
+    one: '{count} repeated username was discarded.',
+    other: '{count} repeated usernames were discarded.',
+  },
+  'notice.name_content_mismatch': 'The name suggests "{nameKind}" but the content is "{detectedKind}". The content was used.',
+  'notice.name_title_mismatch':
+    'The name suggests "{nameKind}" but the page title says "{detectedKind}". The name was used.',
+  'notice.skip_too_large': 'File too large to check its content.',
+  'notice.skip_read_failed': 'The file could not be read.',
+  'notice.skip_invalid_json': 'Not valid JSON.',
+  'notice.skip_invalid_json_at': 'Not valid JSON (line {line}, column {column}).',
+  'notice.skip_not_relationship_json': 'It contains no followers/following lists.',
+  'notice.skip_not_relationship_html': 'The HTML page is not a known account list.',
+  'notice.skip_unzip_failed': 'It could not be unzipped. {error}',
+  'notice.skip_zip_failed': 'The ZIP could not be opened. {error}',
+  'notice.zip_not_a_zip': 'It doesn’t look like a valid ZIP (the central directory was not found).',
+  'notice.zip64_incomplete': 'Incomplete ZIP64: the central directory locator is missing.',
+  'notice.zip64_corrupt': 'Invalid ZIP64: corrupt central directory.',
+  'notice.zip_corrupt': 'Corrupt ZIP central directory.',
+  'notice.zip_entry_encrypted': '"{path}" is encrypted and cannot be read.',
+  'notice.zip_entry_bad_header': 'Invalid local header for "{path}".',
+  'notice.zip_unsupported_browser': 'This browser cannot unzip files. Unzip it manually and upload the files.',
+  'notice.zip_unsupported_method': '"{path}" uses an unsupported compression method ({method}).',
+  'notice.checklist_followers_loaded': {
+    one: 'Followers loaded ({files} file(s), {count} account)',
+    other: 'Followers loaded ({files} file(s), {count} accounts)',
+  },
+  'notice.checklist_followers_missing': 'Followers missing: followers_1.json or followers_1.html',
+  'notice.checklist_following_loaded': {
+    one: 'Following loaded ({files} file(s), {count} account)',
+    other: 'Following loaded ({files} file(s), {count} accounts)',
+  },
+  'notice.checklist_following_missing': 'Following missing: following.json or following.html',
+  'notice.checklist_missing_part': '{name} is not loaded, but {after} is (a part is missing)',
+  'notice.checklist_unclassified': {
+    one: '{count} unclassified file: tell us which list it is',
+    other: '{count} unclassified files: tell us which list each one is',
+  },
+  'notice.compare_different_owners':
+    'The exports seem to belong to different accounts (@{older} and @{newer}). The result would not make sense.',
+  'notice.compare_low_overlap':
+    'Only {percent}% of the accounts match between both exports. Are you sure they belong to the same account?',
+  'notice.compare_reversed': 'The "old" export has newer dates than the "new" one. Did you load them the other way around?',
+  'notice.keep_file_bad_json': 'The file looks like JSON but could not be read.',
+  'notice.keep_file_no_list': 'The JSON has no list of accounts.',
+  'notice.backup_not_backup': 'The file is not an Escáner IG backup.',
+  'notice.backup_newer_version': 'The backup uses a newer format version ({version}). Update the app to open it.',
+  'notice.backup_wrong_passphrase': 'Could not decrypt: the passphrase is wrong or the file was modified.',
+  'notice.backup_corrupt': 'The backup is damaged or incomplete.',
+  'notice.local_db_unavailable': 'This browser cannot store local data (IndexedDB is not available).',
+  'notice.local_db_open_failed': 'The local database could not be opened.',
+  'notice.local_db_failed': 'The local data could not be read or saved.',
+  'notice.local_db_aborted': 'The operation on the local data was cancelled.',
+  'notice.import_cancelled': 'Import cancelled.',
+  'notice.import_worker_failed': 'The files could not be processed in the background.',
+  'notice.import_unknown_error': 'Unknown error while processing the files.',
+  'notice.launch_files_unreadable':
+    'The files opened with the app could not be read (they may have been moved, or permission was denied).',
+
+  // Error inesperado
+  'error.title': 'Oops, something went wrong',
+  'error.body': 'If you were opening “Privacy” or “Terms”, reload the page. If it persists, let the creator know.',
+  'error.unknown': 'Unknown error',
+  'error.reload': 'Reload',
+  'error.home': 'Back to start',
+
+  // Páginas legales
+  'legal.privacyTitle': 'Privacy Policy',
+  'legal.termsTitle': 'Terms and Conditions (Terms of use)',
+  'legal.effective': 'Effective: **{date}**',
+  'legal.back': 'Back to the scanner',
+  'legal.privacy.summaryTitle': 'Summary (in plain words)',
+  'legal.privacy.summary1': 'This app processes your Instagram files **in your browser**.',
+  'legal.privacy.summary2': 'We don’t ask for your password, we don’t log in, and we don’t use private APIs/scraping.',
+  'legal.privacy.summary3': 'We don’t upload your files to a server (unless you implement/enable it in the future).',
+  'legal.privacy.collectTitle': 'What data we collect',
+  'legal.privacy.collect':
+    'By default, we **don’t collect** personal data on a server. The files you upload are read locally to extract only the **usernames** needed to compare lists.',
+  'legal.privacy.storeTitle': 'What data we store',
+  'legal.privacy.store':
+    'The app **doesn’t store** your lists in the cloud. By default it doesn’t store anything on your device either: when you reload the page, the loaded data disappears.',
+  'legal.privacy.storeHistory':
+    'If you use the **History**, the relationship lists (usernames, profile link and date) are saved as snapshots in your browser’s local storage (IndexedDB), only on that device. The original files are never saved. You can delete each snapshot separately or the whole history from the same section; clearing the site data in your browser also deletes them.',
+  'legal.privacy.storeKeep':
+    'If you mark **accounts to keep**, those usernames (and the date you marked them) are also saved in IndexedDB, only on that device. You can remove each account or delete the whole list from its section.',
+  'legal.privacy.storeReview':
+    'The **guided review** saves in IndexedDB which accounts you marked as “unfollowed” or skipped, so you can pick up where you left off. You can delete it with “Reset progress”.',
+  'legal.privacy.storeLocale':
+    'If you choose a **language** manually, that preference is saved in the browser’s local storage (localStorage).',
+  'legal.privacy.deleteTitle': 'How to delete your data',
+  'legal.privacy.delete':
+    'You can delete each thing from its section, or everything at once with **Wipe everything on this device**. Before that, if you want, save an encrypted backup to move it to another device.',
+  'legal.privacy.deleteLink': 'Go to backup and wipe',
+  'legal.privacy.shareTitle': 'Sharing with third parties',
+  'legal.privacy.share':
+    'We don’t sell or share your data with third parties. This repository uses no tracking tools by default.',
+  'legal.privacy.securityTitle': 'Security',
+  'legal.privacy.security':
+    'Even though processing is local, remember that uploading sensitive files on any device carries risks (for example, shared devices). We recommend using a trusted device and closing the tab when you are done.',
+  'legal.privacy.affiliationTitle': 'Affiliation',
+  'legal.privacy.affiliation': 'This tool is independent and **is not affiliated** with Instagram or Meta.',
+  'legal.privacy.contactTitle': 'Contact',
+  'legal.privacy.contact': 'Creator: **Cristian Cano**. Official channels are linked in the site footer.',
+  'legal.terms.whatTitle': '1. What this tool does',
+  'legal.terms.what':
+    '“IG Scanner” lets you compare **following** vs **followers** using Instagram’s **official data export** (JSON or HTML files) and shows a list of accounts you follow that don’t follow you back.',
+  'legal.terms.notTitle': '2. What it does NOT do',
+  'legal.terms.not1': 'It doesn’t log in to your account.',
+  'legal.terms.not2': 'It doesn’t automate unfollowing.',
+  'legal.terms.not3': 'It doesn’t use scraping or private Instagram APIs.',
+  'legal.terms.requirementsTitle': '3. User requirements',
+  'legal.terms.requirements1': 'You must get your files from the official Instagram/Meta download.',
+  'legal.terms.requirements2': 'You are responsible for what you do with the list (unfollowing is a manual action on Instagram).',
+  'legal.terms.useTitle': '4. Acceptable use',
+  'legal.terms.use':
+    'You agree to use the tool lawfully and in compliance with Instagram/Meta’s terms. This app only makes a local analysis of your data easier.',
+  'legal.terms.liabilityTitle': '5. Limitation of liability',
+  'legal.terms.liability':
+    'The creator is not responsible for changes in the Instagram export, compatibility errors, or decisions you make based on the result. The tool is provided “as is”.',
+  'legal.terms.changesTitle': '6. Changes',
+  'legal.terms.changes': 'We may update these terms/privacy in the future. The effective date indicates the current version.',
+}
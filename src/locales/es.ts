@@ -0,0 +1,703 @@
+/**
+ * Textos en español (idioma de referencia: `en.ts` y `pt.ts` deben tener exactamente las mismas claves).
+ *
+ * Relación con otros archivos:
+ * - Lo carga `src/locales/index.ts`; la UI los usa con `useI18n().t('clave')`.
+ * - Las claves `notice.*` traducen los avisos de `src/lib/notices.ts`.
+ *
+ * Formato:
+ * - `{nombre}` se reemplaza por el parámetro con ese nombre.
+ * - `{ one, other }` elige singular o plural según el parámetro `count`.
+ * - En textos largos, `**negrita**` y `` `código` `` los dibuja `RichText`.
+ */
+
+import type { Message } from '../lib/i18n'
+import type { NoticeCode } from '../lib/notices'
+import type { RelationshipFileKind } from '../lib/relationshipImport'
+
+type RequiredKey = `notice.${NoticeCode}` | `kind.${RelationshipFileKind}`
+
+export const es = {
+  // Idioma
+  'lang.label': 'Idioma',
+
+  // Encabezado y pie
+  'app.title': 'Escáner IG',
+  'app.subtitle': 'Compara **seguidos** vs **seguidores** usando la **exportación oficial** de Instagram.',
+  'app.badgesLabel': 'Características del producto',
+  'app.badgeNoLogin': 'Sin login',
+  'app.badgeNoScraping': 'Sin scraping',
+  'app.badgeFormats': 'JSON / HTML',
+  'app.badgePrivacy': 'Privacidad: se procesa local',
+  'app.ctaLabel': 'Acciones principales',
+  'app.tutorialTitle': 'Ver tutorial en YouTube',
+  'app.tutorial': 'Ver tutorial (YouTube)',
+  'app.reset': 'Limpiar',
+  'app.footerLabel': 'Créditos y redes',
+  'app.footerCreatedBy': 'Creado por Cristian Cano',
+  'app.footerSocialLabel': 'Redes sociales',
+  'app.footerPortfolio': 'Web / Portafolio',
+  'app.footerDonate': 'Donaciones (PayPal)',
+  'app.footerNote': 'Si esta herramienta te ahorra tiempo, considera apoyar su desarrollo con una donación.',
+  'app.footerLegalLabel': 'Enlaces legales',
+  'app.privacy': 'Política de Privacidad',
+  'app.terms': 'Términos y Condiciones',
+
+  // 1) Cargar archivos
+  'app.loadTitle': '1) Cargar archivos',
+  'app.importFailed': 'No se pudieron procesar los archivos.',
+  'app.nothingFound':
+    'No encontré archivos de seguidores ni seguidos. Sube la descarga de Instagram (ZIP, carpeta o JSON/HTML): followers_* y following.',
+  'app.warningsTitle': 'Avisos:',
+  'app.warningInFile': '"{file}": {message}',
+  'help.summary': '¿Dónde consigo estos archivos en Instagram?',
+  'help.menusVary':
+    'Importante: Instagram cambia los menús según versión/idioma. Si no ves “Centro de cuentas”, usa el **buscador** en Configuración o entra desde el navegador al Centro de cuentas.',
+  'help.windowsNote':
+    'Nota (Windows): aunque el explorador muestre “Tipo: Chrome HTML Document”, puedes subirlo: esta app soporta export en `.html` y `.json`.',
+  'help.step1': 'Instagram → tu perfil → menú ☰ → **Configuración y actividad** (o “Configuración y privacidad”).',
+  'help.step2': 'En el buscador de Configuración escribe: `descargar` / `información` / `datos`.',
+  'help.step3': 'Entra a **Descargar tu información** y selecciona **Seguidores y seguidos**.',
+  'help.step4':
+    'Si no lo encuentras en la app, prueba desde el navegador: `accountscenter.meta.com` → “Tu información y permisos” → “Descargar tu información”.',
+  'help.step5': 'Descarga el **.zip** y arrástralo tal cual. Si prefieres descomprimirlo, sube la carpeta o archivos como:',
+  'help.fileFollowers': '`followers_1.json` o `followers_1.html` (a veces también `followers_2.*`, etc.)',
+  'help.fileFollowing': '`following.json` o `following.html`',
+  'help.zipPath': 'Tip: la ruta típica dentro del zip suele ser `connections/followers_and_following/`.',
+
+  // 2) Resultado
+  'app.resultTitle': '2) Resultado',
+  'app.needBothLists': 'Carga seguidores y seguidos para ver el resultado.',
+  'app.incomplete': 'Faltan archivos según el checklist de arriba; el resultado podría estar incompleto.',
+  'app.computeAnyway': 'Calcular igualmente',
+  'app.startReview': 'Revisar “No te siguen” una por una',
+  'app.startReviewHint': 'Abre cada perfil, decide y anota; tu avance queda guardado en este dispositivo.',
+  'app.footnote':
+    'Nota: esta app no hace “dejar de seguir” automático; solo te ayuda a identificar y abrir perfiles para que lo hagas manualmente.',
+  'tab.notFollowingBack': 'No te siguen',
+  'tab.notFollowingBackEmpty': 'No hay nadie en “seguidos” que no te siga (según los archivos cargados).',
+  'tab.fans': 'Fans (no los sigues)',
+  'tab.fansEmpty': 'Sigues de vuelta a todos tus seguidores.',
+  'tab.mutuals': 'Mutuos',
+  'tab.mutualsEmpty': 'No hay seguidores mutuos en los archivos cargados.',
+  'tab.listEmpty': 'La lista está vacía en el export.',
+
+  // 3) Estadísticas
+  'app.statsTitle': '3) Estadísticas',
+  'app.statsIntro':
+    'Con las fechas del export (JSON): cuántos te siguen de vuelta, cómo creció tu cuenta mes a mes y si los que seguiste hace tiempo te siguen o no.',
+
+  // 4) Mantener, 5) Historial, 6) Comparar, 7) Audiencia entre cuentas, 8) Copia de seguridad
+  'app.keepTitle': '4) Cuentas a mantener (opcional, solo en este dispositivo)',
+  'app.keepIntro':
+    'Marca las cuentas que sigues a propósito aunque no te sigan (medios, marcas, artistas) y dejarán de aparecer en “No te siguen”. Se guardan en el navegador (IndexedDB); exporta la lista para compartirla con tu equipo.',
+  'app.historyTitle': '5) Historial (opcional, solo en este dispositivo)',
+  'app.historyIntro':
+    'Guarda un snapshot de tus listas para compararlo con exports futuros y ver quién dejó de seguirte. Se guarda en el navegador (IndexedDB), nunca en un servidor, y puedes borrarlo cuando quieras.',
+  'app.compareTitle': '6) Comparar dos exports (sin guardar nada)',
+  'app.compareIntro':
+    'Carga un export viejo y uno nuevo (pueden ser uno JSON y otro HTML) para ver qué cambió entre ellos. No se guarda nada: al recargar la página desaparece.',
+  'app.overlapTitle': '7) Audiencia entre tus cuentas',
+  'app.overlapIntro':
+    'Si manejas varias cuentas (personal, marca, proyecto), carga cada export en su espacio arriba y compara quién sigue a una y no a la otra, o a las dos. Todo queda en esta página.',
+  'app.dataTitle': '8) Copia de seguridad y borrado',
+  'app.dataIntro':
+    'Pasa tu historial, la lista "mantener" y el avance de la revisión a otro dispositivo con un archivo cifrado, sin servidor. O borra todo lo que la app guardó aquí.',
+
+  // Texto antes de la fecha de cada fila
+  'date.followedOn': 'Lo seguiste el',
+  'date.followsYouSince': 'Te sigue desde el',
+  'date.followedYouSince': 'Te seguía desde el',
+  'date.requestSentOn': 'Solicitud enviada el',
+  'date.requestReceivedOn': 'Solicitud recibida el',
+  'date.unfollowedOn': 'Lo dejaste de seguir el',
+  'date.addedOn': 'Agregado el',
+  'date.hiddenSince': 'Oculta desde el',
+  'date.restrictedOn': 'Restringido el',
+  'date.blockedOn': 'Bloqueado el',
+  'date.suggestionRemovedOn': 'Sugerencia eliminada el',
+  'date.generic': 'Fecha:',
+
+  // Listas
+  'kind.followers': 'Seguidores',
+  'kind.following': 'Seguidos',
+  'kind.close_friends': 'Mejores amigos',
+  'kind.blocked': 'Bloqueados',
+  'kind.restricted': 'Restringidos',
+  'kind.follow_requests_sent': 'Solicitudes pendientes (enviadas)',
+  'kind.recent_follow_requests': 'Solicitudes enviadas recientemente',
+  'kind.follow_requests_received': 'Solicitudes recibidas',
+  'kind.recently_unfollowed': 'Dejaste de seguir recientemente',
+  'kind.removed_suggestions': 'Sugerencias eliminadas',
+  'kind.hide_story_from': 'Ocultas tu historia a',
+  'kind.followed_hashtags': 'Hashtags seguidos',
+  'kind.other': 'Otra lista',
+  'kind.unclassified': 'Sin clasificar',
+
+  // Variantes de esquema
+  'schema.string_list_value': 'JSON clásico (string_list_data.value)',
+  'schema.title_string_list': 'JSON con usuario en "title"',
+  'schema.string_list_href': 'JSON solo con enlaces (href)',
+  'schema.label_values': 'JSON del Centro de cuentas (label_values)',
+  'schema.connections_map': 'connections.json (export antiguo)',
+  'schema.html': 'HTML',
+  'schema.mixed': 'JSON con formas mezcladas',
+  'schema.empty': 'Lista vacía',
+  'schema.pasted_lines': 'Lista pegada (un usuario por línea)',
+  'schema.pasted_csv': 'Lista pegada (columna de CSV)',
+  'schema.pasted_text': 'Lista pegada (texto libre)',
+
+  // Zona de carga y progreso
+  'drop.title': 'Arrastra aquí el .zip, la carpeta descomprimida o los archivos sueltos',
+  'drop.hint': 'Detectamos solos qué es cada archivo: `followers_*`, `following` y otras listas (JSON o HTML).',
+  'drop.chooseFiles': 'Elegir archivos o .zip',
+  'drop.chooseFolder': 'Elegir carpeta',
+  'progress.processing': 'Procesando archivos…',
+  'progress.cancel': 'Cancelar',
+  'progress.ariaLabel': 'Progreso de {path}',
+  'progress.read': '{loaded} de {total}',
+  'progress.pending': 'En cola',
+  'progress.reading': 'Leyendo',
+  'progress.parsing': 'Analizando',
+  'progress.done': 'Listo',
+  'progress.skipped': 'Omitido',
+
+  // Listas pegadas o importadas de otra herramienta
+  'paste.summary': '¿No tienes el export? Pega o importa una lista de cuentas',
+  'paste.intro':
+    'Sirve una columna de una planilla, el CSV de otra herramienta o el texto copiado de la lista de seguidores en instagram.com. Elige si son tus seguidores o tus seguidos.',
+  'paste.kind': 'Esta lista son mis',
+  'paste.textLabel': 'Pega la lista aquí',
+  'paste.chooseFile': 'Importar .csv o .txt',
+  'paste.fileFailed': 'No se pudo leer el archivo.',
+  'paste.mode': 'Cómo leerla',
+  'paste.modeAuto': 'Automático ({mode})',
+  'paste.mode.lines': 'Un usuario por línea',
+  'paste.mode.csv': 'CSV (una columna)',
+  'paste.mode.text': 'Texto libre',
+  'paste.modeHint.lines':
+    'Cada línea puede traer `@usuario`, `usuario` o el enlace al perfil (varios por línea, separados por comas o espacios).',
+  'paste.modeHint.csv': 'Se toma solo la columna elegida; el resto de las columnas se ignora.',
+  'paste.modeHint.text':
+    'Se toman las menciones (`@usuario`) y los enlaces a perfiles. Del texto copiado de instagram.com se saltan nombres y botones.',
+  'paste.column': 'Columna con los usuarios',
+  'paste.columnNumber': 'Columna {number}',
+  'paste.hasHeader': 'La primera fila es el encabezado',
+  'paste.read': { one: 'Se leyó **{count}** usuario.', other: 'Se leyeron **{count}** usuarios.' },
+  'paste.duplicates': {
+    one: '{count} repetido no se cuenta dos veces.',
+    other: '{count} repetidos no se cuentan dos veces.',
+  },
+  'paste.ignored': {
+    one: '{count} línea se saltó (encabezado, nombres o botones).',
+    other: '{count} líneas se saltaron (encabezado, nombres o botones).',
+  },
+  'paste.rejected': {
+    one: '{count} línea no se pudo leer como usuario. Corrígela en el cuadro de arriba o déjala fuera:',
+    other: '{count} líneas no se pudieron leer como usuario. Corrígelas en el cuadro de arriba o déjalas fuera:',
+  },
+  'paste.rejectedLabel': 'Líneas que no se pudieron leer',
+  'paste.rejectedMore': { one: 'Y {count} línea más.', other: 'Y {count} líneas más.' },
+  'paste.line': 'Línea {line}:',
+  'paste.name': 'Nombre de la lista',
+  'paste.defaultName': 'Lista pegada {number}',
+  'paste.add': 'Agregar como {kind}',
+  'paste.added': {
+    one: 'Se agregó **{name}** como {kind} ({count} cuenta).',
+    other: 'Se agregó **{name}** como {kind} ({count} cuentas).',
+  },
+  'paste.replaces': 'Ya hay una lista llamada **{name}**: agregarla la reemplaza.',
+
+  // Checklist de archivos
+  'checklist.ariaLabel': 'Checklist de archivos',
+  'checklist.accounts': { one: '{count} cuenta', other: '{count} cuentas' },
+  'checklist.kindAriaLabel': 'Tipo de {name}',
+  'checklist.remove': 'Quitar',
+  'checklist.skippedSummary': { one: '{count} archivo revisado y saltado', other: '{count} archivos revisados y saltados' },
+  'checklist.ignored': 'Otros {count} elementos (fotos, videos, carpetas) se ignoraron sin abrirlos.',
+  'detectedBy.content': 'por contenido',
+  'detectedBy.name': 'por nombre',
+  'detectedBy.title': 'por título de la página',
+  'detectedBy.manual': 'asignado a mano',
+  'pwa.updateAvailable': 'Hay una versión nueva de la app.',
+  'pwa.update': 'Actualizar',
+  'pwa.later': 'Después',
+  'pwa.offlineReady': 'Listo: la app ya funciona sin conexión en este dispositivo.',
+  'pwa.dismiss': 'Cerrar',
+  'route.loading': 'Cargando…',
+  'route.notFoundTitle': 'Página no encontrada',
+  'route.notFoundText': 'No existe la dirección **{path}**. Tus archivos cargados siguen aquí.',
+  'route.home': 'Volver al escáner',
+  'cli.usage': [
+    'Uso: escaner-ig [opciones] <export.zip | carpeta | archivos...>',
+    '',
+    'Lee el export oficial de Instagram con los mismos parsers que la web, sin conexión a internet,',
+    'y muestra quién no te sigue, tus fans y tus mutuos.',
+    '',
+    'Opciones:',
+    '  -f, --format <table|csv|json>  Formato de salida (por defecto: table).',
+    '  -l, --list <id>                Solo esta lista (repetible): notFollowingBack, fans, mutuals y, con',
+    '                                 --compare, newFollowers, lostFollowers, newFollowing, stoppedFollowingBack.',
+    '  -c, --compare <ruta>           Export anterior (ZIP, carpeta o archivo; repetible) para ver qué cambió.',
+    '  -o, --out <archivo>            Guarda el resultado en un archivo en vez de mostrarlo.',
+    '      --allow-incomplete         Calcula aunque falten archivos del checklist (ej: followers_2.json).',
+    '      --lang <es|en|pt>          Idioma de los mensajes (por defecto, el del sistema).',
+    '  -q, --quiet                    No muestra avisos ni el checklist (los errores sí).',
+    '  -h, --help                     Muestra esta ayuda.',
+    '',
+    'Códigos de salida: 0 = listo, 1 = error inesperado, 2 = argumentos o rutas inválidos,',
+    '3 = faltan seguidores/seguidos o archivos del export.',
+  ].join('\n'),
+  'cli.badArguments': 'Argumentos inválidos: {message}\nUsa --help para ver las opciones.',
+  'cli.invalidValue': 'Valor inválido para {option}: "{value}". Opciones: {allowed}.',
+  'cli.noInputs': 'Indica al menos un export (ZIP, carpeta o archivos). Usa --help para ver las opciones.',
+  'cli.pathNotFound': 'No existe o no se puede leer: {path}',
+  'cli.skipped': '"{path}" se saltó: {reason}',
+  'cli.missingLists': 'No encontré seguidores y seguidos en: {paths}',
+  'cli.incomplete': 'Faltan archivos según el checklist; el resultado podría estar incompleto. Usa --allow-incomplete para calcular igual.',
+  'cli.usernameHeader': 'Usuario',
+  'cli.written': 'Resultado guardado en {path}.',
+  'cli.unexpectedError': 'Error inesperado: {message}',
+  'diagnostics.summary': { one: 'Diagnóstico de {count} archivo', other: 'Diagnóstico por archivo ({count})' },
+  'diagnostics.withNotices': { one: '{count} con avisos', other: '{count} con avisos' },
+  'diagnostics.intro':
+    'Qué leyó el escáner en cada archivo. Si algo no cuadra, copia el reporte y adjúntalo al reportar el problema: no incluye ningún usuario.',
+  'diagnostics.copy': 'Copiar reporte',
+  'diagnostics.copied': 'Reporte copiado (sin usuarios).',
+  'diagnostics.copyFailed': 'No se pudo copiar: el navegador no dio acceso al portapapeles.',
+  'diagnostics.status.parsed': 'leído',
+  'diagnostics.status.failed': 'no se pudo leer',
+  'diagnostics.status.skipped': 'saltado',
+  'diagnostics.notParsed': 'El archivo no se pudo leer, así que no se revisó ninguna entry.',
+  'diagnostics.counts': 'Entries revisadas: {seen} · Usuarios extraídos: {extracted} · Descartadas: {skipped}',
+  'diagnostics.skip.unrecognized': 'Forma desconocida: {count}',
+  'diagnostics.skip.duplicate': 'Repetidas: {count}',
+  'diagnostics.skip.no_username': 'Sin usuario: {count}',
+  'diagnostics.skip.invalid_username': 'Usuario inválido: {count}',
+  'diagnostics.skip.reserved_path': 'Enlaces que no son perfiles: {count}',
+  'diagnostics.skip.outside_list': 'Fuera de la lista: {count}',
+
+  // Resultados
+  'results.tabsLabel': 'Listas de resultados',
+  'results.downloadAll': 'Descargar todas las listas:',
+  'results.jsonTitle': 'Incluye fecha, archivos de origen, conteos y avisos',
+  'results.xlsx': 'Excel (.xlsx)',
+  'results.xlsxTitle': 'Una hoja por lista',
+  'results.exportAllName': 'resultados',
+  'results.sheetName': 'Lista {number}',
+  'report.anonymize': 'Informe:',
+  'report.anonymizeLabel': 'Usernames en el informe',
+  'report.mode.none': 'Con usernames',
+  'report.mode.mask': 'Usernames tapados (m•••z)',
+  'report.mode.hash': 'Seudónimos (hash)',
+  'report.html': 'Informe HTML',
+  'report.htmlTitle': 'Un solo archivo que abre sin conexión: conteos, listas, fecha del export y avisos',
+  'report.print': 'Imprimir / PDF',
+  'report.printTitle': 'Abre el diálogo de impresión; elige “Guardar como PDF” para tener un PDF',
+  'report.fileName': 'informe',
+  'report.failed': 'No se pudo generar el informe.',
+  'report.title': 'Informe de Escáner IG',
+  'report.generated': 'Generado',
+  'report.exportDate': 'Fecha del export',
+  'report.counts': 'Resumen',
+  'report.sources': 'Archivos de origen',
+  'report.warnings': 'Avisos de la carga',
+  'report.username': 'Usuario',
+  'report.printButton': 'Imprimir / guardar como PDF',
+  'report.anonymizedMask': 'Informe anonimizado: los usernames están tapados y no hay enlaces a perfiles.',
+  'report.anonymizedHash':
+    'Informe anonimizado: cada cuenta aparece con un seudónimo propio de este informe y no hay enlaces a perfiles.',
+  'report.footer': 'Generado con Escáner IG a partir de la exportación oficial de Instagram, en el navegador.',
+  'results.search': 'Buscar',
+  'results.searchPlaceholder': '@usuario',
+  'results.sort': 'Ordenar',
+  'results.sortAlpha': 'Alfabético',
+  'results.sortOldest': 'Más antiguos primero',
+  'results.sortNewest': 'Más recientes primero',
+  'results.sortMembership': 'En más listas primero',
+  'results.before': 'Fecha anterior a',
+  'results.noDates': 'Los archivos cargados no traen fechas (suele pasar con el export HTML).',
+  'results.showKept': 'Mostrar cuentas a mantener ({count})',
+  'results.selectVisible': 'Seleccionar visibles',
+  'results.clearSelection': 'Quitar selección',
+  'results.copyTitle': 'Copia @usernames al portapapeles (la selección, o toda la lista visible)',
+  'results.copyList': 'Copiar lista',
+  'results.copySelection': 'Copiar selección ({count})',
+  'results.csvTitle': 'Descarga como CSV la selección, o la lista visible (con búsqueda, orden y filtro)',
+  'results.downloadCsv': 'Descargar CSV',
+  'results.downloadSelection': 'Descargar selección ({count})',
+  'results.keepSelection': 'Mantener selección',
+  'results.keepSelectionCount': 'Mantener selección ({count})',
+  'results.keepSelectionTitle': 'Marca las cuentas seleccionadas como cuentas que sigues a propósito',
+  'results.total': 'Total: **{count}**',
+  'results.totalOf': 'Total: **{count}** de {total}',
+  'results.selectedCount': ' · {count} seleccionadas',
+  'results.hiddenKept': ' · {count} ocultas por estar en "mantener"',
+  'results.noMatches': 'Ninguna cuenta coincide con la búsqueda o el filtro.',
+  'results.selectAccount': 'Seleccionar @{username}',
+  'results.alsoIn': 'También en: {lists}',
+  'results.keptTag': 'Mantener',
+  'results.keep': 'Mantener',
+  'results.unkeep': 'No mantener',
+  'results.keepTitle': 'La sigues a propósito: ocultarla de "No te siguen"',
+  'results.unkeepTitle': 'Quitar de la lista "mantener"',
+  'results.openProfile': 'Abrir perfil',
+
+  // Mantener
+  'keep.pasteLabel': 'Pega usernames o enlaces a perfiles (uno por línea, o separados por comas)',
+  'keep.add': 'Agregar a la lista',
+  'keep.importFile': 'Importar archivo',
+  'keep.exportFile': 'Exportar lista',
+  'keep.exportName': 'mantener',
+  'keep.clear': 'Borrar todo',
+  'keep.confirmClear': '¿Borrar toda la lista de cuentas a mantener de este dispositivo?',
+  'keep.added': { one: 'Se agregó {count} cuenta.', other: 'Se agregaron {count} cuentas.' },
+  'keep.repeated': { one: '{count} ya estaba en la lista.', other: '{count} ya estaban en la lista.' },
+  'keep.invalid': 'No parecen usernames ({count}): {sample}',
+  'keep.fileFailed': 'No se pudo leer el archivo.',
+  'keep.loadFailed': 'No se pudo leer la lista local.',
+  'keep.saveFailed': 'No se pudo guardar la lista local.',
+  'keep.empty': 'Todavía no marcaste ninguna cuenta.',
+  'keep.count': { one: '**{count}** cuenta a mantener.', other: '**{count}** cuentas a mantener.' },
+  'keep.listLabel': 'Cuentas a mantener',
+  'keep.remove': 'Quitar',
+
+  // Revisión guiada
+  'review.ariaLabel': 'Revisión guiada',
+  'review.loading': 'Cargando avance…',
+  'review.progress': 'Revisadas **{done}** de {total} · pendientes {pending}',
+  'review.lastHour': ' · dejaste de seguir {count} en la última hora',
+  'review.followedOn': 'Lo seguiste el {date}',
+  'review.skippedBefore': ' · la saltaste antes',
+  'review.open': 'Abrir perfil (O)',
+  'review.wait': 'Espera {seconds} s',
+  'review.unfollowed': 'Ya la dejé de seguir (U)',
+  'review.keep': 'Mantener (K)',
+  'review.skip': 'Saltar (S)',
+  'review.undo': 'Deshacer (Z)',
+  'review.pause':
+    'Ve con calma: Instagram puede limitar tu cuenta si dejas de seguir muchas cuentas seguidas. La siguiente en {seconds} s.',
+  'review.skipPause': 'Seguir sin esperar',
+  'review.finished': 'No quedan cuentas por revisar en “No te siguen”.',
+  'review.finishedUndo': ' Puedes deshacer la última decisión con Z.',
+  'review.pacing': 'Pausa después de cada “dejé de seguir”',
+  'review.noPacing': 'Sin pausa',
+  'review.seconds': '{count} segundos',
+  'review.reset': 'Reiniciar avance',
+  'review.confirmReset': '¿Borrar el avance de la revisión? Las cuentas marcadas como "mantener" no se tocan.',
+  'review.close': 'Salir de la revisión (Esc)',
+  'review.shortcuts': 'Atajos:',
+  'review.shortcutOpen': 'abrir perfil',
+  'review.shortcutUnfollowed': 'ya la dejé de seguir',
+  'review.shortcutKeep': 'mantener',
+  'review.shortcutSkip': 'saltar',
+  'review.shortcutUndo': 'deshacer',
+  'review.manualNote': 'La app no deja de seguir a nadie por ti: abre el perfil, hazlo en Instagram y anótalo aquí.',
+  'review.loadFailed': 'No se pudo leer el avance guardado.',
+  'review.saveFailed': 'No se pudo guardar la decisión.',
+  'review.undoFailed': 'No se pudo deshacer.',
+  'review.resetFailed': 'No se pudo reiniciar el avance.',
+
+  // Historial
+  'history.namePlaceholder': 'Nombre del snapshot (ej: Export de marzo)',
+  'history.save': 'Guardar snapshot',
+  'history.defaultName': 'Export del {date}',
+  'history.needLists': 'Carga seguidores y seguidos para poder guardar un snapshot.',
+  'history.loadFailed': 'No se pudo leer el historial local.',
+  'history.saveFailed': 'No se pudo guardar el snapshot.',
+  'history.empty': 'Todavía no hay snapshots guardados en este dispositivo.',
+  'history.counts': '{date} · {followers} seguidores · {following} seguidos',
+  'history.delete': 'Borrar',
+  'history.from': 'Comparar desde',
+  'history.to': 'hasta',
+  'history.choose': 'Elige un snapshot',
+  'history.clear': 'Borrar todo el historial',
+  'history.confirmClear': '¿Borrar todos los snapshots guardados en este dispositivo?',
+  'history.source': 'snapshot: {name}',
+
+  // Espacios de trabajo (una cuenta por espacio) y audiencia entre cuentas
+  'workspace.tabsLabel': 'Cuentas cargadas',
+  'workspace.defaultName': 'Cuenta {n}',
+  'workspace.files': { one: '{count} archivo', other: '{count} archivos' },
+  'workspace.add': '+ Otra cuenta',
+  'workspace.name': 'Nombre de esta cuenta',
+  'workspace.remove': 'Quitar esta cuenta',
+  'workspace.confirmRemove': '¿Quitar “{name}” y sus archivos cargados?',
+  'workspace.splitNotice': {
+    one: 'La carga traía {count} cuenta.',
+    other: 'La carga traía {count} cuentas: cada una quedó en su propio espacio (pestañas de arriba).',
+  },
+  'overlap.needTwo': 'Carga seguidores o seguidos en al menos dos cuentas (botón “+ Otra cuenta” arriba) para cruzarlas.',
+  'overlap.accountA': 'Cuenta A',
+  'overlap.accountB': 'Cuenta B',
+  'overlap.list': 'Comparar',
+  'overlap.listFollowers': 'Seguidores',
+  'overlap.listFollowing': 'Seguidos',
+  'overlap.missingList': 'A “{account}” le falta esa lista; la comparación la toma como vacía.',
+  'overlap.diagramLabel': 'Solo {a}: {onlyA}; en las dos: {both}; solo {b}: {onlyB}',
+  'overlap.bothShort': 'En las dos',
+  'overlap.similarity': 'Solapamiento: {percent}% de las cuentas distintas están en las dos.',
+  'overlap.followersOnly': 'Siguen a {account} y no a {other}',
+  'overlap.followersBoth': 'Siguen a las dos',
+  'overlap.followingOnly': '{account} las sigue y {other} no',
+  'overlap.followingBoth': 'Las siguen las dos',
+  'overlap.followersDate': 'Sigue a {account} desde el',
+  'overlap.followingDate': '{account} la siguió el',
+  'overlap.empty': 'No hay cuentas en esta zona.',
+
+  // Comparar dos exports y pestañas de diferencias
+  'compare.older': 'Export viejo',
+  'compare.newer': 'Export nuevo',
+  'compare.olderSource': 'viejo: {path}',
+  'compare.newerSource': 'nuevo: {path}',
+  'compare.needLists': 'Carga seguidores y seguidos en ambos lados para ver qué cambió.',
+  'compare.clear': 'Limpiar comparación',
+  'diff.newFollowers': 'Nuevos seguidores',
+  'diff.newFollowersEmpty': 'No hay seguidores nuevos entre las dos versiones.',
+  'diff.lostFollowers': 'Dejaron de seguirte',
+  'diff.lostFollowersEmpty': 'Nadie dejó de seguirte entre las dos versiones.',
+  'diff.newFollowing': 'Nuevos seguidos',
+  'diff.newFollowingEmpty': 'No empezaste a seguir a nadie entre las dos versiones.',
+  'diff.stoppedFollowingBack': 'Ya no te siguen de vuelta',
+  'diff.stoppedFollowingBackEmpty': 'Todos los mutuos siguen siéndolo.',
+
+  // Estadísticas
+  'stats.needResults': 'Las estadísticas aparecen junto con el resultado (sección 2).',
+  'stats.excludeKept': 'No contar las cuentas a mantener ({count})',
+  'stats.since': 'Desde',
+  'stats.following': 'Seguidos',
+  'stats.followers': 'Seguidores',
+  'stats.followBackRatio': 'te siguen de vuelta ({count} de {total})',
+  'stats.referenceToday': 'Las antigüedades se cuentan desde **hoy** (el nombre del ZIP no trae la fecha del export).',
+  'stats.referenceExport': 'Las antigüedades se cuentan desde la fecha del export: **{date}**.',
+  'stats.undated': {
+    one: '{count} cuenta sin fecha (ej: export en HTML) no entra en los gráficos.',
+    other: '{count} cuentas sin fecha (ej: export en HTML) no entran en los gráficos.',
+  },
+  'stats.monthlyTitle': 'Seguidos y seguidores nuevos por mes',
+  'stats.monthlyLabel': 'Gráfico de barras: seguidos y seguidores nuevos en {months} meses.',
+  'stats.monthTooltip': '{month}: empezaste a seguir {follows}, empezaron a seguirte {followers}',
+  'stats.follows': 'Empezaste a seguir',
+  'stats.newFollowers': 'Empezaron a seguirte',
+  'stats.showData': 'Ver los datos',
+  'stats.month': 'Mes',
+  'stats.ageTitle': 'Cuántos no te siguen, según hace cuánto los seguiste',
+  'stats.ageLabel': 'Gráfico de barras: porcentaje de seguidos que no te siguen, según hace cuánto los seguiste.',
+  'stats.ageShare': '{percent}% ({count} de {total})',
+  'stats.age.month': '< 1 mes',
+  'stats.age.quarter': '1–3 meses',
+  'stats.age.halfYear': '3–6 meses',
+  'stats.age.year': '6–12 meses',
+  'stats.age.twoYears': '1–2 años',
+  'stats.age.older': 'Más de 2 años',
+  'stats.followedAgo': 'Los seguiste hace',
+  'stats.notFollowingBack': 'No te siguen',
+  'stats.oldest': 'Los que sigues hace más tiempo',
+  'stats.newest': 'Los últimos que seguiste',
+  'stats.noFollowDates': 'Ningún seguido tiene fecha.',
+  'stats.noDates': 'Este export no trae fechas (ej: HTML), así que no hay gráficos.',
+
+  // Copia de seguridad y borrado
+  'backup.exportTitle': 'Guardar una copia',
+  'backup.exportHint':
+    'Incluye el historial, las cuentas a mantener, el avance de la revisión y el idioma. No incluye los archivos cargados en esta página.',
+  'backup.passphrase': 'Frase para cifrar',
+  'backup.passphraseConfirm': 'Repite la frase',
+  'backup.passphraseHint': 'Mínimo {min} caracteres. Sin esta frase la copia no se puede abrir: no hay forma de recuperarla.',
+  'backup.passphraseShort': 'La frase necesita al menos {min} caracteres.',
+  'backup.passphraseMismatch': 'Las dos frases no coinciden.',
+  'backup.download': 'Descargar copia cifrada',
+  'backup.encrypting': 'Cifrando…',
+  'backup.fileName': 'copia-de-seguridad',
+  'backup.exported': 'Copia descargada. Guarda la frase aparte: sin ella no se puede abrir.',
+  'backup.exportFailed': 'No se pudo crear la copia.',
+  'backup.importTitle': 'Restaurar una copia',
+  'backup.chooseFile': 'Elegir archivo de copia',
+  'backup.fileChosen': 'Archivo: **{name}**',
+  'backup.passphraseImport': 'Frase de la copia',
+  'backup.strategy': 'Qué hacer con lo que ya hay en este dispositivo',
+  'backup.strategy.merge': 'Combinar: sumar lo de la copia y conservar lo de aquí',
+  'backup.strategy.replace': 'Reemplazar: borrar lo de aquí y dejar solo lo de la copia',
+  'backup.restore': 'Restaurar',
+  'backup.decrypting': 'Descifrando…',
+  'backup.confirmReplace':
+    '¿Borrar el historial, la lista "mantener" y el avance de la revisión de este dispositivo y reemplazarlos por la copia?',
+  'backup.restored':
+    'Copia restaurada. Snapshots: **{snapshots}** · Cuentas a mantener: **{keep}** · Decisiones de la revisión: **{review}**.',
+  'backup.merged':
+    'Copia combinada. Nuevos o actualizados: snapshots **{snapshots}** · cuentas a mantener **{keep}** · decisiones de la revisión **{review}**.',
+  'backup.importFailed': 'No se pudo restaurar la copia.',
+  'backup.wipeTitle': 'Borrar todo de este dispositivo',
+  'backup.wipeHint':
+    'Borra el historial, la lista "mantener", el avance de la revisión y el idioma elegido, y descarta los archivos cargados en esta página. La copia de la app para usarla sin conexión queda (no tiene datos tuyos).',
+  'backup.wipe': 'Borrar todo',
+  'backup.confirmWipe': '¿Borrar todos los datos de Escáner IG de este dispositivo? No se puede deshacer, salvo que tengas una copia.',
+  'backup.wipeFailed': 'No se pudo borrar todo.',
+
+  // Avisos de parsers y pipeline
+  'notice.json_nonstandard_key': 'Formato no estándar: se extrajo desde "{key}".',
+  'notice.json_list_no_usernames': 'Se detectó {kind}, pero no se pudieron extraer usernames.',
+  'notice.json_list_unrecognized_entries': {
+    one: '{kind}: se ignoró {count} entrada con una forma desconocida.',
+    other: '{kind}: se ignoraron {count} entradas con una forma desconocida.',
+  },
+  'notice.json_array_no_usernames': 'El JSON es un array, pero no se pudieron extraer usernames.',
+  'notice.json_array_unrecognized_entries': {
+    one: 'Se ignoró {count} entrada con una forma desconocida.',
+    other: 'Se ignoraron {count} entradas con una forma desconocida.',
+  },
+  'notice.json_unknown_format': 'Formato de JSON no reconocido para seguidores/seguidos.',
+  'notice.json_invalid': 'No pude parsearlo como JSON. Asegúrate de subir el *.json original del ZIP.',
+  'notice.json_invalid_at':
+    'No pude parsearlo como JSON: el error está en la línea {line}, columna {column}. Asegúrate de subir el *.json original del ZIP.',
+  'notice.html_no_structure':
+    'No se reconoció la estructura de la página (no hay filas de lista). ¿Es un HTML del export de Instagram?',
+  'notice.html_no_usernames':
+    'No se pudieron extraer usernames desde el HTML. Si Instagram te deja elegir formato, prueba con JSON.',
+  'notice.html_unreadable_dates': {
+    one: 'No se pudo interpretar la fecha de {count} cuenta (ej: "{example}").',
+    other: 'No se pudo interpretar la fecha de {count} cuentas (ej: "{example}").',
+  },
+  'notice.html_rejected_outside_list': {
+    one: 'Se descartó {count} enlace fuera de la lista.',
+    other: 'Se descartaron {count} enlaces fuera de la lista.',
+  },
+  'notice.html_rejected_reserved_path': {
+    one: 'Se descartó {count} ruta de Instagram que no es un perfil.',
+    other: 'Se descartaron {count} rutas de Instagram que no son perfiles.',
+  },
+  'notice.html_rejected_invalid_username': {
+    one: 'Se descartó {count} texto que no es un usuario válido.',
+    other: 'Se descartaron {count} textos que no son un usuario válido.',
+  },
+  'notice.html_rejected_no_username': {
+    one: 'Se descartó {count} fila sin usuario.',
+    other: 'Se descartaron {count} filas sin usuario.',
+  },
+  'notice.html_rejected_duplicate': {
+    one: 'Se descartó {count} usuario repetido.',
+    other: 'Se descartaron {count} usuarios repetidos.',
+  },
+  'notice.name_content_mismatch': 'El nombre sugiere "{nameKind}" pero el contenido es "{detectedKind}". Se usó el contenido.',
+  'notice.name_title_mismatch':
+    'El nombre sugiere "{nameKind}" pero el título de la página dice "{detectedKind}". Se usó el nombre.',
+  'notice.skip_too_large': 'Archivo demasiado grande para revisar su contenido.',
+  'notice.skip_read_failed': 'No se pudo leer el archivo.',
+  'notice.skip_invalid_json': 'No es un JSON válido.',
+  'notice.skip_invalid_json_at': 'No es un JSON válido (línea {line}, columna {column}).',
+  'notice.skip_not_relationship_json': 'No contiene listas de seguidores/seguidos.',
+  'notice.skip_not_relationship_html': 'La página HTML no es una lista de cuentas conocida.',
+  'notice.skip_unzip_failed': 'No se pudo descomprimir. {error}',
+  'notice.skip_zip_failed': 'No pude abrir el ZIP. {error}',
+  'notice.zip_not_a_zip': 'No parece un ZIP válido (no se encontró el directorio central).',
+  'notice.zip64_incomplete': 'ZIP64 incompleto: falta el localizador del directorio central.',
+  'notice.zip64_corrupt': 'ZIP64 inválido: directorio central corrupto.',
+  'notice.zip_corrupt': 'Directorio central del ZIP corrupto.',
+  'notice.zip_entry_encrypted': '"{path}" está cifrado y no se puede leer.',
+  'notice.zip_entry_bad_header': 'Header local inválido para "{path}".',
+  'notice.zip_unsupported_browser': 'Este navegador no soporta descomprimir ZIP. Descomprímelo manualmente y sube los archivos.',
+  'notice.zip_unsupported_method': '"{path}" usa un método de compresión no soportado ({method}).',
+  'notice.checklist_followers_loaded': {
+    one: 'Seguidores cargados ({files} archivo(s), {count} cuenta)',
+    other: 'Seguidores cargados ({files} archivo(s), {count} cuentas)',
+  },
+  'notice.checklist_followers_missing': 'Falta seguidores: followers_1.json o followers_1.html',
+  'notice.checklist_following_loaded': {
+    one: 'Seguidos cargados ({files} archivo(s), {count} cuenta)',
+    other: 'Seguidos cargados ({files} archivo(s), {count} cuentas)',
+  },
+  'notice.checklist_following_missing': 'Falta seguidos: following.json o following.html',
+  'notice.checklist_missing_part': '{name} no está cargado, pero {after} sí (falta una parte)',
+  'notice.checklist_unclassified': {
+    one: '{count} archivo sin clasificar: indica qué lista es',
+    other: '{count} archivos sin clasificar: indica qué lista es cada uno',
+  },
+  'notice.compare_different_owners':
+    'Los exports parecen de cuentas distintas (@{older} y @{newer}). El resultado no tendría sentido.',
+  'notice.compare_low_overlap':
+    'Solo el {percent}% de las cuentas coincide entre ambos exports. ¿Seguro que son de la misma cuenta?',
+  'notice.compare_reversed': 'El export "viejo" tiene fechas más recientes que el "nuevo". ¿Los cargaste al revés?',
+  'notice.keep_file_bad_json': 'El archivo parece JSON pero no se pudo leer.',
+  'notice.keep_file_no_list': 'El JSON no tiene una lista de cuentas.',
+  'notice.backup_not_backup': 'El archivo no es una copia de seguridad de Escáner IG.',
+  'notice.backup_newer_version': 'La copia usa una versión más nueva del formato ({version}). Actualiza la app para abrirla.',
+  'notice.backup_wrong_passphrase': 'No se pudo descifrar: la frase no es correcta o el archivo fue modificado.',
+  'notice.backup_corrupt': 'La copia está dañada o incompleta.',
+  'notice.local_db_unavailable': 'Este navegador no permite guardar datos locales (IndexedDB no disponible).',
+  'notice.local_db_open_failed': 'No se pudo abrir la base de datos local.',
+  'notice.local_db_failed': 'No se pudieron leer o guardar los datos locales.',
+  'notice.local_db_aborted': 'Se canceló la operación con los datos locales.',
+  'notice.import_cancelled': 'Importación cancelada.',
+  'notice.import_worker_failed': 'No se pudieron procesar los archivos en segundo plano.',
+  'notice.import_unknown_error': 'Error desconocido al procesar los archivos.',
+  'notice.launch_files_unreadable':
+    'No se pudieron leer los archivos abiertos con la app (puede que se hayan movido o falte permiso).',
+
+  // Error inesperado
+  'error.title': 'Ups, algo salió mal',
+  'error.body': 'Si estabas abriendo “Privacidad” o “Términos”, recarga la página. Si persiste, avísanos al creador.',
+  'error.unknown': 'Error desconocido',
+  'error.reload': 'Recargar',
+  'error.home': 'Volver al inicio',
+
+  // Páginas legales
+  'legal.privacyTitle': 'Política de Privacidad',
+  'legal.termsTitle': 'Términos y Condiciones (Políticas de uso)',
+  'legal.effective': 'Vigencia: **{date}**',
+  'legal.back': 'Volver al escáner',
+  'legal.privacy.summaryTitle': 'Resumen (en simple)',
+  'legal.privacy.summary1': 'Esta app procesa los archivos de Instagram **en tu navegador**.',
+  'legal.privacy.summary2': 'No pedimos tu contraseña, no hacemos login, y no usamos APIs privadas/scraping.',
+  'legal.privacy.summary3': 'No subimos tus archivos a un servidor (a menos que tú lo implementes/actives en el futuro).',
+  'legal.privacy.collectTitle': 'Qué datos recopilamos',
+  'legal.privacy.collect':
+    'Por defecto, **no recopilamos** datos personales en un servidor. Los archivos que subes se leen localmente para extraer únicamente los **usernames** necesarios para comparar listas.',
+  'legal.privacy.storeTitle': 'Qué datos guardamos',
+  'legal.privacy.store':
+    'La app **no guarda** tus listas en la nube. Por defecto tampoco guarda nada en tu dispositivo: al recargar la página, los datos cargados desaparecen.',
+  'legal.privacy.storeHistory':
+    'Si usas el **Historial**, las listas de relaciones (usernames, enlace al perfil y fecha) se guardan como snapshots en el almacenamiento local de tu navegador (IndexedDB), solo en ese dispositivo. Nunca se guardan los archivos originales. Puedes borrar cada snapshot por separado o todo el historial desde la misma sección; borrar los datos del sitio en tu navegador también los elimina.',
+  'legal.privacy.storeKeep':
+    'Si marcas **cuentas a mantener**, esos usernames (y la fecha en que los marcaste) también se guardan en IndexedDB, solo en ese dispositivo. Puedes quitar cada cuenta o borrar toda la lista desde su sección.',
+  'legal.privacy.storeReview':
+    'La **revisión guiada** guarda en IndexedDB qué cuentas anotaste como “dejé de seguir” o saltaste, para retomar donde quedaste. Lo puedes borrar con “Reiniciar avance”.',
+  'legal.privacy.storeLocale':
+    'Si eliges un **idioma** a mano, esa preferencia se guarda en el almacenamiento local del navegador (localStorage).',
+  'legal.privacy.deleteTitle': 'Cómo borrar tus datos',
+  'legal.privacy.delete':
+    'Puedes borrar cada cosa desde su sección, o todo junto con **Borrar todo de este dispositivo**. Antes, si quieres, guarda una copia cifrada para pasarla a otro dispositivo.',
+  'legal.privacy.deleteLink': 'Ir a copia de seguridad y borrado',
+  'legal.privacy.shareTitle': 'Compartición con terceros',
+  'legal.privacy.share':
+    'No vendemos ni compartimos tus datos con terceros. No usamos herramientas de tracking en este repositorio por defecto.',
+  'legal.privacy.securityTitle': 'Seguridad',
+  'legal.privacy.security':
+    'Aunque el procesamiento es local, recuerda que subir archivos sensibles en cualquier dispositivo implica riesgos (por ejemplo, dispositivos compartidos). Recomendamos usar un equipo de confianza y cerrar la pestaña al terminar.',
+  'legal.privacy.affiliationTitle': 'Afiliación',
+  'legal.privacy.affiliation': 'Esta herramienta es independiente y **no está afiliada** a Instagram ni a Meta.',
+  'legal.privacy.contactTitle': 'Contacto',
+  'legal.privacy.contact': 'Creador: **Cristian Cano**. Canales oficiales enlazados en el footer del sitio.',
+  'legal.terms.whatTitle': '1. Qué hace esta herramienta',
+  'legal.terms.what':
+    '“Escáner IG” te permite comparar **seguidos** vs **seguidores** usando la **exportación oficial** de Instagram (archivos JSON o HTML) y mostrar una lista de cuentas que sigues y no te siguen.',
+  'legal.terms.notTitle': '2. Lo que NO hace',
+  'legal.terms.not1': 'No inicia sesión en tu cuenta.',
+  'legal.terms.not2': 'No automatiza dejar de seguir.',
+  'legal.terms.not3': 'No usa scraping ni APIs privadas de Instagram.',
+  'legal.terms.requirementsTitle': '3. Requisitos del usuario',
+  'legal.terms.requirements1': 'Debes obtener tus archivos desde la descarga oficial de Instagram/Meta.',
+  'legal.terms.requirements2':
+    'Eres responsable de revisar lo que haces con la lista (dejar de seguir es una acción manual en Instagram).',
+  'legal.terms.useTitle': '4. Uso aceptable',
+  'legal.terms.use':
+    'Te comprometes a usar la herramienta de forma legal y respetando los términos de Instagram/Meta. Esta app solo facilita un análisis local de tus datos.',
+  'legal.terms.liabilityTitle': '5. Limitación de responsabilidad',
+  'legal.terms.liability':
+    'El creador no se hace responsable por cambios en la exportación de Instagram, errores de compatibilidad, o decisiones que tomes basadas en el resultado. La herramienta se ofrece “tal cual”.',
+  'legal.terms.changesTitle': '6. Cambios',
+  'legal.terms.changes': 'Podemos actualizar estos términos/privacidad en el futuro. La fecha de vigencia indica la versión actual.',
+} satisfies Record<RequiredKey, Message> & Record<string, Message>
+
+export type MessageKey = keyof typeof es
+
+export type Messages = Record<MessageKey, Message>
@@ -0,0 +1,17 @@
+/**
+ * Textos de todos los idiomas, indexados por `Locale`.
+ *
+ * Relación con otros archivos:
+ * - Lo usa `src/components/i18nContext.ts`.
+ * - Para agregar un idioma: crear `src/locales/<id>.ts` con el tipo `Messages`, sumarlo aquí y a `LOCALES`
+ *   (`src/lib/i18n.ts`).
+ */
+
+import type { Locale } from '../lib/i18n'
+import { en } from './en'
+import { es, type Messages } from './es'
+import { pt } from './pt'
+
+export type { MessageKey, Messages } from './es'
+
+export const MESSAGES: Record<Locale, Messages> = { es, en, pt }
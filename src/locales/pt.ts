@@ -0,0 +1,688 @@
+/**
+ * Textos en portugués. Mismas claves que `es.ts` (el tipo `Messages` avisa si falta alguna).
+ *
+ * Relación con otros archivos:
+ * - Lo carga `src/locales/index.ts`.
+ */
+
+import type { Messages } from './es'
+
+export const pt: Messages = {
+  // Idioma
+  'lang.label': 'Idioma',
+
+  // Encabezado y pie
+  'app.title': 'Scanner IG',
+  'app.subtitle': 'Compare **seguindo** vs **seguidores** usando a **exportação oficial** do Instagram.',
+  'app.badgesLabel': 'Características do produto',
+  'app.badgeNoLogin': 'Sem login',
+  'app.badgeNoScraping': 'Sem scraping',
+  'app.badgeFormats': 'JSON / HTML',
+  'app.badgePrivacy': 'Privacidade: processado localmente',
+  'app.ctaLabel': 'Ações principais',
+  'app.tutorialTitle': 'Ver tutorial no YouTube',
+  'app.tutorial': 'Ver tutorial (YouTube)',
+  'app.reset': 'Limpar',
+  'app.footerLabel': 'Créditos e redes',
+  'app.footerCreatedBy': 'Criado por Cristian Cano',
+  'app.footerSocialLabel': 'Redes sociais',
+  'app.footerPortfolio': 'Site / Portfólio',
+  'app.footerDonate': 'Doações (PayPal)',
+  'app.footerNote': 'Se esta ferramenta economiza seu tempo, considere apoiar o desenvolvimento com uma doação.',
+  'app.footerLegalLabel': 'Links legais',
+  'app.privacy': 'Política de Privacidade',
+  'app.terms': 'Termos e Condições',
+
+  // 1) Cargar archivos
+  'app.loadTitle': '1) Carregar arquivos',
+  'app.importFailed': 'Não foi possível processar os arquivos.',
+  'app.nothingFound':
+    'Não encontrei arquivos de seguidores nem de seguindo. Envie o download do Instagram (ZIP, pasta ou JSON/HTML): followers_* e following.',
+  'app.warningsTitle': 'Avisos:',
+  'app.warningInFile': '"{file}": {message}',
+  'help.summary': 'Onde consigo esses arquivos no Instagram?',
+  'help.menusVary':
+    'Importante: o Instagram muda os menus conforme a versão/idioma. Se não vir a “Central de Contas”, use a **busca** nas Configurações ou abra a Central de Contas pelo navegador.',
+  'help.windowsNote':
+    'Nota (Windows): mesmo que o Explorador mostre “Tipo: Chrome HTML Document”, você pode enviá-lo: este app aceita exportações em `.html` e `.json`.',
+  'help.step1': 'Instagram → seu perfil → menu ☰ → **Configurações e atividade** (ou “Configurações e privacidade”).',
+  'help.step2': 'Na busca das Configurações digite: `baixar` / `informações` / `dados`.',
+  'help.step3': 'Entre em **Baixar suas informações** e selecione **Seguidores e seguindo**.',
+  'help.step4':
+    'Se não encontrar no app, tente pelo navegador: `accountscenter.meta.com` → “Suas informações e permissões” → “Baixar suas informações”.',
+  'help.step5': 'Baixe o **.zip** e arraste-o como está. Se preferir descompactar, envie a pasta ou arquivos como:',
+  'help.fileFollowers': '`followers_1.json` ou `followers_1.html` (às vezes também `followers_2.*`, etc.)',
+  'help.fileFollowing': '`following.json` ou `following.html`',
+  'help.zipPath': 'Dica: o caminho típico dentro do zip costuma ser `connections/followers_and_following/`.',
+
+  // 2) Resultado
+  'app.resultTitle': '2) Resultado',
+  'app.needBothLists': 'Carregue seguidores e seguindo para ver o resultado.',
+  'app.incomplete': 'Faltam arquivos segundo o checklist acima; o resultado pode estar incompleto.',
+  'app.computeAnyway': 'Calcular mesmo assim',
+  'app.startReview': 'Revisar “Não te seguem” uma por uma',
+  'app.startReviewHint': 'Abra cada perfil, decida e anote; seu progresso fica salvo neste dispositivo.',
+  'app.footnote':
+    'Nota: este app não faz “deixar de seguir” automático; ele só ajuda você a identificar e abrir perfis para fazer isso manualmente.',
+  'tab.notFollowingBack': 'Não te seguem',
+  'tab.notFollowingBackEmpty': 'Não há ninguém em “seguindo” que não te siga (segundo os arquivos carregados).',
+  'tab.fans': 'Fãs (você não segue)',
+  'tab.fansEmpty': 'Você segue de volta todos os seus seguidores.',
+  'tab.mutuals': 'Mútuos',
+  'tab.mutualsEmpty': 'Não há seguidores mútuos nos arquivos carregados.',
+  'tab.listEmpty': 'A lista está vazia na exportação.',
+
+  // 3) Estadísticas
+  'app.statsTitle': '3) Estatísticas',
+  'app.statsIntro':
+    'Com as datas da exportação (JSON): quantos te seguem de volta, como sua conta cresceu mês a mês e se quem você seguiu há tempo te segue ou não.',
+
+  // 4) Mantener, 5) Historial, 6) Comparar, 7) Audiencia entre cuentas, 8) Copia de seguridad
+  'app.keepTitle': '4) Contas a manter (opcional, só neste dispositivo)',
+  'app.keepIntro':
+    'Marque as contas que você segue de propósito mesmo que não te sigam (mídia, marcas, artistas) e elas deixarão de aparecer em “Não te seguem”. Ficam salvas no navegador (IndexedDB); exporte a lista para compartilhá-la com sua equipe.',
+  'app.historyTitle': '5) Histórico (opcional, só neste dispositivo)',
+  'app.historyIntro':
+    'Salve um snapshot das suas listas para compará-lo com exportações futuras e ver quem deixou de te seguir. Fica salvo no navegador (IndexedDB), nunca em um servidor, e você pode apagá-lo quando quiser.',
+  'app.compareTitle': '6) Comparar duas exportações (sem salvar nada)',
+  'app.compareIntro':
+    'Carregue uma exportação antiga e uma nova (pode ser uma em JSON e outra em HTML) para ver o que mudou entre elas. Nada é salvo: ao recarregar a página, tudo desaparece.',
+  'app.overlapTitle': '7) Público entre suas contas',
+  'app.overlapIntro':
+    'Se você administra várias contas (pessoal, marca, projeto), carregue cada exportação no seu espaço acima e compare quem segue uma e não a outra, ou as duas. Tudo fica nesta página.',
+  'app.dataTitle': '8) Backup e limpeza',
+  'app.dataIntro':
+    'Leve seu histórico, a lista “manter” e o progresso da revisão para outro dispositivo com um arquivo criptografado, sem servidor. Ou apague tudo o que o app salvou aqui.',
+
+  // Texto antes de la fecha de cada fila
+  'date.followedOn': 'Você seguiu em',
+  'date.followsYouSince': 'Te segue desde',
+  'date.followedYouSince': 'Te seguia desde',
+  'date.requestSentOn': 'Solicitação enviada em',
+  'date.requestReceivedOn': 'Solicitação recebida em',
+  'date.unfollowedOn': 'Você deixou de seguir em',
+  'date.addedOn': 'Adicionado em',
+  'date.hiddenSince': 'Oculto desde',
+  'date.restrictedOn': 'Restringido em',
+  'date.blockedOn': 'Bloqueado em',
+  'date.suggestionRemovedOn': 'Sugestão removida em',
+  'date.generic': 'Data:',
+
+  // Listas
+  'kind.followers': 'Seguidores',
+  'kind.following': 'Seguindo',
+  'kind.close_friends': 'Amigos próximos',
+  'kind.blocked': 'Bloqueados',
+  'kind.restricted': 'Restritos',
+  'kind.follow_requests_sent': 'Solicitações pendentes (enviadas)',
+  'kind.recent_follow_requests': 'Solicitações enviadas recentemente',
+  'kind.follow_requests_received': 'Solicitações recebidas',
+  'kind.recently_unfollowed': 'Deixou de seguir recentemente',
+  'kind.removed_suggestions': 'Sugestões removidas',
+  'kind.hide_story_from': 'Story oculto para',
+  'kind.followed_hashtags': 'Hashtags seguidas',
+  'kind.other': 'Outra lista',
+  'kind.unclassified': 'Sem classificar',
+
+  // Variantes de esquema
+  'schema.string_list_value': 'JSON clássico (string_list_data.value)',
+  'schema.title_string_list': 'JSON com usuário em "title"',
+  'schema.string_list_href': 'JSON só com links (href)',
+  'schema.label_values': 'JSON da Central de Contas (label_values)',
+  'schema.connections_map': 'connections.json (exportação antiga)',
+  'schema.html': 'HTML',
+  'schema.mixed': 'JSON com formatos misturados',
+  'schema.empty': 'Lista vazia',
+  'schema.pasted_lines': 'Lista colada (um usuário por linha)',
+  'schema.pasted_csv': 'Lista colada (coluna de CSV)',
+  'schema.pasted_text': 'Lista colada (texto livre)',
+
+  // Zona de carga y progreso
+  'drop.title': 'Arraste aqui o .zip, a pasta descompactada ou os arquivos soltos',
+  'drop.hint': 'Detectamos sozinhos o que é cada arquivo: `followers_*`, `following` e outras listas (JSON ou HTML).',
+  'drop.chooseFiles': 'Escolher arquivos ou .zip',
+  'drop.chooseFolder': 'Escolher pasta',
+  'progress.processing': 'Processando arquivos…',
+  'progress.cancel': 'Cancelar',
+  'progress.ariaLabel': 'Progresso de {path}',
+  'progress.read': '{loaded} de {total}',
+  'progress.pending': 'Na fila',
+  'progress.reading': 'Lendo',
+  'progress.parsing': 'Analisando',
+  'progress.done': 'Pronto',
+  'progress.skipped': 'Ignorado',
+
+  // Listas pegadas o importadas de otra herramienta
+  'paste.summary': 'Não tem o export? Cole ou importe uma lista de contas',
+  'paste.intro':
+    'Serve uma coluna de uma planilha, o CSV de outra ferramenta ou o texto copiado da lista de seguidores no instagram.com. Escolha se são seus seguidores ou as contas que você segue.',
+  'paste.kind': 'Esta lista são meus',
+  'paste.textLabel': 'Cole a lista aqui',
+  'paste.chooseFile': 'Importar .csv ou .txt',
+  'paste.fileFailed': 'Não foi possível ler o arquivo.',
+  'paste.mode': 'Como ler',
+  'paste.modeAuto': 'Automático ({mode})',
+  'paste.mode.lines': 'Um usuário por linha',
+  'paste.mode.csv': 'CSV (uma coluna)',
+  'paste.mode.text': 'Texto livre',
+  'paste.modeHint.lines':
+    'Cada linha pode ter `@usuario`, `usuario` ou o link do perfil (vários por linha, separados por vírgulas ou espaços).',
+  'paste.modeHint.csv': 'Só a coluna escolhida é lida; as outras colunas são ignoradas.',
+  'paste.modeHint.text':
+    'São lidas as menções (`@usuario`) e os links de perfis. Do texto copiado do instagram.com, nomes e botões são pulados.',
+  'paste.column': 'Coluna com os usuários',
+  'paste.columnNumber': 'Coluna {number}',
+  'paste.hasHeader': 'A primeira linha é o cabeçalho',
+  'paste.read': { one: '**{count}** usuário lido.', other: '**{count}** usuários lidos.' },
+  'paste.duplicates': {
+    one: '{count} repetido não conta duas vezes.',
+    other: '{count} repetidos não contam duas vezes.',
+  },
+  'paste.ignored': {
+    one: '{count} linha foi pulada (cabeçalho, nomes ou botões).',
+    other: '{count} linhas foram puladas (cabeçalho, nomes ou botões).',
+  },
+  'paste.rejected': {
+    one: '{count} linha não pôde ser lida como usuário. Corrija-a na caixa acima ou deixe-a de fora:',
+    other: '{count} linhas não puderam ser lidas como usuário. Corrija-as na caixa acima ou deixe-as de fora:',
+  },
+  'paste.rejectedLabel': 'Linhas que não puderam ser lidas',
+  'paste.rejectedMore': { one: 'E mais {count} linha.', other: 'E mais {count} linhas.' },
+  'paste.line': 'Linha {line}:',
+  'paste.name': 'Nome da lista',
+  'paste.defaultName': 'Lista colada {number}',
+  'paste.add': 'Adicionar como {kind}',
+  'paste.added': {
+    one: '**{name}** adicionada como {kind} ({count} conta).',
+    other: '**{name}** adicionada como {kind} ({count} contas).',
+  },
+  'paste.replaces': 'Já existe uma lista chamada **{name}**: adicioná-la a substitui.',
+
+  // Checklist de archivos
+  'checklist.ariaLabel': 'Checklist de arquivos',
+  'checklist.accounts': { one: '{count} conta', other: '{count} contas' },
+  'checklist.kindAriaLabel': 'Tipo de {name}',
+  'checklist.remove': 'Remover',
+  'checklist.skippedSummary': { one: '{count} arquivo verificado e ignorado', other: '{count} arquivos verificados e ignorados' },
+  'checklist.ignored': 'Outros {count} itens (fotos, vídeos, pastas) foram ignorados sem abri-los.',
+  'detectedBy.content': 'pelo conteúdo',
+  'detectedBy.name': 'pelo nome',
+  'detectedBy.title': 'pelo título da página',
+  'detectedBy.manual': 'definido manualmente',
+  'pwa.updateAvailable': 'Há uma nova versão do app.',
+  'pwa.update': 'Atualizar',
+  'pwa.later': 'Depois',
+  'pwa.offlineReady': 'Pronto: o app já funciona offline neste dispositivo.',
+  'pwa.dismiss': 'Fechar',
+  'route.loading': 'Carregando…',
+  'route.notFoundTitle': 'Página não encontrada',
+  'route.notFoundText': 'O endereço **{path}** não existe. Seus arquivos carregados continuam aqui.',
+  'route.home': 'Voltar ao scanner',
+  'cli.usage': [
+    'Uso: escaner-ig [opções] <export.zip | pasta | arquivos...>',
+    '',
+    'Lê o export oficial do Instagram com os mesmos parsers da web, sem conexão com a internet,',
+    'e mostra quem não te segue de volta, seus fãs e seus mútuos.',
+    '',
+    'Opções:',
+    '  -f, --format <table|csv|json>  Formato de saída (padrão: table).',
+    '  -l, --list <id>                Só esta lista (repetível): notFollowingBack, fans, mutuals e, com',
+    '                                 --compare, newFollowers, lostFollowers, newFollowing, stoppedFollowingBack.',
+    '  -c, --compare <caminho>        Export anterior (ZIP, pasta ou arquivo; repetível) para ver o que mudou.',
+    '  -o, --out <arquivo>            Salva o resultado em um arquivo em vez de mostrá-lo.',
+    '      --allow-incomplete         Calcula mesmo se faltarem arquivos do checklist (ex: followers_2.json).',
+    '      --lang <es|en|pt>          Idioma das mensagens (padrão: o do sistema).',
+    '  -q, --quiet                    Não mostra avisos nem o checklist (os erros sim).',
+    '  -h, --help                     Mostra esta ajuda.',
+    '',
+    'Códigos de saída: 0 = pronto, 1 = erro inesperado, 2 = argumentos ou caminhos inválidos,',
+    '3 = faltam seguidores/seguidos ou arquivos do export.',
+  ].join('\n'),
+  'cli.badArguments': 'Argumentos inválidos: {message}\nUse --help para ver as opções.',
+  'cli.invalidValue': 'Valor inválido para {option}: "{value}". Opções: {allowed}.',
+  'cli.noInputs': 'Indique pelo menos um export (ZIP, pasta ou arquivos). Use --help para ver as opções.',
+  'cli.pathNotFound': 'Não existe ou não pode ser lido: {path}',
+  'cli.skipped': '"{path}" foi ignorado: {reason}',
+  'cli.missingLists': 'Não encontrei seguidores e seguidos em: {paths}',
+  'cli.incomplete': 'Faltam arquivos segundo o checklist; o resultado pode estar incompleto. Use --allow-incomplete para calcular mesmo assim.',
+  'cli.usernameHeader': 'Usuário',
+  'cli.written': 'Resultado salvo em {path}.',
+  'cli.unexpectedError': 'Erro inesperado: {message}',
+  'diagnostics.summary': { one: 'Diagnóstico de {count} arquivo', other: 'Diagnóstico por arquivo ({count})' },
+  'diagnostics.withNotices': { one: '{count} com avisos', other: '{count} com avisos' },
+  'diagnostics.intro':
+    'O que o scanner leu em cada arquivo. Se algo não bater, copie o relatório e anexe ao relatar o problema: ele não inclui nenhum usuário.',
+  'diagnostics.copy': 'Copiar relatório',
+  'diagnostics.copied': 'Relatório copiado (sem usuários).',
+  'diagnostics.copyFailed': 'Não foi possível copiar: o navegador não deu acesso à área de transferência.',
+  'diagnostics.status.parsed': 'lido',
+  'diagnostics.status.failed': 'não pôde ser lido',
+  'diagnostics.status.skipped': 'ignorado',
+  'diagnostics.notParsed': 'O arquivo não pôde ser lido, então nenhuma entrada foi verificada.',
+  'diagnostics.counts': 'Entradas verificadas: {seen} · Usuários extraídos: {extracted} · Descartadas: {skipped}',
+  'diagnostics.skip.unrecognized': 'Formato desconhecido: {count}',
+  'diagnostics.skip.duplicate': 'Repetidas: {count}',
+  'diagnostics.skip.no_username': 'Sem usuário: {count}',
+  'diagnostics.skip.invalid_username': 'Usuário inválido: {count}',
+  'diagnostics.skip.reserved_path': 'Links que não são perfis: {count}',
+  'diagnostics.skip.outside_list': 'Fora da lista: {count}',
+
+  // Resultados
+  'results.tabsLabel': 'Listas de resultados',
+  'results.downloadAll': 'Baixar todas as listas:',
+  'results.jsonTitle': 'Inclui data, arquivos de origem, contagens e avisos',
+  'results.xlsx': 'Excel (.xlsx)',
+  'results.xlsxTitle': 'Uma planilha por lista',
+  'results.exportAllName': 'resultados',
+  'results.sheetName': 'Lista {number}',
+  'report.anonymize': 'Relatório:',
+  'report.anonymizeLabel': 'Usernames no relatório',
+  'report.mode.none': 'Com usernames',
+  'report.mode.mask': 'Usernames ocultos (m•••z)',
+  'report.mode.hash': 'Pseudônimos (hash)',
+  'report.html': 'Relatório HTML',
+  'report.htmlTitle': 'Um único arquivo que abre offline: contagens, listas, data da exportação e avisos',
+  'report.print': 'Imprimir / PDF',
+  'report.printTitle': 'Abre a janela de impressão; escolha “Salvar como PDF” para ter um PDF',
+  'report.fileName': 'relatorio',
+  'report.failed': 'Não foi possível gerar o relatório.',
+  'report.title': 'Relatório do Escáner IG',
+  'report.generated': 'Gerado',
+  'report.exportDate': 'Data da exportação',
+  'report.counts': 'Resumo',
+  'report.sources': 'Arquivos de origem',
+  'report.warnings': 'Avisos do carregamento',
+  'report.username': 'Usuário',
+  'report.printButton': 'Imprimir / salvar como PDF',
+  'report.anonymizedMask': 'Relatório anonimizado: os usernames estão ocultos e não há links para perfis.',
+  'report.anonymizedHash':
+    'Relatório anonimizado: cada conta aparece com um pseudônimo próprio deste relatório e não há links para perfis.',
+  'report.footer': 'Gerado com o Escáner IG a partir da exportação oficial do Instagram, no navegador.',
+  'results.search': 'Buscar',
+  'results.searchPlaceholder': '@usuario',
+  'results.sort': 'Ordenar',
+  'results.sortAlpha': 'Alfabética',
+  'results.sortOldest': 'Mais antigos primeiro',
+  'results.sortNewest': 'Mais recentes primeiro',
+  'results.sortMembership': 'Em mais listas primeiro',
+  'results.before': 'Data anterior a',
+  'results.noDates': 'Os arquivos carregados não têm datas (costuma acontecer com a exportação em HTML).',
+  'results.showKept': 'Mostrar contas a manter ({count})',
+  'results.selectVisible': 'Selecionar visíveis',
+  'results.clearSelection': 'Limpar seleção',
+  'results.copyTitle': 'Copia @usernames para a área de transferência (a seleção, ou toda a lista visível)',
+  'results.copyList': 'Copiar lista',
+  'results.copySelection': 'Copiar seleção ({count})',
+  'results.csvTitle': 'Baixa como CSV a seleção, ou a lista visível (com busca, ordem e filtro)',
+  'results.downloadCsv': 'Baixar CSV',
+  'results.downloadSelection': 'Baixar seleção ({count})',
+  'results.keepSelection': 'Manter seleção',
+  'results.keepSelectionCount': 'Manter seleção ({count})',
+  'results.keepSelectionTitle': 'Marca as contas selecionadas como contas que você segue de propósito',
+  'results.total': 'Total: **{count}**',
+  'results.totalOf': 'Total: **{count}** de {total}',
+  'results.selectedCount': ' · {count} selecionadas',
+  'results.hiddenKept': ' · {count} ocultas por estarem em "manter"',
+  'results.noMatches': 'Nenhuma conta corresponde à busca ou ao filtro.',
+  'results.selectAccount': 'Selecionar @{username}',
+  'results.alsoIn': 'Também em: {lists}',
+  'results.keptTag': 'Manter',
+  'results.keep': 'Manter',
+  'results.unkeep': 'Não manter',
+  'results.keepTitle': 'Você a segue de propósito: ocultá-la de "Não te seguem"',
+  'results.unkeepTitle': 'Remover da lista "manter"',
+  'results.openProfile': 'Abrir perfil',
+
+  // Mantener
+  'keep.pasteLabel': 'Cole usernames ou links de perfis (um por linha, ou separados por vírgulas)',
+  'keep.add': 'Adicionar à lista',
+  'keep.importFile': 'Importar arquivo',
+  'keep.exportFile': 'Exportar lista',
+  'keep.exportName': 'manter',
+  'keep.clear': 'Apagar tudo',
+  'keep.confirmClear': 'Apagar toda a lista de contas a manter deste dispositivo?',
+  'keep.added': { one: '{count} conta adicionada.', other: '{count} contas adicionadas.' },
+  'keep.repeated': { one: '{count} já estava na lista.', other: '{count} já estavam na lista.' },
+  'keep.invalid': 'Não parecem usernames ({count}): {sample}',
+  'keep.fileFailed': 'Não foi possível ler o arquivo.',
+  'keep.loadFailed': 'Não foi possível ler a lista local.',
+  'keep.saveFailed': 'Não foi possível salvar a lista local.',
+  'keep.empty': 'Você ainda não marcou nenhuma conta.',
+  'keep.count': { one: '**{count}** conta a manter.', other: '**{count}** contas a manter.' },
+  'keep.listLabel': 'Contas a manter',
+  'keep.remove': 'Remover',
+
+  // Revisión guiada
+  'review.ariaLabel': 'Revisão guiada',
+  'review.loading': 'Carregando progresso…',
+  'review.progress': 'Revisadas **{done}** de {total} · pendentes {pending}',
+  'review.lastHour': ' · você deixou de seguir {count} na última hora',
+  'review.followedOn': 'Você seguiu em {date}',
+  'review.skippedBefore': ' · você pulou antes',
+  'review.open': 'Abrir perfil (O)',
+  'review.wait': 'Aguarde {seconds} s',
+  'review.unfollowed': 'Já deixei de seguir (U)',
+  'review.keep': 'Manter (K)',
+  'review.skip': 'Pular (S)',
+  'review.undo': 'Desfazer (Z)',
+  'review.pause':
+    'Vá com calma: o Instagram pode limitar sua conta se você deixar de seguir muitas contas seguidas. A próxima em {seconds} s.',
+  'review.skipPause': 'Seguir sem esperar',
+  'review.finished': 'Não há mais contas para revisar em “Não te seguem”.',
+  'review.finishedUndo': ' Você pode desfazer a última decisão com Z.',
+  'review.pacing': 'Pausa depois de cada “deixei de seguir”',
+  'review.noPacing': 'Sem pausa',
+  'review.seconds': '{count} segundos',
+  'review.reset': 'Reiniciar progresso',
+  'review.confirmReset': 'Apagar o progresso da revisão? As contas marcadas como "manter" não são alteradas.',
+  'review.close': 'Sair da revisão (Esc)',
+  'review.shortcuts': 'Atalhos:',
+  'review.shortcutOpen': 'abrir perfil',
+  'review.shortcutUnfollowed': 'já deixei de seguir',
+  'review.shortcutKeep': 'manter',
+  'review.shortcutSkip': 'pular',
+  'review.shortcutUndo': 'desfazer',
+  'review.manualNote': 'O app não deixa de seguir ninguém por você: abra o perfil, faça isso no Instagram e anote aqui.',
+  'review.loadFailed': 'Não foi possível ler o progresso salvo.',
+  'review.saveFailed': 'Não foi possível salvar a decisão.',
+  'review.undoFailed': 'Não foi possível desfazer.',
+  'review.resetFailed': 'Não foi possível reiniciar o progresso.',
+
+  // Historial
+  'history.namePlaceholder': 'Nome do snapshot (ex: Exportação de março)',
+  'history.save': 'Salvar snapshot',
+  'history.defaultName': 'Exportação de {date}',
+  'history.needLists': 'Carregue seguidores e seguindo para poder salvar um snapshot.',
+  'history.loadFailed': 'Não foi possível ler o histórico local.',
+  'history.saveFailed': 'Não foi possível salvar o snapshot.',
+  'history.empty': 'Ainda não há snapshots salvos neste dispositivo.',
+  'history.counts': '{date} · {followers} seguidores · {following} seguindo',
+  'history.delete': 'Apagar',
+  'history.from': 'Comparar de',
+  'history.to': 'até',
+  'history.choose': 'Escolha um snapshot',
+  'history.clear': 'Apagar todo o histórico',
+  'history.confirmClear': 'Apagar todos os snapshots salvos neste dispositivo?',
+  'history.source': 'snapshot: {name}',
+
+  // Espacios de trabajo (una cuenta por espacio) y audiencia entre cuentas
+  'workspace.tabsLabel': 'Contas carregadas',
+  'workspace.defaultName': 'Conta {n}',
+  'workspace.files': { one: '{count} arquivo', other: '{count} arquivos' },
+  'workspace.add': '+ Outra conta',
+  'workspace.name': 'Nome desta conta',
+  'workspace.remove': 'Remover esta conta',
+  'workspace.confirmRemove': 'Remover “{name}” e os arquivos carregados?',
+  'workspace.splitNotice': {
+    one: 'O envio trazia {count} conta.',
+    other: 'O envio trazia {count} contas: cada uma ficou no seu próprio espaço (abas acima).',
+  },
+  'overlap.needTwo': 'Carregue seguidores ou seguindo em pelo menos duas contas (botão “+ Outra conta” acima) para cruzá-las.',
+  'overlap.accountA': 'Conta A',
+  'overlap.accountB': 'Conta B',
+  'overlap.list': 'Comparar',
+  'overlap.listFollowers': 'Seguidores',
+  'overlap.listFollowing': 'Seguindo',
+  'overlap.missingList': 'Falta essa lista em “{account}”; a comparação a considera vazia.',
+  'overlap.diagramLabel': 'Só {a}: {onlyA}; nas duas: {both}; só {b}: {onlyB}',
+  'overlap.bothShort': 'Nas duas',
+  'overlap.similarity': 'Sobreposição: {percent}% das contas distintas estão nas duas.',
+  'overlap.followersOnly': 'Seguem {account} e não {other}',
+  'overlap.followersBoth': 'Seguem as duas',
+  'overlap.followingOnly': '{account} segue e {other} não',
+  'overlap.followingBoth': 'Seguidas pelas duas',
+  'overlap.followersDate': 'Segue {account} desde',
+  'overlap.followingDate': '{account} seguiu em',
+  'overlap.empty': 'Não há contas nesta área.',
+
+  // Comparar dos exports y pestañas de diferencias
+  'compare.older': 'Exportação antiga',
+  'compare.newer': 'Exportação nova',
+  'compare.olderSource': 'antiga: {path}',
+  'compare.newerSource': 'nova: {path}',
+  'compare.needLists': 'Carregue seguidores e seguindo dos dois lados para ver o que mudou.',
+  'compare.clear': 'Limpar comparação',
+  'diff.newFollowers': 'Novos seguidores',
+  'diff.newFollowersEmpty': 'Não há seguidores novos entre as duas versões.',
+  'diff.lostFollowers': 'Deixaram de te seguir',
+  'diff.lostFollowersEmpty': 'Ninguém deixou de te seguir entre as duas versões.',
+  'diff.newFollowing': 'Novos seguindo',
+  'diff.newFollowingEmpty': 'Você não começou a seguir ninguém entre as duas versões.',
+  'diff.stoppedFollowingBack': 'Não te seguem mais de volta',
+  'diff.stoppedFollowingBackEmpty': 'Todos os mútuos continuam sendo.',
+
+  // Estadísticas
+  'stats.needResults': 'As estatísticas aparecem junto com o resultado (seção 2).',
+  'stats.excludeKept': 'Não contar as contas a manter ({count})',
+  'stats.since': 'Desde',
+  'stats.following': 'Seguindo',
+  'stats.followers': 'Seguidores',
+  'stats.followBackRatio': 'te seguem de volta ({count} de {total})',
+  'stats.referenceToday': 'As antiguidades são contadas a partir de **hoje** (o nome do ZIP não traz a data da exportação).',
+  'stats.referenceExport': 'As antiguidades são contadas a partir da data da exportação: **{date}**.',
+  'stats.undated': {
+    one: '{count} conta sem data (ex: exportação em HTML) fica fora dos gráficos.',
+    other: '{count} contas sem data (ex: exportação em HTML) ficam fora dos gráficos.',
+  },
+  'stats.monthlyTitle': 'Contas seguidas e novos seguidores por mês',
+  'stats.monthlyLabel': 'Gráfico de barras: contas seguidas e novos seguidores em {months} meses.',
+  'stats.monthTooltip': '{month}: você seguiu {follows}, {followers} começaram a te seguir',
+  'stats.follows': 'Você seguiu',
+  'stats.newFollowers': 'Começaram a te seguir',
+  'stats.showData': 'Ver os dados',
+  'stats.month': 'Mês',
+  'stats.ageTitle': 'Quantos não te seguem, segundo há quanto tempo você os seguiu',
+  'stats.ageLabel': 'Gráfico de barras: porcentagem de contas seguidas que não te seguem, segundo há quanto tempo você as seguiu.',
+  'stats.ageShare': '{percent}% ({count} de {total})',
+  'stats.age.month': '< 1 mês',
+  'stats.age.quarter': '1–3 meses',
+  'stats.age.halfYear': '3–6 meses',
+  'stats.age.year': '6–12 meses',
+  'stats.age.twoYears': '1–2 anos',
+  'stats.age.older': 'Mais de 2 anos',
+  'stats.followedAgo': 'Seguiu há',
+  'stats.notFollowingBack': 'Não te seguem',
+  'stats.oldest': 'Que você segue há mais tempo',
+  'stats.newest': 'Últimas que você seguiu',
+  'stats.noFollowDates': 'Nenhuma conta seguida tem data.',
+  'stats.noDates': 'Esta exportação não traz datas (ex: HTML), então não há gráficos.',
+
+  // Copia de seguridad y borrado
+  'backup.exportTitle': 'Salvar um backup',
+  'backup.exportHint':
+    'Inclui o histórico, as contas a manter, o progresso da revisão e o idioma. Não inclui os arquivos carregados nesta página.',
+  'backup.passphrase': 'Frase para criptografar',
+  'backup.passphraseConfirm': 'Repita a frase',
+  'backup.passphraseHint': 'Mínimo de {min} caracteres. Sem esta frase o backup não pode ser aberto: não há como recuperá-la.',
+  'backup.passphraseShort': 'A frase precisa de pelo menos {min} caracteres.',
+  'backup.passphraseMismatch': 'As duas frases não coincidem.',
+  'backup.download': 'Baixar backup criptografado',
+  'backup.encrypting': 'Criptografando…',
+  'backup.fileName': 'backup',
+  'backup.exported': 'Backup baixado. Guarde a frase separadamente: sem ela o arquivo não pode ser aberto.',
+  'backup.exportFailed': 'Não foi possível criar o backup.',
+  'backup.importTitle': 'Restaurar um backup',
+  'backup.chooseFile': 'Escolher arquivo de backup',
+  'backup.fileChosen': 'Arquivo: **{name}**',
+  'backup.passphraseImport': 'Frase do backup',
+  'backup.strategy': 'O que fazer com o que já existe neste dispositivo',
+  'backup.strategy.merge': 'Combinar: somar o que está no backup e manter o que está aqui',
+  'backup.strategy.replace': 'Substituir: apagar o que está aqui e deixar só o backup',
+  'backup.restore': 'Restaurar',
+  'backup.decrypting': 'Descriptografando…',
+  'backup.confirmReplace':
+    'Apagar o histórico, a lista “manter” e o progresso da revisão deste dispositivo e substituí-los pelo backup?',
+  'backup.restored':
+    'Backup restaurado. Snapshots: **{snapshots}** · Contas a manter: **{keep}** · Decisões da revisão: **{review}**.',
+  'backup.merged':
+    'Backup combinado. Novos ou atualizados: snapshots **{snapshots}** · contas a manter **{keep}** · decisões da revisão **{review}**.',
+  'backup.importFailed': 'Não foi possível restaurar o backup.',
+  'backup.wipeTitle': 'Apagar tudo deste dispositivo',
+  'backup.wipeHint':
+    'Apaga o histórico, a lista “manter”, o progresso da revisão e o idioma escolhido, e descarta os arquivos carregados nesta página. A cópia do app para uso offline continua (não tem dados seus).',
+  'backup.wipe': 'Apagar tudo',
+  'backup.confirmWipe': 'Apagar todos os dados do Escáner IG deste dispositivo? Não dá para desfazer, a menos que você tenha um backup.',
+  'backup.wipeFailed': 'Não foi possível apagar tudo.',
+
+  // Avisos de parsers y pipeline
+  'notice.json_nonstandard_key': 'Formato não padrão: extraído de "{key}".',
+  'notice.json_list_no_usernames': '{kind} foi detectado, mas não foi possível extrair usernames.',
+  'notice.json_list_unrecognized_entries': {
+    one: '{kind}: {count} entrada com formato desconhecido foi ignorada.',
+    other: '{kind}: {count} entradas com formato desconhecido foram ignoradas.',
+  },
+  'notice.json_array_no_usernames': 'O JSON é um array, mas não foi possível extrair usernames.',
+  'notice.json_array_unrecognized_entries': {
+    one: '{count} entrada com formato desconhecido foi ignorada.',
+    other: '{count} entradas com formato desconhecido foram ignoradas.',
+  },
+  'notice.json_unknown_format': 'Formato de JSON não reconhecido para seguidores/seguindo.',
+  'notice.json_invalid': 'Não consegui lê-lo como JSON. Envie o *.json original do ZIP.',
+  'notice.json_invalid_at':
+    'Não consegui lê-lo como JSON: o erro está na linha {line}, coluna {column}. Envie o *.json original do ZIP.',
+  'notice.html_no_structure':
+    'A estrutura da página não foi reconhecida (não há linhas de lista). É um HTML da exportação do Instagram?',
+  'notice.html_no_usernames':
+    'Não foi possível extrair usernames do HTML. Se o Instagram deixar escolher o formato, tente JSON.',
+  'notice.html_unreadable_dates': {
+    one: 'Não foi possível interpretar a data de {count} conta (ex: "{example}").',
+    other: 'Não foi possível interpretar a data de {count} contas (ex: "{example}").',
+  },
+  'notice.html_rejected_outside_list': {
+    one: '{count} link fora da lista foi descartado.',
+    other: '{count} links fora da lista foram descartados.',
+  },
+  'notice.html_rejected_reserved_path': {
+    one: '{count} caminho do Instagram que não é um perfil foi descartado.',
+    other: '{count} caminhos do Instagram que não são perfis foram descartados.',
+  },
+  'notice.html_rejected_invalid_username': {
+    one: '{count} texto que não é um usuário válido foi descartado.',
+    other: '{count} textos que não são usuários válidos foram descartados.',
+  },
+  'notice.html_rejected_no_username': {
+    one: '{count} linha sem usuário foi descartada.',
+    other: '{count} linhas sem usuário foram descartadas.',
+  },
+  'notice.html_rejected_duplicate': {
+    one: '{count} usuário repetido foi descartado.',
+    other: '{count} usuários repetidos foram descartados.',
+  },
+  'notice.name_content_mismatch': 'O nome sugere "{nameKind}" mas o conteúdo é "{detectedKind}". Foi usado o conteúdo.',
+  'notice.name_title_mismatch': 'O nome sugere "{nameKind}" mas o título da página diz "{detectedKind}". Foi usado o nome.',
+  'notice.skip_too_large': 'Arquivo grande demais para verificar o conteúdo.',
+  'notice.skip_read_failed': 'Não foi possível ler o arquivo.',
+  'notice.skip_invalid_json': 'Não é um JSON válido.',
+  'notice.skip_invalid_json_at': 'Não é um JSON válido (linha {line}, coluna {column}).',
+  'notice.skip_not_relationship_json': 'Não contém listas de seguidores/seguindo.',
+  'notice.skip_not_relationship_html': 'A página HTML não é uma lista de contas conhecida.',
+  'notice.skip_unzip_failed': 'Não foi possível descompactar. {error}',
+  'notice.skip_zip_failed': 'Não consegui abrir o ZIP. {error}',
+  'notice.zip_not_a_zip': 'Não parece um ZIP válido (o diretório central não foi encontrado).',
+  'notice.zip64_incomplete': 'ZIP64 incompleto: falta o localizador do diretório central.',
+  'notice.zip64_corrupt': 'ZIP64 inválido: diretório central corrompido.',
+  'notice.zip_corrupt': 'Diretório central do ZIP corrompido.',
+  'notice.zip_entry_encrypted': '"{path}" está criptografado e não pode ser lido.',
+  'notice.zip_entry_bad_header': 'Header local inválido para "{path}".',
+  'notice.zip_unsupported_browser': 'Este navegador não consegue descompactar ZIP. Descompacte manualmente e envie os arquivos.',
+  'notice.zip_unsupported_method': '"{path}" usa um método de compressão não suportado ({method}).',
+  'notice.checklist_followers_loaded': {
+    one: 'Seguidores carregados ({files} arquivo(s), {count} conta)',
+    other: 'Seguidores carregados ({files} arquivo(s), {count} contas)',
+  },
+  'notice.checklist_followers_missing': 'Faltam seguidores: followers_1.json ou followers_1.html',
+  'notice.checklist_following_loaded': {
+    one: 'Seguindo carregado ({files} arquivo(s), {count} conta)',
+    other: 'Seguindo carregado ({files} arquivo(s), {count} contas)',
+  },
+  'notice.checklist_following_missing': 'Falta seguindo: following.json ou following.html',
+  'notice.checklist_missing_part': '{name} não foi carregado, mas {after} sim (falta uma parte)',
+  'notice.checklist_unclassified': {
+    one: '{count} arquivo sem classificar: indique qual lista é',
+    other: '{count} arquivos sem classificar: indique qual lista é cada um',
+  },
+  'notice.compare_different_owners':
+    'As exportações parecem ser de contas diferentes (@{older} e @{newer}). O resultado não faria sentido.',
+  'notice.compare_low_overlap':
+    'Só {percent}% das contas coincidem entre as duas exportações. Tem certeza de que são da mesma conta?',
+  'notice.compare_reversed': 'A exportação "antiga" tem datas mais recentes que a "nova". Você as carregou ao contrário?',
+  'notice.keep_file_bad_json': 'O arquivo parece JSON mas não foi possível lê-lo.',
+  'notice.keep_file_no_list': 'O JSON não tem uma lista de contas.',
+  'notice.backup_not_backup': 'O arquivo não é um backup do Escáner IG.',
+  'notice.backup_newer_version': 'O backup usa uma versão mais nova do formato ({version}). Atualize o app para abri-lo.',
+  'notice.backup_wrong_passphrase': 'Não foi possível descriptografar: a frase está errada ou o arquivo foi modificado.',
+  'notice.backup_corrupt': 'O backup está danificado ou incompleto.',
+  'notice.local_db_unavailable': 'Este navegador não permite salvar dados locais (IndexedDB indisponível).',
+  'notice.local_db_open_failed': 'Não foi possível abrir o banco de dados local.',
+  'notice.local_db_failed': 'Não foi possível ler ou salvar os dados locais.',
+  'notice.local_db_aborted': 'A operação com os dados locais foi cancelada.',
+  'notice.import_cancelled': 'Importação cancelada.',
+  'notice.import_worker_failed': 'Não foi possível processar os arquivos em segundo plano.',
+  'notice.import_unknown_error': 'Erro desconhecido ao processar os arquivos.',
+  'notice.launch_files_unreadable':
+    'Não foi possível ler os arquivos abertos com o app (podem ter sido movidos ou falta permissão).',
+
+  // Error inesperado
+  'error.title': 'Ops, algo deu errado',
+  'error.body': 'Se você estava abrindo “Privacidade” ou “Termos”, recarregue a página. Se persistir, avise o criador.',
+  'error.unknown': 'Erro desconhecido',
+  'error.reload': 'Recarregar',
+  'error.home': 'Voltar ao início',
+
+  // Páginas legales
+  'legal.privacyTitle': 'Política de Privacidade',
+  'legal.termsTitle': 'Termos e Condições (Políticas de uso)',
+  'legal.effective': 'Vigência: **{date}**',
+  'legal.back': 'Voltar ao scanner',
+  'legal.privacy.summaryTitle': 'Resumo (em termos simples)',
+  'legal.privacy.summary1': 'Este app processa os arquivos do Instagram **no seu navegador**.',
+  'legal.privacy.summary2': 'Não pedimos sua senha, não fazemos login e não usamos APIs privadas/scraping.',
+  'legal.privacy.summary3': 'Não enviamos seus arquivos a um servidor (a menos que você implemente/ative isso no futuro).',
+  'legal.privacy.collectTitle': 'Quais dados coletamos',
+  'legal.privacy.collect':
+    'Por padrão, **não coletamos** dados pessoais em um servidor. Os arquivos que você envia são lidos localmente para extrair apenas os **usernames** necessários para comparar listas.',
+  'legal.privacy.storeTitle': 'Quais dados guardamos',
+  'legal.privacy.store':
+    'O app **não guarda** suas listas na nuvem. Por padrão também não guarda nada no seu dispositivo: ao recarregar a página, os dados carregados desaparecem.',
+  'legal.privacy.storeHistory':
+    'Se você usar o **Histórico**, as listas de relações (usernames, link do perfil e data) são salvas como snapshots no armazenamento local do navegador (IndexedDB), só nesse dispositivo. Os arquivos originais nunca são salvos. Você pode apagar cada snapshot separadamente ou todo o histórico na mesma seção; apagar os dados do site no navegador também os elimina.',
+  'legal.privacy.storeKeep':
+    'Se você marcar **contas a manter**, esses usernames (e a data em que os marcou) também são salvos no IndexedDB, só nesse dispositivo. Você pode remover cada conta ou apagar toda a lista na sua seção.',
+  'legal.privacy.storeReview':
+    'A **revisão guiada** salva no IndexedDB quais contas você anotou como “deixei de seguir” ou pulou, para continuar de onde parou. Você pode apagar isso com “Reiniciar progresso”.',
+  'legal.privacy.storeLocale':
+    'Se você escolher um **idioma** manualmente, essa preferência é salva no armazenamento local do navegador (localStorage).',
+  'legal.privacy.deleteTitle': 'Como apagar seus dados',
+  'legal.privacy.delete':
+    'Você pode apagar cada coisa na sua seção, ou tudo de uma vez com **Apagar tudo deste dispositivo**. Antes, se quiser, salve um backup criptografado para levá-lo a outro dispositivo.',
+  'legal.privacy.deleteLink': 'Ir para backup e limpeza',
+  'legal.privacy.shareTitle': 'Compartilhamento com terceiros',
+  'legal.privacy.share':
+    'Não vendemos nem compartilhamos seus dados com terceiros. Este repositório não usa ferramentas de rastreamento por padrão.',
+  'legal.privacy.securityTitle': 'Segurança',
+  'legal.privacy.security':
+    'Embora o processamento seja local, lembre que enviar arquivos sensíveis em qualquer dispositivo envolve riscos (por exemplo, dispositivos compartilhados). Recomendamos usar um equipamento de confiança e fechar a aba ao terminar.',
+  'legal.privacy.affiliationTitle': 'Afiliação',
+  'legal.privacy.affiliation': 'Esta ferramenta é independente e **não é afiliada** ao Instagram nem à Meta.',
+  'legal.privacy.contactTitle': 'Contato',
+  'legal.privacy.contact': 'Criador: **Cristian Cano**. Canais oficiais no rodapé do site.',
+  'legal.terms.whatTitle': '1. O que esta ferramenta faz',
+  'legal.terms.what':
+    '“Scanner IG” permite comparar **seguindo** vs **seguidores** usando a **exportação oficial** do Instagram (arquivos JSON ou HTML) e mostrar uma lista de contas que você segue e não te seguem.',
+  'legal.terms.notTitle': '2. O que NÃO faz',
+  'legal.terms.not1': 'Não faz login na sua conta.',
+  'legal.terms.not2': 'Não automatiza deixar de seguir.',
+  'legal.terms.not3': 'Não usa scraping nem APIs privadas do Instagram.',
+  'legal.terms.requirementsTitle': '3. Requisitos do usuário',
+  'legal.terms.requirements1': 'Você deve obter seus arquivos pelo download oficial do Instagram/Meta.',
+  'legal.terms.requirements2':
+    'Você é responsável pelo que faz com a lista (deixar de seguir é uma ação manual no Instagram).',
+  'legal.terms.useTitle': '4. Uso aceitável',
+  'legal.terms.use':
+    'Você se compromete a usar a ferramenta de forma legal e respeitando os termos do Instagram/Meta. Este app apenas facilita uma análise local dos seus dados.',
+  'legal.terms.liabilityTitle': '5. Limitação de responsabilidade',
+  'legal.terms.liability':
+    'O criador não se responsabiliza por mudanças na exportação do Instagram, erros de compatibilidade ou decisões que você tomar com base no resultado. A ferramenta é oferecida “como está”.',
+  'legal.terms.changesTitle': '6. Alterações',
+  'legal.terms.changes': 'Podemos atualizar estes termos/privacidade no futuro. A data de vigência indica a versão atual.',
+}
@@ -2,10 +2,16 @@
  * Página legal (Términos + Privacidad) para dar tranquilidad al usuario.
  *
  * Relación con otros archivos:
- * - `src/App.tsx` usa navegación por hash (`#/privacy`, `#/terms`) para mostrar esta pantalla.
+ * - `src/App.tsx` la muestra en las rutas `#/privacy` y `#/terms` (`src/lib/routes.ts`) y la carga con `lazy`:
+ *   este archivo y su CSS quedan en un chunk aparte.
  * - El objetivo es mantener la app simple (sin dependencias de routing) y clara en privacidad.
+ * - Los textos están en `src/locales/*.ts` (claves `legal.*`).
  */
 
+import { useState } from 'react'
+import { useI18n } from '../components/i18nContext'
+import { LanguageSwitcher } from '../components/LanguageSwitcher'
+import { RichText } from '../components/RichText'
 import './legalPage.css'
 
 export type LegalRoute = 'privacy' | 'terms'
@@ -16,19 +22,23 @@ type Props = {
 }
 
 export function LegalPage({ route, onBack }: Props) {
+  const { t, formatDate } = useI18n()
+  // La vigencia mostrada es la fecha del día; se toma una sola vez al abrir la página.
+  const [today] = useState(() => Date.now())
   const isPrivacy = route === 'privacy'
 
   return (
     <div className="legalShell">
       <header className="legalHeader">
         <div>
-          <h1 className="legalTitle">{isPrivacy ? 'Política de Privacidad' : 'Términos y Condiciones (Políticas de uso)'}</h1>
+          <h1 className="legalTitle">{isPrivacy ? t('legal.privacyTitle') : t('legal.termsTitle')}</h1>
           <p className="legalSubtitle">
-            Vigencia: <strong>{new Date().toISOString().slice(0, 10)}</strong>
+            <RichText text={t('legal.effective', { date: formatDate(today) })} />
           </p>
         </div>
+        <LanguageSwitcher />
         <button type="button" className="legalBackBtn" onClick={onBack}>
-          Volver al escáner
+          {t('legal.back')}
         </button>
       </header>
 
@@ -40,94 +50,97 @@ export function LegalPage({ route, onBack }: Props) {
 }
 
 function PrivacyContent() {
+  const { t } = useI18n()
   return (
     <section className="legalCard">
-      <h2>Resumen (en simple)</h2>
+      <h2>{t('legal.privacy.summaryTitle')}</h2>
       <ul>
         <li>
-          Esta app procesa los archivos de Instagram <strong>en tu navegador</strong>.
-        </li>
-        <li>
-          No pedimos tu contraseña, no hacemos login, y no usamos APIs privadas/scraping.
-        </li>
-        <li>
-          No subimos tus archivos a un servidor (a menos que tú lo implementes/actives en el futuro).
+          <RichText text={t('legal.privacy.summary1')} />
         </li>
+        <li>{t('legal.privacy.summary2')}</li>
+        <li>{t('legal.privacy.summary3')}</li>
       </ul>
 
-      <h2>Qué datos recopilamos</h2>
+      <h2>{t('legal.privacy.collectTitle')}</h2>
       <p>
-        Por defecto, <strong>no recopilamos</strong> datos personales en un servidor. Los archivos que subes se leen localmente para extraer
-        únicamente los <strong>usernames</strong> necesarios para comparar listas.
+        <RichText text={t('legal.privacy.collect')} />
       </p>
 
-      <h2>Qué datos guardamos</h2>
+      <h2>{t('legal.privacy.storeTitle')}</h2>
       <p>
-        Actualmente, la app <strong>no necesita</strong> guardar tus listas en la nube. Si en el futuro se agrega almacenamiento local (por ejemplo,
-        para recordar el último análisis), será opcional y se aclarará en la interfaz.
+        <RichText text={t('legal.privacy.store')} />
+      </p>
+      <p>
+        <RichText text={t('legal.privacy.storeHistory')} />
+      </p>
+      <p>
+        <RichText text={t('legal.privacy.storeKeep')} />
+      </p>
+      <p>
+        <RichText text={t('legal.privacy.storeReview')} />
+      </p>
+      <p>
+        <RichText text={t('legal.privacy.storeLocale')} />
       </p>
 
-      <h2>Compartición con terceros</h2>
-      <p>No vendemos ni compartimos tus datos con terceros. No usamos herramientas de tracking en este repositorio por defecto.</p>
-
-      <h2>Seguridad</h2>
+      <h2>{t('legal.privacy.deleteTitle')}</h2>
+      <p>
+        <RichText text={t('legal.privacy.delete')} />
+      </p>
       <p>
-        Aunque el procesamiento es local, recuerda que subir archivos sensibles en cualquier dispositivo implica riesgos (por ejemplo, dispositivos
-        compartidos). Recomendamos usar un equipo de confianza y cerrar la pestaña al terminar.
+        <a href="#/data">{t('legal.privacy.deleteLink')}</a>
       </p>
 
-      <h2>Afiliación</h2>
+      <h2>{t('legal.privacy.shareTitle')}</h2>
+      <p>{t('legal.privacy.share')}</p>
+
+      <h2>{t('legal.privacy.securityTitle')}</h2>
+      <p>{t('legal.privacy.security')}</p>
+
+      <h2>{t('legal.privacy.affiliationTitle')}</h2>
       <p>
-        Esta herramienta es independiente y <strong>no está afiliada</strong> a Instagram ni a Meta.
+        <RichText text={t('legal.privacy.affiliation')} />
       </p>
 
-      <h2>Contacto</h2>
+      <h2>{t('legal.privacy.contactTitle')}</h2>
       <p>
-        Creador: <strong>Cristian Cano</strong>. Canales oficiales enlazados en el footer del sitio.
+        <RichText text={t('legal.privacy.contact')} />
       </p>
     </section>
   )
 }
 
 function TermsContent() {
+  const { t } = useI18n()
   return (
     <section className="legalCard">
-      <h2>1. Qué hace esta herramienta</h2>
+      <h2>{t('legal.terms.whatTitle')}</h2>
       <p>
-        “Escáner IG” te permite comparar <strong>seguidos</strong> vs <strong>seguidores</strong> usando la <strong>exportación oficial</strong> de
-        Instagram (archivos JSON o HTML) y mostrar una lista de cuentas que sigues y no te siguen.
+        <RichText text={t('legal.terms.what')} />
       </p>
 
-      <h2>2. Lo que NO hace</h2>
+      <h2>{t('legal.terms.notTitle')}</h2>
       <ul>
-        <li>No inicia sesión en tu cuenta.</li>
-        <li>No automatiza dejar de seguir.</li>
-        <li>No usa scraping ni APIs privadas de Instagram.</li>
+        <li>{t('legal.terms.not1')}</li>
+        <li>{t('legal.terms.not2')}</li>
+        <li>{t('legal.terms.not3')}</li>
       </ul>
 
-      <h2>3. Requisitos del usuario</h2>
+      <h2>{t('legal.terms.requirementsTitle')}</h2>
       <ul>
-        <li>Debes obtener tus archivos desde la descarga oficial de Instagram/Meta.</li>
-        <li>Eres responsable de revisar lo que haces con la lista (dejar de seguir es una acción manual en Instagram).</li>
+        <li>{t('legal.terms.requirements1')}</li>
+        <li>{t('legal.terms.requirements2')}</li>
       </ul>
 
-      <h2>4. Uso aceptable</h2>
-      <p>
-        Te comprometes a usar la herramienta de forma legal y respetando los términos de Instagram/Meta. Esta app solo facilita un análisis local de
-        tus datos.
-      </p>
+      <h2>{t('legal.terms.useTitle')}</h2>
+      <p>{t('legal.terms.use')}</p>
 
-      <h2>5. Limitación de responsabilidad</h2>
-      <p>
-        El creador no se hace responsable por cambios en la exportación de Instagram, errores de compatibilidad, o decisiones que tomes basadas en el
-        resultado. La herramienta se ofrece “tal cual”.
-      </p>
+      <h2>{t('legal.terms.liabilityTitle')}</h2>
+      <p>{t('legal.terms.liability')}</p>
 
-      <h2>6. Cambios</h2>
-      <p>
-        Podemos actualizar estos términos/privacidad en el futuro. La fecha de vigencia indica la versión actual.
-      </p>
+      <h2>{t('legal.terms.changesTitle')}</h2>
+      <p>{t('legal.terms.changes')}</p>
     </section>
   )
 }
-
@@ -0,0 +1,37 @@
+/**
+ * Página 404: la ruta del hash no existe (ej: un enlace viejo o mal copiado).
+ *
+ * Relación con otros archivos:
+ * - `src/App.tsx` la muestra cuando `parseRoute` (`src/lib/routes.ts`) devuelve `notFound`.
+ *
+ * Nota:
+ * - Los datos cargados viven en `App`, así que volver al escáner los encuentra tal cual.
+ */
+
+import { useI18n } from '../components/i18nContext'
+import { RichText } from '../components/RichText'
+
+type Props = {
+  path: string
+  onBack: () => void
+}
+
+export function NotFoundPage({ path, onBack }: Props) {
+  const { t } = useI18n()
+
+  return (
+    <div className="appShell">
+      <main className="content">
+        <section className="card notFound">
+          <h2>{t('route.notFoundTitle')}</h2>
+          <p className="hint">
+            <RichText text={t('route.notFoundText', { path })} />
+          </p>
+          <button type="button" onClick={onBack}>
+            {t('route.home')}
+          </button>
+        </section>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+/**
+ * Service worker: guarda la app completa en el dispositivo para que abra sin conexión y recibe los archivos
+ * compartidos desde otras apps.
+ *
+ * Relación con otros archivos:
+ * - Lo compila `vite/serviceWorkerPlugin.ts` como `/sw.js`, reemplazando `__PRECACHE__` por la versión y la lista
+ *   de archivos del build (así cada build nuevo es un service worker nuevo).
+ * - Lo registra `src/lib/pwa.ts`, que también lee los archivos compartidos.
+ * - El destino de compartir (`/share-target`) está declarado en `public/manifest.webmanifest`.
+ *
+ * Estrategia:
+ * - install: descarga todos los archivos del build a una caché con la versión en el nombre. No se activa solo:
+ *   espera a que la página le pida `skip-waiting` (el usuario aceptó el aviso de versión nueva).
+ * - activate: borra las cachés de versiones anteriores.
+ * - fetch: todo lo del propio sitio sale de la caché (las navegaciones, del `index.html` guardado); si algo no
+ *   está, se pide a la red. Nada se sube: el único POST que atiende es el de compartir, y queda en el dispositivo.
+ */
+
+declare const __PRECACHE__: { version: string; urls: string[] }
+
+const sw = self as unknown as ServiceWorkerGlobalScope
+
+const CACHE_PREFIX = 'escaner-ig-app-'
+const CACHE_NAME = `${CACHE_PREFIX}${__PRECACHE__.version}`
+const INDEX_URL = new URL('index.html', sw.registration.scope).href
+const SHARE_TARGET_URL = new URL('share-target', sw.registration.scope).href
+
+// Deben coincidir con `src/lib/pwa.ts`.
+const SHARE_CACHE = 'escaner-ig-share'
+const FILE_NAME_HEADER = 'x-file-name'
+const SHARE_TARGET_PARAM = 'share-target'
+const SKIP_WAITING_MESSAGE = 'skip-waiting'
+
+sw.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll(__PRECACHE__.urls)))
+})
+
+sw.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      for (const name of await caches.keys()) {
+        if (name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME) await caches.delete(name)
+      }
+      await sw.clients.claim()
+    })(),
+  )
+})
+
+sw.addEventListener('message', (event) => {
+  if (event.data === SKIP_WAITING_MESSAGE) void sw.skipWaiting()
+})
+
+/**
+ * Guarda los archivos compartidos y abre la app con `?share-target`, donde la página los toma.
+ */
+async function receiveShare(request: Request): Promise<Response> {
+  const form = await request.formData()
+  const files = form.getAll('files').filter((value): value is File => value instanceof File)
+
+  const cache = await caches.open(SHARE_CACHE)
+  for (const old of await cache.keys()) await cache.delete(old)
+  for (const [i, file] of files.entries()) {
+    const headers = { 'content-type': file.type || 'application/octet-stream', [FILE_NAME_HEADER]: encodeURIComponent(file.name) }
+    await cache.put(new URL(`shared/${i}`, sw.registration.scope).href, new Response(file, { headers }))
+  }
+
+  const target = new URL(sw.registration.scope)
+  target.searchParams.set(SHARE_TARGET_PARAM, '')
+  return Response.redirect(target.href, 303)
+}
+
+async function fromCache(request: Request): Promise<Response> {
+  const cache = await caches.open(CACHE_NAME)
+  const cached = await cache.match(request.mode === 'navigate' ? INDEX_URL : request)
+  return cached ?? fetch(request)
+}
+
+sw.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (new URL(request.url).origin !== sw.location.origin) return
+
+  if (request.method === 'POST' && request.url === SHARE_TARGET_URL) {
+    event.respondWith(receiveShare(request))
+    return
+  }
+  if (request.method === 'GET') event.respondWith(fromCache(request))
+})
@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite'
+
+// CLI para Node (`cli/escaner-ig.ts`): un solo archivo, sin dependencias en tiempo de ejecución.
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: 'cli/escaner-ig.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: 'escaner-ig.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+  ssr: {
+    noExternal: true,
+  },
+})
@@ -0,0 +1,55 @@
+import { createHash } from 'node:crypto'
+import { readdir, readFile } from 'node:fs/promises'
+import path from 'node:path'
+import { transformWithEsbuild, type Plugin, type ResolvedConfig } from 'vite'
+
+const SOURCE = 'sw/serviceWorker.ts'
+
+async function listPublicFiles(dir: string, prefix = ''): Promise<string[]> {
+  const files: string[] = []
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    if (entry.isDirectory()) files.push(...(await listPublicFiles(path.join(dir, entry.name), `${prefix}${entry.name}/`)))
+    else if (entry.isFile()) files.push(`${prefix}${entry.name}`)
+  }
+  return files
+}
+
+/**
+ * Publica `/sw.js` (desde `sw/serviceWorker.ts`) con la lista de archivos del build a guardar para usar la app
+ * sin conexión. La versión es un hash del contenido: cada build distinto da un service worker distinto,
+ * y el navegador lo detecta como actualización (ver `src/lib/pwa.ts`).
+ */
+export function serviceWorkerPlugin(): Plugin {
+  let config: ResolvedConfig
+
+  return {
+    name: 'escaner-ig:service-worker',
+    apply: 'build',
+    enforce: 'post',
+    configResolved(resolved) {
+      config = resolved
+    },
+    async generateBundle(_options, bundle) {
+      const publicFiles = config.publicDir ? await listPublicFiles(config.publicDir) : []
+      const files = [...new Set([...Object.keys(bundle), ...publicFiles])].filter((f) => !f.endsWith('.map')).sort()
+
+      const hash = createHash('sha256')
+      for (const file of files) {
+        const output = bundle[file]
+        hash.update(file)
+        if (output?.type === 'asset') hash.update(output.source)
+        else if (output?.type === 'chunk') hash.update(output.code)
+      }
+
+      const precache = { version: hash.digest('hex').slice(0, 12), urls: files.map((f) => `${config.base}${f}`) }
+      const source = await readFile(path.resolve(config.root, SOURCE), 'utf8')
+      const { code } = await transformWithEsbuild(source, SOURCE, {
+        loader: 'ts',
+        target: 'es2022',
+        minify: true,
+        define: { __PRECACHE__: JSON.stringify(precache) },
+      })
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source: code })
+    },
+  }
+}